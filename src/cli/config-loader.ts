@@ -7,13 +7,17 @@ import path from 'path';
 /**
  * Load and validate config file
  */
-export async function loadConfig(configPath: string): Promise<Config> {
+export async function loadConfig(
+  configPath: string,
+  options: { fresh?: boolean } = {}
+): Promise<Config> {
   try {
     const absolutePath = path.resolve(process.cwd(), configPath);
     
     // Dynamic import using file URL (works with both ESM and CJS)
+    // A query string bypasses the module cache when reloading in watch mode
     const fileUrl = pathToFileURL(absolutePath).href;
-    const module = await import(fileUrl);
+    const module = await import(options.fresh ? `${fileUrl}?t=${Date.now()}` : fileUrl);
     
     const config = module.default || module;
     
@@ -1,9 +1,16 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { Generator } from '../core/generator';
+import { Generator, type CheckStatus } from '../core/generator';
+import { SchemaWatcher } from '../core/watcher';
+import { DataMigrator } from '../core/data-migrator';
+import { importPrismaSchema } from '../core/schema-importer';
+import { generateFactories } from '../core/factories-writer';
+import { diffSchemas, exceedsSeverity, type ChangeSeverity } from '../core/schema-diff';
+import { extractEnumsFromPrismaFile, extractModelsFromPrismaFile } from '../utils/prisma-parser';
 import { loadConfig } from './config-loader';
-import { createPrismaClient } from './prisma-loader';
+import type { Config } from '../types/config';
+import { createPrismaClient, createGeneratedPrismaClient } from './prisma-loader';
 import ora from 'ora';
 import chalk from 'chalk';
 import prompts from 'prompts';
@@ -32,12 +39,16 @@ program
   .command('generate')
   .description('Generate Prisma schema from EAV database')
   .option('-c, --config <path>', 'Path to config file', 'eav-to-prisma.config.ts')
+  .option('-w, --watch', 'Regenerate when definitions, external models or the config change')
+  .option('--interval <ms>', 'Poll interval for --watch', '1000')
+  .option('--check', 'Exit with code 2 when the schema file is out of date instead of writing it')
+  .option('--no-validate', "Write the schema without checking it with Prisma's schema engine")
   .action(async (options) => {
     const spinner = ora('Loading configuration...').start();
 
     try {
       // Load config
-      const config = await loadConfig(options.config);
+      const config = withValidation(await loadConfig(options.config), options.validate);
       spinner.succeed('Configuration loaded');
 
       // Connect to database only if not using direct input
@@ -52,6 +63,27 @@ program
         process.exit(1);
       }
 
+      if (options.watch) {
+        watchSchema(config, prisma, options);
+        return;
+      }
+
+      if (options.check) {
+        spinner.start('Checking Prisma schema...');
+        const check = await new Generator(config, prisma).check();
+        await prisma?.$disconnect();
+
+        if (check.upToDate) {
+          spinner.succeed(`${check.schemaPath} is up to date`);
+          process.exit(0);
+        }
+
+        spinner.fail(`${check.schemaPath} is out of date (${CHECK_REASONS[check.status]})`);
+        console.log('\n' + colorDiff(check.diff));
+        console.log(`Run ${chalk.cyan('npx eav-to-prisma generate')} to update it`);
+        process.exit(2);
+      }
+
       // Generate schema
       spinner.start('Generating Prisma schema...');
       const generator = new Generator(config, prisma);
@@ -60,9 +92,33 @@ program
 
       // Write to file
       spinner.start('Writing schema to file...');
-      await generator.write();
+      await generator.writeResult(result);
       const schemaPath = config.output?.schemaPath || './prisma/schema.prisma';
       spinner.succeed(`Schema written to ${schemaPath}`);
+      if (result.derivedSql) {
+        spinner.succeed(`Generated column SQL written to ${generator.derivedSqlPath()}`);
+      }
+      if (result.derivedExtension) {
+        spinner.succeed(`Derived fields extension written to ${generator.derivedExtensionPath()}`);
+      }
+      if (result.localizedExtension) {
+        spinner.succeed(`Localized models extension written to ${generator.localizedExtensionPath()}`);
+      }
+      if (result.types) {
+        spinner.succeed(`Content types written to ${config.output?.typesPath}`);
+      }
+      if (result.zod) {
+        spinner.succeed(`Zod schemas written to ${config.output?.zodPath}`);
+      }
+      if (result.jsonSchema) {
+        spinner.succeed(`JSON Schema written to ${config.output?.jsonSchemaPath}`);
+      }
+      if (result.openApi) {
+        spinner.succeed(`OpenAPI components written to ${config.output?.openApiPath}`);
+      }
+      if (result.graphql) {
+        spinner.succeed(`GraphQL schema written to ${config.output?.graphqlPath}`);
+      }
 
       // Show summary
       console.log('\n' + chalk.bold('Summary:'));
@@ -79,7 +135,10 @@ program
       const schemaPathForSteps = config.output?.schemaPath || './prisma/schema.prisma';
       console.log(`  1. Review generated schema at ${chalk.cyan(schemaPathForSteps)}`);
       console.log(`  2. Run ${chalk.cyan('npx prisma generate')} to generate Prisma Client`);
-      console.log(`  3. Use the generated client in your application`);
+      if (result.derivedSql) {
+        console.log(`  3. Add ${chalk.cyan(generator.derivedSqlPath())} to the migration creating the derived columns`);
+      }
+      console.log(`  ${result.derivedSql ? 4 : 3}. Use the generated client in your application`);
 
       if (prisma) {
         await prisma.$disconnect();
@@ -92,6 +151,310 @@ program
     }
   });
 
+/**
+ * Apply --no-validate on top of output.validate
+ */
+function withValidation(config: Config, validate: boolean): Config {
+  return validate ? config : { ...config, output: { ...config.output, validate: false } };
+}
+
+const CHECK_REASONS: Record<CheckStatus, string> = {
+  'up-to-date': 'up to date',
+  missing: 'file does not exist',
+  unstamped: 'file was not generated by eav-to-prisma',
+  'definitions-changed': 'definitions changed since it was generated',
+  'generator-changed': 'generated by a different eav-to-prisma version',
+  'hand-edited': 'file was edited by hand'
+};
+
+function colorDiff(diff: string): string {
+  return diff
+    .split('\n')
+    .map(line => {
+      if (line.startsWith('+++') || line.startsWith('---')) return chalk.bold(line);
+      if (line.startsWith('@@')) return chalk.cyan(line);
+      if (line.startsWith('+')) return chalk.green(line);
+      if (line.startsWith('-')) return chalk.red(line);
+      return line;
+    })
+    .join('\n');
+}
+
+/**
+ * Poll sources and regenerate until interrupted, sharing one Prisma client
+ */
+function watchSchema(
+  config: Config,
+  prisma: any,
+  options: { config: string; interval: string; validate: boolean }
+) {
+  const schemaPath = config.output?.schemaPath || './prisma/schema.prisma';
+  const interval = Number(options.interval);
+  const time = () => chalk.gray(`[${new Date().toLocaleTimeString()}]`);
+  let reportedWarnings: string | undefined;
+
+  const watcher = new SchemaWatcher(config, prisma, {
+    interval: Number.isFinite(interval) && interval > 0 ? interval : 1000,
+    configPath: options.config,
+    loadConfig: async (configPath) =>
+      withValidation(await loadConfig(configPath, { fresh: true }), options.validate),
+    onRun: ({ result, written, changed }) => {
+      // Runs that neither wrote the schema nor changed the warnings are quiet
+      const warnings = result.warnings.join('\n');
+      if (!written && warnings === reportedWarnings) return;
+      reportedWarnings = warnings;
+
+      const sources = changed.map(source => source.replace(/^\w+:/, '')).join(', ');
+      console.log(`${time()} ${chalk.gray(`Changed: ${sources}`)}`);
+      console.log(written
+        ? `${time()} ${chalk.green(`✓ Schema written to ${schemaPath}`)}`
+        : `${time()} ${chalk.gray('No changes in generated schema')}`);
+
+      result.warnings.forEach(warning => {
+        console.log(`${time()} ${chalk.yellow(`⚠ ${warning}`)}`);
+      });
+    },
+    onError: (error) => {
+      console.error(`${time()} ${chalk.red('Error:')} ${error.message}`);
+    }
+  });
+
+  console.log(chalk.bold(`\nWatching for changes (Ctrl+C to stop)...`));
+  watcher.start();
+
+  process.once('SIGINT', async () => {
+    watcher.stop();
+    if (prisma) {
+      await prisma.$disconnect();
+    }
+    process.exit(0);
+  });
+}
+
+/**
+ * Compare the schema that would be generated with the previous one
+ */
+program
+  .command('diff')
+  .description('Classify changes between the previous and the newly generated schema')
+  .option('-c, --config <path>', 'Path to config file', 'eav-to-prisma.config.ts')
+  .option('--against <path>', 'Previous schema file (defaults to output.schemaPath)')
+  .option('--fail-on <severity>', 'Exit with code 2 on changes of this severity or worse (safe, risky, destructive)', 'destructive')
+  .action(async (options) => {
+    const spinner = ora('Loading configuration...').start();
+    let prisma;
+
+    try {
+      const failOn = options.failOn as ChangeSeverity;
+      if (!['safe', 'risky', 'destructive'].includes(failOn)) {
+        throw new Error(`Invalid --fail-on value "${options.failOn}"`);
+      }
+
+      const config = await loadConfig(options.config);
+      spinner.succeed('Configuration loaded');
+
+      const previousPath = options.against || config.output?.schemaPath || './prisma/schema.prisma';
+      const previousModels = extractModelsFromPrismaFile(previousPath);
+      const previousEnums = extractEnumsFromPrismaFile(previousPath);
+
+      if (!config.input && config.connection) {
+        spinner.start('Connecting to database...');
+        prisma = await createPrismaClient(config.connection);
+        spinner.succeed('Connected to database');
+      }
+
+      spinner.start('Generating Prisma schema...');
+      const generator = new Generator(config, prisma);
+      const result = await generator.generate();
+      spinner.succeed('Schema generated');
+
+      const changes = diffSchemas(
+        previousModels,
+        result.prismaSchema.models,
+        previousEnums,
+        result.prismaSchema.enums
+      );
+
+      if (changes.length === 0) {
+        console.log('\n' + chalk.green(`✓ No changes against ${previousPath}`));
+      }
+
+      const groups: Array<[ChangeSeverity, (text: string) => string, string]> = [
+        ['destructive', chalk.red, '✗'],
+        ['risky', chalk.yellow, '⚠'],
+        ['safe', chalk.green, '+']
+      ];
+
+      for (const [severity, color, icon] of groups) {
+        const group = changes.filter(c => c.severity === severity);
+        if (group.length === 0) continue;
+
+        console.log('\n' + chalk.bold(color(`${severity[0]!.toUpperCase()}${severity.slice(1)} (${group.length}):`)));
+        group.forEach(change => {
+          console.log(color(`  ${icon} ${change.message}`));
+        });
+      }
+
+      if (prisma) {
+        await prisma.$disconnect();
+      }
+      process.exit(exceedsSeverity(changes, failOn) ? 2 : 0);
+    } catch (error) {
+      spinner.fail('Diff failed');
+      console.error('\n' + chalk.red('Error:'), (error as Error).message);
+      process.exit(1);
+    }
+  });
+
+/**
+ * Copy EAV instance rows into the generated tables
+ */
+program
+  .command('migrate-data')
+  .description('Copy EAV instance rows into the tables of the generated schema')
+  .option('-c, --config <path>', 'Path to config file', 'eav-to-prisma.config.ts')
+  .option('--target <url>', 'Connection string for the generated database (defaults to output.datasource.url)')
+  .option('--dry-run', 'Plan the migration and report issues without writing rows')
+  .action(async (options) => {
+    const spinner = ora('Loading configuration...').start();
+    let source;
+    let target;
+
+    try {
+      const config = await loadConfig(options.config);
+      spinner.succeed('Configuration loaded');
+
+      if (!config.connection) {
+        spinner.fail('No EAV connection configured');
+        console.error('\n' + chalk.red('Error: migrate-data reads instances from the database in config.connection'));
+        process.exit(1);
+      }
+
+      spinner.start('Connecting to databases...');
+      source = await createPrismaClient(config.connection);
+      target = await createGeneratedPrismaClient(
+        options.target || config.output?.datasource?.url || 'env("DATABASE_URL")',
+        config.output?.clientPath,
+        config.output?.schemaPath
+      );
+      spinner.succeed('Connected to databases');
+
+      spinner.start(options.dryRun ? 'Planning data migration...' : 'Migrating instance data...');
+      const migrator = new DataMigrator(config, source, target);
+      const result = await migrator.migrate({ dryRun: options.dryRun });
+      spinner.succeed(options.dryRun ? 'Migration planned (dry run)' : 'Instance data migrated');
+
+      console.log('\n' + chalk.bold('Summary:'));
+      console.log(chalk.green(`✓ Read ${result.instancesRead} instance rows`));
+      for (const [model, count] of Object.entries(result.recordsWritten)) {
+        console.log(chalk.green(`✓ ${model}: ${count} rows${result.dryRun ? ' (not written)' : ''}`));
+      }
+
+      if (result.issues.length > 0) {
+        console.log('\n' + chalk.yellow(`Skipped (${result.issues.length}):`));
+        result.issues.forEach(issue => {
+          console.log(chalk.yellow(`  ⚠ ${issue.model} ${issue.instanceId}: ${issue.message}`));
+        });
+      }
+
+      await source.$disconnect();
+      await target.$disconnect();
+      process.exit(result.issues.length > 0 ? 2 : 0);
+    } catch (error) {
+      spinner.fail('Data migration failed');
+      console.error('\n' + chalk.red('Error:'), (error as Error).message);
+      await source?.$disconnect();
+      await target?.$disconnect();
+      process.exit(1);
+    }
+  });
+
+/**
+ * Write seed factories for the content models
+ */
+program
+  .command('generate-factories')
+  .description('Write deterministic seed factories for every content model')
+  .option('-c, --config <path>', 'Path to config file', 'eav-to-prisma.config.ts')
+  .option('-o, --output <path>', 'Factories file (defaults to output.factoriesPath)')
+  .action(async (options) => {
+    const spinner = ora('Loading configuration...').start();
+    let prisma;
+
+    try {
+      const config = await loadConfig(options.config);
+      spinner.succeed('Configuration loaded');
+
+      if (!config.input && config.connection) {
+        spinner.start('Connecting to database...');
+        prisma = await createPrismaClient(config.connection);
+        spinner.succeed('Connected to database');
+      }
+
+      spinner.start('Generating seed factories...');
+      const result = await generateFactories(config, prisma);
+      await prisma?.$disconnect();
+
+      const outputPath = options.output || config.output?.factoriesPath || './prisma/factories.ts';
+      await fs.mkdir(dirname(outputPath), { recursive: true });
+      await fs.writeFile(outputPath, result.factories, 'utf-8');
+      spinner.succeed(`Seed factories written to ${outputPath}`);
+
+      if (result.warnings.length > 0) {
+        console.log('\n' + chalk.yellow('Warnings:'));
+        result.warnings.forEach(warning => {
+          console.log(chalk.yellow(`  ⚠ ${warning}`));
+        });
+      }
+    } catch (error) {
+      spinner.fail('Factory generation failed');
+      console.error('\n' + chalk.red('Error:'), (error as Error).message);
+      await prisma?.$disconnect();
+      process.exit(1);
+    }
+  });
+
+/**
+ * Turn an existing Prisma schema into EAV definitions
+ */
+program
+  .command('import <schema>')
+  .description('Convert an existing Prisma schema into EAV model and component definitions')
+  .option('-o, --output <path>', 'Write definitions JSON to a file instead of stdout')
+  .option('--prefix <prefix>', 'Naming prefix to strip from model names')
+  .option('--media-model <name>', 'Model treated as media', 'Media')
+  .action(async (schemaPath, options) => {
+    try {
+      const result = importPrismaSchema(schemaPath, {
+        prefix: options.prefix,
+        mediaModel: options.mediaModel
+      });
+      const json = JSON.stringify(
+        { models: result.models, components: result.components },
+        null,
+        2
+      );
+
+      if (options.output) {
+        await fs.mkdir(dirname(options.output), { recursive: true });
+        await fs.writeFile(options.output, json + '\n', 'utf-8');
+        console.log(chalk.green(`✓ Imported ${result.models.length} models and ${result.components.length} components to ${options.output}`));
+      } else {
+        console.log(json);
+      }
+
+      if (result.warnings.length > 0) {
+        console.error('\n' + chalk.yellow('Warnings:'));
+        result.warnings.forEach(warning => {
+          console.error(chalk.yellow(`  ⚠ ${warning}`));
+        });
+      }
+    } catch (error) {
+      console.error(chalk.red('Error:'), (error as Error).message);
+      process.exit(1);
+    }
+  });
+
 /**
  * Initialize config file
  */
@@ -1,6 +1,8 @@
 // src/cli/prisma-loader.ts
 
 import { PrismaClient } from '@prisma/client';
+import { pathToFileURL } from 'url';
+import path from 'path';
 
 /**
  * Create Prisma client from connection string
@@ -9,16 +11,7 @@ import { PrismaClient } from '@prisma/client';
  * The connection string should point to their existing database.
  */
 export async function createPrismaClient(connectionString: string): Promise<any> {
-  // Extract datasource URL from connection string
-  let datasourceUrl = connectionString;
-  
-  // If it's already an env() reference, resolve it
-  if (connectionString.startsWith('env(')) {
-    const envVar = connectionString.match(/env\("(.+)"\)/)?.[1];
-    if (envVar && process.env[envVar]) {
-      datasourceUrl = process.env[envVar];
-    }
-  }
+  const datasourceUrl = resolveConnectionString(connectionString);
   
   // Create Prisma client with datasource override
   const prisma = new PrismaClient({
@@ -37,4 +30,59 @@ export async function createPrismaClient(connectionString: string): Promise<any>
   }
   
   return prisma;
-}
\ No newline at end of file
+}
+
+/**
+ * Create a client for the generated schema (used by migrate-data)
+ * 
+ * Loads the client from `output.clientPath` when set, otherwise from @prisma/client.
+ * Like the generator's `output`, clientPath is relative to the schema file.
+ */
+export async function createGeneratedPrismaClient(
+  connectionString: string,
+  clientPath?: string,
+  schemaPath = './prisma/schema.prisma'
+): Promise<any> {
+  const GeneratedClient = clientPath
+    ? await loadClientFromPath(path.resolve(path.dirname(schemaPath), clientPath))
+    : PrismaClient;
+  
+  if (!GeneratedClient) {
+    throw new Error(`No PrismaClient found in ${clientPath || '@prisma/client'}. Run 'npx prisma generate' first.`);
+  }
+  
+  const prisma = new GeneratedClient({
+    datasources: {
+      db: {
+        url: resolveConnectionString(connectionString)
+      }
+    }
+  });
+  
+  try {
+    await prisma.$connect();
+  } catch (error) {
+    throw new Error(`Failed to connect to target database: ${(error as Error).message}`);
+  }
+  
+  return prisma;
+}
+
+async function loadClientFromPath(clientPath: string): Promise<any> {
+  const module = await import(pathToFileURL(path.join(clientPath, 'index.js')).href);
+  return module.PrismaClient || module.default?.PrismaClient;
+}
+
+/**
+ * Resolve env("VAR") references to their value
+ */
+function resolveConnectionString(connectionString: string): string {
+  if (connectionString.startsWith('env(')) {
+    const envVar = connectionString.match(/env\("(.+)"\)/)?.[1];
+    if (envVar && process.env[envVar]) {
+      return process.env[envVar]!;
+    }
+  }
+  
+  return connectionString;
+}
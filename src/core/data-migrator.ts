@@ -0,0 +1,851 @@
+// src/core/data-migrator.ts
+
+import { Generator } from "./generator";
+import {
+  buildComponentTableName,
+  buildModelName,
+  separateFields,
+  type SchemaBuilderConfig,
+} from "./schema-builder";
+import { resolveJunction } from "../mappers/relation-mapper";
+import {
+  mapMediaUsages,
+  needsMediaJunction,
+  resolveMediaJunction,
+} from "../mappers/media-mapper";
+import {
+  DYNAMIC_ZONE_TYPE_KEY,
+  dynamicZoneBlockKey,
+  isDynamicZone,
+} from "../mappers/component-mapper";
+import {
+  extractReferenceIds,
+  mapValueToColumns,
+} from "../mappers/value-mapper";
+import { toDelegateName, toSnakeCase } from "../utils/naming";
+import type { Config } from "../types/config";
+import type {
+  ComponentEntityType,
+  FieldDefinitionType,
+  ModelConfigType,
+} from "../field-config-schema";
+
+export interface EAVInstanceRow {
+  id: string;
+  model_id: string;
+  lang?: string;
+  attribute_values: string; // JSON string: { [fieldKey]: value }
+  [key: string]: any; // Allow custom columns
+}
+
+/**
+ * Normalized instance row - what `mapper.instance` must return
+ */
+export interface EAVInstance {
+  id: string;
+  model: string; // Model slug or content_model row id
+  entity?: string; // Rows sharing an entity are translations of one record
+  lang?: string;
+  values: Record<string, any>;
+}
+
+export interface MigrationRecord {
+  model: string; // Generated Prisma model name
+  instanceId: string;
+  data: Record<string, unknown>;
+  where?: { id: string }; // Set for updates of a row written before
+  key?: string; // Junction rows: both sides of a relation plan them, written once
+}
+
+export interface MigrationIssue {
+  model: string;
+  instanceId: string;
+  message: string;
+}
+
+export interface MigrationPlan {
+  records: MigrationRecord[];
+  deferred: MigrationRecord[]; // Junction rows and relation updates, written once every model exists
+  issues: MigrationIssue[];
+}
+
+export interface MigrationPlanConfig extends SchemaBuilderConfig {
+  defaultLang?: string;
+}
+
+export interface MigrationResult {
+  instancesRead: number;
+  recordsWritten: Record<string, number>;
+  issues: MigrationIssue[];
+  dryRun: boolean;
+}
+
+/**
+ * Plan the rows one model's instances become in the generated tables
+ *
+ * Instances are grouped by entity; the default-language row supplies the
+ * non-translatable columns and every row adds a translation by its `lang`.
+ * Optional to-one FKs and oneToMany relations are deferred updates, so
+ * they can point at rows of models written later.
+ * An entity with any value that cannot be coerced is skipped and reported.
+ */
+export function planModelMigration(
+  model: ModelConfigType,
+  instances: EAVInstance[],
+  components: Map<string, ComponentEntityType>,
+  config: MigrationPlanConfig
+): MigrationPlan {
+  const plan: MigrationPlan = { records: [], deferred: [], issues: [] };
+
+  for (const rows of groupByEntity(instances).values()) {
+    const primary =
+      rows.find((r) => r.lang === config.defaultLang) ?? rows[0]!;
+
+    try {
+      const entityPlan = planEntity(model, rows, primary, components, config);
+      plan.records.push(...entityPlan.records);
+      plan.deferred.push(...entityPlan.deferred);
+    } catch (error) {
+      plan.issues.push({
+        model: model.slug,
+        instanceId: primary.id,
+        message: (error as Error).message,
+      });
+    }
+  }
+
+  return plan;
+}
+
+function groupByEntity(instances: EAVInstance[]): Map<string, EAVInstance[]> {
+  const groups = new Map<string, EAVInstance[]>();
+
+  for (const instance of instances) {
+    const key = instance.entity ?? instance.id;
+    const group = groups.get(key);
+    if (group) {
+      group.push(instance);
+    } else {
+      groups.set(key, [instance]);
+    }
+  }
+
+  return groups;
+}
+
+function planEntity(
+  model: ModelConfigType,
+  rows: EAVInstance[],
+  primary: EAVInstance,
+  components: Map<string, ComponentEntityType>,
+  config: MigrationPlanConfig
+): Omit<MigrationPlan, "issues"> {
+  const modelName = buildModelName(model.slug, config);
+  const entityId = primary.entity ?? primary.id;
+  const records: MigrationRecord[] = [];
+  const deferred: MigrationRecord[] = [];
+
+  const fields = model.fields.filter((f) => !f.derived);
+  const { translatable, nonTranslatable, components: componentFields } =
+    separateFields(fields);
+
+  const mainFields = config.i18nEnabled
+    ? nonTranslatable
+    : [...nonTranslatable, ...translatable];
+
+  records.push(
+    ...planRow(modelName, entityId, {}, mainFields, primary.values, primary, config)
+  );
+
+  records.push(
+    ...planMediaUsages(modelName, entityId, mainFields, primary, primary.values, config)
+  );
+
+  if (config.i18nEnabled && translatable.length > 0) {
+    records.push(
+      ...planTranslations(
+        `${modelName}Translation`,
+        `${toSnakeCase(modelName)}_id`,
+        entityId,
+        translatable,
+        rows,
+        (row) => row.values,
+        config
+      )
+    );
+  }
+
+  for (const field of componentFields) {
+    records.push(
+      ...planComponentField(
+        modelName,
+        entityId,
+        field,
+        (row) => row.values,
+        components,
+        rows,
+        primary,
+        config,
+        []
+      )
+    );
+  }
+
+  for (const field of nonTranslatable) {
+    if (
+      field.config?.type !== "relation" ||
+      field.config.relationType !== "manyToMany"
+    ) {
+      continue;
+    }
+
+    const junction = resolveJunction(modelName, field, config);
+    const targetIds = extractReferenceIds(primary.values[field.key]);
+
+    targetIds.forEach((targetId, order) => {
+      const columns = [`${junction.fromFk}=${entityId}`, `${junction.toFk}=${targetId}`];
+
+      deferred.push({
+        model: junction.tableName,
+        instanceId: primary.id,
+        data: {
+          [junction.fromFk]: entityId,
+          [junction.toFk]: targetId,
+          order,
+        },
+        key: `${junction.tableName}:${columns.sort().join(",")}`,
+      });
+    });
+  }
+
+  return {
+    records: records.filter((r) => !r.where),
+    deferred: [...records.filter((r) => r.where), ...deferred],
+  };
+}
+
+/**
+ * A table row and the update setting its relations once every row exists:
+ * optional to-one FKs and the targets of oneToMany relations, connected
+ * through the relation field. Required FKs stay on the row, migrate()
+ * writes the models they point at first.
+ */
+function planRow(
+  tableName: string,
+  rowId: string,
+  columns: Record<string, unknown>,
+  fields: FieldDefinitionType[],
+  values: Record<string, any>,
+  primary: EAVInstance,
+  config: MigrationPlanConfig
+): MigrationRecord[] {
+  const data: Record<string, unknown> = {
+    id: rowId,
+    ...columns,
+    ...mapValues(fields, values, config),
+  };
+  const update: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    if (field.config?.type !== "relation") continue;
+    const { relationType } = field.config;
+
+    if (relationType === "oneToMany") {
+      const ids = extractReferenceIds(values[field.key]);
+      if (ids.length > 0) {
+        update[field.key] = { connect: ids.map((id) => ({ id })) };
+      }
+    } else if (relationType !== "manyToMany" && !field.required) {
+      const fk = `${field.key}_id`;
+      if (fk in data) {
+        update[fk] = data[fk];
+        delete data[fk];
+      }
+    }
+  }
+
+  const records: MigrationRecord[] = [
+    { model: tableName, instanceId: primary.id, data },
+  ];
+
+  if (Object.keys(update).length > 0) {
+    records.push({
+      model: tableName,
+      instanceId: primary.id,
+      where: { id: rowId },
+      data: update,
+    });
+  }
+
+  return records;
+}
+
+/**
+ * Where component rows go: the table, its FK to the parent row and the
+ * prefix of their ids (`${prefix}_${index}`)
+ */
+interface ComponentTarget {
+  tableName: string;
+  parentFk: string;
+  parentId: string;
+  idPrefix: string;
+  ordered: boolean; // Repeatable components keep their position in `order`
+}
+
+/**
+ * Rows of a component field under a parent row: component rows, or zone
+ * rows with their blocks for a dynamic zone. valuesOf reads the values
+ * holding the field from an instance row, path holds the component slugs
+ * above - components nesting themselves have no tables and are skipped.
+ */
+function planComponentField(
+  parentTable: string,
+  parentId: string,
+  field: FieldDefinitionType,
+  valuesOf: (row: EAVInstance) => Record<string, any> | undefined,
+  components: Map<string, ComponentEntityType>,
+  rows: EAVInstance[],
+  primary: EAVInstance,
+  config: MigrationPlanConfig,
+  path: string[]
+): MigrationRecord[] {
+  if (field.config?.type !== "component") return [];
+
+  if (isDynamicZone(field)) {
+    return planDynamicZone(
+      parentTable,
+      parentId,
+      field,
+      valuesOf,
+      components,
+      rows,
+      primary,
+      config,
+      path
+    );
+  }
+
+  const slug = field.config.slug!;
+  if (path.includes(slug)) return [];
+
+  const repeatable = field.config.repeatable || false;
+  const itemsOf = (row: EAVInstance) =>
+    toComponentItems(field, valuesOf(row)?.[field.key], repeatable);
+
+  return planComponent(
+    {
+      tableName: buildComponentTableName(parentTable, field.key, config),
+      parentFk: `${toSnakeCase(parentTable)}_id`,
+      parentId,
+      idPrefix: `${parentId}_${field.key}`,
+      ordered: repeatable,
+    },
+    findComponent(components, slug, field),
+    itemsOf(primary),
+    (row, index) => itemsOf(row)[index],
+    components,
+    rows,
+    primary,
+    config,
+    [...path, slug]
+  );
+}
+
+function planComponent(
+  target: ComponentTarget,
+  component: ComponentEntityType,
+  items: Record<string, any>[],
+  itemIn: (row: EAVInstance, index: number) => Record<string, any> | undefined,
+  components: Map<string, ComponentEntityType>,
+  rows: EAVInstance[],
+  primary: EAVInstance,
+  config: MigrationPlanConfig,
+  path: string[]
+): MigrationRecord[] {
+  const { tableName } = target;
+  const records: MigrationRecord[] = [];
+
+  const { translatable, nonTranslatable, components: nested } =
+    separateFields(component.fields);
+  const columnFields = config.i18nEnabled
+    ? nonTranslatable
+    : [...nonTranslatable, ...translatable];
+
+  items.forEach((item, index) => {
+    const componentId = `${target.idPrefix}_${index}`;
+
+    records.push(
+      ...planRow(
+        tableName,
+        componentId,
+        {
+          [target.parentFk]: target.parentId,
+          ...(target.ordered ? { order: index } : {}),
+        },
+        columnFields,
+        item,
+        primary,
+        config
+      )
+    );
+    records.push(
+      ...planMediaUsages(tableName, componentId, columnFields, primary, item, config)
+    );
+
+    if (config.i18nEnabled && translatable.length > 0) {
+      records.push(
+        ...planTranslations(
+          `${tableName}Translation`,
+          `${toSnakeCase(tableName)}_id`,
+          componentId,
+          translatable,
+          rows,
+          (row) => itemIn(row, index),
+          config
+        )
+      );
+    }
+
+    // Nested components are child rows of this one
+    for (const field of nested) {
+      records.push(
+        ...planComponentField(
+          tableName,
+          componentId,
+          field,
+          (row) => itemIn(row, index),
+          components,
+          rows,
+          primary,
+          config,
+          path
+        )
+      );
+    }
+  });
+
+  return records;
+}
+
+/**
+ * Zone rows in block order, each followed by the block's row in the table
+ * of its component type (`__component` of the stored block)
+ */
+function planDynamicZone(
+  parentTable: string,
+  parentId: string,
+  field: FieldDefinitionType,
+  valuesOf: (row: EAVInstance) => Record<string, any> | undefined,
+  components: Map<string, ComponentEntityType>,
+  rows: EAVInstance[],
+  primary: EAVInstance,
+  config: MigrationPlanConfig,
+  path: string[]
+): MigrationRecord[] {
+  const slugs = (
+    field.config?.type === "component" ? field.config.components ?? [] : []
+  ).filter((slug) => !path.includes(slug));
+  const zoneTable = buildComponentTableName(parentTable, field.key, config);
+  const blocksOf = (row: EAVInstance) =>
+    toComponentItems(field, valuesOf(row)?.[field.key], true);
+
+  return blocksOf(primary).flatMap((block, index) => {
+    const slug = block[DYNAMIC_ZONE_TYPE_KEY];
+    if (typeof slug !== "string" || !slugs.includes(slug)) {
+      throw new Error(
+        `Block ${index} of dynamic zone "${field.key}" has ${DYNAMIC_ZONE_TYPE_KEY} ${JSON.stringify(slug)}, expected one of ${slugs.join(", ")}`
+      );
+    }
+
+    const zoneId = `${parentId}_${field.key}_${index}`;
+    const blockKey = dynamicZoneBlockKey(slug);
+    const sameBlock = (row: EAVInstance) => {
+      const other = blocksOf(row)[index];
+      return other?.[DYNAMIC_ZONE_TYPE_KEY] === slug ? other : undefined;
+    };
+
+    return [
+      {
+        model: zoneTable,
+        instanceId: primary.id,
+        data: {
+          id: zoneId,
+          [`${toSnakeCase(parentTable)}_id`]: parentId,
+          order: index,
+          type: slug,
+        },
+      },
+      ...planComponent(
+        {
+          tableName: buildComponentTableName(zoneTable, blockKey, config),
+          parentFk: `${toSnakeCase(zoneTable)}_id`,
+          parentId: zoneId,
+          idPrefix: `${zoneId}_${blockKey}`,
+          ordered: false,
+        },
+        findComponent(components, slug, field),
+        [block],
+        (row) => sameBlock(row),
+        components,
+        rows,
+        primary,
+        config,
+        [...path, slug]
+      ),
+    ];
+  });
+}
+
+function findComponent(
+  components: Map<string, ComponentEntityType>,
+  slug: string,
+  field: FieldDefinitionType
+): ComponentEntityType {
+  const component = components.get(slug);
+  if (!component) {
+    throw new Error(`Component "${slug}" not found for field "${field.key}"`);
+  }
+  return component;
+}
+
+/**
+ * Junction rows of multiple media fields, the media model already exists
+ */
+function planMediaUsages(
+  ownerModel: string,
+  ownerId: string,
+  fields: FieldDefinitionType[],
+  primary: EAVInstance,
+  values: Record<string, unknown>,
+  config: MigrationPlanConfig
+): MigrationRecord[] {
+  const media = config.media;
+  if (!media) return [];
+
+  return fields
+    .filter((field) => needsMediaJunction(field, config))
+    .flatMap((field) => {
+      const junction = resolveMediaJunction(ownerModel, field.key, config);
+
+      return mapMediaUsages(field, values[field.key], media).map((usage) => ({
+        model: junction.tableName,
+        instanceId: primary.id,
+        data: { [junction.ownerFk]: ownerId, ...usage },
+      }));
+    });
+}
+
+function planTranslations(
+  tableName: string,
+  foreignKey: string,
+  ownerId: string,
+  fields: FieldDefinitionType[],
+  rows: EAVInstance[],
+  getValues: (row: EAVInstance) => Record<string, any> | undefined,
+  config: MigrationPlanConfig
+): MigrationRecord[] {
+  const records: MigrationRecord[] = [];
+  const seenLangs = new Set<string>();
+
+  for (const row of rows) {
+    const lang = row.lang ?? config.defaultLang;
+    const values = getValues(row);
+
+    if (!lang) {
+      throw new Error(
+        `Instance "${row.id}" has no lang and i18n.defaultLang is not set`
+      );
+    }
+
+    if (!values || seenLangs.has(lang)) continue;
+    seenLangs.add(lang);
+
+    records.push({
+      model: tableName,
+      instanceId: row.id,
+      data: {
+        [foreignKey]: ownerId,
+        lang,
+        ...mapValues(fields, values, config),
+      },
+    });
+  }
+
+  return records;
+}
+
+function toComponentItems(
+  field: FieldDefinitionType,
+  value: unknown,
+  repeatable: boolean
+): Record<string, any>[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const items = repeatable ? value : [value];
+
+  if (
+    !Array.isArray(items) ||
+    items.some((item) => !item || typeof item !== "object")
+  ) {
+    throw new Error(
+      `Cannot coerce ${JSON.stringify(value)} to component "${field.key}"`
+    );
+  }
+
+  return items;
+}
+
+function mapValues(
+  fields: FieldDefinitionType[],
+  values: Record<string, any>,
+  config: MigrationPlanConfig
+): Record<string, unknown> {
+  const data: Record<string, unknown> = {};
+
+  for (const field of fields) {
+    Object.assign(data, mapValueToColumns(field, values[field.key], config));
+  }
+
+  return data;
+}
+
+/**
+ * Models ordered so the targets of required to-one relations, in their
+ * fields or components, are written before the models pointing at them.
+ * A cycle of required relations is broken where it is first entered.
+ */
+function orderByRequiredRelations(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>
+): ModelConfigType[] {
+  const bySlug = new Map(models.map((m) => [m.slug, m]));
+  const ordered: ModelConfigType[] = [];
+  const visited = new Set<string>();
+
+  const visit = (model: ModelConfigType) => {
+    if (visited.has(model.slug)) return;
+    visited.add(model.slug);
+
+    for (const slug of requiredTargets(model.fields, components, new Set())) {
+      const target = bySlug.get(slug);
+      if (target) visit(target);
+    }
+    ordered.push(model);
+  };
+
+  models.forEach(visit);
+  return ordered;
+}
+
+function requiredTargets(
+  fields: FieldDefinitionType[],
+  components: Map<string, ComponentEntityType>,
+  seen: Set<string>
+): string[] {
+  return fields.flatMap((field) => {
+    const config = field.config;
+
+    if (config?.type === "relation") {
+      const toOne =
+        config.relationType === "oneToOne" ||
+        config.relationType === "manyToOne";
+      return field.required && toOne ? [config.targetModel] : [];
+    }
+    if (config?.type !== "component") return [];
+
+    const slugs = config.components ?? (config.slug ? [config.slug] : []);
+    return slugs.flatMap((slug) => {
+      const component = components.get(slug);
+      if (!component || seen.has(slug)) return [];
+      seen.add(slug);
+      return requiredTargets(component.fields, components, seen);
+    });
+  });
+}
+
+/**
+ * Copies EAV instance rows into the tables produced by Generator
+ */
+export class DataMigrator {
+  private generator: Generator;
+
+  constructor(
+    private config: Config,
+    private sourceClient: any, // EAV database
+    private targetClient: any // Client generated from the output schema
+  ) {
+    if (!sourceClient) {
+      throw new Error("Prisma client is required to read EAV instances");
+    }
+    if (!targetClient) {
+      throw new Error("Target Prisma client is required to write rows");
+    }
+    this.generator = new Generator(config, sourceClient);
+  }
+
+  /**
+   * Read all instances, plan their rows and write them to the target database
+   */
+  async migrate(options: { dryRun?: boolean } = {}): Promise<MigrationResult> {
+    const { models, components, builderConfig } =
+      await this.generator.resolveDefinitions();
+    const planConfig: MigrationPlanConfig = {
+      ...builderConfig,
+      defaultLang: this.config.i18n?.defaultLang,
+    };
+
+    const issues: MigrationIssue[] = [];
+    const { instances, issues: readIssues } = await this.readInstances();
+    issues.push(...readIssues);
+
+    const slugsById = await this.readModelSlugs();
+    const instancesBySlug = new Map<string, EAVInstance[]>();
+
+    for (const instance of instances) {
+      const slug = slugsById.get(instance.model) ?? instance.model;
+      const group = instancesBySlug.get(slug);
+      if (group) {
+        group.push(instance);
+      } else {
+        instancesBySlug.set(slug, [instance]);
+      }
+    }
+
+    const records: MigrationRecord[] = [];
+    const deferred: MigrationRecord[] = [];
+
+    for (const model of orderByRequiredRelations(models, components)) {
+      const plan = planModelMigration(
+        model,
+        instancesBySlug.get(model.slug) ?? [],
+        components,
+        planConfig
+      );
+      records.push(...plan.records);
+      deferred.push(...plan.deferred);
+      issues.push(...plan.issues);
+      instancesBySlug.delete(model.slug);
+    }
+
+    for (const [slug, orphans] of instancesBySlug) {
+      for (const orphan of orphans) {
+        issues.push({
+          model: slug,
+          instanceId: orphan.id,
+          message: `No model definition found for "${slug}"`,
+        });
+      }
+    }
+
+    const recordsWritten: Record<string, number> = {};
+    const keys = new Set<string>();
+
+    for (const record of [...records, ...deferred]) {
+      if (record.key) {
+        if (keys.has(record.key)) continue;
+        keys.add(record.key);
+      }
+
+      if (!options.dryRun) {
+        const delegate = this.targetClient[toDelegateName(record.model)];
+
+        try {
+          if (record.where) {
+            await delegate.update({ where: record.where, data: record.data });
+          } else {
+            await delegate.create({ data: record.data });
+          }
+        } catch (error) {
+          issues.push({
+            model: record.model,
+            instanceId: record.instanceId,
+            message: `Failed to write row: ${(error as Error).message}`,
+          });
+          continue;
+        }
+      }
+
+      if (record.where) continue;
+      recordsWritten[record.model] = (recordsWritten[record.model] ?? 0) + 1;
+    }
+
+    return {
+      instancesRead: instances.length,
+      recordsWritten,
+      issues,
+      dryRun: options.dryRun || false,
+    };
+  }
+
+  /**
+   * Read instance rows through `mapper.instance` or the default mapper
+   */
+  private async readInstances(): Promise<{
+    instances: EAVInstance[];
+    issues: MigrationIssue[];
+  }> {
+    const tableName = this.config.tables?.instances || "content_instance";
+    const rows: EAVInstanceRow[] =
+      await this.sourceClient[tableName].findMany();
+
+    const instances: EAVInstance[] = [];
+    const issues: MigrationIssue[] = [];
+
+    for (const row of rows) {
+      try {
+        instances.push(
+          this.config.mapper?.instance
+            ? this.config.mapper.instance(row)
+            : this.defaultInstanceMapper(row)
+        );
+      } catch (error) {
+        issues.push({
+          model: String(row.model_id),
+          instanceId: String(row.id),
+          message: `Invalid instance row: ${(error as Error).message}`,
+        });
+      }
+    }
+
+    return { instances, issues };
+  }
+
+  /**
+   * Map content_model row ids to slugs so instances can reference either
+   */
+  private async readModelSlugs(): Promise<Map<string, string>> {
+    const map = new Map<string, string>();
+    const tableName = this.config.tables?.models;
+
+    if (!tableName || !this.sourceClient[tableName]) {
+      return map;
+    }
+
+    const rows: Array<{ id: string; slug: string }> =
+      await this.sourceClient[tableName].findMany();
+
+    for (const row of rows) {
+      map.set(row.id, row.slug);
+    }
+
+    return map;
+  }
+
+  /**
+   * Default mapper - expects JSON in 'attribute_values' column
+   */
+  private defaultInstanceMapper(row: EAVInstanceRow): EAVInstance {
+    return {
+      id: row.id,
+      model: row.model_id,
+      entity: row.entity_id,
+      lang: row.lang,
+      values:
+        typeof row.attribute_values === "string"
+          ? JSON.parse(row.attribute_values)
+          : row.attribute_values,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+// src/core/factories-writer.ts
+
+import { Generator } from './generator';
+import { SeedFactory, type SeedDefinitions } from './seed-factory';
+import type { Config } from '../types/config';
+import { toCamelCase } from '../utils/naming';
+import { TOOL_NAME } from '../utils/version';
+
+export interface FactoriesResult {
+  factories: string;
+  warnings: string[]; // Models whose records cannot be built
+}
+
+/**
+ * Seed factories module for the definitions the config resolves to
+ * Every model is built once with seed 1, failures become warnings.
+ */
+export async function generateFactories(
+  config: Config,
+  prismaClient?: any
+): Promise<FactoriesResult> {
+  const { models, components, builderConfig } = await new Generator(
+    config,
+    prismaClient
+  ).resolveDefinitions();
+
+  // SeedFactory finds the reversed junctions from the models again
+  const { reversedJunctions, ...schemaConfig } = builderConfig;
+  const definitions: SeedDefinitions = {
+    models,
+    components: [...components.values()],
+    config: {
+      ...schemaConfig,
+      externalModelNames: [...(builderConfig.externalModelNames ?? [])],
+      defaultLang: config.i18n?.defaultLang,
+      locales: config.i18n?.locales,
+    },
+  };
+
+  const factory = new SeedFactory(definitions);
+  const warnings: string[] = [];
+
+  for (const model of models) {
+    try {
+      factory.build(model.slug, 1);
+    } catch (error) {
+      warnings.push(`Factory for model "${model.slug}" cannot build records: ${(error as Error).message}`);
+    }
+  }
+
+  return { factories: writeFactories(definitions), warnings };
+}
+
+/**
+ * Module of seed factories, one per model, over a SeedFactory holding the
+ * definitions. Import it in tests:
+ *
+ *   const post = await blogPostFactory.create(prisma, 1);
+ */
+export function writeFactories(definitions: SeedDefinitions): string {
+  const lines = [
+    `// Seed factories of content models, written by ${TOOL_NAME}`,
+    `import { SeedFactory, type Seed, type SeedDefinitions } from '${TOOL_NAME}';`,
+    '',
+    `export const seedFactory = new SeedFactory(${JSON.stringify(definitions, null, 2)} as SeedDefinitions);`,
+  ];
+
+  for (const model of definitions.models) {
+    const slug = JSON.stringify(model.slug);
+
+    lines.push(
+      '',
+      '/**',
+      ` * ${model.name} rows, the same for the same seed`,
+      ' */',
+      `export const ${toCamelCase(model.slug)}Factory = {`,
+      `  build: (seed: Seed, values?: Record<string, unknown>) => seedFactory.build(${slug}, seed, values),`,
+      `  create: (prisma: unknown, seed: Seed, values?: Record<string, unknown>) =>`,
+      `    seedFactory.create(prisma, ${slug}, seed, values),`,
+      '};'
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
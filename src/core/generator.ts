@@ -1,25 +1,124 @@
 import { EAVReader } from "./reader";
-import { buildModel, type SchemaBuilderConfig } from "./schema-builder";
+import {
+  buildComponentTableName,
+  buildModel,
+  type SchemaBuilderConfig,
+} from "./schema-builder";
 import { writeSchema } from "./schema-writer";
+import { writeTypes } from "./types-writer";
+import { writeZodSchemas } from "./zod-writer";
+import { writeJsonSchema, writeOpenApiComponents } from "./json-schema-writer";
+import { writeGraphqlSchema } from "./graphql-writer";
+import {
+  findLocalizedModel,
+  writeLocalizedExtension,
+  type LocalizedModel,
+} from "./localized-writer";
+import { resolveRelations } from "./relation-resolver";
+import {
+  formatSchemaIssues,
+  validateSchema,
+  type SchemaIssue,
+  type SchemaSource,
+} from "./schema-validator";
 import {
   buildComponentTable,
   buildComponentTranslationTable,
+  buildComponentValueTables,
+  buildDynamicZoneTable,
+  dynamicZoneBlockKey,
 } from "../mappers/component-mapper";
+import { buildSelectEnums } from "../mappers/enum-mapper";
+import { checkFieldDefault } from "../mappers/default-mapper";
+import { checkModelIndexes } from "../mappers/index-mapper";
+import {
+  buildDerivedExtension,
+  buildGeneratedColumnsSql,
+  markGeneratedColumns,
+  splitDerivedFields,
+  toComputedFields,
+  type ComputedField,
+  type GeneratedColumn,
+} from "../mappers/derived-mapper";
+import {
+  buildMediaJunctionTable,
+  needsMediaJunction,
+  resolveMediaModel,
+} from "../mappers/media-mapper";
 import {
   needsJunctionTable,
   buildJunctionTable,
+  findReversedJunctions,
 } from "../mappers/relation-mapper";
 import { extractModelsFromPrismaFile } from "../utils/prisma-parser";
+import {
+  buildSchemaHeader,
+  hashInput,
+  readSchemaHeader,
+} from "../utils/schema-header";
+import { unifiedDiff } from "../utils/text-diff";
+import { TOOL_VERSION } from "../utils/version";
 import type { Config } from "../types/config";
-import type { PrismaSchema, PrismaModel } from "../utils/prisma-ast";
-import type { ComponentEntityType } from "../field-config-schema";
+import type {
+  PrismaSchema,
+  PrismaModel,
+  PrismaEnum,
+} from "../utils/prisma-ast";
+import type {
+  ComponentContextType,
+  ComponentEntityType,
+  FieldDefinitionType,
+  ModelConfigType,
+} from "../field-config-schema";
 import fs from "fs/promises";
 import path from "path";
 
 export interface GenerateResult {
   schema: string;
+  prismaSchema: PrismaSchema;
+  inputHash: string;
   componentsGenerated: string[];
   warnings: string[];
+  sources: Map<string, SchemaSource>; // Prisma model name -> EAV definition
+  derivedSql?: string; // Generated columns of database derived fields
+  derivedExtension?: string; // Prisma Client extension computing client derived fields
+  localizedExtension?: string; // Client extension with localized reads, with i18n
+  types?: string; // TypeScript content types, when output.typesPath is set
+  zod?: string; // Zod input schemas, when output.zodPath is set
+  jsonSchema?: string; // JSON Schema document, when output.jsonSchemaPath is set
+  openApi?: string; // OpenAPI components, when output.openApiPath is set
+  graphql?: string; // GraphQL SDL, when output.graphqlPath is set
+}
+
+/**
+ * Generated tables with the EAV definition each comes from, and their enums
+ */
+interface BuiltTables {
+  tables: Array<{ table: PrismaModel; source: SchemaSource }>;
+  enums: PrismaEnum[];
+}
+
+export type CheckStatus =
+  | "up-to-date"
+  | "missing" // No file at output.schemaPath
+  | "unstamped" // File has no generator header
+  | "definitions-changed" // Input hash differs
+  | "generator-changed" // Same input, different tool version
+  | "hand-edited"; // Same input and version, different content
+
+export interface CheckResult {
+  upToDate: boolean;
+  status: CheckStatus;
+  schemaPath: string;
+  diff: string; // Unified diff from the file to the generated schema
+  result: GenerateResult;
+}
+
+export interface ResolvedDefinitions {
+  models: ModelConfigType[];
+  components: Map<string, ComponentEntityType>;
+  externalModels: PrismaModel[];
+  builderConfig: SchemaBuilderConfig;
 }
 
 /**
@@ -53,86 +152,99 @@ export class Generator {
     this.warnings = [];
 
     try {
-      const externalModels = this.loadExternalModels();
-      this.externalModelNames = new Set(externalModels.map((m) => m.name));
-
-      let models = await this.readModelsFromSource();
-
-      if (this.config.mapper?.model) {
-        models = models.map((m) => this.config.mapper!.model!(m));
-      }
-
-      const components = await this.readComponents();
-
-      const schemaBuilderConfig: SchemaBuilderConfig = {
-        convention: this.config.naming?.convention || "PascalCase",
-        prefix: this.config.naming?.prefix,
-        i18nEnabled: this.config.i18n?.enabled || false,
-        i18nTableNaming:
-          this.config.i18n?.tableNaming || "${identifier}_translation",
-        externalModelNames: this.externalModelNames,
-      };
+      const {
+        models,
+        components,
+        externalModels,
+        builderConfig: schemaBuilderConfig,
+      } = await this.resolveDefinitions();
 
       const prismaModels: PrismaModel[] = [];
+      const enums: PrismaEnum[] = [];
       const junctionTables = new Set<string>();
+      const sources = new Map<string, SchemaSource>();
+      const generatedColumns: GeneratedColumn[] = [];
+      const computedFields: ComputedField[] = [];
+      const localizedModels: LocalizedModel[] = [];
 
       for (const model of models) {
-        const fieldsWithoutDerived = model.fields.filter((field: any) => {
-          if (field.derived) {
-            this.warnings.push(
-              `Skipped derived field "${field.key}" in model "${model.slug}"`
-            );
-            return false;
-          }
-          return true;
-        });
+        const derived = splitDerivedFields(model.fields, schemaBuilderConfig);
+        for (const { field, reason } of derived.skipped) {
+          this.warnings.push(
+            `Skipped derived field "${field.key}" in model "${model.slug}"${reason ? `: ${reason}` : ""}`
+          );
+        }
 
+        const fieldsWithoutDerived = derived.columns;
         const modelWithoutDerived = {
           ...model,
           fields: fieldsWithoutDerived,
         };
+        this.warnDefaults(fieldsWithoutDerived, `model "${model.slug}"`);
+        this.warnRelations(fieldsWithoutDerived, `model "${model.slug}"`);
+        this.warnMedia(fieldsWithoutDerived, `model "${model.slug}"`, schemaBuilderConfig);
+        this.warnings.push(
+          ...checkModelIndexes(modelWithoutDerived, schemaBuilderConfig)
+        );
 
         const generated = buildModel(modelWithoutDerived, schemaBuilderConfig);
         prismaModels.push(...generated);
+        for (const table of generated) {
+          sources.set(table.name, {
+            model: model.slug,
+            fields: fieldsWithoutDerived.map((f) => f.key),
+          });
+        }
+        generatedColumns.push(
+          ...markGeneratedColumns(model.slug, generated, derived.generated, schemaBuilderConfig)
+        );
+        computedFields.push(
+          ...toComputedFields(
+            generated[0]?.name!,
+            derived.computed,
+            model.fields,
+            schemaBuilderConfig
+          )
+        );
+        const localized = findLocalizedModel(generated);
+        if (localized) localizedModels.push(localized);
+        enums.push(
+          ...buildSelectEnums(
+            generated[0]?.name!,
+            fieldsWithoutDerived,
+            schemaBuilderConfig
+          )
+        );
 
         for (const field of model.fields) {
-          if (
-            field.type === "component" &&
-            field.config?.type === "component"
-          ) {
-            const componentConfig = field.config;
-            const component = components.get(componentConfig.slug);
-
-            if (!component) {
-              this.warnings.push(
-                `Component "${componentConfig.slug}" not found for field "${field.key}" in model "${model.slug}"`
-              );
-              continue;
-            }
-
-            const componentTable = buildComponentTable(
+          if (field.type === "component") {
+            const built = this.buildComponentFieldTables(
               generated[0]?.name!,
-              field.key,
-              component,
-              componentConfig.repeatable || false,
-              schemaBuilderConfig,
-              componentConfig.context
+              field,
+              components,
+              { model: model.slug, owner: `model "${model.slug}"`, path: [] },
+              schemaBuilderConfig
             );
 
-            prismaModels.push(componentTable);
-
-            if (schemaBuilderConfig.i18nEnabled) {
-              const translationTable = buildComponentTranslationTable(
-                generated[0]?.name!,
-                field.key,
-                component,
-                schemaBuilderConfig
-              );
-
-              if (translationTable) {
-                prismaModels.push(translationTable);
-              }
+            for (const { table, source } of built.tables) {
+              prismaModels.push(table);
+              sources.set(table.name, source);
             }
+            enums.push(...built.enums);
+          }
+
+          if (needsMediaJunction(field, schemaBuilderConfig)) {
+            const mediaTable = buildMediaJunctionTable(
+              generated[0]?.name!,
+              field,
+              schemaBuilderConfig
+            );
+            prismaModels.push(mediaTable);
+            sources.set(mediaTable.name, {
+              model: model.slug,
+              field: field.key,
+              fields: [],
+            });
           }
 
           if (needsJunctionTable(field)) {
@@ -145,33 +257,436 @@ export class Generator {
             if (!junctionTables.has(junctionTable.name)) {
               prismaModels.push(junctionTable);
               junctionTables.add(junctionTable.name);
+              sources.set(junctionTable.name, {
+                model: model.slug,
+                field: field.key,
+                fields: [],
+              });
             }
           }
         }
       }
 
+      for (const component of components.values()) {
+        this.warnDefaults(component.fields, `component "${component.slug}"`);
+        this.warnRelations(component.fields, `component "${component.slug}"`);
+        this.warnMedia(component.fields, `component "${component.slug}"`, schemaBuilderConfig);
+      }
+
+      const allModels = [...externalModels, ...prismaModels];
+      this.warnings.push(
+        ...resolveRelations(allModels, new Set(enums.map((e) => e.name)))
+      );
+      const modelNames = new Set(allModels.map((m) => m.name));
+      for (const prismaEnum of enums) {
+        if (modelNames.has(prismaEnum.name)) {
+          this.warnings.push(
+            `Enum "${prismaEnum.name}" has the same name as a model - rename the select field or the model`
+          );
+        }
+      }
+
       const schema: PrismaSchema = {
         datasource: {
-          provider: this.config.output?.datasource?.provider || "sqlite",
+          provider: schemaBuilderConfig.provider || "sqlite",
           url: this.config.output?.datasource?.url || 'env("DATABASE_URL")',
           directUrl: this.config.output?.datasource?.directUrl,
         },
         generators: this.buildGenerators(),
-        models: [...externalModels, ...prismaModels],
+        models: allModels,
+        ...(enums.length > 0 && { enums }),
       };
 
+      const inputHash = this.hashDefinitions(models, components, externalModels);
       const schemaString = await writeSchema(schema);
 
       return {
-        schema: schemaString,
+        schema: `${buildSchemaHeader(inputHash)}\n\n${schemaString}`,
+        prismaSchema: schema,
+        inputHash,
         componentsGenerated: models.map((m) => m.slug),
         warnings: this.warnings,
+        sources,
+        ...(generatedColumns.length > 0 && {
+          derivedSql: buildGeneratedColumnsSql(generatedColumns, schema.datasource.provider),
+        }),
+        ...(computedFields.length > 0 && {
+          derivedExtension: buildDerivedExtension(computedFields, this.clientImport(this.derivedExtensionPath())),
+        }),
+        ...(localizedModels.length > 0 &&
+          this.config.i18n && {
+            localizedExtension: writeLocalizedExtension(localizedModels, {
+              defaultLang: this.config.i18n.defaultLang,
+              fallbacks: this.config.i18n.fallbacks,
+              clientImport: this.clientImport(this.localizedExtensionPath()),
+            }),
+          }),
+        ...(this.config.output?.typesPath && {
+          types: `${buildSchemaHeader(inputHash)}\n\n${writeTypes(models, components, {
+            i18nEnabled: schemaBuilderConfig.i18nEnabled,
+            defaultLang: this.config.i18n?.defaultLang,
+            media: schemaBuilderConfig.media,
+          })}`,
+        }),
+        ...(this.config.output?.zodPath && {
+          zod: `${buildSchemaHeader(inputHash)}\n\n${writeZodSchemas(models, components, {
+            i18nEnabled: schemaBuilderConfig.i18nEnabled,
+            defaultLang: this.config.i18n?.defaultLang,
+            media: schemaBuilderConfig.media,
+          })}`,
+        }),
+        ...(this.config.output?.jsonSchemaPath && {
+          jsonSchema: writeJsonSchema(models, components, {
+            i18nEnabled: schemaBuilderConfig.i18nEnabled,
+            defaultLang: this.config.i18n?.defaultLang,
+            media: schemaBuilderConfig.media,
+          }),
+        }),
+        ...(this.config.output?.openApiPath && {
+          openApi: writeOpenApiComponents(models, components, {
+            i18nEnabled: schemaBuilderConfig.i18nEnabled,
+            defaultLang: this.config.i18n?.defaultLang,
+            media: schemaBuilderConfig.media,
+          }),
+        }),
+        ...(this.config.output?.graphqlPath && {
+          // GraphQL comments start with #
+          graphql: `${buildSchemaHeader(inputHash).replace(/^\/\//gm, "#")}\n\n${writeGraphqlSchema(
+            models,
+            components,
+            { i18nEnabled: schemaBuilderConfig.i18nEnabled }
+          )}`,
+        }),
       };
     } catch (error) {
       throw error;
     }
   }
 
+  /**
+   * Tables of a component field: the component's tables, or for a dynamic
+   * zone its ordering table and the tables of every block type
+   *
+   * Components missing a definition or nesting themselves (path holds the
+   * slugs above) are left out with a warning, no tables when none are left
+   */
+  private buildComponentFieldTables(
+    parentName: string,
+    field: FieldDefinitionType,
+    components: Map<string, ComponentEntityType>,
+    options: { model: string; owner: string; path: string[] },
+    builderConfig: SchemaBuilderConfig
+  ): BuiltTables {
+    const built: BuiltTables = { tables: [], enums: [] };
+    if (field.config?.type !== "component") return built;
+
+    const componentConfig = field.config;
+    const slugs = componentConfig.components ?? [componentConfig.slug!];
+    const found = slugs.filter((slug) => {
+      if (options.path.includes(slug)) {
+        this.warnings.push(
+          `Skipped component "${slug}" in field "${field.key}" of ${options.owner}: it would contain itself (${[...options.path, slug].join(" -> ")})`
+        );
+        return false;
+      }
+      if (components.has(slug)) return true;
+      this.warnings.push(
+        `Component "${slug}" not found for field "${field.key}" in ${options.owner}`
+      );
+      return false;
+    });
+
+    // Dynamic zone: ordering table, then one block table per component
+    let blockParent = parentName;
+    if (componentConfig.components) {
+      if (found.length === 0) return built;
+
+      const zoneTable = buildDynamicZoneTable(
+        parentName,
+        field.key,
+        found,
+        builderConfig
+      );
+      built.tables.push({
+        table: zoneTable,
+        source: { model: options.model, field: field.key, fields: [] },
+      });
+      blockParent = zoneTable.name;
+    }
+
+    for (const slug of found) {
+      const tables = this.buildComponentTables(
+        blockParent,
+        componentConfig.components ? dynamicZoneBlockKey(slug) : field.key,
+        components.get(slug)!,
+        components,
+        {
+          model: options.model,
+          path: [...options.path, slug],
+          repeatable:
+            !componentConfig.components && (componentConfig.repeatable || false),
+          context: componentConfig.context,
+        },
+        builderConfig
+      );
+
+      built.tables.push(...tables.tables);
+      built.enums.push(...tables.enums);
+    }
+
+    return built;
+  }
+
+  /**
+   * Component table of a field along with its translation, value, media and
+   * relation junction tables and the tables of nested components, each with the EAV
+   * definition it comes from
+   */
+  private buildComponentTables(
+    parentName: string,
+    fieldKey: string,
+    component: ComponentEntityType,
+    components: Map<string, ComponentEntityType>,
+    options: {
+      model: string;
+      path: string[];
+      repeatable: boolean;
+      context?: ComponentContextType;
+    },
+    builderConfig: SchemaBuilderConfig
+  ): BuiltTables {
+    const tableName = buildComponentTableName(parentName, fieldKey, builderConfig);
+    const nested: BuiltTables = { tables: [], enums: [] };
+    const skipped = new Set<string>();
+
+    for (const field of component.fields) {
+      if (field.type !== "component") continue;
+
+      const built = this.buildComponentFieldTables(
+        tableName,
+        field,
+        components,
+        { ...options, owner: `component "${component.slug}"` },
+        builderConfig
+      );
+
+      if (built.tables.length === 0) skipped.add(field.key);
+      nested.tables.push(...built.tables);
+      nested.enums.push(...built.enums);
+    }
+
+    // Nested fields without tables are left out of the component table
+    const resolved =
+      skipped.size > 0
+        ? { ...component, fields: component.fields.filter((f) => !skipped.has(f.key)) }
+        : component;
+
+    const componentTable = buildComponentTable(
+      parentName,
+      fieldKey,
+      resolved,
+      options.repeatable,
+      builderConfig,
+      options.context
+    );
+    const source: SchemaSource = {
+      model: options.model,
+      component: component.slug,
+      fields: component.fields.map((f) => f.key),
+    };
+    const tables = [{ table: componentTable, source }];
+
+    if (builderConfig.i18nEnabled) {
+      const translationTable = buildComponentTranslationTable(
+        parentName,
+        fieldKey,
+        resolved,
+        builderConfig
+      );
+
+      if (translationTable) {
+        tables.push({ table: translationTable, source });
+      }
+    }
+
+    for (const valueTable of buildComponentValueTables(
+      parentName,
+      fieldKey,
+      resolved,
+      builderConfig
+    )) {
+      tables.push({ table: valueTable, source });
+    }
+
+    for (const mediaField of resolved.fields) {
+      if (needsMediaJunction(mediaField, builderConfig)) {
+        tables.push({
+          table: buildMediaJunctionTable(componentTable.name, mediaField, builderConfig),
+          source: { ...source, field: mediaField.key, fields: [] },
+        });
+      }
+    }
+
+    for (const relationField of resolved.fields) {
+      if (needsJunctionTable(relationField)) {
+        tables.push({
+          table: buildJunctionTable(componentTable.name, relationField, builderConfig),
+          source: { ...source, field: relationField.key, fields: [] },
+        });
+      }
+    }
+
+    return {
+      tables: [...tables, ...nested.tables],
+      enums: [
+        ...buildSelectEnums(componentTable.name, resolved.fields, builderConfig),
+        ...nested.enums,
+      ],
+    };
+  }
+
+  private warnDefaults(fields: FieldDefinitionType[], owner: string): void {
+    for (const field of fields) {
+      const problem = checkFieldDefault(field);
+      if (problem) {
+        this.warnings.push(`Default of field "${field.key}" in ${owner} ${problem}`);
+      }
+    }
+  }
+
+  /**
+   * A required FK cannot be set to null, its onDelete falls back to Restrict
+   */
+  private warnRelations(fields: FieldDefinitionType[], owner: string): void {
+    for (const field of fields) {
+      if (
+        field.config?.type === "relation" &&
+        field.config.cascade === "setNull" &&
+        field.required &&
+        (field.config.relationType === "oneToOne" || field.config.relationType === "manyToOne")
+      ) {
+        this.warnings.push(
+          `Relation field "${field.key}" in ${owner} is required: cascade "setNull" is written as onDelete: Restrict`
+        );
+      }
+    }
+  }
+
+  /**
+   * Multiple media without a media model has only a single id column
+   */
+  private warnMedia(
+    fields: FieldDefinitionType[],
+    owner: string,
+    builderConfig: SchemaBuilderConfig
+  ): void {
+    if (builderConfig.media) return;
+
+    for (const field of fields) {
+      if (field.config?.type === "media" && field.config.multiple) {
+        this.warnings.push(
+          `Multiple media field "${field.key}" in ${owner} stores a single ${field.key}_id: add the media model "${this.config.media?.model ?? "Media"}" to externalModels`
+        );
+      }
+    }
+  }
+
+  /**
+   * Generate without writing and compare against the schema on disk
+   */
+  async check(): Promise<CheckResult> {
+    const result = await this.generate();
+    const schemaPath = this.schemaPath();
+    const existing = await fs.readFile(schemaPath, "utf-8").catch(() => null);
+    const diff = unifiedDiff(existing ?? "", result.schema, {
+      fromFile: existing === null ? "/dev/null" : schemaPath,
+      toFile: `${schemaPath} (generated)`,
+    });
+
+    return {
+      upToDate: existing === result.schema,
+      status: this.checkStatus(existing, result),
+      schemaPath,
+      diff,
+      result,
+    };
+  }
+
+  private checkStatus(existing: string | null, result: GenerateResult): CheckStatus {
+    if (existing === null) return "missing";
+    if (existing === result.schema) return "up-to-date";
+
+    const header = readSchemaHeader(existing);
+    if (!header) return "unstamped";
+    if (header.inputHash !== result.inputHash) return "definitions-changed";
+    if (header.version !== TOOL_VERSION) return "generator-changed";
+
+    return "hand-edited";
+  }
+
+  /**
+   * Hash of everything that shapes the output except the tool itself
+   */
+  private hashDefinitions(
+    models: ModelConfigType[],
+    components: Map<string, ComponentEntityType>,
+    externalModels: PrismaModel[]
+  ): string {
+    const { naming, i18n, output, generators, media } = this.config;
+    const {
+      schemaPath: _schemaPath,
+      derivedSqlPath: _derivedSqlPath,
+      derivedExtensionPath: _derivedExtensionPath,
+      localizedExtensionPath: _localizedExtensionPath,
+      typesPath: _typesPath,
+      zodPath: _zodPath,
+      jsonSchemaPath: _jsonSchemaPath,
+      openApiPath: _openApiPath,
+      graphqlPath: _graphqlPath,
+      factoriesPath: _factoriesPath,
+      ...outputSettings
+    } = output ?? {};
+
+    return hashInput({
+      models,
+      components,
+      externalModels,
+      settings: { naming, i18n, output: outputSettings, generators, media },
+    });
+  }
+
+  /**
+   * Read model and component definitions with mappers applied, along with
+   * the naming config the schema is built with
+   */
+  async resolveDefinitions(): Promise<ResolvedDefinitions> {
+    const externalModels = this.loadExternalModels();
+    this.externalModelNames = new Set(externalModels.map((m) => m.name));
+
+    let models = await this.readModelsFromSource();
+
+    if (this.config.mapper?.model) {
+      models = models.map((m) => this.config.mapper!.model!(m));
+    }
+
+    const components = await this.readComponents();
+
+    const builderConfig: SchemaBuilderConfig = {
+      convention: this.config.naming?.convention || "PascalCase",
+      prefix: this.config.naming?.prefix,
+      i18nEnabled: this.config.i18n?.enabled || false,
+      i18nTableNaming:
+        this.config.i18n?.tableNaming || "${identifier}_translation",
+      externalModelNames: this.externalModelNames,
+      provider: this.config.output?.datasource?.provider || "sqlite",
+      timezone: this.config.output?.datasource?.timezone,
+      media: resolveMediaModel(externalModels, this.config.media),
+    };
+    builderConfig.reversedJunctions = findReversedJunctions(models, builderConfig);
+
+    return { models, components, externalModels, builderConfig };
+  }
+
   /**
    * Load external Prisma models from files
    */
@@ -203,7 +718,7 @@ export class Generator {
   /**
    * Resolve external model file paths
    */
-  private resolveExternalPaths(): string[] {
+  resolveExternalPaths(): string[] {
     const { externalModels } = this.config;
     if (!externalModels) return [];
 
@@ -337,17 +852,97 @@ export class Generator {
 
   /**
    * Generate schema and write to file
+   * Returns false when the file already had the same content
    */
-  async write(): Promise<void> {
+  async write(): Promise<boolean> {
     const result = await this.generate();
+    return this.writeResult(result);
+  }
 
-    const outputPath =
-      this.config.output?.schemaPath || "./prisma/schema.prisma";
+  /**
+   * Check a generated schema with Prisma's schema engine
+   */
+  async validate(result: GenerateResult): Promise<SchemaIssue[]> {
+    return validateSchema(result.schema, result.sources);
+  }
 
-    const dir = path.dirname(outputPath);
-    await fs.mkdir(dir, { recursive: true });
+  /**
+   * Write a generated schema, leaving the file untouched when unchanged
+   * Throws without writing when validation is enabled and the schema is invalid
+   */
+  async writeResult(result: GenerateResult): Promise<boolean> {
+    const outputPath = this.schemaPath();
+
+    if (this.config.output?.validate !== false) {
+      const issues = await this.validate(result);
+      if (issues.length > 0) {
+        throw new Error(
+          `Generated schema is invalid, ${outputPath} was not written:\n${formatSchemaIssues(issues)}`
+        );
+      }
+    }
+
+    const written = await Promise.all([
+      writeIfChanged(outputPath, result.schema),
+      result.derivedSql !== undefined &&
+        writeIfChanged(this.derivedSqlPath(), result.derivedSql),
+      result.derivedExtension !== undefined &&
+        writeIfChanged(this.derivedExtensionPath(), result.derivedExtension),
+      result.localizedExtension !== undefined &&
+        writeIfChanged(this.localizedExtensionPath(), result.localizedExtension),
+      result.types !== undefined &&
+        this.config.output?.typesPath !== undefined &&
+        writeIfChanged(this.config.output.typesPath, result.types),
+      result.zod !== undefined &&
+        this.config.output?.zodPath !== undefined &&
+        writeIfChanged(this.config.output.zodPath, result.zod),
+      result.jsonSchema !== undefined &&
+        this.config.output?.jsonSchemaPath !== undefined &&
+        writeIfChanged(this.config.output.jsonSchemaPath, result.jsonSchema),
+      result.openApi !== undefined &&
+        this.config.output?.openApiPath !== undefined &&
+        writeIfChanged(this.config.output.openApiPath, result.openApi),
+      result.graphql !== undefined &&
+        this.config.output?.graphqlPath !== undefined &&
+        writeIfChanged(this.config.output.graphqlPath, result.graphql),
+    ]);
+
+    return written.some(Boolean);
+  }
+
+  private schemaPath(): string {
+    return this.config.output?.schemaPath || "./prisma/schema.prisma";
+  }
+
+  derivedSqlPath(): string {
+    return this.config.output?.derivedSqlPath || "./prisma/derived-columns.sql";
+  }
+
+  derivedExtensionPath(): string {
+    return this.config.output?.derivedExtensionPath || "./prisma/derived-fields.ts";
+  }
+
+  localizedExtensionPath(): string {
+    return this.config.output?.localizedExtensionPath || "./prisma/localized-models.ts";
+  }
 
-    await fs.writeFile(outputPath, result.schema, "utf-8");
+  /**
+   * Module a client extension at extensionPath imports Prisma from: the
+   * client at output.clientPath, which is relative to the schema, or @prisma/client
+   */
+  private clientImport(extensionPath: string): string {
+    const clientPath = this.config.output?.clientPath;
+    if (!clientPath) return "@prisma/client";
+
+    const relative = path
+      .relative(
+        path.dirname(extensionPath),
+        path.resolve(path.dirname(this.schemaPath()), clientPath)
+      )
+      .split(path.sep)
+      .join("/");
+
+    return relative.startsWith(".") ? relative : `./${relative}`;
   }
 
   /**
@@ -376,4 +971,18 @@ export class Generator {
 
     return generators;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Write a file unless it already has the content, false when unchanged
+ */
+async function writeIfChanged(filePath: string, content: string): Promise<boolean> {
+  const existing = await fs.readFile(filePath, "utf-8").catch(() => null);
+  if (existing === content) {
+    return false;
+  }
+
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, content, "utf-8");
+  return true;
+}
@@ -0,0 +1,463 @@
+// src/core/graphql-writer.ts
+
+import type {
+  ComponentEntityType,
+  FieldDefinitionType,
+  ModelConfigType,
+} from '../field-config-schema';
+import { withoutSkippedComponents } from '../mappers/component-mapper';
+import { buildEnumValues, optionValues } from '../mappers/enum-mapper';
+import { numberColumnType } from '../mappers/number-mapper';
+import { dateFormat } from '../mappers/date-mapper';
+import { isMultiSelect } from '../mappers/select-mapper';
+import { isList, typedFields } from '../mappers/value-mapper';
+import { toCamelCase, toPascalCase } from '../utils/naming';
+import { separateFields } from './schema-builder';
+import { componentTypeName, modelTypeName, selectTypeName } from './types-writer';
+
+export interface GraphqlWriterConfig {
+  i18nEnabled: boolean;
+}
+
+// Field arguments of connections, Relay style
+const CONNECTION_ARGS = '(first: Int, after: String, last: Int, before: String)';
+
+const DATE_SCALARS = { date: 'Date', datetime: 'DateTime', time: 'Time' } as const;
+
+/**
+ * GraphQL SDL for EAV definitions: an object type per model and component,
+ * an enum per select and create/update input types
+ *
+ * Field names are the field keys. Translatable fields take a `locale`
+ * argument, to-one relations to other models resolve to their type and
+ * oneToMany/manyToMany relations to a Relay connection. Dynamic zones are
+ * unions of their component types, and @oneOf inputs naming the block's
+ * component. Enum values are the ones Prisma Client uses.
+ */
+export function writeGraphqlSchema(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>,
+  config: GraphqlWriterConfig
+): string {
+  components = withoutSkippedComponents(models, components);
+  const context: WriterContext = {
+    models: new Set(models.map((m) => m.slug)),
+    components,
+    config,
+    scalars: new Set(),
+    connections: new Set(),
+  };
+  const entities = [
+    ...models.map((m) => ({ typeName: modelTypeName(m.slug), description: m.name, fields: m.fields, model: true })),
+    ...[...components.values()].map((c) => ({
+      typeName: componentTypeName(c.slug),
+      description: `${c.name} component`,
+      fields: c.fields,
+      model: false,
+    })),
+  ];
+  const allFields = entities.flatMap((e) => e.fields);
+  const types: string[] = [];
+
+  for (const { typeName, fields } of entities) {
+    types.push(
+      ...typedFields(fields)
+        .filter((f) => f.type === 'select')
+        .map((f) => writeEnum(selectTypeName(typeName, f.key), f))
+    );
+  }
+
+  for (const entity of entities) {
+    types.push(
+      writeObjectType(entity.typeName, entity.description, entity.fields, entity.model, context),
+      ...writeZoneUnions(entity.typeName, entity.fields, context)
+    );
+  }
+
+  for (const entity of entities) {
+    types.push(...writeInputTypes(entity.typeName, entity.fields, entity.model, context));
+  }
+
+  if (allFields.some((f) => f.config?.type === 'media' && f.config.multiple)) {
+    types.push(...MEDIA_USAGE_TYPES);
+  }
+
+  if (context.connections.size > 0) {
+    types.push(PAGE_INFO_TYPE, ...[...context.connections].map(writeConnection));
+  }
+
+  const scalars = [...context.scalars].sort().map((s) => `scalar ${s}`);
+  return [...(scalars.length > 0 ? [scalars.join('\n')] : []), ...types].join('\n\n') + '\n';
+}
+
+interface WriterContext {
+  models: Set<string>; // Model slugs, relations to anything else are ids
+  components: Map<string, ComponentEntityType>;
+  config: GraphqlWriterConfig;
+  scalars: Set<string>; // Custom scalars used
+  connections: Set<string>; // Node types with a connection type
+}
+
+function writeEnum(name: string, field: FieldDefinitionType): string {
+  return [
+    `enum ${name} {`,
+    ...buildEnumValues(optionValues(field)).map((v) => `  ${v.name}`),
+    '}',
+  ].join('\n');
+}
+
+function writeObjectType(
+  typeName: string,
+  description: string,
+  fields: FieldDefinitionType[],
+  model: boolean,
+  context: WriterContext
+): string {
+  const members = typedFields(fields).map((field) => {
+    const args = field.type === 'relation' && isList(field) && relationTarget(field, context)
+      ? CONNECTION_ARGS
+      : isTranslated(field, context)
+        ? '(locale: String)'
+        : '';
+    return `${field.key}${args}: ${outputType(field, typeName, context)}`;
+  });
+
+  if (model) {
+    context.scalars.add('DateTime');
+    members.unshift('id: ID!');
+    members.push('created_at: DateTime!', 'updated_at: DateTime!');
+  }
+
+  return [
+    blockString(description),
+    `type ${typeName} {`,
+    ...members.map((m) => `  ${m}`),
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Unions of dynamic zone block types, named after the owner and field
+ */
+function writeZoneUnions(
+  typeName: string,
+  fields: FieldDefinitionType[],
+  context: WriterContext
+): string[] {
+  return typedFields(fields).flatMap((field) => {
+    const blocks = zoneBlocks(field, context);
+    return blocks.length > 0
+      ? [`union ${zoneTypeName(typeName, field)} = ${blocks.map(componentTypeName).join(' | ')}`]
+      : [];
+  });
+}
+
+/**
+ * Create input with required fields non-null, update input with every
+ * field optional; translatable fields go to a list of translations with
+ * their locale when i18n is enabled. Components have one input type.
+ */
+function writeInputTypes(
+  typeName: string,
+  fields: FieldDefinitionType[],
+  model: boolean,
+  context: WriterContext
+): string[] {
+  const { columns, translatable } = splitTranslatable(fields, context.config);
+  const types: string[] = [];
+  const createName = model ? `${typeName}CreateInput` : `${typeName}Input`;
+  const translationName = `${typeName}TranslationInput`;
+
+  for (const field of columns) {
+    const blocks = zoneBlocks(field, context);
+    if (blocks.length === 0) continue;
+
+    types.push(
+      [
+        `input ${zoneTypeName(typeName, field)}Input @oneOf {`,
+        ...blocks.map((slug) => `  ${toCamelCase(slug)}: ${componentTypeName(slug)}Input`),
+        '}',
+      ].join('\n')
+    );
+  }
+
+  const translations = (update: boolean, name: string) =>
+    `translations: [${name}!]${!update && translatable.some((f) => f.required) ? '!' : ''}`;
+
+  if (translatable.length > 0) {
+    types.push(writeInput(translationName, ['locale: String!', ...inputMembers(translatable, typeName, false, context)]));
+  }
+
+  types.push(
+    writeInput(createName, [
+      ...inputMembers(columns, typeName, false, context),
+      ...(translatable.length > 0 ? [translations(false, translationName)] : []),
+    ])
+  );
+
+  if (model) {
+    const translationUpdateName = `${typeName}TranslationUpdateInput`;
+
+    if (translatable.length > 0) {
+      types.push(
+        writeInput(translationUpdateName, ['locale: String!', ...inputMembers(translatable, typeName, true, context)])
+      );
+    }
+
+    types.push(
+      writeInput(`${typeName}UpdateInput`, [
+        ...inputMembers(columns, typeName, true, context),
+        ...(translatable.length > 0 ? [translations(true, translationUpdateName)] : []),
+      ])
+    );
+  }
+
+  return types;
+}
+
+function writeInput(name: string, members: string[]): string {
+  return [`input ${name} {`, ...members.map((m) => `  ${m}`), '}'].join('\n');
+}
+
+/**
+ * Input fields: derived fields are computed, required ones non-null on create
+ */
+function inputMembers(
+  fields: FieldDefinitionType[],
+  ownerType: string,
+  update: boolean,
+  context: WriterContext
+): string[] {
+  return fields
+    .filter((f) => !f.derived)
+    .map((field) => {
+      const type = inputType(field, ownerType, context);
+      return `${field.key}: ${type}${field.required && !update ? '!' : ''}`;
+    });
+}
+
+/**
+ * Type of a field on its object type: lists are never null
+ */
+function outputType(
+  field: FieldDefinitionType,
+  ownerType: string,
+  context: WriterContext
+): string {
+  const config = field.config;
+  const nonNull = (type: string) => (field.required ? `${type}!` : type);
+
+  switch (field.type) {
+    case 'relation': {
+      const target = relationTarget(field, context);
+
+      if (isList(field)) {
+        if (!target) return '[ID!]!';
+        context.connections.add(target);
+        return `${target}Connection!`;
+      }
+
+      return nonNull(target ?? 'ID');
+    }
+
+    case 'media':
+      return config?.type === 'media' && config.multiple ? '[MediaUsage!]!' : nonNull('ID');
+
+    case 'component': {
+      if (config?.type !== 'component') return nonNull(scalar('JSON', context));
+
+      if (config.components) {
+        return zoneBlocks(field, context).length > 0
+          ? `[${zoneTypeName(ownerType, field)}!]!`
+          : `[${scalar('JSON', context)}!]!`;
+      }
+
+      const type = context.components.has(config.slug!)
+        ? componentTypeName(config.slug!)
+        : scalar('JSON', context);
+      return config.repeatable ? `[${type}!]!` : nonNull(type);
+    }
+
+    case 'select': {
+      const type = selectTypeName(ownerType, field.key);
+      return isMultiSelect(field) ? `[${type}!]!` : nonNull(type);
+    }
+
+    default:
+      return nonNull(valueType(field, context));
+  }
+}
+
+/**
+ * Type of a field on an input, without non-null: relations and media
+ * take ids, components their input types
+ */
+function inputType(field: FieldDefinitionType, ownerType: string, context: WriterContext): string {
+  const config = field.config;
+
+  switch (field.type) {
+    case 'relation':
+      return isList(field) ? '[ID!]' : 'ID';
+
+    case 'media':
+      return config?.type === 'media' && config.multiple ? '[MediaUsageInput!]' : 'ID';
+
+    case 'component': {
+      if (config?.type !== 'component') return scalar('JSON', context);
+
+      if (config.components) {
+        return zoneBlocks(field, context).length > 0
+          ? `[${zoneTypeName(ownerType, field)}Input!]`
+          : `[${scalar('JSON', context)}!]`;
+      }
+
+      const type = context.components.has(config.slug!)
+        ? `${componentTypeName(config.slug!)}Input`
+        : scalar('JSON', context);
+      return config.repeatable ? `[${type}!]` : type;
+    }
+
+    case 'select': {
+      const type = selectTypeName(ownerType, field.key);
+      return isMultiSelect(field) ? `[${type}!]` : type;
+    }
+
+    default:
+      return valueType(field, context);
+  }
+}
+
+/**
+ * Scalar of a text, number, boolean, date or json value
+ */
+function valueType(field: FieldDefinitionType, context: WriterContext): string {
+  switch (field.type) {
+    case 'number': {
+      const columnType = numberColumnType(field);
+
+      // BigInt and Decimal need more digits than Int and Float have
+      if (columnType === 'BigInt' || columnType === 'Decimal') return scalar(columnType, context);
+      return columnType === 'Int' || field.validation?.int ? 'Int' : 'Float';
+    }
+
+    case 'boolean':
+      return 'Boolean';
+
+    case 'date':
+      return scalar(DATE_SCALARS[dateFormat(field)], context);
+
+    case 'json':
+      return scalar('JSON', context);
+
+    default:
+      return 'String';
+  }
+}
+
+function scalar(name: string, context: WriterContext): string {
+  context.scalars.add(name);
+  return name;
+}
+
+/**
+ * Type of the model a relation points at, undefined for external models
+ */
+function relationTarget(field: FieldDefinitionType, context: WriterContext): string | undefined {
+  const config = field.config;
+  if (config?.type !== 'relation' || !context.models.has(config.targetModel)) return undefined;
+
+  return modelTypeName(config.targetModel);
+}
+
+/**
+ * Components of a dynamic zone that have a definition, none for other fields
+ */
+function zoneBlocks(field: FieldDefinitionType, context: WriterContext): string[] {
+  const config = field.config;
+  if (field.type !== 'component' || config?.type !== 'component' || !config.components) return [];
+
+  return config.components.filter((slug) => context.components.has(slug));
+}
+
+/**
+ * Union name of a dynamic zone: Page + blocks -> PageBlocks
+ */
+function zoneTypeName(ownerType: string, field: FieldDefinitionType): string {
+  return `${ownerType}${toPascalCase(field.key)}`;
+}
+
+function writeConnection(node: string): string {
+  return [
+    `type ${node}Connection {`,
+    `  edges: [${node}Edge!]!`,
+    '  pageInfo: PageInfo!',
+    '  totalCount: Int!',
+    '}',
+    '',
+    `type ${node}Edge {`,
+    '  cursor: String!',
+    `  node: ${node}!`,
+    '}',
+  ].join('\n');
+}
+
+const PAGE_INFO_TYPE = [
+  'type PageInfo {',
+  '  hasNextPage: Boolean!',
+  '  hasPreviousPage: Boolean!',
+  '  startCursor: String',
+  '  endCursor: String',
+  '}',
+].join('\n');
+
+const MEDIA_USAGE_TYPES = [
+  [
+    '"""',
+    'Item of a multiple media field, with per-usage metadata',
+    '"""',
+    'type MediaUsage {',
+    '  id: ID!',
+    '  alt: String',
+    '  crop: MediaCrop',
+    '  focal: MediaFocalPoint',
+    '}',
+  ].join('\n'),
+  'type MediaCrop {\n  x: Float!\n  y: Float!\n  width: Float!\n  height: Float!\n}',
+  'type MediaFocalPoint {\n  x: Float!\n  y: Float!\n}',
+  [
+    'input MediaUsageInput {',
+    '  id: ID!',
+    '  alt: String',
+    '  crop: MediaCropInput',
+    '  focal: MediaFocalPointInput',
+    '}',
+  ].join('\n'),
+  'input MediaCropInput {\n  x: Float\n  y: Float\n  width: Float\n  height: Float\n}',
+  'input MediaFocalPointInput {\n  x: Float\n  y: Float\n}',
+];
+
+function blockString(text: string): string {
+  return `"""\n${text.replace(/"""/g, '\\"""')}\n"""`;
+}
+
+/**
+ * Translatable fields take a locale argument, with i18n enabled
+ */
+function isTranslated(field: FieldDefinitionType, context: WriterContext): boolean {
+  return context.config.i18nEnabled && splitTranslatable([field], context.config).translatable.length > 0;
+}
+
+/**
+ * Fields split into the record's own and its translations', following
+ * separateFields in the schema builder
+ */
+function splitTranslatable(
+  fields: FieldDefinitionType[],
+  config: GraphqlWriterConfig
+): { columns: FieldDefinitionType[]; translatable: FieldDefinitionType[] } {
+  const { translatable, nonTranslatable, components } = separateFields(typedFields(fields));
+
+  return config.i18nEnabled
+    ? { columns: [...nonTranslatable, ...components], translatable }
+    : { columns: [...nonTranslatable, ...translatable, ...components], translatable: [] };
+}
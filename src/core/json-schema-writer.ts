@@ -0,0 +1,435 @@
+// src/core/json-schema-writer.ts
+
+import type {
+  ComponentEntityType,
+  FieldDefinitionType,
+  ModelConfigType,
+} from '../field-config-schema';
+import { DYNAMIC_ZONE_TYPE_KEY } from '../mappers/component-mapper';
+import type { MediaModel } from '../mappers/media-mapper';
+import { optionValues } from '../mappers/enum-mapper';
+import { numberColumnType } from '../mappers/number-mapper';
+import { dateFormat } from '../mappers/date-mapper';
+import { isMultiSelect } from '../mappers/select-mapper';
+import { isList, typedFields } from '../mappers/value-mapper';
+import type { JsonSchema } from '../utils/json-schema';
+import { separateFields } from './schema-builder';
+import { componentTypeName, modelTypeName, selectTypeName } from './types-writer';
+
+export interface JsonSchemaWriterConfig {
+  i18nEnabled: boolean;
+  defaultLang?: string;
+  media?: MediaModel;
+}
+
+const JSON_SCHEMA_DIALECT = 'https://json-schema.org/draft/2020-12/schema';
+
+// OpenAPI 3.1 schemas are JSON Schema 2020-12
+const OPENAPI_VERSION = '3.1.0';
+
+const DATE_FORMATS = { date: 'date', datetime: 'date-time', time: 'time' } as const;
+
+/**
+ * JSON Schemas of content records as the content API returns them, named
+ * like the content types: BlogPost, SeoComponent, BlogPostStatus
+ *
+ * A model's schema has its translatable fields merged in for one locale,
+ * its WithTranslations variant every locale under `translations`. Schemas
+ * reference each other with refBase + name, so components nest (and nest
+ * themselves) by $ref. Validation rules become keywords, `errorMessage`
+ * is kept for ajv-errors; `custom` Zod checks have no equivalent.
+ */
+export function buildContentSchemas(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>,
+  config: JsonSchemaWriterConfig,
+  refBase: string
+): Record<string, JsonSchema> {
+  const context: WriterContext = { components, config, refBase };
+  const schemas: Record<string, JsonSchema> = {};
+  const entities = [
+    ...models.map((m) => ({ typeName: modelTypeName(m.slug), fields: m.fields })),
+    ...[...components.values()].map((c) => ({ typeName: componentTypeName(c.slug), fields: c.fields })),
+  ];
+  const allFields = entities.flatMap((e) => e.fields);
+
+  for (const { typeName, fields } of entities) {
+    for (const field of typedFields(fields).filter((f) => f.type === 'select')) {
+      schemas[selectTypeName(typeName, field.key)] = { type: 'string', enum: optionValues(field) };
+    }
+  }
+
+  if (allFields.some((f) => f.type === 'media')) {
+    Object.assign(schemas, mediaSchemas(allFields, context));
+  }
+
+  for (const model of models) {
+    const typeName = modelTypeName(model.slug);
+    const { columns, translatable } = splitTranslatable(model.fields, config);
+
+    if (translatable.length === 0) {
+      schemas[typeName] = recordSchema(model.name, typeName, typedFields(model.fields), context);
+      continue;
+    }
+
+    schemas[typeName] = recordSchema(
+      `${model.name} in one locale`,
+      typeName,
+      typedFields(model.fields),
+      context,
+      { locale: { type: 'string', readOnly: true } }
+    );
+    schemas[`${typeName}Translation`] = objectSchema(
+      `${model.name} translation`,
+      typeName,
+      translatable,
+      context
+    );
+    schemas[`${typeName}WithTranslations`] = recordSchema(
+      `${model.name} in every locale`,
+      typeName,
+      columns,
+      context,
+      {},
+      { translations: translationsSchema(typeName, translatable, context) }
+    );
+  }
+
+  for (const component of components.values()) {
+    const typeName = componentTypeName(component.slug);
+    schemas[typeName] = objectSchema(
+      `${component.name} component`,
+      typeName,
+      typedFields(component.fields),
+      context
+    );
+  }
+
+  return schemas;
+}
+
+/**
+ * JSON Schema document with the content schemas under $defs
+ */
+export function writeJsonSchema(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>,
+  config: JsonSchemaWriterConfig
+): string {
+  const document = {
+    $schema: JSON_SCHEMA_DIALECT,
+    $defs: buildContentSchemas(models, components, config, '#/$defs/'),
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+/**
+ * OpenAPI document holding the content schemas in components.schemas,
+ * for API descriptions to reference:
+ *   $ref: './content.openapi.json#/components/schemas/BlogPost'
+ */
+export function writeOpenApiComponents(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>,
+  config: JsonSchemaWriterConfig
+): string {
+  const document = {
+    openapi: OPENAPI_VERSION,
+    info: { title: 'Content models', version: '1.0.0' },
+    jsonSchemaDialect: JSON_SCHEMA_DIALECT,
+    components: {
+      schemas: buildContentSchemas(models, components, config, '#/components/schemas/'),
+    },
+  };
+
+  return JSON.stringify(document, null, 2) + '\n';
+}
+
+interface WriterContext {
+  components: Map<string, ComponentEntityType>;
+  config: JsonSchemaWriterConfig;
+  refBase: string; // Prefix of $ref values: #/$defs/ or #/components/schemas/
+}
+
+/**
+ * A stored record: its id and timestamps around the fields, all present
+ */
+function recordSchema(
+  title: string,
+  typeName: string,
+  fields: FieldDefinitionType[],
+  context: WriterContext,
+  leading: Record<string, JsonSchema> = {},
+  trailing: Record<string, JsonSchema> = {}
+): JsonSchema {
+  const timestamp: JsonSchema = { type: 'string', format: 'date-time', readOnly: true };
+  const object = objectSchema(title, typeName, fields, context);
+  const properties = {
+    id: { type: 'string', readOnly: true },
+    ...leading,
+    ...object.properties,
+    ...trailing,
+    created_at: timestamp,
+    updated_at: timestamp,
+  } as Record<string, JsonSchema>;
+
+  return { ...object, properties, required: Object.keys(properties) };
+}
+
+/**
+ * Object with a property per field, every one present: fields without a
+ * value are null, lists empty
+ */
+function objectSchema(
+  title: string,
+  typeName: string,
+  fields: FieldDefinitionType[],
+  context: WriterContext
+): JsonSchema {
+  const properties: Record<string, JsonSchema> = {};
+
+  for (const field of fields) {
+    properties[field.key] = propertySchema(field, typeName, context);
+  }
+
+  return { type: 'object', title, properties, required: Object.keys(properties) };
+}
+
+/**
+ * Translations keyed by locale, the default locale present when one of
+ * the fields is required
+ */
+function translationsSchema(
+  typeName: string,
+  translatable: FieldDefinitionType[],
+  context: WriterContext
+): JsonSchema {
+  const translation = ref(`${typeName}Translation`, context);
+  const defaultLang = context.config.defaultLang;
+
+  if (defaultLang && translatable.some((f) => f.required)) {
+    return {
+      type: 'object',
+      properties: { [defaultLang]: translation },
+      required: [defaultLang],
+      additionalProperties: translation,
+    };
+  }
+
+  return { type: 'object', additionalProperties: translation };
+}
+
+function propertySchema(
+  field: FieldDefinitionType,
+  ownerType: string,
+  context: WriterContext
+): JsonSchema {
+  const schema = fieldSchema(field, ownerType, context);
+  const rules = field.validation ?? {};
+
+  return {
+    title: field.label,
+    ...(field.required || isList(field) ? schema : nullable(schema)),
+    ...(field.derived && { readOnly: true }),
+    ...(rules.errorMessage && { errorMessage: rules.errorMessage }),
+  };
+}
+
+/**
+ * Schema of a field's value with its validation rules, not null
+ */
+function fieldSchema(
+  field: FieldDefinitionType,
+  ownerType: string,
+  context: WriterContext
+): JsonSchema {
+  const config = field.config;
+  const rules = field.validation ?? {};
+
+  switch (field.type) {
+    case 'text':
+    case 'rich':
+      return stringSchema(rules);
+
+    case 'number': {
+      const columnType = numberColumnType(field);
+
+      // BigInt and Decimal values are strings over JSON, so no digits are lost
+      if (columnType === 'BigInt') return { type: 'string', pattern: '^-?\\d+$' };
+      if (columnType === 'Decimal') return { type: 'string', pattern: '^-?\\d+(\\.\\d+)?$' };
+
+      return withRules({
+        type: rules.int || columnType === 'Int' ? 'integer' : 'number',
+        minimum: rules.min,
+        maximum: rules.max,
+        exclusiveMinimum: rules.positive ? 0 : undefined,
+        exclusiveMaximum: rules.negative ? 0 : undefined,
+      });
+    }
+
+    case 'boolean':
+      return { type: 'boolean' };
+
+    case 'date': {
+      const format = dateFormat(field);
+      if (format === 'time') return stringSchema(rules, DATE_FORMATS.time);
+
+      // Bounds of formatted values, as ajv-formats reads them
+      return withRules({
+        type: 'string',
+        format: DATE_FORMATS[format],
+        formatMinimum: rules.minDate,
+        formatMaximum: rules.maxDate,
+      });
+    }
+
+    case 'select': {
+      const options = ref(selectTypeName(ownerType, field.key), context);
+      return isMultiSelect(field) ? arraySchema(options, field, true) : options;
+    }
+
+    case 'json':
+      return config?.type === 'json' && config.schema ? (config.schema as JsonSchema) : {};
+
+    case 'media':
+      return config?.type === 'media' && config.multiple
+        ? arraySchema(ref('MediaUsage', context), field)
+        : ref('MediaId', context);
+
+    case 'relation':
+      return isList(field) ? arraySchema({ type: 'string' }, field, true) : { type: 'string' };
+
+    case 'component': {
+      if (config?.type !== 'component') return {};
+
+      if (config.components) {
+        const blocks = config.components.map((slug): JsonSchema => ({
+          allOf: [
+            componentSchema(slug, context),
+            {
+              type: 'object',
+              properties: { [DYNAMIC_ZONE_TYPE_KEY]: { const: slug } },
+              required: [DYNAMIC_ZONE_TYPE_KEY],
+            },
+          ],
+        }));
+        return arraySchema(blocks.length === 1 ? blocks[0]! : { oneOf: blocks }, field);
+      }
+
+      const schema = componentSchema(config.slug!, context);
+      return config.repeatable ? arraySchema(schema, field) : schema;
+    }
+  }
+}
+
+/**
+ * Reference to a component schema; unknown components are any object
+ */
+function componentSchema(slug: string, context: WriterContext): JsonSchema {
+  return context.components.has(slug)
+    ? ref(componentTypeName(slug), context)
+    : { type: 'object' };
+}
+
+function stringSchema(
+  rules: NonNullable<FieldDefinitionType['validation']>,
+  format?: string
+): JsonSchema {
+  const ruleFormat = rules.email ? 'email' : rules.url ? 'uri' : rules.uuid ? 'uuid' : undefined;
+
+  return withRules({
+    type: 'string',
+    format: format ?? ruleFormat,
+    minLength: rules.minLength,
+    maxLength: rules.maxLength,
+    // JSON Schema has no cuid format, the pattern Zod checks it with
+    pattern: rules.pattern ?? (rules.cuid ? '^c[^\\s-]{8,}$' : undefined),
+  });
+}
+
+function arraySchema(items: JsonSchema, field: FieldDefinitionType, unique = false): JsonSchema {
+  const rules = field.validation ?? {};
+
+  return withRules({
+    type: 'array',
+    items,
+    minItems: rules.minItems,
+    maxItems: rules.maxItems,
+    uniqueItems: unique || undefined,
+  });
+}
+
+/**
+ * Keywords without a value left out
+ */
+function withRules(schema: JsonSchema): JsonSchema {
+  return Object.fromEntries(
+    Object.entries(schema).filter(([, value]) => value !== undefined)
+  ) as JsonSchema;
+}
+
+/**
+ * Null added to a schema: to its type and enum when it has a single type,
+ * else as an alternative
+ */
+function nullable(schema: JsonSchema): JsonSchema {
+  if (typeof schema.type === 'string') {
+    return {
+      ...schema,
+      type: [schema.type, 'null'],
+      ...(schema.enum && { enum: [...schema.enum, null] }),
+    };
+  }
+
+  return Object.keys(schema).length === 0 ? schema : { anyOf: [schema, { type: 'null' }] };
+}
+
+function ref(name: string, context: WriterContext): JsonSchema {
+  return { $ref: `${context.refBase}${name}` };
+}
+
+function mediaSchemas(
+  fields: FieldDefinitionType[],
+  context: WriterContext
+): Record<string, JsonSchema> {
+  const schemas: Record<string, JsonSchema> = {
+    MediaId: { type: context.config.media?.keyType === 'Int' ? 'integer' : 'string' },
+  };
+
+  if (fields.some((f) => f.config?.type === 'media' && f.config.multiple)) {
+    const point: Record<string, JsonSchema> = { x: { type: 'number' }, y: { type: 'number' } };
+
+    schemas.MediaUsage = {
+      type: 'object',
+      title: 'Item of a multiple media field, with per-usage metadata',
+      properties: {
+        id: ref('MediaId', context),
+        alt: { type: 'string' },
+        crop: {
+          type: 'object',
+          properties: { ...point, width: { type: 'number' }, height: { type: 'number' } },
+        },
+        focal: { type: 'object', properties: point },
+      },
+      required: ['id'],
+    };
+  }
+
+  return schemas;
+}
+
+/**
+ * Fields split into the record's own and its translation's, following
+ * separateFields in the schema builder
+ */
+function splitTranslatable(
+  fields: FieldDefinitionType[],
+  config: JsonSchemaWriterConfig
+): { columns: FieldDefinitionType[]; translatable: FieldDefinitionType[] } {
+  const { translatable, nonTranslatable, components } = separateFields(typedFields(fields));
+
+  return config.i18nEnabled
+    ? { columns: [...nonTranslatable, ...components], translatable }
+    : { columns: [...nonTranslatable, ...translatable, ...components], translatable: [] };
+}
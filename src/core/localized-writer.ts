@@ -0,0 +1,186 @@
+// src/core/localized-writer.ts
+
+import type { PrismaModel } from '../utils/prisma-ast';
+import { toDelegateName, toSnakeCase } from '../utils/naming';
+
+export interface LocalizedWriterConfig {
+  defaultLang: string;
+  fallbacks?: Record<string, string[]>; // Locales tried before the default, per locale
+  clientImport: string;
+}
+
+/**
+ * A model with a translation table, as the extension reads it
+ */
+export interface LocalizedModel {
+  model: string; // Prisma model name
+  translationModel: string;
+  foreignKey: string; // Translation column referencing the model
+  fields: string[]; // Translation columns merged onto records
+}
+
+// Translation column holding the locale
+const LANG_FIELD = 'lang';
+
+/**
+ * The translation table of a model's tables (the model first), undefined
+ * when its fields are not translated
+ */
+export function findLocalizedModel(tables: PrismaModel[]): LocalizedModel | undefined {
+  const [main] = tables;
+  const tableNames = new Set(tables.map((t) => t.name));
+  const relation = main?.fields.find((f) => f.name === 'translations' && f.list);
+  const translation = tables.find((t) => t.name === relation?.type);
+  if (!main || !translation) return undefined;
+
+  const foreignKey = translation.fields.find((f) => f.type === main.name && f.relation)
+    ?.relation?.fields?.[0];
+  if (!foreignKey) return undefined;
+
+  return {
+    model: main.name,
+    translationModel: translation.name,
+    foreignKey,
+    fields: translation.fields
+      .filter(
+        (f) =>
+          !f.relation &&
+          !tableNames.has(f.type) &&
+          !f.attributes?.includes('@id') &&
+          f.name !== foreignKey &&
+          f.name !== LANG_FIELD
+      )
+      .map((f) => f.name),
+  };
+}
+
+/**
+ * Prisma Client extension source with localized reads and translation
+ * upserts for models with translation tables
+ *
+ * findManyLocalized / findUniqueLocalized merge translation fields onto
+ * records, each from the first locale of the chain that has a value: the
+ * requested locales, their configured fallbacks, then the default locale.
+ * Use with prisma.$extends(localizedModels)
+ */
+export function writeLocalizedExtension(
+  models: LocalizedModel[],
+  config: LocalizedWriterConfig
+): string {
+  const lines = [
+    '// Localized queries of translated models, written by eav-to-prisma',
+    `import { Prisma, ${models.map((m) => `type ${m.translationModel}`).join(', ')} } from '${config.clientImport}';`,
+    '',
+    `export const DEFAULT_LOCALE = ${JSON.stringify(config.defaultLang)};`,
+    '',
+    '// Locales tried before the default locale when a translation is missing',
+    `const LOCALE_FALLBACKS: Record<string, string[]> = ${JSON.stringify(config.fallbacks ?? {})};`,
+    '',
+    '/**',
+    ' * Locales to read, in order: the requested ones with their fallbacks, then the default',
+    ' */',
+    'export function localeChain(locale: string | string[]): string[] {',
+    '  const requested = Array.isArray(locale) ? locale : [locale];',
+    '  return [',
+    '    ...new Set([...requested.flatMap((l) => [l, ...(LOCALE_FALLBACKS[l] ?? [])]), DEFAULT_LOCALE]),',
+    '  ];',
+    '}',
+    '',
+    '/**',
+    ' * A record with its translation fields merged in and the locale of its',
+    ' * first translation in the chain, null without one',
+    ' */',
+    "export type Localized<T, F> = Omit<T, 'translations'> & { [K in keyof F]: F[K] | null } & {",
+    '  locale: string | null;',
+    '};',
+    '',
+    'function withTranslations(args: Record<string, any> | undefined, locales: string[]): any {',
+    `  const translations = { where: { ${LANG_FIELD}: { in: locales } } };`,
+    '  return args?.select',
+    '    ? { ...args, select: { ...args.select, translations } }',
+    '    : { ...args, include: { ...args?.include, translations } };',
+    '}',
+    '',
+    'function localize(row: Record<string, any>, fields: string[], locales: string[]): any {',
+    '  const { translations = [], ...record } = row;',
+    '  const ordered = locales',
+    `    .map((locale) => translations.find((t: Record<string, any>) => t.${LANG_FIELD} === locale))`,
+    '    .filter(Boolean);',
+    '',
+    '  for (const field of fields) {',
+    '    record[field] = ordered.find((t: Record<string, any>) => t[field] != null)?.[field] ?? null;',
+    '  }',
+    `  record.locale = ordered[0]?.${LANG_FIELD} ?? null;`,
+    '',
+    '  return record;',
+    '}',
+    '',
+    ...models.flatMap(writeTypes),
+    'export const localizedModels = Prisma.defineExtension((client) =>',
+    '  client.$extends({',
+    "    name: 'localized-models',",
+    '    model: {',
+    ...models.flatMap(writeModelMethods),
+    '    },',
+    '  })',
+    ');',
+    '',
+  ];
+
+  return lines.join('\n');
+}
+
+function writeTypes(model: LocalizedModel): string[] {
+  return [
+    `type ${model.model}TranslationFields = Omit<${model.translationModel}, 'id' | '${model.foreignKey}' | '${LANG_FIELD}'>;`,
+    `const ${fieldsConstant(model)} = [${model.fields.map((f) => `'${f}'`).join(', ')}];`,
+    '',
+  ];
+}
+
+function writeModelMethods(model: LocalizedModel): string[] {
+  const { model: name, foreignKey } = model;
+  const delegate = `client.${toDelegateName(name)}`;
+  const translationDelegate = `client.${toDelegateName(model.translationModel)}`;
+  const localized = `Localized<Prisma.${name}GetPayload<A>, ${name}TranslationFields>`;
+  const dataType = `Omit<Prisma.${model.translationModel}CreateManyInput, 'id' | '${foreignKey}' | '${LANG_FIELD}'>`;
+  const upsert = `${translationDelegate}.upsert({ where: { ${foreignKey}_${LANG_FIELD}: { ${foreignKey}: id, ${LANG_FIELD}: locale } }, create: { ...data, ${foreignKey}: id, ${LANG_FIELD}: locale }, update: data })`;
+
+  return [
+    `      ${toDelegateName(name)}: {`,
+    `        async findManyLocalized<A extends Prisma.${name}FindManyArgs>(`,
+    '          locale: string | string[],',
+    `          args?: Prisma.SelectSubset<A, Prisma.${name}FindManyArgs>`,
+    `        ): Promise<Array<${localized}>> {`,
+    '          const locales = localeChain(locale);',
+    `          const rows: Array<Record<string, any>> = await ${delegate}.findMany(withTranslations(args, locales));`,
+    `          return rows.map((row) => localize(row, ${fieldsConstant(model)}, locales));`,
+    '        },',
+    '',
+    `        async findUniqueLocalized<A extends Prisma.${name}FindUniqueArgs>(`,
+    '          locale: string | string[],',
+    `          args: Prisma.SelectSubset<A, Prisma.${name}FindUniqueArgs>`,
+    `        ): Promise<${localized} | null> {`,
+    '          const locales = localeChain(locale);',
+    `          const row: Record<string, any> | null = await ${delegate}.findUnique(withTranslations(args, locales));`,
+    `          return row && localize(row, ${fieldsConstant(model)}, locales);`,
+    '        },',
+    '',
+    `        upsertTranslation(id: string, locale: string, data: ${dataType}) {`,
+    `          return ${upsert};`,
+    '        },',
+    '',
+    `        upsertTranslations(id: string, translations: Record<string, ${dataType}>) {`,
+    '          return client.$transaction(',
+    '            Object.entries(translations).map(([locale, data]) =>',
+    `              ${upsert}`,
+    '            )',
+    '          );',
+    '        },',
+    '      },',
+  ];
+}
+
+function fieldsConstant(model: LocalizedModel): string {
+  return `${toSnakeCase(model.model).toUpperCase()}_TRANSLATION_FIELDS`;
+}
@@ -0,0 +1,223 @@
+// src/core/relation-resolver.ts
+
+import type { PrismaField, PrismaModel } from "../utils/prisma-ast";
+import { pluralize, toPascalCase, toSnakeCase } from "../utils/naming";
+
+interface RelationSide {
+  model: PrismaModel;
+  field: PrismaField;
+}
+
+interface RelationPair {
+  owner: RelationSide; // Holds fields/references
+  other: RelationSide;
+}
+
+/**
+ * Complete relations across all models of a schema (mutates the models)
+ *
+ * Every relation field needs a counterpart on its target: FK-owning fields
+ * get a back-relation, list fields without an FK get an FK and relation
+ * field on the target (or an implicit many-to-many list). Relations between
+ * the same pair of models, and self relations, are named automatically.
+ * Returns warnings for relation fields whose target model is missing.
+ */
+export function resolveRelations(
+  models: PrismaModel[],
+  enumNames: Set<string> = new Set()
+): string[] {
+  const warnings: string[] = [];
+  const byName = new Map(models.map((m) => [m.name, m]));
+  const pairs: RelationPair[] = [];
+  const paired = new Set<PrismaField>();
+  const owning: RelationSide[] = [];
+  const nonOwning: RelationSide[] = [];
+
+  for (const model of models) {
+    for (const field of model.fields) {
+      if (isScalarType(field.type) || enumNames.has(field.type)) continue;
+
+      if (!byName.has(field.type)) {
+        if (field.relation || field.list) {
+          warnings.push(
+            `Relation "${model.name}.${field.name}" points at unknown model "${field.type}"`
+          );
+        }
+        continue;
+      }
+
+      const side = { model, field };
+      (field.relation?.fields ? owning : nonOwning).push(side);
+    }
+  }
+
+  // Pair FK owners with an existing field on the target first
+  for (const owner of owning) {
+    const target = byName.get(owner.field.type)!;
+    const other = nonOwning.find(
+      (side) =>
+        side.model === target &&
+        side.field.type === owner.model.name &&
+        side.field !== owner.field &&
+        !paired.has(side.field) &&
+        side.field.relation?.name === owner.field.relation?.name
+    );
+
+    if (other) {
+      paired.add(other.field);
+      pairs.push({ owner, other });
+    }
+  }
+
+  for (const side of nonOwning) {
+    if (paired.has(side.field)) continue;
+    const target = byName.get(side.field.type)!;
+    pairs.push(addOwningSide(side, target));
+  }
+
+  for (const owner of owning) {
+    if (pairs.some((pair) => pair.owner.field === owner.field)) continue;
+    const target = byName.get(owner.field.type)!;
+    pairs.push({ owner, other: addBackRelation(owner, target) });
+  }
+
+  nameAmbiguousRelations(pairs);
+
+  return warnings;
+}
+
+/**
+ * FK and relation field on the target for a list field without one,
+ * or the list side of an implicit many-to-many
+ */
+function addOwningSide(side: RelationSide, target: PrismaModel): RelationPair {
+  const { model, field } = side;
+
+  if (field.inverse?.list) {
+    const back: PrismaField = {
+      name: uniqueFieldName(target, [
+        pluralize(toSnakeCase(model.name)),
+        `${field.name}_${pluralize(toSnakeCase(model.name))}`,
+      ]),
+      type: model.name,
+      list: true,
+      optional: true,
+    };
+    target.fields.push(back);
+
+    return { owner: side, other: { model: target, field: back } };
+  }
+
+  const relationName = uniqueFieldName(target, [
+    toSnakeCase(model.name),
+    `${toSnakeCase(field.name)}_${toSnakeCase(model.name)}`,
+  ]);
+  const fk: PrismaField = {
+    name: `${relationName}_id`,
+    type: "String",
+    optional: true,
+    attributes: field.list ? undefined : ["@unique"],
+  };
+  const relation: PrismaField = {
+    name: relationName,
+    type: model.name,
+    optional: true,
+    relation: {
+      fields: [fk.name],
+      references: ["id"],
+      onDelete: field.inverse?.onDelete ?? "SetNull",
+    },
+  };
+
+  target.fields.push(fk, relation);
+
+  return { owner: { model: target, field: relation }, other: side };
+}
+
+/**
+ * List (or optional one-to-one) field on the target of an FK owner
+ */
+function addBackRelation(owner: RelationSide, target: PrismaModel): RelationSide {
+  const { model, field } = owner;
+  const single = isUniqueForeignKey(model, field.relation?.fields ?? []);
+  const base = single ? toSnakeCase(model.name) : pluralize(toSnakeCase(model.name));
+
+  const back: PrismaField = {
+    name: uniqueFieldName(target, [base, `${field.name}_${base}`]),
+    type: model.name,
+    list: !single,
+    optional: true,
+  };
+  target.fields.push(back);
+
+  return { model: target, field: back };
+}
+
+/**
+ * Prisma needs relation names when two models are related more than once
+ * or a model relates to itself: PostAuthor, PostEditor
+ */
+function nameAmbiguousRelations(pairs: RelationPair[]): void {
+  const counts = new Map<string, number>();
+  const key = (pair: RelationPair) =>
+    [pair.owner.model.name, pair.other.model.name].sort().join("|");
+
+  for (const pair of pairs) {
+    counts.set(key(pair), (counts.get(key(pair)) ?? 0) + 1);
+  }
+
+  for (const pair of pairs) {
+    const self = pair.owner.model === pair.other.model;
+    if (!self && counts.get(key(pair))! < 2) continue;
+
+    const name =
+      pair.owner.field.relation?.name ??
+      pair.other.field.relation?.name ??
+      `${pair.owner.model.name}${toPascalCase(pair.owner.field.name)}`;
+
+    pair.owner.field.relation = { ...pair.owner.field.relation, name };
+    pair.other.field.relation = { ...pair.other.field.relation, name };
+  }
+}
+
+function isUniqueForeignKey(model: PrismaModel, fields: string[]): boolean {
+  if (fields.length === 1) {
+    const fk = model.fields.find((f) => f.name === fields[0]);
+    if (fk?.attributes?.some((a) => a === "@unique" || a === "@id")) {
+      return true;
+    }
+  }
+
+  const key = [...fields].sort().join(",");
+  return (model.unique ?? []).some((u) => {
+    const columns = (Array.isArray(u) ? u : u.fields).map((f) => f.replace(/\(.*$/, ""));
+    return columns.sort().join(",") === key;
+  });
+}
+
+function uniqueFieldName(model: PrismaModel, candidates: string[]): string {
+  const taken = new Set(model.fields.map((f) => f.name));
+  const available = candidates.find((name) => !taken.has(name));
+  if (available) return available;
+
+  const base = candidates[candidates.length - 1]!;
+  let i = 2;
+  while (taken.has(`${base}_${i}`)) i++;
+  return `${base}_${i}`;
+}
+
+const SCALAR_TYPES = new Set([
+  "String",
+  "Int",
+  "BigInt",
+  "Float",
+  "Decimal",
+  "Boolean",
+  "DateTime",
+  "Json",
+  "Bytes",
+]);
+
+function isScalarType(type: string): boolean {
+  return SCALAR_TYPES.has(type) || type.startsWith("Unsupported(");
+}
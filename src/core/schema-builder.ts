@@ -1,5 +1,12 @@
-import type { PrismaModel, PrismaField } from "../utils/prisma-ast";
+import type {
+  PrismaModel,
+  PrismaField,
+  PrismaDatasource,
+} from "../utils/prisma-ast";
 import { mapFieldToPrisma } from "../mappers/field-mapper";
+import { buildSelectValueTables } from "../mappers/select-mapper";
+import { applyModelIndexes } from "../mappers/index-mapper";
+import type { MediaModel } from "../mappers/media-mapper";
 import { toPascalCase, toSnakeCase } from "../utils/naming";
 import type {
   ModelConfigType,
@@ -12,6 +19,10 @@ export interface SchemaBuilderConfig {
   i18nEnabled: boolean;
   i18nTableNaming: string;
   externalModelNames?: Set<string>;
+  reversedJunctions?: Set<string>;
+  provider?: PrismaDatasource["provider"];
+  timezone?: boolean;
+  media?: MediaModel;
 }
 
 export function buildModel(
@@ -33,7 +44,7 @@ export function buildModel(
   
   const mainFields: PrismaField[] = [
     buildIdField(),
-    ...fieldsToInclude.flatMap((f) => mapFieldToPrisma(f, config)),
+    ...fieldsToInclude.flatMap((f) => mapFieldToPrisma(f, config, modelName)),
     ...buildTimestampFields(),
   ];
 
@@ -44,7 +55,7 @@ export function buildModel(
       mainFields.push({
         name: field.key,
         type: componentTableName,
-        list: field.config.repeatable,
+        list: field.config.repeatable || field.config.components !== undefined,
         optional: true,
       });
     }
@@ -60,21 +71,32 @@ export function buildModel(
     indexes: buildIndexes(model.fields, model.settings),
   };
 
+  const translationModel =
+    config.i18nEnabled && translatable.length > 0
+      ? buildTranslationModel(modelName, translatable, config)
+      : undefined;
+
+  applyModelIndexes(model, mainModel, translationModel, config);
+
   models.push(mainModel);
+  models.push(...buildSelectValueTables(modelName, fieldsToInclude, config));
 
-  if (config.i18nEnabled && translatable.length > 0) {
-    const translationModel = buildTranslationModel(
-      modelName,
-      translatable,
-      config
-    );
+  if (translationModel) {
     models.push(translationModel);
+    models.push(
+      ...buildSelectValueTables(
+        modelName,
+        translatable,
+        config,
+        translationModel.name
+      )
+    );
   }
 
   return models;
 }
 
-function separateFields(fields: FieldDefinitionType[]): {
+export function separateFields(fields: FieldDefinitionType[]): {
   translatable: FieldDefinitionType[];
   nonTranslatable: FieldDefinitionType[];
   components: FieldDefinitionType[];
@@ -89,7 +111,11 @@ function separateFields(fields: FieldDefinitionType[]): {
       continue;
     }
 
-    if (field.type === "relation") {
+    // Relations and media junction rows belong to the record, not a language
+    if (
+      field.type === "relation" ||
+      (field.config?.type === "media" && field.config.multiple)
+    ) {
       nonTranslatable.push(field);
       continue;
     }
@@ -104,7 +130,7 @@ function separateFields(fields: FieldDefinitionType[]): {
   return { translatable, nonTranslatable, components };
 }
 
-function buildComponentTableName(
+export function buildComponentTableName(
   parentModel: string,
   fieldKey: string,
   config: SchemaBuilderConfig
@@ -118,7 +144,7 @@ function buildComponentTableName(
   return `${parentModel}${toPascalCase(fieldName)}`;
 }
 
-function buildModelName(slug: string, config: SchemaBuilderConfig): string {
+export function buildModelName(slug: string, config: SchemaBuilderConfig): string {
   const name = toPascalCase(slug);
   return config.prefix ? `${config.prefix}${name}` : name;
 }
@@ -178,7 +204,9 @@ function buildTranslationModel(
         name: "lang",
         type: "String",
       },
-      ...translatableFields.flatMap((f) => mapFieldToPrisma(f, config)),
+      ...translatableFields.flatMap((f) =>
+        mapFieldToPrisma(f, config, baseModelName)
+      ),
       {
         name: toSnakeCase(baseModelName),
         type: baseModelName,
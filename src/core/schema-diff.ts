@@ -0,0 +1,418 @@
+// src/core/schema-diff.ts
+
+import { writeFieldAttributes, writeIndexArguments } from "./schema-writer";
+import type {
+  PrismaEnum,
+  PrismaField,
+  PrismaIndex,
+  PrismaModel,
+} from "../utils/prisma-ast";
+
+export type ChangeSeverity = "safe" | "risky" | "destructive";
+
+export type ChangeKind =
+  | "model-added"
+  | "model-removed"
+  | "model-changed"
+  | "field-added"
+  | "field-removed"
+  | "field-changed"
+  | "enum-added"
+  | "enum-removed"
+  | "enum-changed";
+
+export interface SchemaChange {
+  severity: ChangeSeverity;
+  kind: ChangeKind;
+  model: string; // Enum name for enum changes
+  field?: string;
+  message: string;
+}
+
+const SEVERITY_RANK: Record<ChangeSeverity, number> = {
+  safe: 0,
+  risky: 1,
+  destructive: 2,
+};
+
+/**
+ * Type changes that keep every existing value representable
+ */
+const WIDENING: Record<string, string[]> = {
+  Int: ["BigInt", "Float", "Decimal", "String"],
+  BigInt: ["Decimal", "String"],
+  Float: ["Decimal", "String"],
+  Decimal: ["String"],
+  Boolean: ["String"],
+  DateTime: ["String"],
+};
+
+/**
+ * Compare two sets of Prisma models (previous -> next)
+ *
+ * Accepts generator AST models as well as models read back with
+ * extractModelsFromPrismaFile; attributes are compared as written.
+ * Enums are compared by their stored values.
+ */
+export function diffSchemas(
+  previous: PrismaModel[],
+  next: PrismaModel[],
+  previousEnums: PrismaEnum[] = [],
+  nextEnums: PrismaEnum[] = []
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const previousByName = new Map(previous.map((m) => [m.name, m]));
+  const nextByName = new Map(next.map((m) => [m.name, m]));
+  const modelNames = new Set([...previousByName.keys(), ...nextByName.keys()]);
+
+  for (const model of previous) {
+    if (!nextByName.has(model.name)) {
+      changes.push({
+        severity: "destructive",
+        kind: "model-removed",
+        model: model.name,
+        message: `Model ${model.name} removed (drops table)`,
+      });
+    }
+  }
+
+  for (const model of next) {
+    const before = previousByName.get(model.name);
+
+    if (!before) {
+      changes.push({
+        severity: "safe",
+        kind: "model-added",
+        model: model.name,
+        message: `Model ${model.name} added`,
+      });
+      continue;
+    }
+
+    changes.push(...diffModel(before, model, modelNames));
+  }
+
+  changes.push(...diffEnums(previousEnums, nextEnums));
+
+  return changes;
+}
+
+/**
+ * Highest severity among the changes, or null when there are none
+ */
+export function maxSeverity(changes: SchemaChange[]): ChangeSeverity | null {
+  let max: ChangeSeverity | null = null;
+
+  for (const change of changes) {
+    if (max === null || SEVERITY_RANK[change.severity] > SEVERITY_RANK[max]) {
+      max = change.severity;
+    }
+  }
+
+  return max;
+}
+
+/**
+ * True when any change is at least as severe as the threshold
+ */
+export function exceedsSeverity(
+  changes: SchemaChange[],
+  threshold: ChangeSeverity
+): boolean {
+  return changes.some(
+    (c) => SEVERITY_RANK[c.severity] >= SEVERITY_RANK[threshold]
+  );
+}
+
+/**
+ * Removed values fail for rows storing them, renaming a value only changes
+ * the name Prisma Client uses
+ */
+function diffEnums(previous: PrismaEnum[], next: PrismaEnum[]): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const previousByName = new Map(previous.map((e) => [e.name, e]));
+  const nextNames = new Set(next.map((e) => e.name));
+  const stored = (prismaEnum: PrismaEnum) =>
+    new Map(prismaEnum.values.map((v) => [v.map ?? v.name, v.name]));
+
+  for (const prismaEnum of previous) {
+    if (nextNames.has(prismaEnum.name)) continue;
+
+    changes.push({
+      severity: "safe",
+      kind: "enum-removed",
+      model: prismaEnum.name,
+      message: `Enum ${prismaEnum.name} removed`,
+    });
+  }
+
+  for (const prismaEnum of next) {
+    const before = previousByName.get(prismaEnum.name);
+    const change = (severity: ChangeSeverity, message: string) =>
+      changes.push({
+        severity,
+        kind: "enum-changed",
+        model: prismaEnum.name,
+        message: `Enum ${prismaEnum.name} ${message}`,
+      });
+
+    if (!before) {
+      changes.push({
+        severity: "safe",
+        kind: "enum-added",
+        model: prismaEnum.name,
+        message: `Enum ${prismaEnum.name} added`,
+      });
+      continue;
+    }
+
+    const beforeValues = stored(before);
+    const afterValues = stored(prismaEnum);
+
+    for (const [value, name] of beforeValues) {
+      const renamed = afterValues.get(value);
+
+      if (renamed === undefined) {
+        change("risky", `value ${value} removed (fails on rows storing it)`);
+      } else if (renamed !== name) {
+        change("safe", `value ${value} renamed ${name} -> ${renamed}`);
+      }
+    }
+
+    for (const value of afterValues.keys()) {
+      if (!beforeValues.has(value)) change("safe", `value ${value} added`);
+    }
+  }
+
+  return changes;
+}
+
+function diffModel(
+  before: PrismaModel,
+  after: PrismaModel,
+  modelNames: Set<string>
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const beforeFields = new Map(before.fields.map((f) => [f.name, f]));
+  const afterFields = new Map(after.fields.map((f) => [f.name, f]));
+
+  for (const field of before.fields) {
+    if (afterFields.has(field.name)) continue;
+
+    const isColumn = !modelNames.has(field.type);
+    changes.push({
+      severity: isColumn ? "destructive" : "safe",
+      kind: "field-removed",
+      model: after.name,
+      field: field.name,
+      message: isColumn
+        ? `${after.name}.${field.name} removed (drops column)`
+        : `${after.name}.${field.name} relation field removed`,
+    });
+  }
+
+  for (const field of after.fields) {
+    const previousField = beforeFields.get(field.name);
+
+    if (!previousField) {
+      changes.push(describeAddedField(after.name, field, modelNames));
+      continue;
+    }
+
+    changes.push(...diffField(after.name, previousField, field, modelNames));
+  }
+
+  changes.push(...diffBlockAttributes(before, after));
+
+  return changes;
+}
+
+function describeAddedField(
+  model: string,
+  field: PrismaField,
+  modelNames: Set<string>
+): SchemaChange {
+  const needsValue =
+    !field.optional &&
+    !field.list &&
+    !modelNames.has(field.type) &&
+    !normalizeAttributes(field).some(
+      (a) => a.startsWith("@default(") || a === "@updatedAt"
+    );
+
+  return {
+    severity: needsValue ? "risky" : "safe",
+    kind: "field-added",
+    model,
+    field: field.name,
+    message: needsValue
+      ? `${model}.${field.name} added as required without default (fails on existing rows)`
+      : `${model}.${field.name} added`,
+  };
+}
+
+function diffField(
+  model: string,
+  before: PrismaField,
+  after: PrismaField,
+  modelNames: Set<string>
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const change = (severity: ChangeSeverity, message: string) =>
+    changes.push({
+      severity,
+      kind: "field-changed",
+      model,
+      field: after.name,
+      message: `${model}.${after.name} ${message}`,
+    });
+
+  if (before.type !== after.type) {
+    const widening = WIDENING[before.type]?.includes(after.type) ?? false;
+    const relation = modelNames.has(before.type) || modelNames.has(after.type);
+    change(
+      widening ? "safe" : "risky",
+      `type changed ${before.type} -> ${after.type}${widening || relation ? "" : " (narrowing)"}`
+    );
+  }
+
+  if (Boolean(before.list) !== Boolean(after.list)) {
+    change("risky", after.list ? "became a list" : "is no longer a list");
+  }
+
+  if (!after.list && Boolean(before.optional) !== Boolean(after.optional)) {
+    change(
+      after.optional ? "safe" : "risky",
+      after.optional ? "required -> optional" : "optional -> required"
+    );
+  }
+
+  const beforeAttributes = normalizeAttributes(before);
+  const afterAttributes = normalizeAttributes(after);
+
+  for (const attribute of afterAttributes) {
+    if (beforeAttributes.includes(attribute)) continue;
+
+    const replaced = beforeAttributes.find(
+      (a) => attributeName(a) === attributeName(attribute)
+    );
+    change(
+      classifyAttributeChange(replaced, attribute),
+      replaced
+        ? `attribute changed ${replaced} -> ${attribute}`
+        : `attribute added ${attribute}`
+    );
+  }
+
+  for (const attribute of beforeAttributes) {
+    const name = attributeName(attribute);
+    if (
+      afterAttributes.includes(attribute) ||
+      afterAttributes.some((a) => attributeName(a) === name)
+    ) {
+      continue;
+    }
+
+    change(
+      name === "@map" ? "destructive" : "safe",
+      `attribute removed ${attribute}`
+    );
+  }
+
+  return changes;
+}
+
+function classifyAttributeChange(
+  before: string | undefined,
+  after: string
+): ChangeSeverity {
+  const name = attributeName(after);
+
+  if (name === "@map") return "destructive";
+  if (name === "@unique" || name === "@id") return "risky";
+
+  if (before && name.startsWith("@db.")) {
+    const beforeArgs = numericArgs(before);
+    const afterArgs = numericArgs(after);
+    const narrower = afterArgs.some((n, i) => n < (beforeArgs[i] ?? n));
+    return narrower ? "risky" : "safe";
+  }
+
+  if (!before && name.startsWith("@db.")) return "risky";
+
+  return "safe";
+}
+
+function diffBlockAttributes(
+  before: PrismaModel,
+  after: PrismaModel
+): SchemaChange[] {
+  const changes: SchemaChange[] = [];
+  const change = (severity: ChangeSeverity, message: string) =>
+    changes.push({
+      severity,
+      kind: "model-changed",
+      model: after.name,
+      message: `${after.name} ${message}`,
+    });
+
+  if (before.map !== after.map) {
+    change(
+      "destructive",
+      `table mapping changed ${before.map ?? "(none)"} -> ${after.map ?? "(none)"}`
+    );
+  }
+
+  const [addedUnique, removedUnique] = compareLists(before.unique, after.unique);
+  addedUnique.forEach((u) => change("risky", `@@unique(${u}) added`));
+  removedUnique.forEach((u) => change("safe", `@@unique(${u}) removed`));
+
+  const [addedIndexes, removedIndexes] = compareLists(
+    before.indexes,
+    after.indexes
+  );
+  addedIndexes.forEach((i) => change("safe", `@@index(${i}) added`));
+  removedIndexes.forEach((i) => change("safe", `@@index(${i}) removed`));
+
+  return changes;
+}
+
+function compareLists(
+  before: PrismaIndex[] = [],
+  after: PrismaIndex[] = []
+): [string[], string[]] {
+  const beforeKeys = before.map(writeIndexArguments);
+  const afterKeys = after.map(writeIndexArguments);
+
+  return [
+    afterKeys.filter((k) => !beforeKeys.includes(k)),
+    beforeKeys.filter((k) => !afterKeys.includes(k)),
+  ];
+}
+
+/**
+ * Attributes as written, whitespace-insensitive
+ */
+function normalizeAttributes(field: PrismaField): string[] {
+  // Parsed fields already carry @relation/@map in attributes
+  const attributes = field.attributes?.some(
+    (a) => a.startsWith("@relation") || a.startsWith("@map")
+  )
+    ? field.attributes
+    : writeFieldAttributes(field);
+
+  return [...new Set(attributes)].map((a) =>
+    a.replace(/\s+/g, " ").replace(/\(\s+/g, "(").replace(/\s+\)/g, ")")
+  );
+}
+
+function attributeName(attribute: string): string {
+  return attribute.match(/^@[\w.]+/)?.[0] ?? attribute;
+}
+
+function numericArgs(attribute: string): number[] {
+  return (attribute.match(/\(([^)]*)\)/)?.[1] ?? "")
+    .split(",")
+    .map((n) => Number(n.trim()))
+    .filter((n) => !Number.isNaN(n));
+}
@@ -0,0 +1,1120 @@
+// src/core/schema-importer.ts
+
+import { readFileSync } from "fs";
+import {
+  extractEnumsFromString,
+  extractModelsFromString,
+  type PrismaField,
+  type PrismaModel,
+} from "../utils/prisma-parser";
+import type { PrismaEnum, PrismaIndex } from "../utils/prisma-ast";
+import { parseZodComment } from "../utils/zod-comments";
+import { MEDIA_USAGE_COLUMNS } from "../mappers/media-mapper";
+import { pluralize, toKebabCase, toSnakeCase } from "../utils/naming";
+import {
+  ModelConfigSchema,
+  getValidationErrors,
+  type ComponentEntityType,
+  type FieldDefinitionType,
+  type ModelConfigType,
+  type ModelIndexType,
+} from "../field-config-schema";
+
+export interface ImportOptions {
+  prefix?: string; // Naming prefix to strip from model names
+  mediaModel?: string; // Model treated as media, default "Media"
+}
+
+export interface ImportResult {
+  models: ModelConfigType[];
+  components: ComponentEntityType[];
+  warnings: string[];
+}
+
+interface ComponentUsage {
+  parent: string;
+  fieldKey: string;
+  repeatable: boolean;
+}
+
+interface JunctionInfo {
+  from: string;
+  to: string;
+  cascade: "restrict" | "cascade" | "setNull";
+}
+
+const SYSTEM_FIELDS = new Set(["id", "created_at", "updated_at"]);
+
+const SCALAR_TYPES = new Set([
+  "String",
+  "Int",
+  "BigInt",
+  "Float",
+  "Decimal",
+  "Boolean",
+  "DateTime",
+  "Json",
+]);
+
+/**
+ * Turn a Prisma schema file into EAV model and component definitions
+ */
+export function importPrismaSchema(
+  filePath: string,
+  options: ImportOptions = {}
+): ImportResult {
+  const schema = readFileSync(filePath, "utf-8");
+
+  return importPrismaModels(
+    extractModelsFromString(schema),
+    options,
+    extractEnumsFromString(schema)
+  );
+}
+
+/**
+ * Reverse of Generator.generate: recognises the translation, component and
+ * junction tables emitted by buildModel, buildComponentTable and
+ * buildJunctionTable, and folds them back into the models that own them.
+ * Fields typed with one of the enums become selects.
+ */
+export function importPrismaModels(
+  prismaModels: PrismaModel[],
+  options: ImportOptions = {},
+  enums: PrismaEnum[] = []
+): ImportResult {
+  return new SchemaImporter(prismaModels, options, enums).run();
+}
+
+class SchemaImporter {
+  private byName: Map<string, PrismaModel>;
+  private enums: Map<string, PrismaEnum>;
+  private translations = new Map<string, PrismaModel>();
+  private junctions = new Map<string, JunctionInfo>();
+  private componentUsages = new Map<string, ComponentUsage>();
+  private componentSlugs = new Map<string, string>();
+  private matchedJunctions = new Set<string>();
+  private mediaJunctions = new Map<string, string>(); // Table -> owner model
+  private selectValueTables = new Map<string, string>(); // Table -> owner model
+  private dynamicZones = new Map<string, string[]>(); // Zone table -> block tables
+  private warnings: string[] = [];
+  private mediaModel: string;
+
+  constructor(
+    private prismaModels: PrismaModel[],
+    private options: ImportOptions,
+    enums: PrismaEnum[]
+  ) {
+    this.byName = new Map(prismaModels.map((m) => [m.name, m]));
+    this.enums = new Map(enums.map((e) => [e.name, e]));
+    this.mediaModel = options.mediaModel || "Media";
+  }
+
+  run(): ImportResult {
+    this.detectTranslations();
+    this.detectMediaJunctions();
+    this.detectJunctions();
+    this.detectSelectValueTables();
+    this.detectComponents();
+    this.detectDynamicZones();
+
+    const components = this.buildComponents();
+    const models: ModelConfigType[] = [];
+
+    for (const model of this.prismaModels) {
+      if (!this.isContentModel(model)) continue;
+
+      const imported = this.buildModel(model);
+      const validation = ModelConfigSchema.safeParse(imported);
+
+      if (!validation.success) {
+        this.warnings.push(
+          `Model "${imported.slug}" does not pass validation:\n${getValidationErrors(validation.error).join("\n")}`
+        );
+      }
+
+      models.push(imported);
+    }
+
+    return { models, components, warnings: this.warnings };
+  }
+
+  private isContentModel(model: PrismaModel): boolean {
+    return (
+      model.name !== this.mediaModel &&
+      !this.isTranslationTable(model.name) &&
+      !this.junctions.has(model.name) &&
+      !this.mediaJunctions.has(model.name) &&
+      !this.selectValueTables.has(model.name) &&
+      !this.componentUsages.has(model.name)
+    );
+  }
+
+  private isTranslationTable(name: string): boolean {
+    return [...this.translations.values()].some((t) => t.name === name);
+  }
+
+  /**
+   * `${Owner}Translation` with a `lang` column
+   */
+  private detectTranslations(): void {
+    for (const model of this.prismaModels) {
+      if (!model.name.endsWith("Translation")) continue;
+
+      const owner = model.name.slice(0, -"Translation".length);
+      if (
+        this.byName.has(owner) &&
+        model.fields.some((f) => f.name === "lang")
+      ) {
+        this.translations.set(owner, model);
+      }
+    }
+  }
+
+  /**
+   * Owning relations to a model and to the media model, an order column and
+   * nothing but keys and per-usage metadata, as buildMediaJunctionTable emits
+   */
+  private detectMediaJunctions(): void {
+    const allowed = new Set([...MEDIA_USAGE_COLUMNS, "id", "order", "created_at", "updated_at"]);
+
+    for (const model of this.prismaModels) {
+      const relations = model.fields.filter((f) => f.relation?.fields?.length);
+      const media = relations.find((f) => f.type === this.mediaModel);
+      const owner = relations.find(
+        (f) => f !== media && this.byName.has(f.type) && f.type !== this.mediaModel
+      );
+      if (!media || !owner || relations.length !== 2) continue;
+
+      const keys = new Set([...media.relation!.fields!, ...owner.relation!.fields!]);
+      const onlyUsage =
+        model.fields.some((f) => f.name === "order") &&
+        model.fields.every(
+          (f) => f === media || f === owner || keys.has(f.name) || allowed.has(f.name)
+        );
+
+      if (onlyUsage) {
+        this.mediaJunctions.set(model.name, owner.type);
+      }
+    }
+  }
+
+  /**
+   * Two owning relations and nothing but keys, order and created_at
+   */
+  private detectJunctions(): void {
+    const allowed = new Set(["id", "order", "created_at", "updated_at"]);
+
+    for (const model of this.prismaModels) {
+      if (this.mediaJunctions.has(model.name)) continue;
+
+      const relations = model.fields.filter(
+        (f) => f.relation?.fields?.length && this.byName.has(f.type)
+      );
+      if (relations.length !== 2) continue;
+
+      const [from, to] = relations as [PrismaField, PrismaField];
+      const keys = new Set([
+        ...from.relation!.fields,
+        ...to.relation!.fields,
+      ]);
+
+      const onlyKeys = model.fields.every(
+        (f) =>
+          f === from || f === to || keys.has(f.name) || allowed.has(f.name)
+      );
+
+      if (onlyKeys) {
+        this.junctions.set(model.name, {
+          from: from.type,
+          to: to.type,
+          cascade: toCascade(from.relation?.onDelete),
+        });
+      }
+    }
+  }
+
+  /**
+   * A list field typed with a table holding one `value` per owner row and
+   * an `order`, unique by owner and value, as buildSelectValueTable emits
+   */
+  private detectSelectValueTables(): void {
+    for (const owner of this.prismaModels) {
+      const ownerFk = `${toSnakeCase(owner.name)}_id`;
+
+      for (const field of owner.fields) {
+        const table = this.byName.get(field.type);
+        if (!field.list || !table || table === owner) continue;
+
+        const columns = table.fields
+          .filter((f) => f.type !== owner.name)
+          .map((f) => `${f.name}:${f.type}`)
+          .sort();
+        const uniqueValue = (table.unique ?? []).some((u) =>
+          (Array.isArray(u) ? u : u.fields).join(",") === `${ownerFk},value`
+        );
+
+        if (
+          uniqueValue &&
+          columns.join(",") === `id:String,order:Int,${ownerFk}:String,value:String`
+        ) {
+          this.selectValueTables.set(table.name, owner.name);
+        }
+      }
+    }
+  }
+
+  /**
+   * A parent field typed with a table that points back at the parent via
+   * `${parent}_id` with cascading delete
+   */
+  private detectComponents(): void {
+    for (const parent of this.prismaModels) {
+      const parentFk = `${toSnakeCase(parent.name)}_id`;
+
+      for (const field of parent.fields) {
+        const table = this.byName.get(field.type);
+        if (
+          !table ||
+          field.relation ||
+          table === parent ||
+          this.junctions.has(table.name) ||
+          this.mediaJunctions.has(table.name) ||
+          this.selectValueTables.has(table.name) ||
+          this.isTranslationTable(table.name) ||
+          !this.componentSuffix(parent.name, table.name)
+        ) {
+          continue;
+        }
+
+        const backRelation = table.fields.find(
+          (f) =>
+            f.type === parent.name &&
+            f.relation?.fields?.[0] === parentFk &&
+            f.relation.onDelete === "Cascade"
+        );
+
+        if (backRelation) {
+          this.componentUsages.set(table.name, {
+            parent: parent.name,
+            fieldKey: field.name,
+            repeatable: field.list || false,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Repeatable component tables holding only `order`, a `type` discriminator
+   * and one-to-one component tables are dynamic zones, as
+   * buildDynamicZoneTable emits
+   */
+  private detectDynamicZones(): void {
+    for (const [tableName, usage] of this.componentUsages) {
+      if (!usage.repeatable) continue;
+
+      const table = this.byName.get(tableName)!;
+      const parentFk = `${toSnakeCase(usage.parent)}_id`;
+      const blocks = table.fields.filter(
+        (f) => !f.list && this.componentUsages.get(f.type)?.parent === tableName
+      );
+
+      const isZone =
+        blocks.length > 0 &&
+        table.fields.some((f) => f.name === "type" && f.type === "String") &&
+        table.fields.every(
+          (f) =>
+            blocks.includes(f) ||
+            f.type === usage.parent ||
+            SYSTEM_FIELDS.has(f.name) ||
+            [parentFk, "order", "type"].includes(f.name)
+        );
+
+      if (isZone) {
+        this.dynamicZones.set(tableName, blocks.map((f) => f.type));
+      }
+    }
+  }
+
+  private componentSuffix(parent: string, table: string): string | null {
+    for (const prefix of [parent, `${toSnakeCase(parent)}_`]) {
+      if (table.startsWith(prefix) && table.length > prefix.length) {
+        return table.slice(prefix.length);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Component tables sharing a slug and field list collapse into one component
+   */
+  private buildComponents(): ComponentEntityType[] {
+    const components = new Map<string, ComponentEntityType>();
+
+    // Nested component tables first, their slugs are needed by the parent
+    const usages = [...this.componentUsages].sort(
+      ([a], [b]) => this.componentDepth(b) - this.componentDepth(a)
+    );
+
+    for (const [tableName, usage] of usages) {
+      if (this.dynamicZones.has(tableName)) continue;
+
+      const table = this.byName.get(tableName)!;
+      const parentFk = `${toSnakeCase(usage.parent)}_id`;
+      const nested = this.componentFieldsOf(table);
+      const excluded = new Set([
+        parentFk,
+        "variant_id",
+        "enabled",
+        "translations",
+        ...(usage.repeatable ? ["order"] : []),
+        ...nested.map((f) => f.key),
+      ]);
+
+      const fields = [
+        ...this.convertFields(table, excluded, false),
+        ...this.convertTranslationFields(tableName),
+        ...nested,
+      ];
+
+      let slug = toKebabCase(this.componentSuffix(usage.parent, tableName)!);
+      const existing = components.get(slug);
+
+      if (existing && JSON.stringify(existing.fields) !== JSON.stringify(fields)) {
+        slug = `${this.toSlug(usage.parent)}-${slug}`;
+        this.warnings.push(
+          `Component table "${tableName}" differs from another "${toKebabCase(this.componentSuffix(usage.parent, tableName)!)}" table, imported as "${slug}"`
+        );
+      }
+
+      this.componentSlugs.set(tableName, slug);
+
+      if (!components.has(slug)) {
+        components.set(slug, {
+          slug,
+          name: toLabel(slug),
+          fields,
+        });
+      }
+    }
+
+    return [...components.values()];
+  }
+
+  private buildModel(model: PrismaModel): ModelConfigType {
+    const fields = this.componentFieldsOf(model);
+    const excluded = new Set(["translations", ...fields.map((f) => f.key)]);
+
+    const translationFields = this.convertTranslationFields(model.name);
+    const settings: NonNullable<ModelConfigType["settings"]> = {};
+
+    if (translationFields.length > 0) {
+      settings.enableI18n = true;
+    }
+
+    const modelFields = [
+      ...this.convertFields(model, excluded, false),
+      ...translationFields,
+      ...fields,
+      ...this.unmatchedJunctionFields(model.name),
+    ];
+
+    // Indexed fields write the same @@index as sortField, which is left for
+    // the columns that are no field (created_at)
+    const sortIndex = model.indexes?.find((index): index is string[] => {
+      if (!Array.isArray(index) || index.length !== 1) return false;
+      const column = toModelIndex(index, modelFields)?.fields[0];
+      return !modelFields.some((f) => f.key === column);
+    });
+    if (sortIndex?.[0]) {
+      settings.sortField = sortIndex[0];
+    }
+    const indexes = (model.indexes ?? []).filter((index) => index !== sortIndex);
+
+    for (const [kind, list] of [
+      ["indexes", indexes],
+      ["unique", model.unique ?? []],
+    ] as const) {
+      for (const index of list) {
+        const definition = toModelIndex(index, modelFields);
+        const field =
+          definition?.fields.length === 1 &&
+          definition.name === undefined &&
+          definition.type === undefined &&
+          typeof definition.fields[0] === "string"
+            ? modelFields.find((f) => f.key === definition.fields[0])
+            : undefined;
+
+        if (field) {
+          Object.assign(field, kind === "unique" ? { unique: true } : { indexed: true });
+        } else if (definition) {
+          settings[kind] = [...(settings[kind] ?? []), definition];
+        } else {
+          this.warnings.push(
+            `Skipped @@${kind === "unique" ? "unique" : "index"}(${indexColumns(index).join(", ")}) on "${model.name}": not all columns are imported fields`
+          );
+        }
+      }
+    }
+
+    return {
+      slug: this.toSlug(model.name),
+      name: toLabel(this.stripPrefix(model.name)),
+      fields: modelFields,
+      ...(Object.keys(settings).length > 0 ? { settings } : {}),
+    };
+  }
+
+  /**
+   * Component and dynamic zone fields of a model or component table, the
+   * tables it is the parent of
+   */
+  private componentFieldsOf(table: PrismaModel): FieldDefinitionType[] {
+    const fields: FieldDefinitionType[] = [];
+
+    for (const field of table.fields) {
+      const usage = this.componentUsages.get(field.type);
+      if (usage?.parent !== table.name) continue;
+
+      const blocks = this.dynamicZones.get(field.type);
+      if (blocks) {
+        fields.push({
+          key: field.name,
+          label: toLabel(field.name),
+          type: "component",
+          required: false,
+          config: {
+            type: "component",
+            components: blocks.map((block) => this.componentSlugs.get(block)!),
+            repeatable: false,
+          },
+        });
+        continue;
+      }
+
+      const component = this.byName.get(field.type)!;
+      const abTesting =
+        component.fields.some((f) => f.name === "variant_id") &&
+        component.fields.some((f) => f.name === "enabled");
+
+      fields.push({
+        key: field.name,
+        label: toLabel(field.name),
+        type: "component",
+        required: false,
+        config: {
+          type: "component",
+          slug: this.componentSlugs.get(field.type)!,
+          repeatable: usage.repeatable,
+          ...(abTesting ? { context: { abTesting: { enabled: true } } } : {}),
+        },
+      });
+    }
+
+    return fields;
+  }
+
+  /**
+   * Component tables above a component table: 1 for a model's component
+   */
+  private componentDepth(tableName: string): number {
+    let depth = 0;
+    for (
+      let usage = this.componentUsages.get(tableName);
+      usage;
+      usage = this.componentUsages.get(usage.parent)
+    ) {
+      depth++;
+    }
+    return depth;
+  }
+
+  private convertTranslationFields(ownerName: string): FieldDefinitionType[] {
+    const translation = this.translations.get(ownerName);
+    if (!translation) return [];
+
+    const fk = `${toSnakeCase(ownerName)}_id`;
+    const fields = this.convertFields(translation, new Set([fk, "lang"]), true);
+
+    // Unique per record and language: @@unique([post_id, lang, slug])
+    for (const index of translation.unique ?? []) {
+      const [first, second, column, ...rest] = indexColumns(index);
+      const field = fields.find((f) => f.key === column);
+
+      if (first === fk && second === "lang" && field && rest.length === 0) {
+        field.unique = true;
+      }
+    }
+
+    return fields;
+  }
+
+  private convertFields(
+    model: PrismaModel,
+    excluded: Set<string>,
+    translatable: boolean
+  ): FieldDefinitionType[] {
+    const foreignKeys = new Set(
+      model.fields.flatMap((f) => f.relation?.fields ?? [])
+    );
+    const fields: FieldDefinitionType[] = [];
+
+    for (const field of model.fields) {
+      if (
+        SYSTEM_FIELDS.has(field.name) ||
+        excluded.has(field.name) ||
+        foreignKeys.has(field.name) ||
+        field.relation?.fields?.some((fk) => excluded.has(fk))
+      ) {
+        continue;
+      }
+
+      const converted = this.convertField(model, field, translatable);
+      if (!converted) continue;
+
+      const key = toSnakeCase(converted.key).toLowerCase();
+      if (key !== converted.key) {
+        this.warnings.push(
+          `Renamed field "${model.name}.${converted.key}" to "${key}"`
+        );
+      }
+
+      fields.push({ ...converted, key, label: toLabel(key) });
+    }
+
+    return fields;
+  }
+
+  private convertField(
+    model: PrismaModel,
+    field: PrismaField,
+    translatable: boolean
+  ): FieldDefinitionType | null {
+    const base = {
+      key: field.name,
+      label: toLabel(field.name),
+      required: !field.optional && !field.list,
+    };
+
+    if (field.relation?.fields?.length) {
+      return this.convertOwningRelation(model, field, base, translatable);
+    }
+
+    if (this.byName.has(field.type) || field.type === this.mediaModel) {
+      return this.convertListRelation(model, field, base);
+    }
+
+    const prismaEnum = this.enums.get(field.type);
+    if (prismaEnum) {
+      const validation =
+        field.list && field.documentation
+          ? parseZodComment(field.documentation, "list")
+          : undefined;
+
+      return {
+        ...base,
+        ...convertSelect(field, prismaEnum),
+        translatable,
+        ...(validation ? { validation } : {}),
+      } as FieldDefinitionType;
+    }
+
+    if (!SCALAR_TYPES.has(field.type)) {
+      this.warnings.push(
+        `Skipped field "${model.name}.${field.name}": unsupported type "${field.type}"`
+      );
+      return null;
+    }
+
+    if (field.name.endsWith("_id") && field.type === "String") {
+      this.warnings.push(
+        `Field "${model.name}.${field.name}" looks like a reference without @relation, imported as text`
+      );
+    }
+
+    // Json columns hold multi-selects on MySQL, bounds count their items
+    const parsed = field.documentation
+      ? parseZodComment(
+          field.documentation,
+          field.type === "String"
+            ? "string"
+            : field.type === "Json"
+              ? "list"
+              : "number"
+        )
+      : undefined;
+    const maxLength = varCharLength(field);
+    const validation =
+      maxLength !== undefined && parsed?.maxLength === undefined
+        ? { ...parsed, maxLength }
+        : parsed;
+
+    return {
+      ...base,
+      ...convertScalar(field),
+      translatable,
+      ...(field.attributes?.includes("@unique") ? { unique: true } : {}),
+      ...(validation ? { validation } : {}),
+    } as FieldDefinitionType;
+  }
+
+  private convertOwningRelation(
+    model: PrismaModel,
+    field: PrismaField,
+    base: { key: string; label: string; required: boolean },
+    translatable: boolean
+  ): FieldDefinitionType | null {
+    const fkName = field.relation!.fields[0];
+    const fk = model.fields.find((f) => f.name === fkName);
+    const required = fk ? !fk.optional : base.required;
+
+    if (field.type === this.mediaModel) {
+      return {
+        ...base,
+        required,
+        type: "media",
+        config: { type: "media", multiple: false },
+        translatable,
+      };
+    }
+
+    if (!this.isContentModel(this.byName.get(field.type)!)) {
+      return null;
+    }
+
+    const unique = fk?.attributes?.includes("@unique") ?? false;
+
+    return {
+      ...base,
+      required,
+      type: "relation",
+      config: {
+        type: "relation",
+        relationType: unique ? "oneToOne" : "manyToOne",
+        targetModel: this.toSlug(field.type),
+        displayField: this.displayField(field.type),
+        cascade: toCascade(field.relation!.onDelete),
+      },
+    };
+  }
+
+  private convertListRelation(
+    model: PrismaModel,
+    field: PrismaField,
+    base: { key: string; label: string; required: boolean }
+  ): FieldDefinitionType | null {
+    if (field.type === this.mediaModel) {
+      return {
+        ...base,
+        required: false,
+        type: "media",
+        config: { type: "media", multiple: field.list || false },
+      };
+    }
+
+    if (field.list && this.mediaJunctions.get(field.type) === model.name) {
+      return {
+        ...base,
+        required: false,
+        type: "media",
+        config: { type: "media", multiple: true },
+      };
+    }
+
+    // Opposite side of a one-to-one, or a back-reference
+    if (!field.list) return null;
+
+    if (this.selectValueTables.get(field.type) === model.name) {
+      return this.convertSelectValueList(model, field, base);
+    }
+
+    const junctionRows = this.junctions.get(field.type);
+    if (junctionRows) {
+      return this.convertJunctionList(model, field, junctionRows, base);
+    }
+
+    const target = this.byName.get(field.type)!;
+    if (!this.isContentModel(target)) return null;
+
+    const junction = this.findJunction(model.name, field.type);
+    const implicitManyToMany = target.fields.some(
+      (f) => f.type === model.name && f.list && !f.relation?.fields
+    );
+
+    if (junction) {
+      this.matchedJunctions.add(junction[0]);
+    }
+
+    return {
+      ...base,
+      required: false,
+      type: "relation",
+      config: {
+        type: "relation",
+        relationType:
+          junction || implicitManyToMany ? "manyToMany" : "oneToMany",
+        targetModel: this.toSlug(field.type),
+        displayField: this.displayField(field.type),
+        cascade: junction ? junction[1].cascade : "restrict",
+      },
+    };
+  }
+
+  /**
+   * Value tables store the selected values only, the options are unknown
+   */
+  private convertSelectValueList(
+    model: PrismaModel,
+    field: PrismaField,
+    base: { key: string; label: string; required: boolean }
+  ): FieldDefinitionType {
+    const validation = field.documentation
+      ? parseZodComment(field.documentation, "list")
+      : undefined;
+
+    this.warnings.push(
+      `Multi-select "${model.name}.${field.name}" is stored in ${field.type} without its options, add them to config.options`
+    );
+
+    return {
+      ...base,
+      required: false,
+      type: "select",
+      config: { type: "select", multiple: true, options: [] },
+      ...(validation ? { validation } : {}),
+    } as FieldDefinitionType;
+  }
+
+  /**
+   * List of junction rows on the owning side, as generated for manyToMany;
+   * the target side and repeated self-relation lists are back-references
+   */
+  private convertJunctionList(
+    model: PrismaModel,
+    field: PrismaField,
+    junction: JunctionInfo,
+    base: { key: string; label: string; required: boolean }
+  ): FieldDefinitionType | null {
+    if (junction.from !== model.name || this.matchedJunctions.has(field.type)) {
+      return null;
+    }
+
+    this.matchedJunctions.add(field.type);
+
+    return {
+      ...base,
+      required: false,
+      type: "relation",
+      config: {
+        type: "relation",
+        relationType: "manyToMany",
+        targetModel: this.toSlug(junction.to),
+        displayField: this.displayField(junction.to),
+        cascade: junction.cascade,
+      },
+    };
+  }
+
+  private findJunction(
+    from: string,
+    to: string
+  ): [string, JunctionInfo] | undefined {
+    return [...this.junctions.entries()].find(
+      ([, info]) => info.from === from && info.to === to
+    );
+  }
+
+  /**
+   * Junction tables whose owner has no list field for them
+   */
+  private unmatchedJunctionFields(modelName: string): FieldDefinitionType[] {
+    const fields: FieldDefinitionType[] = [];
+
+    for (const [name, info] of this.junctions) {
+      if (info.from !== modelName || this.matchedJunctions.has(name)) continue;
+
+      const key = pluralize(toSnakeCase(info.to));
+      fields.push({
+        key,
+        label: toLabel(key),
+        type: "relation",
+        required: false,
+        config: {
+          type: "relation",
+          relationType: "manyToMany",
+          targetModel: this.toSlug(info.to),
+          displayField: this.displayField(info.to),
+          cascade: info.cascade,
+        },
+      });
+    }
+
+    return fields;
+  }
+
+  /**
+   * First plain String column of the target, falling back to id
+   */
+  private displayField(modelName: string): string {
+    const model = this.byName.get(modelName);
+    const candidates = [
+      model,
+      this.translations.get(modelName),
+    ].flatMap((m) => m?.fields ?? []);
+
+    const field = candidates.find(
+      (f) =>
+        f.type === "String" &&
+        !f.list &&
+        !SYSTEM_FIELDS.has(f.name) &&
+        f.name !== "lang" &&
+        !f.name.endsWith("_id")
+    );
+
+    return field?.name ?? "id";
+  }
+
+  private stripPrefix(name: string): string {
+    const { prefix } = this.options;
+    return prefix && name.startsWith(prefix) ? name.slice(prefix.length) : name;
+  }
+
+  private toSlug(modelName: string): string {
+    return toKebabCase(this.stripPrefix(modelName));
+  }
+}
+
+function convertScalar(field: PrismaField): Pick<FieldDefinitionType, "type" | "config"> {
+  const literalDefault = field.attributes?.some((a) =>
+    /^@default\((".*"|-?[\d.]+|true|false)\)$/.test(a)
+  )
+    ? field.default
+    : undefined;
+
+  switch (field.type) {
+    case "Int":
+    case "BigInt":
+    case "Float":
+    case "Decimal":
+      return {
+        type: "number",
+        config: {
+          type: "number",
+          format:
+            field.type === "Float"
+              ? "decimal"
+              : field.type === "Decimal"
+                ? "currency"
+                : field.type === "BigInt"
+                  ? "bigint"
+                  : "integer",
+          ...decimalPrecision(field),
+          ...(typeof literalDefault === "number"
+            ? { default: literalDefault }
+            : {}),
+        },
+      };
+    case "Boolean":
+      return {
+        type: "boolean",
+        ...(typeof literalDefault === "boolean"
+          ? { config: { type: "boolean", default: literalDefault } }
+          : {}),
+      };
+    case "DateTime": {
+      const date = dateConfig(field);
+      const dateDefault = field.attributes?.includes("@default(now())")
+        ? "now()"
+        : typeof literalDefault === "string"
+          ? fromDateDefault(literalDefault, date.format)
+          : undefined;
+
+      return {
+        type: "date",
+        config: {
+          type: "date",
+          ...date,
+          ...(dateDefault ? { default: dateDefault } : {}),
+        },
+      };
+    }
+    case "Json":
+      return { type: "json" };
+    default: {
+      const multiline = field.attributes?.some((a) =>
+        /^@db\.(Tiny|Medium|Long)?Text$/.test(a)
+      );
+
+      return {
+        type: "text",
+        ...(typeof literalDefault === "string" || multiline
+          ? {
+              config: {
+                type: "text",
+                ...(multiline ? { multiline } : {}),
+                ...(typeof literalDefault === "string"
+                  ? { default: literalDefault }
+                  : {}),
+              },
+            }
+          : {}),
+      };
+    }
+  }
+}
+
+/**
+ * Date default as written in definitions: the timestamp toDateDefault
+ * writes, shortened to the day or time of day its format stores
+ */
+function fromDateDefault(value: string, format: "date" | "datetime" | "time"): string {
+  switch (format) {
+    case "date":
+      return value.replace(/T00:00:00(\.000)?Z$/, "");
+    case "time":
+      return value.replace(/^1970-01-01T(.*?)(\.000)?Z$/, "$1");
+    default:
+      return value;
+  }
+}
+
+/**
+ * Select with the stored enum values as options; enum lists are multi-selects
+ * and their @default([A, B]) a list of values
+ */
+function convertSelect(
+  field: PrismaField,
+  prismaEnum: PrismaEnum
+): Pick<FieldDefinitionType, "type" | "config"> {
+  const stored = new Map(prismaEnum.values.map((v) => [v.name, v.map ?? v.name]));
+  const defaults =
+    typeof field.default === "string"
+      ? field.default
+          .replace(/^\[|\]$/g, "")
+          .split(",")
+          .map((name) => stored.get(name.trim()))
+          .filter((value): value is string => value !== undefined)
+      : [];
+
+  return {
+    type: "select",
+    config: {
+      type: "select",
+      options: [...stored.values()],
+      ...(field.list ? { multiple: true } : {}),
+      ...(defaults.length > 0
+        ? { default: field.list ? defaults : defaults[0] }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Length bound from @db.VarChar(n) or @db.Char(n)
+ */
+function varCharLength(field: PrismaField): number | undefined {
+  const match = field.attributes
+    ?.map((a) => a.match(/^@db\.(?:VarChar|Char)\((\d+)\)$/))
+    .find(Boolean);
+
+  return match ? Number(match[1]) : undefined;
+}
+
+/**
+ * Format and timezone awareness from the native type: @db.Date, @db.Time,
+ * @db.Timetz, @db.Timestamptz (PostgreSQL) and @db.Timestamp (MySQL)
+ */
+function dateConfig(field: PrismaField): {
+  format: "date" | "datetime" | "time";
+  timezone?: boolean;
+} {
+  const nativeType = field.attributes
+    ?.find((a) => a.startsWith("@db."))
+    ?.match(/^@db\.(\w+)/)?.[1];
+
+  switch (nativeType) {
+    case "Date":
+      return { format: "date" };
+    case "Time":
+      return { format: "time" };
+    case "Timetz":
+      return { format: "time", timezone: true };
+    case "Timestamptz":
+    case "Timestamp":
+      return { format: "datetime", timezone: true };
+    default:
+      return { format: "datetime" };
+  }
+}
+
+/**
+ * settings.indexes/unique entry for an index, undefined unless every column
+ * belongs to an imported field (or is a system column)
+ */
+function toModelIndex(
+  index: PrismaIndex,
+  fields: FieldDefinitionType[]
+): ModelIndexType | undefined {
+  const entries: ModelIndexType["fields"] = [];
+
+  for (const column of Array.isArray(index) ? index : index.fields) {
+    const match = column.match(/^(\w+)(?:\(sort:\s*(Asc|Desc)\))?$/);
+    if (!match) return undefined;
+
+    const name = match[1]!;
+    const key = toSnakeCase(name).toLowerCase();
+    const field =
+      fields.find((f) => f.key === key && f.type !== "relation" && f.type !== "media") ??
+      fields.find(
+        (f) => `${f.key}_id` === name && (f.type === "relation" || f.type === "media")
+      );
+
+    if (!field && !SYSTEM_FIELDS.has(name)) return undefined;
+
+    const fieldKey = field?.key ?? name;
+    entries.push(
+      match[2] ? { field: fieldKey, sort: match[2] === "Desc" ? "desc" : "asc" } : fieldKey
+    );
+  }
+
+  return {
+    fields: entries,
+    ...(!Array.isArray(index) && index.map !== undefined && { name: index.map }),
+    ...(!Array.isArray(index) && index.type !== undefined && { type: index.type }),
+  };
+}
+
+/**
+ * Column names of an index without their arguments
+ */
+function indexColumns(index: PrismaIndex): string[] {
+  return (Array.isArray(index) ? index : index.fields).map((f) => f.replace(/\(.*$/, ""));
+}
+
+/**
+ * precision and scale from @db.Decimal(p, s)
+ */
+function decimalPrecision(field: PrismaField): { precision?: number; scale?: number } {
+  const match = field.attributes
+    ?.map((a) => a.match(/^@db\.Decimal\((\d+),\s*(\d+)\)$/))
+    .find(Boolean);
+
+  return match ? { precision: Number(match[1]), scale: Number(match[2]) } : {};
+}
+
+function toCascade(
+  onDelete?: string
+): "restrict" | "cascade" | "setNull" {
+  if (onDelete === "Cascade") return "cascade";
+  if (onDelete === "SetNull") return "setNull";
+  return "restrict";
+}
+
+function toLabel(key: string): string {
+  return toSnakeCase(key)
+    .split(/[-_]+/)
+    .filter(Boolean)
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(" ");
+}
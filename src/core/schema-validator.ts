@@ -0,0 +1,214 @@
+// src/core/schema-validator.ts
+
+import { createRequire } from "module";
+import { execFile } from "child_process";
+import { promisify } from "util";
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+
+/**
+ * EAV definition a generated table comes from
+ */
+export interface SchemaSource {
+  model: string; // EAV model slug
+  component?: string; // Component slug for component tables
+  field?: string; // Set when the whole table stores one field (junction tables)
+  fields: string[]; // Field keys whose columns live on the table
+}
+
+export interface SchemaIssue {
+  message: string;
+  line?: number; // 1-based line in the generated schema
+  prismaModel?: string;
+  prismaField?: string;
+  model?: string; // EAV model slug
+  component?: string;
+  field?: string; // EAV field key
+}
+
+/**
+ * Returns the engine's error output, null when the schema is valid
+ */
+type ValidateFn = (schema: string) => Promise<string | null>;
+
+let engine: Promise<ValidateFn> | null = null;
+
+/**
+ * Validate a schema with Prisma's schema engine, mapping errors back to the
+ * EAV models and fields the broken tables and columns were generated from
+ */
+export async function validateSchema(
+  schema: string,
+  sources: Map<string, SchemaSource> = new Map()
+): Promise<SchemaIssue[]> {
+  engine ??= loadSchemaEngine();
+  const validate = await engine.catch((error) => {
+    engine = null;
+    throw error;
+  });
+
+  const output = await validate(schema);
+  if (output === null) return [];
+
+  return parseEngineErrors(output).map((issue) =>
+    mapIssue(locateIssue(issue, schema), sources)
+  );
+}
+
+/**
+ * Issue list for error messages, one issue per line
+ */
+export function formatSchemaIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map((issue) => {
+      const where = issue.model
+        ? [
+            `model "${issue.model}"`,
+            issue.component && `component "${issue.component}"`,
+            issue.field && `field "${issue.field}"`,
+          ]
+            .filter(Boolean)
+            .join(", ")
+        : [issue.prismaModel, issue.prismaField].filter(Boolean).join(".") ||
+          (issue.line ? `line ${issue.line}` : "schema");
+
+      return `  ${where}: ${issue.message}`;
+    })
+    .join("\n");
+}
+
+/**
+ * Split engine output into issues: "error: <message>\n  -->  schema.prisma:12"
+ */
+export function parseEngineErrors(output: string): SchemaIssue[] {
+  const blocks = output.split(/^error: /m).slice(1);
+
+  if (blocks.length === 0) {
+    return [{ message: output.trim() }];
+  }
+
+  return blocks.map((block) => {
+    const line = block.match(/-->\s+\S*?:(\d+)/)?.[1];
+
+    return {
+      message: block.split("\n")[0]!.trim(),
+      ...(line && { line: Number(line) }),
+    };
+  });
+}
+
+/**
+ * Model and field an issue's line belongs to
+ */
+function locateIssue(issue: SchemaIssue, schema: string): SchemaIssue {
+  if (!issue.line) return issue;
+
+  const lines = schema.split("\n");
+  let block: string | undefined;
+
+  for (let i = 0; i < issue.line - 1 && i < lines.length; i++) {
+    const start = lines[i]!.match(/^\s*(?:model|enum|view|type)\s+(\w+)\s*\{/);
+    if (start) block = start[1];
+    else if (/^\s*\}/.test(lines[i]!)) block = undefined;
+  }
+
+  const current = lines[issue.line - 1] ?? "";
+  const start = current.match(/^\s*(?:model|enum|view|type)\s+(\w+)/);
+  const field = current.match(/^\s*([A-Za-z_]\w*)\s/)?.[1];
+
+  return {
+    ...issue,
+    ...(start ? { prismaModel: start[1] } : block && { prismaModel: block }),
+    ...(!start && block && field && { prismaField: field }),
+  };
+}
+
+function mapIssue(issue: SchemaIssue, sources: Map<string, SchemaSource>): SchemaIssue {
+  const source = issue.prismaModel ? sources.get(issue.prismaModel) : undefined;
+  if (!source) return issue;
+
+  const name = issue.prismaField;
+  const field =
+    source.field ??
+    (name &&
+      source.fields.find((key) => key === name || `${key}_id` === name));
+
+  return {
+    ...issue,
+    model: source.model,
+    ...(source.component && { component: source.component }),
+    ...(field && { field }),
+  };
+}
+
+/**
+ * The schema engine from the project: the WASM build Prisma's CLI uses,
+ * or the installed `prisma` CLI when the WASM package is not resolvable
+ */
+async function loadSchemaEngine(): Promise<ValidateFn> {
+  const require = createRequire(path.join(process.cwd(), "package.json"));
+
+  for (const from of [null, "@prisma/internals"]) {
+    try {
+      const resolve = from ? createRequire(require.resolve(from)) : require;
+      const wasm = resolve("@prisma/prisma-schema-wasm");
+
+      return async (schema) => {
+        try {
+          wasm.validate(JSON.stringify({ prismaSchema: schema, noColor: true }));
+          return null;
+        } catch (error) {
+          return engineErrorMessage(error);
+        }
+      };
+    } catch {
+      // Try the next location
+    }
+  }
+
+  let cli: string;
+  try {
+    const pkgPath = require.resolve("prisma/package.json");
+    const pkg = JSON.parse(await fs.readFile(pkgPath, "utf-8"));
+    const bin = typeof pkg.bin === "string" ? pkg.bin : pkg.bin?.prisma;
+    cli = path.join(path.dirname(pkgPath), bin ?? "build/index.js");
+  } catch {
+    throw new Error(
+      "Prisma is not installed - install prisma to validate the generated schema or skip validation with --no-validate"
+    );
+  }
+
+  return async (schema) => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "eav-to-prisma-"));
+    const schemaPath = path.join(dir, "schema.prisma");
+
+    try {
+      await fs.writeFile(schemaPath, schema, "utf-8");
+      await promisify(execFile)(
+        process.execPath,
+        [cli, "validate", "--schema", schemaPath],
+        { env: { ...process.env, NO_COLOR: "1" } }
+      );
+      return null;
+    } catch (error) {
+      const { stderr, message } = error as { stderr?: string; message: string };
+      return stderr || message;
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  };
+}
+
+/**
+ * The WASM engine throws JSON: {"error_code":"P1012","message":"..."}
+ */
+function engineErrorMessage(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+
+  try {
+    return JSON.parse(message).message ?? message;
+  } catch {
+    return message;
+  }
+}
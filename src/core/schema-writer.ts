@@ -1,4 +1,4 @@
-import type { PrismaSchema, PrismaDatasource, PrismaGenerator, PrismaModel, PrismaField } from '../utils/prisma-ast';
+import type { PrismaSchema, PrismaDatasource, PrismaGenerator, PrismaModel, PrismaField, PrismaEnum, PrismaIndex } from '../utils/prisma-ast';
 import { buildZodComment } from '../utils/zod-comments';
 
 /**
@@ -25,6 +25,10 @@ export function writeSchemaSync(schema: PrismaSchema): string {
     parts.push(writeModel(model));
   }
 
+  for (const prismaEnum of schema.enums || []) {
+    parts.push(writeEnum(prismaEnum));
+  }
+
   return parts.join('\n\n') + '\n';
 }
 
@@ -85,11 +89,15 @@ export function writeModel(model: PrismaModel): string {
   
   // Write fields with Zod comments
   for (const field of model.fields) {
-    const zodComment = buildZodComment(field.validation);
+    const zodComment = buildZodComment(field.validation, field.type);
     if (zodComment) {
       lines.push(`  ${zodComment}`);
     }
     
+    for (const doc of field.documentation?.split('\n') || []) {
+      lines.push(`  /// ${doc}`);
+    }
+    
     lines.push(writeFieldAligned(field, maxNameWidth, maxTypeWidth));
   }
   
@@ -97,7 +105,7 @@ export function writeModel(model: PrismaModel): string {
   if (model.indexes && model.indexes.length > 0) {
     lines.push('');
     for (const index of model.indexes) {
-      lines.push(`  @@index([${index.join(', ')}])`);
+      lines.push(`  @@index(${writeIndexArguments(index)})`);
     }
   }
   
@@ -106,7 +114,7 @@ export function writeModel(model: PrismaModel): string {
       lines.push('');
     }
     for (const unique of model.unique) {
-      lines.push(`  @@unique([${unique.join(', ')}])`);
+      lines.push(`  @@unique(${writeIndexArguments(unique)})`);
     }
   }
   
@@ -122,22 +130,68 @@ export function writeModel(model: PrismaModel): string {
   return lines.join('\n');
 }
 
+/**
+ * Arguments of @@index/@@unique: [a, b(sort: Desc)], map: "name", type: Hash
+ */
+export function writeIndexArguments(index: PrismaIndex): string {
+  if (Array.isArray(index)) return `[${index.join(', ')}]`;
+
+  return [
+    `[${index.fields.join(', ')}]`,
+    index.map !== undefined && `map: "${index.map}"`,
+    index.type !== undefined && `type: ${index.type}`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+}
+
+export function writeEnum(prismaEnum: PrismaEnum): string {
+  const lines: string[] = [`enum ${prismaEnum.name} {`];
+  const nameWidth = Math.max(...prismaEnum.values.map(v => v.name.length));
+
+  for (const value of prismaEnum.values) {
+    if (value.map !== undefined) {
+      lines.push(`  ${value.name.padEnd(nameWidth)} @map("${value.map}")`);
+    } else {
+      lines.push(`  ${value.name}`);
+    }
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
 export function writeField(field: PrismaField): string {
+  const attributes = writeFieldAttributes(field);
+  
   let result = `${field.name} ${formatFieldType(field)}`;
   
-  if (field.attributes && field.attributes.length > 0) {
-    result += ' ' + field.attributes.join(' ');
+  if (attributes.length > 0) {
+    result += ' ' + attributes.join(' ');
+  }
+  
+  return result;
+}
+
+/**
+ * Field attributes in the order they are written, default, relation and map included
+ */
+export function writeFieldAttributes(field: PrismaField): string[] {
+  const attributes = [...(field.attributes || [])];
+  
+  if (field.default !== undefined && !attributes.some(a => a.startsWith('@default('))) {
+    attributes.push(`@default(${formatDefault(field.default, field.type)})`);
   }
   
   if (field.relation) {
-    result += ' ' + formatRelation(field.relation);
+    attributes.push(formatRelation(field.relation));
   }
   
   if (field.map) {
-    result += ` @map("${field.map}")`;
+    attributes.push(`@map("${field.map}")`);
   }
   
-  return result;
+  return attributes;
 }
 
 function writeFieldAligned(field: PrismaField, nameWidth: number, typeWidth: number): string {
@@ -146,17 +200,7 @@ function writeFieldAligned(field: PrismaField, nameWidth: number, typeWidth: num
   
   let result = `  ${name}  ${type}`;
   
-  if (field.attributes && field.attributes.length > 0) {
-    result += field.attributes.join(' ');  // No space before - field already padded
-  }
-  
-  if (field.relation) {
-    result += ' ' + formatRelation(field.relation);
-  }
-  
-  if (field.map) {
-    result += ` @map("${field.map}")`;
-  }
+  result += writeFieldAttributes(field).join(' ');  // No space before - field already padded
   
   return result.trimEnd();  // <-- ADD THIS to remove trailing spaces
 }
@@ -177,6 +221,27 @@ function formatFieldType(field: PrismaField): string {
   return type;
 }
 
+/**
+ * Default value as written inside @default(): enum values and now() stay bare
+ */
+function formatDefault(value: NonNullable<PrismaField['default']>, type: string): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(v => formatDefault(v, type)).join(', ')}]`;
+  }
+  
+  if (typeof value !== 'string') {
+    return String(value);
+  }
+  
+  if (type === 'DateTime' && value === 'now()') {
+    return value;
+  }
+  
+  return QUOTED_DEFAULT_TYPES.has(type) ? JSON.stringify(value) : value;
+}
+
+const QUOTED_DEFAULT_TYPES = new Set(['String', 'DateTime', 'Json', 'Bytes']);
+
 function formatRelation(relation: PrismaField['relation']): string {
   if (!relation) return '';
   
@@ -0,0 +1,508 @@
+// src/core/seed-factory.ts
+
+import {
+  planModelMigration,
+  type EAVInstance,
+  type MigrationPlanConfig,
+  type MigrationRecord,
+} from "./data-migrator";
+import { buildModelName, separateFields } from "./schema-builder";
+import { DYNAMIC_ZONE_TYPE_KEY } from "../mappers/component-mapper";
+import { optionValues } from "../mappers/enum-mapper";
+import { decimalScale, numberColumnType } from "../mappers/number-mapper";
+import { dateFormat } from "../mappers/date-mapper";
+import { findReversedJunctions } from "../mappers/relation-mapper";
+import { isMultiSelect } from "../mappers/select-mapper";
+import { sampleJsonSchema, type JsonSchema } from "../utils/json-schema";
+import { samplePattern, type RandomSource } from "../utils/pattern-sample";
+import { toDelegateName } from "../utils/naming";
+import type {
+  ComponentEntityType,
+  FieldDefinitionType,
+  ModelConfigType,
+} from "../field-config-schema";
+
+export type Seed = number | string;
+
+export interface SeedFactoryConfig
+  extends Omit<MigrationPlanConfig, "externalModelNames" | "reversedJunctions"> {
+  externalModelNames?: string[];
+  locales?: string[]; // Locales every record is translated into, besides defaultLang
+}
+
+/**
+ * What a factory builds from: the resolved definitions and schema settings
+ */
+export interface SeedDefinitions {
+  models: ModelConfigType[];
+  components: ComponentEntityType[];
+  config: SeedFactoryConfig;
+}
+
+/**
+ * Rows of one seeded record, in the order migrate-data writes them
+ */
+export interface SeedRecords {
+  id: string; // Id of the model row
+  records: MigrationRecord[];
+  deferred: MigrationRecord[]; // Junction rows, written after the rows they join
+  requires: Array<{ model: string; seed: Seed }>; // Records required relations point at
+}
+
+/**
+ * Where a value is generated: seeds its random source and names it in errors
+ */
+interface FakeContext {
+  seed: Seed;
+  path: string[]; // Model slug, then field keys and item indexes
+  lang?: string;
+  components: string[]; // Component slugs above, a component nesting itself stops there
+  requires: SeedRecords["requires"];
+}
+
+const LOREM =
+  "lorem ipsum dolor sit amet consectetur adipiscing elit sed do eiusmod tempor incididunt ut labore et dolore magna aliqua".split(
+    " "
+  );
+
+const DAY = 24 * 60 * 60 * 1000;
+const DEFAULT_MIN_DATE = Date.UTC(2020, 0, 1);
+const DEFAULT_DATE_SPAN = 5 * 365 * DAY;
+
+// Samples drawn for a pattern field before giving up on its length bounds
+const PATTERN_ATTEMPTS = 25;
+
+/**
+ * Deterministic seed data for content models, from their field definitions
+ *
+ * The same seed always builds the same rows. Values satisfy the fields'
+ * validation rules, every component is filled in (one item for lists
+ * without minItems), required relations point at records of the same seed
+ * and every locale gets a translation. Rows are planned like migrate-data.
+ */
+export class SeedFactory {
+  private models: Map<string, ModelConfigType>;
+  private components: Map<string, ComponentEntityType>;
+  private config: MigrationPlanConfig;
+  private locales: Array<string | undefined>;
+
+  constructor(definitions: SeedDefinitions) {
+    const { externalModelNames, locales, ...config } = definitions.config;
+
+    this.models = new Map(definitions.models.map((m) => [m.slug, m]));
+    this.components = new Map(definitions.components.map((c) => [c.slug, c]));
+    this.config = { ...config, externalModelNames: new Set(externalModelNames) };
+    this.config.reversedJunctions = findReversedJunctions(definitions.models, this.config);
+    this.locales = config.i18nEnabled
+      ? [...new Set([config.defaultLang, ...(locales ?? [])])]
+      : [config.defaultLang];
+  }
+
+  /**
+   * Rows of the record for a seed; values replace generated field values
+   * in every locale
+   */
+  build(slug: string, seed: Seed, values: Record<string, unknown> = {}): SeedRecords {
+    const model = this.models.get(slug);
+    if (!model) {
+      throw new Error(`No model definition found for "${slug}"`);
+    }
+
+    const id = seedId(slug, seed);
+    const requires: SeedRecords["requires"] = [];
+    const fields = model.fields.filter((f) => !(f.key in values));
+
+    const instances: EAVInstance[] = this.locales.map((lang, index) => ({
+      id: lang ? `${id}:${lang}` : id,
+      model: slug,
+      entity: id,
+      lang,
+      values: {
+        ...this.fakeValues(fields, {
+          seed,
+          path: [slug],
+          lang,
+          components: [],
+          // Relations are not translated, the first locale collects them
+          requires: index === 0 ? requires : [],
+        }),
+        ...values,
+      },
+    }));
+
+    const plan = planModelMigration(model, instances, this.components, this.config);
+    const [issue] = plan.issues;
+    if (issue) {
+      throw new Error(`Cannot build "${slug}" seed ${seed}: ${issue.message}`);
+    }
+
+    return { id, records: plan.records, deferred: plan.deferred, requires };
+  }
+
+  /**
+   * Build the record for a seed and write its rows with a client of the
+   * generated schema, creating the records it requires first unless they exist
+   */
+  async create(
+    client: any,
+    slug: string,
+    seed: Seed,
+    values: Record<string, unknown> = {}
+  ): Promise<SeedRecords> {
+    return this.createRecord(client, slug, seed, values, []);
+  }
+
+  private async createRecord(
+    client: any,
+    slug: string,
+    seed: Seed,
+    values: Record<string, unknown>,
+    path: string[]
+  ): Promise<SeedRecords> {
+    const built = this.build(slug, seed, values);
+
+    for (const required of built.requires) {
+      const requiredId = seedId(required.model, required.seed);
+      if (requiredId === built.id || path.includes(requiredId)) {
+        throw new Error(
+          `Cannot create "${slug}" seed ${seed}: its required relations lead back to "${required.model}", pass the related id in values`
+        );
+      }
+
+      const delegate = client[toDelegateName(buildModelName(required.model, this.config))];
+      if (!(await delegate.findUnique({ where: { id: requiredId } }))) {
+        await this.createRecord(client, required.model, required.seed, {}, [...path, built.id]);
+      }
+    }
+
+    for (const record of [...built.records, ...built.deferred]) {
+      await client[toDelegateName(record.model)].create({ data: record.data });
+    }
+
+    return built;
+  }
+
+  private fakeValues(
+    fields: FieldDefinitionType[],
+    context: FakeContext
+  ): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+
+    for (const field of fields) {
+      if (field.derived) continue;
+
+      const value = this.fakeValue(field, { ...context, path: [...context.path, field.key] });
+      if (value !== undefined) values[field.key] = value;
+    }
+
+    return values;
+  }
+
+  /**
+   * Value of a field, undefined to leave it out. Translated fields differ
+   * per locale, everything else is the same in all of them.
+   */
+  private fakeValue(field: FieldDefinitionType, context: FakeContext): unknown {
+    const translated = this.config.i18nEnabled && isTranslatable(field);
+    const random = seededRandom(
+      [context.seed, ...context.path, translated ? context.lang ?? "" : ""].join("|")
+    );
+    const config = field.config;
+
+    switch (field.type) {
+      case "text":
+      case "rich":
+        return fakeString(field, random);
+
+      case "number":
+        return fakeNumber(field, random);
+
+      case "boolean":
+        return random() < 0.5;
+
+      case "date":
+        return fakeDate(field, random);
+
+      case "select": {
+        const options = optionValues(field);
+        return isMultiSelect(field)
+          ? shuffle(options, random).slice(0, itemCount(field, options.length))
+          : options[Math.floor(random() * options.length)];
+      }
+
+      case "json":
+        return config?.type === "json" && config.schema
+          ? sampleJsonSchema(config.schema as JsonSchema, random)
+          : {};
+
+      case "media":
+        if (field.required || (field.validation?.minItems ?? 0) > 0) {
+          throw new Error(
+            `Media field "${context.path.join(".")}" is required, pass media ids in values`
+          );
+        }
+        return undefined;
+
+      case "relation":
+        return this.fakeRelation(field, context);
+
+      case "component":
+        return this.fakeComponent(field, context, random);
+    }
+  }
+
+  /**
+   * Ids of the records a required relation points at: the record of the
+   * same seed, or minItems records for many-to-many relations
+   * One-to-many relations are stored on the other side and left out.
+   */
+  private fakeRelation(field: FieldDefinitionType, context: FakeContext): unknown {
+    if (field.config?.type !== "relation") return undefined;
+
+    const { relationType, targetModel } = field.config;
+    const toMany = relationType === "manyToMany";
+    const count =
+      relationType === "oneToMany"
+        ? 0
+        : toMany
+          ? field.validation?.minItems ?? 0
+          : field.required
+            ? 1
+            : 0;
+    if (count === 0) return undefined;
+
+    if (!this.models.has(targetModel)) {
+      throw new Error(
+        `Relation "${context.path.join(".")}" is required and "${targetModel}" has no factory, pass its id in values`
+      );
+    }
+
+    const seeds: Seed[] = toMany
+      ? Array.from({ length: count }, (_, index) => `${context.seed}.${index + 1}`)
+      : [context.seed];
+    context.requires.push(...seeds.map((seed) => ({ model: targetModel, seed })));
+
+    const ids = seeds.map((seed) => seedId(targetModel, seed));
+    return toMany ? ids : ids[0];
+  }
+
+  private fakeComponent(
+    field: FieldDefinitionType,
+    context: FakeContext,
+    random: RandomSource
+  ): unknown {
+    const config = field.config;
+    if (config?.type !== "component") return undefined;
+
+    const available = (slug: string) =>
+      this.components.has(slug) && !context.components.includes(slug);
+
+    if (config.components) {
+      const slugs = config.components.filter(available);
+      if (slugs.length === 0) return undefined;
+
+      // Blocks take turns through the zone's components
+      const first = Math.floor(random() * slugs.length);
+      return Array.from({ length: itemCount(field) }, (_, index) => {
+        const slug = slugs[(first + index) % slugs.length]!;
+        return { [DYNAMIC_ZONE_TYPE_KEY]: slug, ...this.fakeItem(slug, context, index) };
+      });
+    }
+
+    const slug = config.slug!;
+    if (!available(slug)) return undefined;
+
+    return config.repeatable
+      ? Array.from({ length: itemCount(field) }, (_, index) => this.fakeItem(slug, context, index))
+      : this.fakeItem(slug, context);
+  }
+
+  private fakeItem(slug: string, context: FakeContext, index?: number): Record<string, unknown> {
+    return this.fakeValues(this.components.get(slug)!.fields, {
+      ...context,
+      path: index === undefined ? context.path : [...context.path, String(index)],
+      components: [...context.components, slug],
+    });
+  }
+}
+
+/**
+ * Id of the model row a seed builds: blog-post + 7 -> "blog-post-7"
+ */
+function seedId(slug: string, seed: Seed): string {
+  return `${slug}-${seed}`;
+}
+
+/**
+ * Random source for a key, the same numbers for the same key
+ * (FNV-1a hash seeding mulberry32)
+ */
+function seededRandom(key: string): RandomSource {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < key.length; i++) {
+    state = Math.imul(state ^ key.charCodeAt(i), 0x01000193);
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function fakeString(field: FieldDefinitionType, random: RandomSource): string {
+  const rules = field.validation ?? {};
+  const min = rules.minLength ?? 0;
+  const max = rules.maxLength ?? Infinity;
+
+  if (rules.pattern !== undefined) {
+    const pattern = new RegExp(rules.pattern);
+
+    for (let attempt = 0; attempt < PATTERN_ATTEMPTS; attempt++) {
+      const value = samplePattern(rules.pattern, random);
+      if (value.length >= min && value.length <= max && pattern.test(value)) return value;
+    }
+
+    throw new Error(
+      `Cannot generate a value for field "${field.key}" matching /${rules.pattern}/ with its length rules`
+    );
+  }
+
+  if (rules.uuid) {
+    return "xxxxxxxx-xxxx-4xxx-8xxx-xxxxxxxxxxxx".replace(/x/g, () =>
+      Math.floor(random() * 16).toString(16)
+    );
+  }
+
+  if (rules.cuid) {
+    return `c${Array.from({ length: 24 }, () => Math.floor(random() * 36).toString(36)).join("")}`;
+  }
+
+  const low = Math.max(min, Math.min(8, max));
+  const high = Math.min(max, Math.max(low, field.type === "rich" ? 120 : 32));
+  const length = low + Math.floor(random() * (high - low + 1));
+
+  // A shorter host when maxLength leaves no room for example.com
+  if (rules.email) {
+    const domain = max > "@example.com".length ? "@example.com" : "@x.io";
+    const local = Math.min(Math.max(1, length - domain.length), max - domain.length);
+    if (local < 1) throw tooShort(field, "an email", max);
+
+    return `${fakeWord(local, random)}${domain}`;
+  }
+
+  if (rules.url) {
+    const origin = max > "https://example.com/".length ? "https://example.com/" : "https://x.io/";
+    const path = Math.min(Math.max(1, length - origin.length), max - origin.length);
+    if (path < 1) throw tooShort(field, "a URL", max);
+
+    return `${origin}${fakeWord(path, random)}`;
+  }
+
+  const words: string[] = [];
+  while (words.join(" ").length < length) {
+    words.push(LOREM[Math.floor(random() * LOREM.length)]!);
+  }
+
+  const text = words.join(" ").slice(0, length).trimEnd();
+  const padded = text.padEnd(length, "x");
+  return padded.charAt(0).toUpperCase() + padded.slice(1);
+}
+
+function tooShort(field: FieldDefinitionType, kind: string, max: number): Error {
+  return new Error(`Cannot generate ${kind} for field "${field.key}" within maxLength ${max}`);
+}
+
+function fakeWord(length: number, random: RandomSource): string {
+  return Array.from({ length }, () => String.fromCharCode(97 + Math.floor(random() * 26))).join("");
+}
+
+/**
+ * A number within min/max and the sign rules, on the column's precision:
+ * whole numbers for Int and BigInt, decimal strings for Decimal
+ */
+function fakeNumber(field: FieldDefinitionType, random: RandomSource): number | string {
+  const rules = field.validation ?? {};
+  const type = numberColumnType(field);
+  const decimals = type === "Int" || type === "BigInt" || rules.int ? 0 : type === "Decimal" ? decimalScale(field) : 2;
+  const step = 10 ** -decimals;
+
+  let min = rules.min ?? (rules.negative ? (rules.max ?? 0) - 1000 : 0);
+  let max = rules.max ?? (rules.negative ? 0 : min + 1000);
+  if (rules.positive) min = Math.max(min, step);
+  if (rules.negative) max = Math.min(max, -step);
+
+  const lowest = Math.ceil(min / step - 1e-9);
+  const steps = Math.floor(max / step + 1e-9) - lowest;
+  if (steps < 0) {
+    throw new Error(`No number satisfies the validation rules of field "${field.key}"`);
+  }
+
+  const value = (lowest + Math.floor(random() * (steps + 1))) * step;
+
+  if (type === "Decimal") return value.toFixed(decimals);
+  if (type === "BigInt") return value.toFixed(0);
+  return Number(value.toFixed(decimals));
+}
+
+/**
+ * A date within minDate/maxDate, in the field's format: 2024-03-01,
+ * an ISO timestamp or a time of day
+ */
+function fakeDate(field: FieldDefinitionType, random: RandomSource): string {
+  const rules = field.validation ?? {};
+  const format = dateFormat(field);
+
+  if (format === "time") {
+    const seconds = Math.floor(random() * 86400);
+    return [seconds / 3600, (seconds % 3600) / 60, seconds % 60]
+      .map((part) => String(Math.floor(part)).padStart(2, "0"))
+      .join(":");
+  }
+
+  const maxDate = rules.maxDate !== undefined ? Date.parse(rules.maxDate) : undefined;
+  const min =
+    rules.minDate !== undefined
+      ? Date.parse(rules.minDate)
+      : maxDate !== undefined
+        ? maxDate - DEFAULT_DATE_SPAN
+        : DEFAULT_MIN_DATE;
+  const max = maxDate ?? min + DEFAULT_DATE_SPAN;
+
+  if (format === "date") {
+    const first = Math.ceil(min / DAY);
+    const day = first + Math.floor(random() * (Math.floor(max / DAY) - first + 1));
+    return new Date(day * DAY).toISOString().slice(0, 10);
+  }
+
+  const second = Math.ceil(min / 1000);
+  const time = second + Math.floor(random() * (Math.floor(max / 1000) - second + 1));
+  return new Date(time * 1000).toISOString();
+}
+
+/**
+ * Items of a list: minItems, at least one, at most maxItems and what there is
+ */
+function itemCount(field: FieldDefinitionType, available = Infinity): number {
+  const rules = field.validation ?? {};
+  return Math.min(Math.max(rules.minItems ?? 1, 1), rules.maxItems ?? Infinity, available);
+}
+
+function shuffle<T>(items: T[], random: RandomSource): T[] {
+  const shuffled = [...items];
+
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j]!, shuffled[i]!];
+  }
+
+  return shuffled;
+}
+
+/**
+ * Stored per language in the translation table
+ */
+function isTranslatable(field: FieldDefinitionType): boolean {
+  return separateFields([field]).translatable.length > 0;
+}
@@ -0,0 +1,286 @@
+// src/core/types-writer.ts
+
+import type {
+  ComponentEntityType,
+  FieldDefinitionType,
+  ModelConfigType,
+} from '../field-config-schema';
+import type { MediaModel } from '../mappers/media-mapper';
+import { DYNAMIC_ZONE_TYPE_KEY, withoutSkippedComponents } from '../mappers/component-mapper';
+import { optionValues } from '../mappers/enum-mapper';
+import { numberColumnType } from '../mappers/number-mapper';
+import { isMultiSelect } from '../mappers/select-mapper';
+import { typedFields } from '../mappers/value-mapper';
+import { jsonSchemaToTs, type JsonSchema } from '../utils/json-schema';
+import { toPascalCase } from '../utils/naming';
+import { separateFields } from './schema-builder';
+
+export interface TypesWriterConfig {
+  i18nEnabled: boolean;
+  defaultLang?: string;
+  media?: MediaModel;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * TypeScript content types for EAV definitions, free of Prisma Client
+ *
+ * An interface per model with its translatable fields merged in for one
+ * locale and components nested, a string-literal union per select field,
+ * and constants for model slugs and field keys. Dates are ISO strings,
+ * BigInt and Decimal numbers strings, as they arrive over JSON.
+ */
+export function writeTypes(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>,
+  config: TypesWriterConfig
+): string {
+  components = withoutSkippedComponents(models, components);
+  const parts: string[] = [];
+  const allFields = [
+    ...models.flatMap((m) => m.fields),
+    ...[...components.values()].flatMap((c) => c.fields),
+  ];
+
+  if (config.i18nEnabled && config.defaultLang) {
+    parts.push(`export const DEFAULT_LOCALE = ${JSON.stringify(config.defaultLang)};`);
+  }
+
+  parts.push(
+    writeSlugConstants('MODEL_SLUGS', 'ModelSlug', models.map((m) => m.slug)),
+    writeFieldKeys('FIELD_KEYS', 'FieldKey', 'ModelSlug', models)
+  );
+
+  if (components.size > 0) {
+    parts.push(
+      writeSlugConstants('COMPONENT_SLUGS', 'ComponentSlug', [...components.keys()]),
+      writeFieldKeys('COMPONENT_FIELD_KEYS', 'ComponentFieldKey', 'ComponentSlug', [
+        ...components.values(),
+      ])
+    );
+  }
+
+  if (allFields.some((f) => f.type === 'media')) {
+    parts.push(writeMediaTypes(config.media, allFields));
+  }
+
+  for (const model of models) {
+    const typeName = modelTypeName(model.slug);
+    const localized =
+      config.i18nEnabled && separateFields(model.fields).translatable.length > 0;
+
+    parts.push(
+      ...writeSelectUnions(typeName, model.fields),
+      writeInterface(
+        typeName,
+        localized
+          ? `${model.name} with its translatable fields in one locale`
+          : model.name,
+        model.fields,
+        components,
+        localized
+      )
+    );
+  }
+
+  for (const component of components.values()) {
+    const typeName = componentTypeName(component.slug);
+
+    parts.push(
+      ...writeSelectUnions(typeName, component.fields),
+      writeInterface(
+        typeName,
+        `${component.name} component`,
+        component.fields,
+        components,
+        false
+      )
+    );
+  }
+
+  parts.push(
+    [
+      'export interface ContentModels {',
+      ...models.map((m) => `  ${propertyKey(m.slug)}: ${modelTypeName(m.slug)};`),
+      '}',
+    ].join('\n')
+  );
+
+  return parts.join('\n\n') + '\n';
+}
+
+/**
+ * Interface name of a model: blog-post -> BlogPost
+ */
+export function modelTypeName(slug: string): string {
+  return toPascalCase(slug);
+}
+
+/**
+ * Interface name of a component: seo -> SeoComponent
+ */
+export function componentTypeName(slug: string): string {
+  return `${toPascalCase(slug)}Component`;
+}
+
+/**
+ * Union name of a select field's options: Post + status -> PostStatus
+ */
+export function selectTypeName(ownerType: string, fieldKey: string): string {
+  return `${ownerType}${toPascalCase(fieldKey)}`;
+}
+
+function writeSlugConstants(name: string, typeName: string, slugs: string[]): string {
+  return [
+    `export const ${name} = [${slugs.map((s) => JSON.stringify(s)).join(', ')}] as const;`,
+    `export type ${typeName} = (typeof ${name})[number];`,
+  ].join('\n');
+}
+
+function writeFieldKeys(
+  name: string,
+  typeName: string,
+  slugType: string,
+  entities: Array<{ slug: string; fields: FieldDefinitionType[] }>
+): string {
+  return [
+    `export const ${name} = {`,
+    ...entities.map(
+      (e) =>
+        `  ${propertyKey(e.slug)}: [${typedFields(e.fields).map((f) => JSON.stringify(f.key)).join(', ')}],`
+    ),
+    '} as const;',
+    `export type ${typeName}<S extends ${slugType}> = (typeof ${name})[S][number];`,
+  ].join('\n');
+}
+
+function writeMediaTypes(media: MediaModel | undefined, fields: FieldDefinitionType[]): string {
+  const keyType = media?.keyType === 'Int' ? 'number' : 'string';
+  const lines = [`export type MediaId = ${keyType};`];
+
+  if (fields.some((f) => f.config?.type === 'media' && f.config.multiple)) {
+    lines.push(
+      '',
+      '/**',
+      ' * Item of a multiple media field, with per-usage metadata',
+      ' */',
+      'export interface MediaUsage {',
+      '  id: MediaId;',
+      '  alt?: string;',
+      '  crop?: { x: number; y: number; width: number; height: number };',
+      '  focal?: { x: number; y: number };',
+      '}'
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function writeSelectUnions(ownerType: string, fields: FieldDefinitionType[]): string[] {
+  return typedFields(fields)
+    .filter((f) => f.type === 'select')
+    .map(
+      (f) =>
+        `export type ${selectTypeName(ownerType, f.key)} = ${
+          optionValues(f).map((v) => JSON.stringify(v)).join(' | ') || 'never'
+        };`
+    );
+}
+
+function writeInterface(
+  typeName: string,
+  description: string,
+  fields: FieldDefinitionType[],
+  components: Map<string, ComponentEntityType>,
+  localized: boolean
+): string {
+  const members = [
+    'id: string;',
+    ...(localized ? ['locale: string;'] : []),
+    ...typedFields(fields).map((field) => {
+      const readonly = field.derived ? 'readonly ' : '';
+      return `${readonly}${propertyKey(field.key)}: ${fieldType(field, typeName, components)};`;
+    }),
+    'created_at: string;',
+    'updated_at: string;',
+  ];
+
+  return [
+    '/**',
+    ` * ${description}`,
+    ' */',
+    `export interface ${typeName} {`,
+    ...members.map((m) => `  ${m}`),
+    '}',
+  ].join('\n');
+}
+
+/**
+ * Value type of a field, lists are never null
+ */
+function fieldType(
+  field: FieldDefinitionType,
+  ownerType: string,
+  components: Map<string, ComponentEntityType>
+): string {
+  const config = field.config;
+  const nullable = (type: string) => (field.required ? type : `${type} | null`);
+
+  switch (field.type) {
+    case 'text':
+    case 'rich':
+    case 'date':
+      return nullable('string');
+
+    case 'number':
+      return nullable(['BigInt', 'Decimal'].includes(numberColumnType(field)) ? 'string' : 'number');
+
+    case 'boolean':
+      return nullable('boolean');
+
+    case 'select': {
+      const union = selectTypeName(ownerType, field.key);
+      return isMultiSelect(field) ? `${union}[]` : nullable(union);
+    }
+
+    case 'json': {
+      const schema = config?.type === 'json' ? config.schema : undefined;
+      return schema ? nullable(wrap(jsonSchemaToTs(schema as JsonSchema))) : 'unknown';
+    }
+
+    case 'media':
+      return config?.type === 'media' && config.multiple ? 'MediaUsage[]' : nullable('MediaId');
+
+    case 'relation':
+      return config?.type === 'relation' &&
+        (config.relationType === 'oneToMany' || config.relationType === 'manyToMany')
+        ? 'string[]'
+        : nullable('string');
+
+    case 'component': {
+      if (config?.type !== 'component') return 'unknown';
+
+      const typeOf = (slug: string) =>
+        components.has(slug) ? componentTypeName(slug) : 'unknown';
+
+      if (config.components) {
+        const blocks = config.components.map(
+          (slug) => `({ ${DYNAMIC_ZONE_TYPE_KEY}: ${JSON.stringify(slug)} } & ${typeOf(slug)})`
+        );
+        return `Array<${blocks.join(' | ')}>`;
+      }
+
+      const type = typeOf(config.slug!);
+      return config.repeatable ? `${wrap(type)}[]` : nullable(type);
+    }
+  }
+}
+
+function wrap(type: string): string {
+  return /[|&]/.test(type) ? `(${type})` : type;
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
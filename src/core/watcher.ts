@@ -0,0 +1,187 @@
+// src/core/watcher.ts
+
+import { Generator, type GenerateResult } from "./generator";
+import type { Config } from "../types/config";
+import { hashInput } from "../utils/schema-header";
+import { createHash } from "crypto";
+import fs from "fs/promises";
+
+export interface WatchOptions {
+  interval?: number; // Poll interval in ms, default 1000
+  configPath?: string; // Watched and reloaded through loadConfig when it changes
+  loadConfig?: (configPath: string) => Promise<Config>;
+  onRun?: (run: WatchRun) => void;
+  onError?: (error: Error) => void;
+}
+
+export interface WatchRun {
+  result: GenerateResult;
+  written: boolean; // False when the generated schema matched the file
+  changed: string[]; // Sources that triggered the run
+}
+
+/**
+ * Polls EAV definition tables, external model files and the config file,
+ * regenerating the schema when any of them change
+ *
+ * The Prisma client is shared across runs and never disconnected here.
+ */
+export class SchemaWatcher {
+  private generator: Generator;
+  private fingerprints = new Map<string, string>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private polled = false;
+
+  constructor(
+    private config: Config,
+    private prismaClient?: any,
+    private options: WatchOptions = {}
+  ) {
+    this.generator = new Generator(config, prismaClient);
+  }
+
+  /**
+   * Start polling; the first poll records fingerprints and generates
+   */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    void this.tick();
+  }
+
+  stop(): void {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Check sources once; regenerate and write when any fingerprint changed
+   * Returns null when nothing changed
+   */
+  async poll(): Promise<WatchRun | null> {
+    const current = await this.collectFingerprints();
+    const changed = [...current.keys()].filter(
+      (source) => this.fingerprints.get(source) !== current.get(source)
+    );
+
+    for (const source of this.fingerprints.keys()) {
+      if (!current.has(source)) changed.push(source);
+    }
+
+    this.fingerprints = current;
+
+    if (changed.length === 0) {
+      return null;
+    }
+
+    // The first poll runs with the config passed to the constructor
+    const { configPath, loadConfig } = this.options;
+    if (
+      this.polled &&
+      configPath &&
+      loadConfig &&
+      changed.includes(`file:${configPath}`)
+    ) {
+      this.config = await loadConfig(configPath);
+      this.generator = new Generator(this.config, this.prismaClient);
+    }
+    this.polled = true;
+
+    // A failed run keeps the fingerprints: it is retried once an input
+    // changes, not reported again on every idle poll
+    const result = await this.generator.generate();
+    const written = await this.generator.writeResult(result);
+
+    return { result, written, changed };
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      const run = await this.poll();
+      if (run) {
+        this.options.onRun?.(run);
+      }
+    } catch (error) {
+      this.options.onError?.(error as Error);
+    }
+
+    if (this.running) {
+      this.timer = setTimeout(() => void this.tick(), this.options.interval ?? 1000);
+    }
+  }
+
+  /**
+   * Fingerprint per source: `table:<name>`, `file:<path>` or `input:loader`
+   */
+  private async collectFingerprints(): Promise<Map<string, string>> {
+    const fingerprints = new Map<string, string>();
+
+    if (this.prismaClient && !this.config.input) {
+      const tables = [
+        this.config.tables?.models,
+        this.config.tables?.components,
+      ].filter((t): t is string => Boolean(t));
+
+      for (const table of tables) {
+        fingerprints.set(`table:${table}`, await this.fingerprintTable(table));
+      }
+    }
+
+    // Loader output cannot be observed, only loaded again and compared
+    if (this.config.input && "loader" in this.config.input) {
+      fingerprints.set("input:loader", hashInput(await this.config.input.loader()));
+    }
+
+    const files = [
+      ...this.generator.resolveExternalPaths(),
+      ...(this.options.configPath ? [this.options.configPath] : []),
+    ];
+
+    for (const file of files) {
+      fingerprints.set(`file:${file}`, await this.fingerprintFile(file));
+    }
+
+    return fingerprints;
+  }
+
+  /**
+   * Row count plus latest updated_at, or a content hash when the table has
+   * no updated_at column
+   */
+  private async fingerprintTable(table: string): Promise<string> {
+    const delegate = this.prismaClient[table];
+
+    try {
+      const stats = await delegate.aggregate({
+        _count: { _all: true },
+        _max: { updated_at: true },
+      });
+      const updatedAt = stats?._max?.updated_at;
+
+      if (updatedAt) {
+        return `${stats._count._all}:${new Date(updatedAt).toISOString()}`;
+      }
+    } catch {
+      // No updated_at column - fall back to hashing rows
+    }
+
+    const rows = await delegate.findMany();
+    return hash(JSON.stringify(rows));
+  }
+
+  private async fingerprintFile(filePath: string): Promise<string> {
+    try {
+      return hash(await fs.readFile(filePath, "utf-8"));
+    } catch {
+      return "missing";
+    }
+  }
+}
+
+function hash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
@@ -0,0 +1,397 @@
+// src/core/zod-writer.ts
+
+import type {
+  ComponentEntityType,
+  FieldDefinitionType,
+  ModelConfigType,
+} from '../field-config-schema';
+import { DYNAMIC_ZONE_TYPE_KEY, withoutSkippedComponents } from '../mappers/component-mapper';
+import type { MediaModel } from '../mappers/media-mapper';
+import { optionValues } from '../mappers/enum-mapper';
+import { numberColumnType } from '../mappers/number-mapper';
+import { isMultiSelect } from '../mappers/select-mapper';
+import { isList } from '../mappers/value-mapper';
+import { jsonSchemaToZod, type JsonSchema } from '../utils/json-schema';
+import { separateFields } from './schema-builder';
+import { componentTypeName, modelTypeName, selectTypeName } from './types-writer';
+
+export interface ZodWriterConfig {
+  i18nEnabled: boolean;
+  defaultLang?: string;
+  media?: MediaModel;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+/**
+ * Standalone Zod schemas for EAV definitions, from their validation rules
+ *
+ * Per model a create schema and a partial update schema, with translatable
+ * fields in a `translations` object keyed by locale (the default locale
+ * required when a translatable field is) and components nested. Selects
+ * become z.enum schemas, `errorMessage` is the message of every check.
+ */
+export function writeZodSchemas(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>,
+  config: ZodWriterConfig
+): string {
+  components = withoutSkippedComponents(models, components);
+  const parts: string[] = ["import { z } from 'zod';"];
+  const entities = [
+    ...[...components.values()].map((c) => ({ typeName: componentTypeName(c.slug), fields: c.fields })),
+    ...models.map((m) => ({ typeName: modelTypeName(m.slug), fields: m.fields })),
+  ];
+  const allFields = entities.flatMap((e) => e.fields);
+
+  for (const { typeName, fields } of entities) {
+    for (const field of inputFields(fields).filter((f) => f.type === 'select')) {
+      parts.push(
+        `export const ${selectTypeName(typeName, field.key)}Schema = z.enum([${optionValues(field)
+          .map((v) => JSON.stringify(v))
+          .join(', ')}]);`
+      );
+    }
+  }
+
+  if (allFields.some((f) => f.type === 'media')) {
+    parts.push(writeMediaSchemas(config.media, allFields));
+  }
+
+  const context: WriterContext = { components, config, written: new Set(), pending: new Set() };
+
+  for (const slug of orderComponents(components)) {
+    const component = components.get(slug)!;
+    context.pending.add(slug);
+    parts.push(
+      ...writeEntity(`${componentTypeName(slug)}Schema`, componentTypeName(slug), component.fields, context)
+    );
+    context.pending.delete(slug);
+    context.written.add(slug);
+  }
+
+  for (const model of models) {
+    const typeName = modelTypeName(model.slug);
+
+    parts.push(
+      ...writeEntity(`${typeName}CreateSchema`, typeName, model.fields, context),
+      writeUpdateSchema(typeName, model.fields, context),
+      [
+        `export type ${typeName}Create = z.infer<typeof ${typeName}CreateSchema>;`,
+        `export type ${typeName}Update = z.infer<typeof ${typeName}UpdateSchema>;`,
+      ].join('\n')
+    );
+  }
+
+  return parts.join('\n\n') + '\n';
+}
+
+interface WriterContext {
+  components: Map<string, ComponentEntityType>;
+  config: ZodWriterConfig;
+  written: Set<string>; // Component schemas already declared
+  pending: Set<string>; // Component schemas being declared
+}
+
+/**
+ * Object schema of a model or component, preceded by the schema of its
+ * translation object when it has translatable fields
+ */
+function writeEntity(
+  schemaName: string,
+  typeName: string,
+  fields: FieldDefinitionType[],
+  context: WriterContext
+): string[] {
+  const { columns, translatable } = splitTranslatable(fields, context.config);
+  const members = columns.map((f) => member(f, typeName, context));
+  const parts: string[] = [];
+
+  if (translatable.length > 0) {
+    parts.push(
+      writeObject(
+        `${typeName}TranslationSchema`,
+        translatable.map((f) => member(f, typeName, context))
+      )
+    );
+    members.push(`translations: ${translationsSchema(typeName, translatable, context.config)},`);
+  }
+
+  parts.push(writeObject(schemaName, members));
+  return parts;
+}
+
+/**
+ * Every field optional, translations of any locale with any of their fields
+ */
+function writeUpdateSchema(
+  typeName: string,
+  fields: FieldDefinitionType[],
+  context: WriterContext
+): string {
+  const { translatable } = splitTranslatable(fields, context.config);
+  const partial = `${typeName}CreateSchema.partial()`;
+
+  if (translatable.length === 0) {
+    return `export const ${typeName}UpdateSchema = ${partial};`;
+  }
+
+  return [
+    `export const ${typeName}UpdateSchema = ${partial}.extend({`,
+    `  translations: z.record(z.string(), ${typeName}TranslationSchema.partial()).optional(),`,
+    '});',
+  ].join('\n');
+}
+
+function writeObject(name: string, members: string[]): string {
+  return [`export const ${name} = z.object({`, ...members.map((m) => `  ${m}`), '});'].join('\n');
+}
+
+/**
+ * Translations keyed by locale, the default locale required when one of
+ * the fields is
+ */
+function translationsSchema(
+  typeName: string,
+  translatable: FieldDefinitionType[],
+  config: ZodWriterConfig
+): string {
+  const translation = `${typeName}TranslationSchema`;
+
+  if (config.defaultLang && translatable.some((f) => f.required)) {
+    return `z.object({ ${propertyKey(config.defaultLang)}: ${translation} }).catchall(${translation})`;
+  }
+
+  return `z.record(z.string(), ${translation}).optional()`;
+}
+
+function member(field: FieldDefinitionType, ownerType: string, context: WriterContext): string {
+  const schema = fieldSchema(field, ownerType, context);
+  const list = isList(field);
+  const optional = field.required ? '' : list ? '.optional()' : '.nullable().optional()';
+
+  return `${propertyKey(field.key)}: ${schema}${optional},`;
+}
+
+/**
+ * Schema of a field's value with its validation rules, without optionality
+ */
+function fieldSchema(
+  field: FieldDefinitionType,
+  ownerType: string,
+  context: WriterContext
+): string {
+  const config = field.config;
+  const rules = field.validation ?? {};
+  const checks = new Checks(rules.errorMessage);
+
+  switch (field.type) {
+    case 'text':
+    case 'rich':
+      return withCustom(stringSchema(checks, rules), rules.custom);
+
+    case 'number': {
+      const columnType = numberColumnType(field);
+
+      if (columnType === 'BigInt') {
+        checks.add('min', rules.min !== undefined && `${Math.ceil(rules.min)}n`);
+        checks.add('max', rules.max !== undefined && `${Math.floor(rules.max)}n`);
+      } else {
+        checks.add('int', (rules.int || columnType === 'Int') && '');
+        checks.add('min', rules.min);
+        checks.add('max', rules.max);
+      }
+      checks.add('positive', rules.positive && '');
+      checks.add('negative', rules.negative && '');
+
+      return withCustom(
+        // BigInt numbers arrive as strings over JSON, as the content types say
+        checks.apply(columnType === 'BigInt' ? 'z.coerce.bigint()' : 'z.number()'),
+        rules.custom
+      );
+    }
+
+    case 'boolean':
+      return withCustom('z.boolean()', rules.custom);
+
+    case 'date': {
+      if (config?.type === 'date' && config.format === 'time') {
+        return withCustom(stringSchema(checks, rules), rules.custom);
+      }
+
+      checks.add('min', rules.minDate !== undefined && `new Date(${JSON.stringify(rules.minDate)})`);
+      checks.add('max', rules.maxDate !== undefined && `new Date(${JSON.stringify(rules.maxDate)})`);
+      return withCustom(checks.apply('z.coerce.date()'), rules.custom);
+    }
+
+    case 'select': {
+      const options = `${selectTypeName(ownerType, field.key)}Schema`;
+      return isMultiSelect(field) ? arraySchema(options, field) : withCustom(options, rules.custom);
+    }
+
+    case 'json': {
+      const schema = config?.type === 'json' ? config.schema : undefined;
+      return withCustom(schema ? jsonSchemaToZod(schema as JsonSchema) : 'z.unknown()', rules.custom);
+    }
+
+    case 'media':
+      return config?.type === 'media' && config.multiple
+        ? arraySchema('z.union([MediaIdSchema, MediaUsageSchema])', field)
+        : withCustom('MediaIdSchema', rules.custom);
+
+    case 'relation':
+      return isList(field) ? arraySchema('z.string()', field) : withCustom('z.string()', rules.custom);
+
+    case 'component': {
+      if (config?.type !== 'component') return 'z.unknown()';
+
+      if (config.components) {
+        const blocks = config.components.map(
+          (slug) =>
+            `${componentSchema(slug, context)}.extend({ ${DYNAMIC_ZONE_TYPE_KEY}: z.literal(${JSON.stringify(slug)}) })`
+        );
+        const block =
+          blocks.length === 1
+            ? blocks[0]!
+            : `z.discriminatedUnion(${JSON.stringify(DYNAMIC_ZONE_TYPE_KEY)}, [${blocks.join(', ')}])`;
+        return arraySchema(block, field);
+      }
+
+      const schema = componentSchema(config.slug!, context);
+      return config.repeatable ? arraySchema(schema, field) : withCustom(schema, rules.custom);
+    }
+  }
+}
+
+/**
+ * Reference to a component schema, lazy when it is not declared yet
+ * (a component nesting itself); unknown components accept anything
+ */
+function componentSchema(slug: string, context: WriterContext): string {
+  if (!context.components.has(slug)) return 'z.object({}).passthrough()';
+
+  const name = `${componentTypeName(slug)}Schema`;
+  return context.written.has(slug) ? name : `z.lazy((): z.ZodObject<any> => ${name})`;
+}
+
+function stringSchema(checks: Checks, rules: NonNullable<FieldDefinitionType['validation']>): string {
+  checks.add('email', rules.email && '');
+  checks.add('url', rules.url && '');
+  checks.add('uuid', rules.uuid && '');
+  checks.add('cuid', rules.cuid && '');
+  checks.add('min', rules.minLength);
+  checks.add('max', rules.maxLength);
+  checks.add('regex', rules.pattern !== undefined && `new RegExp(${JSON.stringify(rules.pattern)})`);
+
+  return checks.apply('z.string()');
+}
+
+function arraySchema(items: string, field: FieldDefinitionType): string {
+  const rules = field.validation ?? {};
+  const checks = new Checks(rules.errorMessage);
+
+  checks.add('min', rules.minItems);
+  checks.add('max', rules.maxItems);
+
+  return withCustom(checks.apply(`z.array(${items})`), rules.custom);
+}
+
+function withCustom(schema: string, custom: string | undefined): string {
+  return custom ? `${schema}.${custom}` : schema;
+}
+
+/**
+ * Chained checks, each with the field's error message
+ */
+class Checks {
+  private calls: string[] = [];
+
+  constructor(private message?: string) {}
+
+  /**
+   * Add name(argument), skipped for false and undefined
+   * An empty argument adds a check that takes only the message
+   */
+  add(name: string, argument: string | number | false | undefined): void {
+    if (argument === false || argument === undefined) return;
+
+    const args = [argument === '' ? undefined : String(argument), this.message && JSON.stringify(this.message)]
+      .filter(Boolean)
+      .join(', ');
+    this.calls.push(`${name}(${args})`);
+  }
+
+  apply(base: string): string {
+    return [base, ...this.calls].join('.');
+  }
+}
+
+function writeMediaSchemas(media: MediaModel | undefined, fields: FieldDefinitionType[]): string {
+  const lines = [
+    `export const MediaIdSchema = ${media?.keyType === 'Int' ? 'z.number().int()' : 'z.string()'};`,
+  ];
+
+  if (fields.some((f) => f.config?.type === 'media' && f.config.multiple)) {
+    lines.push(
+      '',
+      'export const MediaUsageSchema = z.object({',
+      '  id: MediaIdSchema,',
+      '  alt: z.string().optional(),',
+      '  crop: z.object({ x: z.number(), y: z.number(), width: z.number(), height: z.number() }).partial().optional(),',
+      '  focal: z.object({ x: z.number(), y: z.number() }).partial().optional(),',
+      '});'
+    );
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Component slugs with the components they nest first
+ */
+function orderComponents(components: Map<string, ComponentEntityType>): string[] {
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+
+  const visit = (slug: string) => {
+    if (ordered.includes(slug) || visiting.has(slug) || !components.has(slug)) return;
+    visiting.add(slug);
+
+    for (const field of components.get(slug)!.fields) {
+      if (field.config?.type !== 'component') continue;
+      for (const nested of field.config.components ?? [field.config.slug!]) visit(nested);
+    }
+
+    visiting.delete(slug);
+    ordered.push(slug);
+  };
+
+  [...components.keys()].forEach(visit);
+  return ordered;
+}
+
+/**
+ * Input fields split into the object's own and its translation object's,
+ * following separateFields in the schema builder
+ */
+function splitTranslatable(
+  fields: FieldDefinitionType[],
+  config: ZodWriterConfig
+): { columns: FieldDefinitionType[]; translatable: FieldDefinitionType[] } {
+  const { translatable, nonTranslatable, components } = separateFields(inputFields(fields));
+
+  return config.i18nEnabled
+    ? { columns: [...nonTranslatable, ...components], translatable }
+    : { columns: [...nonTranslatable, ...translatable, ...components], translatable: [] };
+}
+
+/**
+ * Fields written on create and update: derived fields are computed
+ */
+function inputFields(fields: FieldDefinitionType[]): FieldDefinitionType[] {
+  return fields.filter((f) => !f.derived);
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
@@ -20,7 +20,8 @@ const VALIDATION_MESSAGES = {
 	MODEL_SLUG: 'Slug must be lowercase with hyphens',
 	UNIQUE_FIELD_KEYS: 'Field keys must be unique',
 	RESERVED_FIELD_KEY: 'Field key is reserved by the system',
-	RESERVED_AB_FIELD: 'variant_id and enabled are reserved for A/B testing'
+	RESERVED_AB_FIELD: 'variant_id and enabled are reserved for A/B testing',
+	COMPONENT_SLUG: 'Component fields need either a slug or a components list'
 } as const;
 
 export const FieldTypeEnum = z.enum([
@@ -77,19 +78,29 @@ export type FieldValidationType = z.infer<typeof FieldValidationSchema>;
 
 // Type-specific configs (only Prisma-relevant fields)
 
+// Column type per provider, without or with the @db. prefix: { mysql: 'MediumText' }
+const StringNativeTypeSchema = z.object({
+	postgresql: z.string().optional(),
+	mysql: z.string().optional()
+}).optional();
+
 const TextConfigSchema = z.object({
 	multiline: z.boolean().optional(),
-	default: z.string().optional()
+	default: z.string().optional(),
+	nativeType: StringNativeTypeSchema
 }).passthrough();
 
 const RichConfigSchema = z.object({
-	// No Prisma-relevant config for rich text
+	nativeType: StringNativeTypeSchema
 }).passthrough();
 
 const NumberConfigSchema = z.object({
 	step: z.number().optional(),
 	default: z.number().optional(),
-	format: z.enum(['integer', 'decimal', 'currency', 'percentage']).optional()
+	format: z.enum(['integer', 'bigint', 'decimal', 'currency', 'percentage']).optional(),
+	// Decimal columns (currency): total digits and digits after the point
+	precision: z.number().int().positive().optional(),
+	scale: z.number().int().min(0).optional()
 }).passthrough();
 
 const SelectConfigSchema = z.object({
@@ -99,7 +110,10 @@ const SelectConfigSchema = z.object({
 }).passthrough();
 
 const JsonConfigSchema = z.object({
-	// No strict validation needed for Prisma generation
+	// JSON Schema of the value - annotates the column with zod and TS types
+	schema: z.record(z.string(), z.unknown()).optional(),
+	// PostgreSQL column type, Prisma's default is JsonB
+	nativeType: z.enum(['Json', 'JsonB']).optional()
 }).passthrough();
 
 const MediaConfigSchema = z.object({
@@ -115,7 +129,9 @@ const RelationConfigSchema = z.object({
 
 const DateConfigSchema = z.object({
 	format: z.enum(['date', 'datetime', 'time']).default('date'),
-	default: z.string().optional()
+	default: z.string().optional(),
+	// Keep the offset of datetime/time values (timestamptz/timetz), overrides output.datasource.timezone
+	timezone: z.boolean().optional()
 }).passthrough();
 
 export const ComponentContextSchema = z.object({
@@ -133,7 +149,9 @@ export const ComponentContextSchema = z.object({
 export type ComponentContextType = z.infer<typeof ComponentContextSchema>;
 
 export const ComponentConfigSchema = z.object({
-	slug: z.string().min(1).regex(VALIDATION_PATTERNS.SLUG),
+	slug: z.string().min(1).regex(VALIDATION_PATTERNS.SLUG).optional(),
+	// Dynamic zone: an ordered list of blocks, each one of these components
+	components: z.array(z.string().min(1).regex(VALIDATION_PATTERNS.SLUG)).min(1).optional(),
 	repeatable: z.boolean().default(false),
 	context: ComponentContextSchema
 }).passthrough();
@@ -149,12 +167,29 @@ export const FieldConfigSchema = z.discriminatedUnion('type', [
 	z.object({ type: z.literal('json'), ...JsonConfigSchema.shape }),
 	z.object({ type: z.literal('media'), ...MediaConfigSchema.shape }),
 	z.object({ type: z.literal('relation'), ...RelationConfigSchema.shape }),
-	z.object({ type: z.literal('component'), ...ComponentConfigSchema.shape }),
+	z.object({ type: z.literal('component'), ...ComponentConfigSchema.shape }).refine(
+		(config) => (config.slug === undefined) !== (config.components === undefined),
+		{ message: VALIDATION_MESSAGES.COMPONENT_SLUG }
+	),
 	z.object({ type: z.literal('date'), ...DateConfigSchema.shape })
 ]);
 
 export type FieldConfigType = z.infer<typeof FieldConfigSchema>;
 
+/**
+ * Derived field: computed from other fields instead of stored from input
+ * - database: generated column, `expression` is SQL over the table's columns
+ * - client: Prisma Client extension result field, `expression` is JavaScript
+ *   over the fields in `needs`
+ */
+export const DerivedConfigSchema = z.object({
+	expression: z.string().min(1),
+	storage: z.enum(['database', 'client']).optional(), // Default: database
+	needs: z.array(z.string()).optional() // Client only, default: field keys used in the expression
+}).passthrough();
+
+export type DerivedConfigType = z.infer<typeof DerivedConfigSchema>;
+
 /**
  * Minimal field definition - only Prisma-relevant fields
  * Extra fields (ui, description, etc.) are passed through and ignored
@@ -173,12 +208,32 @@ export const FieldDefinitionSchema = z
 		config: FieldConfigSchema.optional(),
 		required: z.boolean().default(false),
 		translatable: z.boolean().default(true).optional(),
+		unique: z.boolean().optional(), // @unique, or unique per language in the translation table
+		indexed: z.boolean().optional(), // @@index on the field's column
+		derived: z.union([z.boolean(), DerivedConfigSchema]).optional(), // true without an expression is skipped
 		validation: FieldValidationSchema
 	})
 	.passthrough(); // Allow extra CMS fields
 
 export type FieldDefinitionType = z.infer<typeof FieldDefinitionSchema>;
 
+// Field key, or a field key with a sort order
+const IndexFieldSchema = z.union([
+	z.string(),
+	z.object({ field: z.string(), sort: z.enum(['asc', 'desc']) })
+]);
+
+const ModelUniqueSchema = z.object({
+	fields: z.array(IndexFieldSchema).min(1),
+	name: z.string().optional() // Index name in the database
+}).passthrough();
+
+const ModelIndexSchema = ModelUniqueSchema.extend({
+	type: z.enum(['BTree', 'Hash', 'Gist', 'Gin', 'SpGist', 'Brin']).optional() // PostgreSQL only
+}).passthrough();
+
+export type ModelIndexType = z.infer<typeof ModelIndexSchema>;
+
 /**
  * Minimal model config - only Prisma-relevant fields
  */
@@ -190,7 +245,9 @@ const ModelConfigSchemaBase = z
 		settings: z
 			.object({
 				enableI18n: z.boolean().optional(), // Affects translation tables
-				sortField: z.string().optional() // Affects indexes
+				sortField: z.string().optional(), // Affects indexes
+				indexes: z.array(ModelIndexSchema).optional(), // Composite and named @@index
+				unique: z.array(ModelUniqueSchema).optional() // Composite and named @@unique
 			})
 			.passthrough()
 			.optional()
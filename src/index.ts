@@ -1,8 +1,42 @@
 // Main library exports
 export { Generator } from './core/generator';
 export { EAVReader } from './core/reader';
+export { DataMigrator, planModelMigration } from './core/data-migrator';
+export { importPrismaSchema, importPrismaModels } from './core/schema-importer';
+export { diffSchemas, maxSeverity, exceedsSeverity } from './core/schema-diff';
 export { buildModel } from './core/schema-builder';
-export { writeSchema, writeSchemaSync } from './core/schema-writer';
+export { resolveRelations } from './core/relation-resolver';
+export { validateSchema, formatSchemaIssues } from './core/schema-validator';
+export {
+  writeSchema,
+  writeSchemaSync,
+  writeFieldAttributes,
+  writeIndexArguments,
+  writeEnum
+} from './core/schema-writer';
+export {
+  writeTypes,
+  modelTypeName,
+  componentTypeName,
+  selectTypeName
+} from './core/types-writer';
+export type { TypesWriterConfig } from './core/types-writer';
+export { writeZodSchemas } from './core/zod-writer';
+export { findLocalizedModel, writeLocalizedExtension } from './core/localized-writer';
+export type { LocalizedModel, LocalizedWriterConfig } from './core/localized-writer';
+export { SeedFactory } from './core/seed-factory';
+export type { Seed, SeedDefinitions, SeedFactoryConfig, SeedRecords } from './core/seed-factory';
+export { generateFactories, writeFactories } from './core/factories-writer';
+export type { FactoriesResult } from './core/factories-writer';
+export {
+  buildContentSchemas,
+  writeJsonSchema,
+  writeOpenApiComponents
+} from './core/json-schema-writer';
+export type { JsonSchemaWriterConfig } from './core/json-schema-writer';
+export { writeGraphqlSchema } from './core/graphql-writer';
+export type { GraphqlWriterConfig } from './core/graphql-writer';
+export type { ZodWriterConfig } from './core/zod-writer';
 
 // Type exports
 export type { Config } from './types/config';
@@ -16,7 +50,9 @@ export type {
   FieldConfigType,
   FieldValidationType,
   ComponentContextType,
-  ComponentConfigType
+  ComponentConfigType,
+  ModelIndexType,
+  DerivedConfigType
 } from './field-config-schema';
 
 export {
@@ -27,6 +63,7 @@ export {
   FieldValidationSchema,
   ComponentConfigSchema,
   ComponentContextSchema,
+  DerivedConfigSchema,
   FieldTypeEnum,
   getValidationErrors,
   isReservedFieldKey,
@@ -41,38 +78,125 @@ export type {
   PrismaModel,
   PrismaField,
   PrismaDatasource,
-  PrismaGenerator
+  PrismaGenerator,
+  PrismaEnum,
+  PrismaEnumValue,
+  PrismaInverse,
+  PrismaReferentialAction,
+  PrismaDefault,
+  PrismaIndex,
+  PrismaIndexType
 } from './utils/prisma-ast';
 
 export {
   extractModelsFromPrismaFile,
-  extractModelsFromString
+  extractModelsFromString,
+  extractEnumsFromPrismaFile,
+  extractEnumsFromString
 } from './utils/prisma-parser';
 
-export { buildZodComment } from './utils/zod-comments';
+export { buildZodComment, parseZodComment } from './utils/zod-comments';
+export { jsonSchemaToZod, jsonSchemaToTs } from './utils/json-schema';
+export type { JsonSchema, JsonSchemaType } from './utils/json-schema';
+export { readSchemaHeader } from './utils/schema-header';
+export type { SchemaHeader } from './utils/schema-header';
 
 export {
   toModelName,
   toSnakeCase,
   toPascalCase,
   toCamelCase,
-  buildTranslationTableName
+  toKebabCase,
+  toDelegateName,
+  buildTranslationTableName,
+  pluralize
 } from './utils/naming';
 
 // Mapper exports
 export { mapFieldToPrisma } from './mappers/field-mapper';
+export { mapValueToColumns } from './mappers/value-mapper';
+export {
+  buildSelectEnum,
+  buildSelectEnums,
+  buildEnumName,
+  buildEnumValues,
+  usesNativeEnum
+} from './mappers/enum-mapper';
+export { checkFieldDefault, toDateDefault } from './mappers/default-mapper';
+export { usesJsonType, buildJsonAnnotations } from './mappers/json-mapper';
+export { numberColumnType, decimalNativeType, decimalScale } from './mappers/number-mapper';
+export { dateFormat, dateNativeType, parseDateValue } from './mappers/date-mapper';
+export { stringNativeType } from './mappers/string-mapper';
+export { indexColumn, applyModelIndexes, checkModelIndexes } from './mappers/index-mapper';
+export {
+  buildSelectValueTable,
+  buildSelectValueTableName,
+  multiSelectStorage
+} from './mappers/select-mapper';
 export {
   buildComponentTable,
-  buildComponentTranslationTable
+  buildComponentTranslationTable,
+  buildComponentValueTables,
+  buildDynamicZoneTable,
+  dynamicZoneBlockKey,
+  isDynamicZone,
+  DYNAMIC_ZONE_TYPE_KEY
 } from './mappers/component-mapper';
 export {
   needsJunctionTable,
   buildJunctionTable,
-  buildJunctionTableName
+  buildJunctionTableName,
+  findReversedJunctions,
+  resolveJunction,
+  resolveTargetModelName,
+  toReferentialAction
 } from './mappers/relation-mapper';
+export type { JunctionNames, RelationNamingConfig } from './mappers/relation-mapper';
+export {
+  resolveMediaModel,
+  needsMediaJunction,
+  resolveMediaJunction,
+  buildMediaJunctionTable,
+  mapMediaUsages
+} from './mappers/media-mapper';
+export type { MediaModel, MediaJunctionNames } from './mappers/media-mapper';
+export {
+  splitDerivedFields,
+  derivedNeeds,
+  markGeneratedColumns,
+  buildGeneratedColumnsSql,
+  buildDerivedExtension
+} from './mappers/derived-mapper';
+export type { DerivedFields, GeneratedColumn, ComputedField } from './mappers/derived-mapper';
 
 // Schema builder types
 export type { SchemaBuilderConfig } from './core/schema-builder';
+export type {
+  GenerateResult,
+  ResolvedDefinitions,
+  CheckResult,
+  CheckStatus
+} from './core/generator';
+
+// Schema validation types
+export type { SchemaIssue, SchemaSource } from './core/schema-validator';
+
+// Schema import types
+export type { ImportOptions, ImportResult } from './core/schema-importer';
+
+// Schema diff types
+export type { SchemaChange, ChangeSeverity, ChangeKind } from './core/schema-diff';
+
+// Data migration types
+export type {
+  EAVInstance,
+  EAVInstanceRow,
+  MigrationIssue,
+  MigrationPlan,
+  MigrationPlanConfig,
+  MigrationRecord,
+  MigrationResult
+} from './core/data-migrator';
 
 // Re-export commonly used types
 export type { MapperFunction, EAVDatabaseRow } from './core/reader';
\ No newline at end of file
@@ -1,9 +1,15 @@
 // src/mappers/component-mapper.ts
 
 import type { PrismaModel, PrismaField } from '../utils/prisma-ast';
-import type { ComponentEntityType, ComponentContextType, FieldDefinitionType } from '../field-config-schema';
+import type {
+  ComponentEntityType,
+  ComponentContextType,
+  FieldDefinitionType,
+  ModelConfigType
+} from '../field-config-schema';
 import type { SchemaBuilderConfig } from '../core/schema-builder';
 import { mapFieldToPrisma } from './field-mapper';
+import { buildSelectValueTables } from './select-mapper';
 import { toSnakeCase, toPascalCase } from '../utils/naming';
 
 /**
@@ -24,7 +30,7 @@ export function buildComponentTable(
   const parentFk = `${toSnakeCase(parentModel)}_id`;
   
   // Separate translatable/non-translatable fields
-  const { translatable, nonTranslatable } = separateComponentFields(component.fields);
+  const { translatable, nonTranslatable, components } = separateComponentFields(component.fields);
   
   // Build fields
   const fields: PrismaField[] = [
@@ -68,7 +74,7 @@ export function buildComponentTable(
     // When i18n is disabled, include all fields here
     // When i18n is enabled, only non-translatable fields (translatable ones go to translation table)
      ...(config.i18nEnabled ? nonTranslatable : [...nonTranslatable, ...translatable])
-      .flatMap(f => mapFieldToPrisma(f, config)),
+      .flatMap(f => mapFieldToPrisma(f, config, tableName)),
     
     // Timestamps
     {
@@ -82,6 +88,14 @@ export function buildComponentTable(
       attributes: ['@updatedAt']
     },
     
+    // Nested components are child tables of this one
+    ...components.map((f) => ({
+      name: f.key,
+      type: buildComponentTableName(tableName, f.key, config),
+      list: f.config?.type === 'component' && (f.config.repeatable || isDynamicZone(f)),
+      optional: true
+    })),
+    
     // Relation back to parent
     {
       name: toSnakeCase(parentModel),
@@ -112,6 +126,167 @@ export function buildComponentTable(
   return model;
 }
 
+/**
+ * Key holding the component slug of a dynamic zone block, in stored values
+ * and the generated types and schemas
+ */
+export const DYNAMIC_ZONE_TYPE_KEY = '__component';
+
+/**
+ * Dynamic zone fields list the component types their blocks can be
+ */
+export function isDynamicZone(field: FieldDefinitionType): boolean {
+  return field.config?.type === 'component' && field.config.components !== undefined;
+}
+
+/**
+ * Field on the zone table for a block type: call-to-action -> call_to_action
+ */
+export function dynamicZoneBlockKey(slug: string): string {
+  return slug.replace(/-/g, '_');
+}
+
+/**
+ * Components without the nested component fields the schema builder skips
+ *
+ * The builder skips a component that would contain itself, judged by the
+ * components above it, so a nested field stays when it gets tables below
+ * any model field (components no model uses count from themselves).
+ * Dynamic zones keep their other block types.
+ */
+export function withoutSkippedComponents(
+  models: ModelConfigType[],
+  components: Map<string, ComponentEntityType>
+): Map<string, ComponentEntityType> {
+  const built = new Set<string>();
+  const reached = new Set<string>();
+
+  const walk = (slug: string, path: string[]) => {
+    const component = components.get(slug);
+    if (!component) return;
+    reached.add(slug);
+
+    const inner = [...path, slug];
+    for (const field of component.fields) {
+      for (const nested of nestedSlugs(field)) {
+        if (inner.includes(nested)) continue;
+        built.add(edgeKey(slug, field.key, nested));
+        walk(nested, inner);
+      }
+    }
+  };
+
+  for (const field of models.flatMap((m) => m.fields)) {
+    nestedSlugs(field).forEach((slug) => walk(slug, []));
+  }
+  for (const slug of components.keys()) {
+    if (!reached.has(slug)) walk(slug, []);
+  }
+
+  const resolved = new Map<string, ComponentEntityType>();
+
+  for (const [slug, component] of components) {
+    const fields = component.fields.flatMap((field) => {
+      if (field.config?.type !== 'component') return [field];
+
+      const nested = nestedSlugs(field);
+      const kept = nested.filter(
+        (s) => !components.has(s) || built.has(edgeKey(slug, field.key, s))
+      );
+
+      if (kept.length === 0) return [];
+      if (kept.length === nested.length) return [field];
+      return [{ ...field, config: { ...field.config, components: kept } }];
+    });
+
+    const unchanged =
+      fields.length === component.fields.length &&
+      fields.every((field, index) => field === component.fields[index]);
+    resolved.set(slug, unchanged ? component : { ...component, fields });
+  }
+
+  return resolved;
+}
+
+function nestedSlugs(field: FieldDefinitionType): string[] {
+  if (field.config?.type !== 'component') return [];
+  return field.config.components ?? (field.config.slug ? [field.config.slug] : []);
+}
+
+function edgeKey(slug: string, fieldKey: string, nested: string): string {
+  return JSON.stringify([slug, fieldKey, nested]);
+}
+
+/**
+ * Build the ordering table of a dynamic zone
+ *
+ * One row per block with its position and component type (`type`), the
+ * block's fields live in that component's table with FK back to the row
+ * Example: Page.blocks [hero, quote] -> PageBlock with PageBlockHero, PageBlockQuote
+ */
+export function buildDynamicZoneTable(
+  parentModel: string,
+  fieldKey: string,
+  slugs: string[],
+  config: SchemaBuilderConfig
+): PrismaModel {
+  const tableName = buildComponentTableName(parentModel, fieldKey, config);
+  const parentFk = `${toSnakeCase(parentModel)}_id`;
+
+  return {
+    name: tableName,
+    fields: [
+      {
+        name: 'id',
+        type: 'String',
+        attributes: ['@id', '@default(cuid())']
+      },
+      {
+        name: parentFk,
+        type: 'String'
+      },
+      {
+        name: 'order',
+        type: 'Int'
+      },
+      // Component slug of the block
+      {
+        name: 'type',
+        type: 'String'
+      },
+      {
+        name: 'created_at',
+        type: 'DateTime',
+        attributes: ['@default(now())']
+      },
+      {
+        name: 'updated_at',
+        type: 'DateTime',
+        attributes: ['@updatedAt']
+      },
+      // One block table per component type
+      ...slugs.map((slug) => {
+        const blockKey = dynamicZoneBlockKey(slug);
+        return {
+          name: blockKey,
+          type: buildComponentTableName(tableName, blockKey, config),
+          optional: true
+        };
+      }),
+      {
+        name: toSnakeCase(parentModel),
+        type: parentModel,
+        relation: {
+          fields: [parentFk],
+          references: ['id'],
+          onDelete: 'Cascade'
+        }
+      }
+    ],
+    indexes: [[parentFk, 'order']]
+  };
+}
+
 /**
  * Build component translation table
  */
@@ -148,7 +323,7 @@ export function buildComponentTranslationTable(
         name: 'lang',
         type: 'String'
       },
-      ...translatable.flatMap(f => mapFieldToPrisma(f, config)),
+      ...translatable.flatMap(f => mapFieldToPrisma(f, config, baseTableName)),
       {
         name: toSnakeCase(baseTableName),
         type: baseTableName,
@@ -163,6 +338,28 @@ export function buildComponentTranslationTable(
   };
 }
 
+/**
+ * Value tables for multi-selects in the component and its translation table
+ */
+export function buildComponentValueTables(
+  parentModel: string,
+  fieldKey: string,
+  component: ComponentEntityType,
+  config: SchemaBuilderConfig
+): PrismaModel[] {
+  const tableName = buildComponentTableName(parentModel, fieldKey, config);
+  const { translatable, nonTranslatable } = separateComponentFields(component.fields);
+
+  if (!config.i18nEnabled) {
+    return buildSelectValueTables(tableName, [...nonTranslatable, ...translatable], config);
+  }
+
+  return [
+    ...buildSelectValueTables(tableName, nonTranslatable, config),
+    ...buildSelectValueTables(tableName, translatable, config, `${tableName}Translation`)
+  ];
+}
+
 function buildComponentTableName(
   parentModel: string,
   fieldKey: string,
@@ -185,10 +382,19 @@ function buildComponentTableName(
 function separateComponentFields(fields: FieldDefinitionType[]) {
   const translatable: FieldDefinitionType[] = [];
   const nonTranslatable: FieldDefinitionType[] = [];
+  const components: FieldDefinitionType[] = [];
   
   for (const field of fields) {
-    // Skip nested components and relations
-    if (field.type === 'component' || field.type === 'relation') {
+    if (field.type === 'component') {
+      components.push(field);
+      continue;
+    }
+    
+    // Skip relations and media junctions
+    if (
+      field.type === 'relation' ||
+      (field.config?.type === 'media' && field.config.multiple)
+    ) {
       nonTranslatable.push(field);
       continue;
     }
@@ -200,5 +406,5 @@ function separateComponentFields(fields: FieldDefinitionType[]) {
     }
   }
   
-  return { translatable, nonTranslatable };
-}
\ No newline at end of file
+  return { translatable, nonTranslatable, components };
+}
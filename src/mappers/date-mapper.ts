@@ -0,0 +1,79 @@
+// src/mappers/date-mapper.ts
+
+import type { PrismaDatasource } from '../utils/prisma-ast';
+import type { FieldDefinitionType } from '../field-config-schema';
+
+export interface DateMapperConfig {
+  provider?: PrismaDatasource['provider'];
+  timezone?: boolean; // Default timezone awareness for datetime and time fields
+}
+
+export type DateFormat = 'date' | 'datetime' | 'time';
+
+const TIME = /^\d{2}:\d{2}(:\d{2}(\.\d+)?)?$/;
+
+/**
+ * Format of a date field, date when the config leaves it out
+ * Fields without a config stay full timestamps
+ */
+export function dateFormat(field: FieldDefinitionType): DateFormat {
+  return field.config?.type === 'date' ? (field.config.format ?? 'date') : 'datetime';
+}
+
+/**
+ * Whether datetime and time values keep their offset: the field's
+ * config.timezone, else the datasource default
+ */
+export function isTimezoneAware(field: FieldDefinitionType, config: DateMapperConfig): boolean {
+  const timezone = field.config?.type === 'date' ? field.config.timezone : undefined;
+  return timezone ?? config.timezone ?? false;
+}
+
+/**
+ * Native column type for the date format, SQLite has none
+ *
+ * PostgreSQL: Date, Time/Timetz, timestamp (default)/Timestamptz
+ * MySQL: Date, Time, DATETIME (default)/TIMESTAMP
+ */
+export function dateNativeType(
+  field: FieldDefinitionType,
+  config: DateMapperConfig
+): string | undefined {
+  const format = dateFormat(field);
+  const timezone = isTimezoneAware(field, config);
+
+  switch (config.provider ?? 'sqlite') {
+    case 'postgresql':
+      if (format === 'date') return '@db.Date';
+      if (format === 'time') return timezone ? '@db.Timetz(3)' : '@db.Time(3)';
+      return timezone ? '@db.Timestamptz(3)' : undefined;
+
+    case 'mysql':
+      if (format === 'date') return '@db.Date';
+      if (format === 'time') return '@db.Time(3)';
+      return timezone ? '@db.Timestamp(3)' : undefined;
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Parse a stored date, datetime or time of day ("09:15", anchored to
+ * 1970-01-01 UTC), undefined when it is not a date
+ */
+export function parseDateValue(
+  value: string | number | Date,
+  format: DateFormat = 'date'
+): Date | undefined {
+  const date =
+    value instanceof Date
+      ? value
+      : new Date(
+          format === 'time' && typeof value === 'string' && TIME.test(value)
+            ? `1970-01-01T${value}Z`
+            : value
+        );
+
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
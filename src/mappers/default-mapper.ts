@@ -0,0 +1,208 @@
+// src/mappers/default-mapper.ts
+
+import type { FieldDefinitionType } from '../field-config-schema';
+import { optionValues } from './enum-mapper';
+import { numberColumnType } from './number-mapper';
+import { parseDateValue } from './date-mapper';
+
+const NOW = /^now(\(\))?$/i;
+const EMAIL = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const CUID = /^c[a-z0-9]{24}$/;
+const INT_MIN = -(2 ** 31);
+const INT_MAX = 2 ** 31 - 1;
+
+/**
+ * DateTime default for a date field: now() or an RFC 3339 timestamp
+ * Times of day are anchored to 1970-01-01 UTC, undefined when unparseable
+ */
+export function toDateDefault(
+  value: string,
+  format: 'date' | 'datetime' | 'time' = 'date'
+): string | undefined {
+  if (NOW.test(value.trim())) return 'now()';
+
+  return parseDateValue(value, format)?.toISOString();
+}
+
+/**
+ * Number default of a number field, undefined when its column cannot hold it
+ */
+export function toNumberDefault(field: FieldDefinitionType): number | undefined {
+  const value = field.config?.type === 'number' ? field.config.default : undefined;
+  if (value === undefined) return undefined;
+
+  return unrepresentableNumber(field, value) ? undefined : value;
+}
+
+/**
+ * Problem with a field's configured default for warnings, undefined when
+ * it is fine: "is not written: ..." or "fails validation: ..."
+ */
+export function checkFieldDefault(field: FieldDefinitionType): string | undefined {
+  const skipped = unwritableDefault(field);
+  if (skipped) return `is not written: ${skipped}`;
+
+  const violations = defaultViolations(field);
+  if (violations.length > 0) return `fails validation: ${violations.join(', ')}`;
+
+  return undefined;
+}
+
+/**
+ * Defaults the field mapper leaves out because Prisma cannot store them
+ */
+function unwritableDefault(field: FieldDefinitionType): string | undefined {
+  const config = field.config;
+  if (!config || !('default' in config) || config.default === undefined) {
+    return undefined;
+  }
+
+  const value = config.default;
+
+  if (config.type === 'select') {
+    const options = optionValues(field);
+    const values = Array.isArray(value) ? value : [value];
+    const unknown = values.filter((v) => !options.includes(String(v)));
+
+    if (unknown.length > 0) {
+      return `${unknown.map((v) => `"${v}"`).join(', ')} is not one of the options`;
+    }
+
+    if (Array.isArray(value) !== Boolean(config.multiple)) {
+      return config.multiple ? 'expected a list of options' : 'expected a single option';
+    }
+  }
+
+  if (config.type === 'number' && typeof value === 'number') {
+    const problem = unrepresentableNumber(field, value);
+    if (problem) return `${value} ${problem}`;
+  }
+
+  if (
+    config.type === 'date' &&
+    (typeof value !== 'string' || !toDateDefault(value, config.format))
+  ) {
+    return `${JSON.stringify(value)} is not a date or now()`;
+  }
+
+  return undefined;
+}
+
+function defaultViolations(field: FieldDefinitionType): string[] {
+  const config = field.config;
+  if (!config || !('default' in config) || config.default === undefined) {
+    return [];
+  }
+
+  const value = config.default;
+
+  if (config.type === 'date') {
+    return NOW.test(String(value).trim()) ? [] : dateViolations(field, String(value));
+  }
+
+  if (Array.isArray(value)) return arrayViolations(field, value);
+  if (typeof value === 'number') return numberViolations(field, value);
+  if (typeof value === 'string') return stringViolations(field, value);
+
+  return [];
+}
+
+function stringViolations(field: FieldDefinitionType, value: string): string[] {
+  const rules = field.validation ?? {};
+  const violations: string[] = [];
+
+  if (rules.minLength !== undefined && value.length < rules.minLength) {
+    violations.push(`shorter than minLength ${rules.minLength}`);
+  }
+
+  if (rules.maxLength !== undefined && value.length > rules.maxLength) {
+    violations.push(`longer than maxLength ${rules.maxLength}`);
+  }
+
+  if (rules.pattern !== undefined && !matchesPattern(rules.pattern, value)) {
+    violations.push(`does not match pattern ${rules.pattern}`);
+  }
+
+  if (rules.email && !EMAIL.test(value)) violations.push('is not an email');
+  if (rules.url && !URL.canParse(value)) violations.push('is not a URL');
+  if (rules.uuid && !UUID.test(value)) violations.push('is not a UUID');
+  if (rules.cuid && !CUID.test(value)) violations.push('is not a CUID');
+
+  return violations;
+}
+
+function numberViolations(field: FieldDefinitionType, value: number): string[] {
+  const rules = field.validation ?? {};
+  const violations: string[] = [];
+
+  if (rules.min !== undefined && value < rules.min) {
+    violations.push(`less than min ${rules.min}`);
+  }
+
+  if (rules.max !== undefined && value > rules.max) {
+    violations.push(`greater than max ${rules.max}`);
+  }
+
+  // Integer columns cannot hold the default at all, see unrepresentableNumber
+  if (rules.int && !Number.isInteger(value)) violations.push('is not an integer');
+  if (rules.positive && value <= 0) violations.push('is not positive');
+  if (rules.negative && value >= 0) violations.push('is not negative');
+
+  return violations;
+}
+
+/**
+ * Why an Int or BigInt column cannot hold a number, undefined when it can
+ */
+function unrepresentableNumber(field: FieldDefinitionType, value: number): string | undefined {
+  const columnType = numberColumnType(field);
+  if (columnType !== 'Int' && columnType !== 'BigInt') return undefined;
+
+  if (!Number.isInteger(value)) return 'is not an integer';
+  if (columnType === 'Int' && (value < INT_MIN || value > INT_MAX)) {
+    return 'is out of the 32-bit Int range';
+  }
+
+  return undefined;
+}
+
+function arrayViolations(field: FieldDefinitionType, value: unknown[]): string[] {
+  const rules = field.validation ?? {};
+  const violations: string[] = [];
+
+  if (rules.minItems !== undefined && value.length < rules.minItems) {
+    violations.push(`fewer than minItems ${rules.minItems}`);
+  }
+
+  if (rules.maxItems !== undefined && value.length > rules.maxItems) {
+    violations.push(`more than maxItems ${rules.maxItems}`);
+  }
+
+  return violations;
+}
+
+function dateViolations(field: FieldDefinitionType, value: string): string[] {
+  const rules = field.validation ?? {};
+  const format = field.config?.type === 'date' ? field.config.format : undefined;
+  const time = Date.parse(toDateDefault(value, format)!);
+  const violations: string[] = [];
+
+  if (rules.minDate !== undefined && time < Date.parse(rules.minDate)) {
+    violations.push(`before minDate ${rules.minDate}`);
+  }
+
+  if (rules.maxDate !== undefined && time > Date.parse(rules.maxDate)) {
+    violations.push(`after maxDate ${rules.maxDate}`);
+  }
+
+  return violations;
+}
+
+function matchesPattern(pattern: string, value: string): boolean {
+  try {
+    return new RegExp(pattern).test(value);
+  } catch {
+    return true; // A broken pattern is not the default's fault
+  }
+}
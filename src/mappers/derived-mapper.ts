@@ -0,0 +1,321 @@
+// src/mappers/derived-mapper.ts
+
+import type { PrismaDatasource, PrismaField, PrismaModel } from '../utils/prisma-ast';
+import type { DerivedConfigType, FieldDefinitionType } from '../field-config-schema';
+import { toDelegateName } from '../utils/naming';
+import { separateFields } from '../core/schema-builder';
+import { isMultiSelect } from './select-mapper';
+
+export interface DerivedMapperConfig {
+  i18nEnabled: boolean;
+  provider?: PrismaDatasource['provider'];
+}
+
+/**
+ * A model's fields split by how derived fields are stored
+ */
+export interface DerivedFields {
+  columns: FieldDefinitionType[]; // Stored fields and generated columns, built into tables
+  generated: FieldDefinitionType[]; // Database derived fields
+  computed: FieldDefinitionType[]; // Client derived fields, not in the schema
+  skipped: Array<{ field: FieldDefinitionType; reason?: string }>;
+}
+
+/**
+ * Generated column of a database derived field
+ */
+export interface GeneratedColumn {
+  source: string; // "post.full_name"
+  table: string; // Database table name
+  column: string;
+  sqlType: string;
+  expression: string;
+}
+
+/**
+ * Prisma Client extension result field of a client derived field
+ */
+export interface ComputedField {
+  model: string; // Prisma model the result field is added to
+  key: string;
+  needs: string[];
+  expression: string;
+}
+
+// Field types derived fields can have, the others are not single columns
+const DERIVABLE_TYPES = ['text', 'rich', 'number', 'boolean', 'date', 'json'];
+
+// Column types for Prisma types without a native type attribute
+const SQL_TYPES: Record<PrismaDatasource['provider'], Record<string, string>> = {
+  postgresql: {
+    String: 'TEXT',
+    Int: 'INTEGER',
+    BigInt: 'BIGINT',
+    Float: 'DOUBLE PRECISION',
+    Decimal: 'DECIMAL(65,30)',
+    Boolean: 'BOOLEAN',
+    DateTime: 'TIMESTAMP(3)',
+    Json: 'JSONB'
+  },
+  mysql: {
+    String: 'VARCHAR(191)',
+    Int: 'INT',
+    BigInt: 'BIGINT',
+    Float: 'DOUBLE',
+    Decimal: 'DECIMAL(65,30)',
+    Boolean: 'BOOLEAN',
+    DateTime: 'DATETIME(3)',
+    Json: 'JSON'
+  },
+  sqlite: {
+    String: 'TEXT',
+    Int: 'INTEGER',
+    BigInt: 'BIGINT',
+    Float: 'REAL',
+    Decimal: 'DECIMAL',
+    Boolean: 'BOOLEAN',
+    DateTime: 'DATETIME',
+    Json: 'TEXT'
+  }
+};
+
+/**
+ * Derived config of a field, undefined for stored fields and `derived: true`
+ */
+export function derivedConfig(field: FieldDefinitionType): DerivedConfigType | undefined {
+  return typeof field.derived === 'object' ? field.derived : undefined;
+}
+
+/**
+ * Split a model's fields into stored, generated and computed fields
+ *
+ * Derived fields live where their translatable flag puts them, like any
+ * column; generated columns and client fields read fields on that same table
+ */
+export function splitDerivedFields(
+  fields: FieldDefinitionType[],
+  config: DerivedMapperConfig
+): DerivedFields {
+  const split: DerivedFields = { columns: [], generated: [], computed: [], skipped: [] };
+
+  for (const field of fields) {
+    if (!field.derived) {
+      split.columns.push(field);
+      continue;
+    }
+
+    const derived = derivedConfig(field);
+    if (!derived) {
+      split.skipped.push({ field });
+      continue;
+    }
+
+    const reason = DERIVABLE_TYPES.includes(field.type)
+      ? checkNeeds(field, derivedNeeds(field, fields), fields, config)
+      : `${field.type} fields cannot be derived`;
+
+    if (reason) {
+      split.skipped.push({ field, reason });
+    } else if (derived.storage === 'client') {
+      split.computed.push(field);
+    } else {
+      split.columns.push(field);
+      split.generated.push(field);
+    }
+  }
+
+  return split;
+}
+
+/**
+ * Fields an expression reads: `needs`, or the field keys it mentions
+ */
+export function derivedNeeds(
+  field: FieldDefinitionType,
+  fields: FieldDefinitionType[]
+): string[] {
+  const derived = derivedConfig(field);
+  if (!derived) return [];
+  if (derived.needs) return derived.needs;
+
+  const identifiers = new Set(derived.expression.match(/\b[a-z][a-z0-9_]*\b/g) ?? []);
+  return fields.map((f) => f.key).filter((key) => key !== field.key && identifiers.has(key));
+}
+
+/**
+ * Make generated columns of database derived fields on a model's tables
+ * (mutates them): optional, no default of their own, written by the database
+ */
+export function markGeneratedColumns(
+  modelSlug: string,
+  tables: PrismaModel[],
+  generated: FieldDefinitionType[],
+  config: DerivedMapperConfig
+): GeneratedColumn[] {
+  const [main] = tables;
+  if (!main) return [];
+
+  const translation = tables.find((t) => t.name === `${main.name}Translation`);
+
+  return generated.flatMap((field) => {
+    const table = isTranslated(field, config) ? translation : main;
+    const prismaField = table?.fields.find((f) => f.name === field.key);
+    if (!table || !prismaField) return [];
+
+    prismaField.optional = true;
+    delete prismaField.default;
+    prismaField.attributes = [
+      ...(prismaField.attributes ?? []).filter((a) => !a.startsWith('@default(')),
+      '@default(dbgenerated())'
+    ];
+
+    return [
+      {
+        source: `${modelSlug}.${field.key}`,
+        table: table.map ?? table.name,
+        column: prismaField.map ?? prismaField.name,
+        sqlType: columnSqlType(prismaField, config.provider ?? 'sqlite'),
+        expression: derivedConfig(field)!.expression
+      }
+    ];
+  });
+}
+
+/**
+ * Result fields of client derived fields, on the translation model for
+ * translated ones
+ */
+export function toComputedFields(
+  modelName: string,
+  computed: FieldDefinitionType[],
+  fields: FieldDefinitionType[],
+  config: DerivedMapperConfig
+): ComputedField[] {
+  return computed.map((field) => ({
+    model: isTranslated(field, config) ? `${modelName}Translation` : modelName,
+    key: field.key,
+    needs: derivedNeeds(field, fields),
+    expression: derivedConfig(field)!.expression
+  }));
+}
+
+/**
+ * SQL replacing the plain columns Prisma migrations create with generated
+ * columns. SQLite can only add VIRTUAL generated columns.
+ */
+export function buildGeneratedColumnsSql(
+  columns: GeneratedColumn[],
+  provider: PrismaDatasource['provider']
+): string {
+  const quote = (name: string) => (provider === 'mysql' ? `\`${name}\`` : `"${name}"`);
+  const storage = provider === 'sqlite' ? 'VIRTUAL' : 'STORED';
+
+  const statements = columns.map(({ source, table, column, sqlType, expression }) =>
+    [
+      `-- ${source}`,
+      `ALTER TABLE ${quote(table)} DROP COLUMN ${quote(column)};`,
+      `ALTER TABLE ${quote(table)} ADD COLUMN ${quote(column)} ${sqlType} GENERATED ALWAYS AS (${expression}) ${storage};`
+    ].join('\n')
+  );
+
+  return [
+    '-- Generated columns of derived fields, written by eav-to-prisma',
+    '-- Add to the migration creating the columns (prisma migrate dev --create-only)',
+    '',
+    statements.join('\n\n'),
+    ''
+  ].join('\n');
+}
+
+/**
+ * Prisma Client extension source adding client derived fields as result fields
+ * Use with prisma.$extends(derivedFields)
+ */
+export function buildDerivedExtension(computed: ComputedField[], clientImport: string): string {
+  const models = new Map<string, ComputedField[]>();
+  for (const field of computed) {
+    models.set(field.model, [...(models.get(field.model) ?? []), field]);
+  }
+
+  const lines = [
+    '// Derived fields computed by Prisma Client, written by eav-to-prisma',
+    `import { Prisma } from '${clientImport}';`,
+    '',
+    'export const derivedFields = Prisma.defineExtension({',
+    "  name: 'derived-fields',",
+    '  result: {'
+  ];
+
+  for (const [model, fields] of models) {
+    lines.push(`    ${toDelegateName(model)}: {`);
+
+    for (const field of fields) {
+      const needs = field.needs.map((key) => `${key}: true`).join(', ');
+      const args = field.needs.length > 0 ? `{ ${field.needs.join(', ')} }` : '';
+
+      lines.push(
+        `      ${field.key}: {`,
+        `        needs: {${needs ? ` ${needs} ` : ''}},`,
+        `        compute: (${args}) => (${field.expression}),`,
+        '      },'
+      );
+    }
+
+    lines.push('    },');
+  }
+
+  lines.push('  },', '});', '');
+
+  return lines.join('\n');
+}
+
+/**
+ * Column type of a generated column: its native type, or the provider's
+ * type for the Prisma type
+ */
+function columnSqlType(field: PrismaField, provider: PrismaDatasource['provider']): string {
+  const nativeType = field.attributes?.find((a) => a.startsWith('@db.'));
+  if (!nativeType) return SQL_TYPES[provider][field.type] ?? field.type;
+
+  const [, name = '', args = ''] = nativeType.match(/^@db\.(\w+)(\(.*\))?$/) ?? [];
+  if (name === 'DoublePrecision') return 'DOUBLE PRECISION';
+
+  const unsigned = name.match(/^Unsigned(\w+)$/);
+  return unsigned
+    ? `${unsigned[1]!.toUpperCase()}${args} UNSIGNED`
+    : `${name.toUpperCase()}${args.replace(/\s+/g, '')}`;
+}
+
+/**
+ * Problem with the fields a derived field needs, undefined when they are
+ * column fields on its own table
+ */
+function checkNeeds(
+  field: FieldDefinitionType,
+  needs: string[],
+  fields: FieldDefinitionType[],
+  config: DerivedMapperConfig
+): string | undefined {
+  for (const key of needs) {
+    const need = fields.find((f) => f.key === key);
+
+    const column =
+      need && (DERIVABLE_TYPES.includes(need.type) || (need.type === 'select' && !isMultiSelect(need)));
+    if (!column) {
+      return `"${key}" is not a column field of the model`;
+    }
+
+    if (isTranslated(need, config) !== isTranslated(field, config)) {
+      return `"${key}" is stored in the ${isTranslated(need, config) ? 'translation' : 'model'} table`;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Stored in the translation table
+ */
+function isTranslated(field: FieldDefinitionType, config: DerivedMapperConfig): boolean {
+  return config.i18nEnabled && separateFields([field]).translatable.length > 0;
+}
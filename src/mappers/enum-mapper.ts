@@ -0,0 +1,125 @@
+// src/mappers/enum-mapper.ts
+
+import type { PrismaDatasource, PrismaEnum, PrismaEnumValue } from '../utils/prisma-ast';
+import type { FieldDefinitionType } from '../field-config-schema';
+import { toPascalCase, toSnakeCase } from '../utils/naming';
+import { isMultiSelect, multiSelectStorage } from './select-mapper';
+
+export interface EnumMapperConfig {
+  convention: 'snake_case' | 'camelCase' | 'PascalCase';
+  provider?: PrismaDatasource['provider'];
+}
+
+const IDENTIFIER = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+/**
+ * Single selects become native enums, SQLite has none and keeps String
+ * Multi-selects use enum lists where they are stored as lists (PostgreSQL)
+ */
+export function usesNativeEnum(
+  field: FieldDefinitionType,
+  config: EnumMapperConfig
+): boolean {
+  if (field.type !== 'select' || field.config?.type !== 'select') {
+    return false;
+  }
+
+  if (isMultiSelect(field)) {
+    return multiSelectStorage(config) === 'list';
+  }
+
+  return (config.provider ?? 'sqlite') !== 'sqlite';
+}
+
+/**
+ * Enum name from the owning model and field: Post + status -> PostStatus
+ */
+export function buildEnumName(
+  modelName: string,
+  fieldKey: string,
+  config: EnumMapperConfig
+): string {
+  if (config.convention === 'snake_case') {
+    return `${toSnakeCase(modelName)}_${fieldKey}`;
+  }
+
+  return `${modelName}${toPascalCase(fieldKey)}`;
+}
+
+/**
+ * Build the enum for a select field, null when it stays a String column
+ */
+export function buildSelectEnum(
+  modelName: string,
+  field: FieldDefinitionType,
+  config: EnumMapperConfig
+): PrismaEnum | null {
+  if (!usesNativeEnum(field, config) || field.config?.type !== 'select') {
+    return null;
+  }
+
+  return {
+    name: buildEnumName(modelName, field.key, config),
+    values: buildEnumValues(optionValues(field)),
+  };
+}
+
+/**
+ * Enums for every native-enum select among a model's fields
+ */
+export function buildSelectEnums(
+  modelName: string,
+  fields: FieldDefinitionType[],
+  config: EnumMapperConfig
+): PrismaEnum[] {
+  return fields
+    .map((field) => buildSelectEnum(modelName, field, config))
+    .filter((e): e is PrismaEnum => e !== null);
+}
+
+/**
+ * Enum value names for option values
+ * Values that are not valid identifiers are renamed and keep a @map
+ */
+export function buildEnumValues(values: string[]): PrismaEnumValue[] {
+  const used = new Set<string>();
+
+  return values.map((value) => {
+    let name = IDENTIFIER.test(value) ? value : toEnumIdentifier(value);
+
+    const base = name;
+    for (let i = 2; used.has(name); i++) {
+      name = `${base}_${i}`;
+    }
+    used.add(name);
+
+    return name === value ? { name } : { name, map: value };
+  });
+}
+
+/**
+ * Enum value name Prisma Client uses for a stored option value
+ */
+export function toEnumValueName(
+  field: FieldDefinitionType,
+  value: string
+): string | undefined {
+  const values = optionValues(field);
+  const index = values.indexOf(value);
+
+  return index === -1 ? undefined : buildEnumValues(values)[index]?.name;
+}
+
+export function optionValues(field: FieldDefinitionType): string[] {
+  if (field.config?.type !== 'select') return [];
+
+  return field.config.options.map((o) => (typeof o === 'string' ? o : o.value));
+}
+
+function toEnumIdentifier(value: string): string {
+  const name = value.replace(/[^A-Za-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+
+  if (!name) return 'value';
+
+  return /^[A-Za-z]/.test(name) ? name : `value_${name}`;
+}
@@ -1,38 +1,71 @@
-import type { PrismaField } from "../utils/prisma-ast";
+import type { PrismaDatasource, PrismaField } from "../utils/prisma-ast";
 import { toPascalCase, toCamelCase } from "../utils/naming";
+import {
+  buildEnumName,
+  optionValues,
+  toEnumValueName,
+  usesNativeEnum,
+} from "./enum-mapper";
+import { toDateDefault, toNumberDefault } from "./default-mapper";
+import { decimalNativeType, numberColumnType } from "./number-mapper";
+import { dateFormat, dateNativeType } from "./date-mapper";
+import { stringNativeType } from "./string-mapper";
+import {
+  buildJsonAnnotations,
+  jsonNativeTypeAttribute,
+  usesJsonType,
+} from "./json-mapper";
+import {
+  buildSelectValueTableName,
+  isMultiSelect,
+  multiSelectStorage,
+} from "./select-mapper";
+import {
+  resolveJunction,
+  resolveTargetModelName,
+  toReferentialAction,
+} from "./relation-mapper";
+import { resolveMediaJunction, type MediaModel } from "./media-mapper";
 import type { FieldDefinitionType } from "../field-config-schema";
 
 export interface FieldMapperConfig {
   convention: "snake_case" | "camelCase" | "PascalCase";
+  prefix?: string;
   externalModelNames?: Set<string>;
+  reversedJunctions?: Set<string>;
+  provider?: PrismaDatasource["provider"];
+  timezone?: boolean;
+  media?: MediaModel;
 }
 
 /**
  * Map EAV field definition to Prisma field(s)
+ * modelName is the owning model, used to name select enums
  */
 export function mapFieldToPrisma(
   field: FieldDefinitionType,
-  config: FieldMapperConfig
+  config: FieldMapperConfig,
+  modelName?: string
 ): PrismaField[] {
   switch (field.type) {
     case "text":
-      return [mapTextField(field)];
+      return [mapTextField(field, config)];
     case "rich":
-      return [mapRichTextField(field)];
+      return [mapRichTextField(field, config)];
     case "number":
-      return [mapNumberField(field)];
+      return [mapNumberField(field, config)];
     case "boolean":
       return [mapBooleanField(field)];
     case "date":
-      return [mapDateField(field)];
+      return [mapDateField(field, config)];
     case "select":
-      return [mapSelectField(field)];
+      return [mapSelectField(field, config, modelName)];
     case "json":
-      return [mapJsonField(field)];
+      return [mapJsonField(field, config)];
     case "media":
-      return mapMediaField(field, config);
+      return mapMediaField(field, config, modelName);
     case "relation":
-      return mapRelationField(field, config);
+      return mapRelationField(field, config, modelName);
     case "component":
       return mapComponentField(field, config);
     default:
@@ -40,37 +73,50 @@ export function mapFieldToPrisma(
   }
 }
 
-function mapTextField(field: FieldDefinitionType): PrismaField {
+function mapTextField(
+  field: FieldDefinitionType,
+  mapperConfig: FieldMapperConfig
+): PrismaField {
+  const config = field.config;
+  const nativeType = stringNativeType(field, mapperConfig);
+
   return {
     name: field.key,
     type: "String",
     optional: !field.required,
+    default: config?.type === "text" ? config.default : undefined,
+    attributes: nativeType ? [nativeType] : undefined,
     validation: field.validation,
   };
 }
 
-function mapRichTextField(field: FieldDefinitionType): PrismaField {
+function mapRichTextField(
+  field: FieldDefinitionType,
+  mapperConfig: FieldMapperConfig
+): PrismaField {
+  const nativeType = stringNativeType(field, mapperConfig);
+
   return {
     name: field.key,
     type: "String",
     optional: !field.required,
+    attributes: nativeType ? [nativeType] : undefined,
     validation: field.validation,
   };
 }
 
-function mapNumberField(field: FieldDefinitionType): PrismaField {
-  const config = field.config;
-  let type = "Float";
-
-  if (config?.type === "number" && config.format === "integer") {
-    type = "Int";
-  }
+function mapNumberField(
+  field: FieldDefinitionType,
+  mapperConfig: FieldMapperConfig
+): PrismaField {
+  const nativeType = decimalNativeType(field, mapperConfig);
 
   return {
     name: field.key,
-    type,
+    type: numberColumnType(field),
     optional: !field.required,
-    default: config?.type === "number" ? config.default : undefined,
+    default: toNumberDefault(field),
+    attributes: nativeType ? [nativeType] : undefined,
     validation: field.validation,
   };
 }
@@ -87,19 +133,38 @@ function mapBooleanField(field: FieldDefinitionType): PrismaField {
   };
 }
 
-function mapDateField(field: FieldDefinitionType): PrismaField {
+function mapDateField(
+  field: FieldDefinitionType,
+  mapperConfig: FieldMapperConfig
+): PrismaField {
+  const config = field.config;
+  const nativeType = dateNativeType(field, mapperConfig);
+
   return {
     name: field.key,
     type: "DateTime",
     optional: !field.required,
+    default:
+      config?.type === "date" && config.default !== undefined
+        ? toDateDefault(config.default, dateFormat(field))
+        : undefined,
+    attributes: nativeType ? [nativeType] : undefined,
     validation: field.validation,
   };
 }
 
-function mapSelectField(field: FieldDefinitionType): PrismaField {
-  const config = field.config;
+function mapSelectField(
+  field: FieldDefinitionType,
+  config: FieldMapperConfig,
+  modelName?: string
+): PrismaField {
+  const selectConfig = field.config;
+
+  if (modelName && isMultiSelect(field)) {
+    return mapMultiSelectField(field, config, modelName);
+  }
 
-  if (config?.type === "select" && config.multiple) {
+  if (selectConfig?.type === "select" && selectConfig.multiple) {
     return {
       name: field.key,
       type: "String",
@@ -108,45 +173,116 @@ function mapSelectField(field: FieldDefinitionType): PrismaField {
     };
   }
 
+  const defaultValue =
+    selectConfig?.type === "select" &&
+    typeof selectConfig.default === "string" &&
+    optionValues(field).includes(selectConfig.default)
+      ? selectConfig.default
+      : undefined;
+
+  if (modelName && usesNativeEnum(field, config)) {
+    return {
+      name: field.key,
+      type: buildEnumName(modelName, field.key, config),
+      optional: !field.required,
+      default:
+        defaultValue !== undefined
+          ? toEnumValueName(field, defaultValue)
+          : undefined,
+      validation: field.validation,
+    };
+  }
+
   return {
     name: field.key,
     type: "String",
     optional: !field.required,
+    default: defaultValue,
     validation: field.validation,
   };
 }
 
-function mapJsonField(field: FieldDefinitionType): PrismaField {
+/**
+ * Multi-select storage follows the provider: enum list, Json or value table
+ */
+function mapMultiSelectField(
+  field: FieldDefinitionType,
+  config: FieldMapperConfig,
+  modelName: string
+): PrismaField {
+  switch (multiSelectStorage(config)) {
+    case "list": {
+      const defaults =
+        field.config?.type === "select" && Array.isArray(field.config.default)
+          ? field.config.default.map((v) => toEnumValueName(field, v))
+          : [];
+
+      return {
+        name: field.key,
+        type: buildEnumName(modelName, field.key, config),
+        list: true,
+        default:
+          defaults.length > 0 && defaults.every(Boolean)
+            ? (defaults as string[])
+            : undefined,
+        validation: field.validation,
+      };
+    }
+
+    case "json":
+      return {
+        name: field.key,
+        type: "Json",
+        optional: !field.required,
+        validation: field.validation,
+      };
+
+    case "table":
+      return {
+        name: field.key,
+        type: buildSelectValueTableName(modelName, field.key, config),
+        list: true,
+        optional: true,
+        validation: field.validation,
+      };
+  }
+}
+
+/**
+ * A JSON Schema replaces the validation rules as the column's zod annotation
+ */
+function mapJsonField(
+  field: FieldDefinitionType,
+  config: FieldMapperConfig
+): PrismaField {
+  const nativeType = jsonNativeTypeAttribute(field, config);
+  const documentation = buildJsonAnnotations(field);
+
   return {
     name: field.key,
-    type: "String",
+    type: usesJsonType(config) ? "Json" : "String",
     optional: !field.required,
-    validation: field.validation,
+    attributes: nativeType ? [nativeType] : undefined,
+    validation: documentation.length > 0 ? undefined : field.validation,
+    documentation:
+      documentation.length > 0 ? documentation.join("\n") : undefined,
   };
 }
 
+/**
+ * Single media relates to the media model through `${key}_id`, multiple
+ * media lists the rows of its junction table. Without a media model the id
+ * is stored as a plain String column.
+ */
 function mapMediaField(
   field: FieldDefinitionType,
-  config: FieldMapperConfig
+  config: FieldMapperConfig,
+  modelName?: string
 ): PrismaField[] {
   const fieldConfig = field.config;
-  const externalModels = config.externalModelNames || new Set();
-  const hasMediaModel = externalModels.has("Media");
-
-  if (fieldConfig?.type === "media" && fieldConfig.multiple) {
-    if (hasMediaModel) {
-      return [
-        {
-          name: field.key,
-          type: "Media",
-          list: true,
-          optional: true,
-        },
-      ];
-    }
-  }
+  const media = config.media;
 
-  if (hasMediaModel) {
+  if (!media) {
     return [
       {
         name: `${field.key}_id`,
@@ -156,43 +292,75 @@ function mapMediaField(
     ];
   }
 
+  if (fieldConfig?.type === "media" && fieldConfig.multiple) {
+    return [
+      {
+        name: field.key,
+        type: modelName
+          ? resolveMediaJunction(modelName, field.key, config).tableName
+          : media.name,
+        list: true,
+        optional: true,
+      },
+    ];
+  }
+
   return [
     {
       name: `${field.key}_id`,
-      type: "String",
+      type: media.keyType,
+      optional: !field.required,
+      attributes: media.keyAttributes,
+    },
+    {
+      name: field.key,
+      type: media.name,
       optional: !field.required,
+      relation: {
+        fields: [`${field.key}_id`],
+        references: [media.primaryKey],
+        onDelete: field.required ? "Restrict" : "SetNull",
+      },
     },
   ];
 }
 
+/**
+ * To-one relations own the FK; list relations get their opposite side from
+ * the relation resolver
+ */
 function mapRelationField(
   field: FieldDefinitionType,
-  config: FieldMapperConfig
+  config: FieldMapperConfig,
+  modelName?: string
 ): PrismaField[] {
   if (field.config?.type !== "relation") {
     throw new Error("Invalid relation field");
   }
 
   const relationConfig = field.config;
-  const targetModel = toModelName(relationConfig.targetModel, config);
+  const targetModel = resolveTargetModelName(relationConfig.targetModel, config);
 
   switch (relationConfig.relationType) {
     case "oneToOne":
+    case "manyToOne":
       return [
         {
           name: `${field.key}_id`,
           type: "String",
           optional: !field.required,
-          attributes: ["@unique"],
+          attributes:
+            relationConfig.relationType === "oneToOne" ? ["@unique"] : undefined,
         },
-      ];
-
-    case "manyToOne":
-      return [
         {
-          name: `${field.key}_id`,
-          type: "String",
+          name: field.key,
+          type: targetModel,
           optional: !field.required,
+          relation: {
+            fields: [`${field.key}_id`],
+            references: ["id"],
+            onDelete: toReferentialAction(relationConfig.cascade, field.required),
+          },
         },
       ];
 
@@ -203,6 +371,7 @@ function mapRelationField(
           type: targetModel,
           list: true,
           optional: true,
+          inverse: { onDelete: toReferentialAction(relationConfig.cascade) },
         },
       ];
 
@@ -210,7 +379,9 @@ function mapRelationField(
       return [
         {
           name: field.key,
-          type: targetModel,
+          type: modelName
+            ? resolveJunction(modelName, field, config).tableName
+            : targetModel,
           list: true,
           optional: true,
         },
@@ -230,9 +401,9 @@ function mapComponentField(
   }
 
   const componentConfig = field.config;
-  const componentModel = toModelName(componentConfig.slug, config);
+  const componentModel = toModelName(componentConfig.slug ?? field.key, config);
 
-  if (componentConfig.repeatable) {
+  if (componentConfig.repeatable || componentConfig.components) {
     return [
       {
         name: field.key,
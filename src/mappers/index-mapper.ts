@@ -0,0 +1,237 @@
+// src/mappers/index-mapper.ts
+
+import type {
+  PrismaDatasource,
+  PrismaIndex,
+  PrismaModel,
+} from '../utils/prisma-ast';
+import type {
+  FieldDefinitionType,
+  ModelConfigType,
+  ModelIndexType,
+} from '../field-config-schema';
+import { toSnakeCase } from '../utils/naming';
+import { separateFields } from '../core/schema-builder';
+import { isMultiSelect, multiSelectStorage } from './select-mapper';
+import type { MediaModel } from './media-mapper';
+
+export interface IndexMapperConfig {
+  convention: 'snake_case' | 'camelCase' | 'PascalCase';
+  i18nEnabled: boolean;
+  provider?: PrismaDatasource['provider'];
+  media?: MediaModel;
+}
+
+type IndexTable = 'model' | 'translation';
+
+type ResolvedIndex =
+  | { table: IndexTable; fields: string[] }
+  | { problem: string };
+
+const SYSTEM_COLUMNS = ['id', 'created_at', 'updated_at'];
+
+/**
+ * Column a field is indexed on, undefined when it has none on its table
+ * (list relations, components, multi-media and value table multi-selects)
+ */
+export function indexColumn(
+  field: FieldDefinitionType,
+  config: IndexMapperConfig
+): string | undefined {
+  const fieldConfig = field.config;
+
+  switch (field.type) {
+    case 'component':
+      return undefined;
+
+    case 'relation':
+      return fieldConfig?.type === 'relation' &&
+        (fieldConfig.relationType === 'oneToOne' ||
+          fieldConfig.relationType === 'manyToOne')
+        ? `${field.key}_id`
+        : undefined;
+
+    case 'media':
+      return fieldConfig?.type === 'media' &&
+        fieldConfig.multiple &&
+        config.media
+        ? undefined
+        : `${field.key}_id`;
+
+    case 'select':
+      return isMultiSelect(field) && multiSelectStorage(config) === 'table'
+        ? undefined
+        : field.key;
+
+    default:
+      return field.key;
+  }
+}
+
+/**
+ * Field unique/indexed flags and settings.indexes/unique on a model's table
+ * and its translation table (mutates them)
+ *
+ * Unique translatable fields are unique per record and language:
+ * @@unique([post_id, lang, slug]) on the translation table
+ */
+export function applyModelIndexes(
+  model: ModelConfigType,
+  main: PrismaModel,
+  translation: PrismaModel | undefined,
+  config: IndexMapperConfig
+): void {
+  const tables = { model: main, translation };
+  const translationFk = `${toSnakeCase(main.name)}_id`;
+
+  for (const field of model.fields) {
+    const column = indexColumn(field, config);
+    if (!column) continue;
+
+    const table = isTranslated(field, config) ? translation : main;
+    if (!table) continue;
+
+    if (field.unique) {
+      if (table === translation) {
+        addIndex(table, 'unique', [translationFk, 'lang', column]);
+      } else {
+        const prismaField = table.fields.find((f) => f.name === column);
+        if (prismaField && !prismaField.attributes?.includes('@unique')) {
+          prismaField.attributes = [...(prismaField.attributes ?? []), '@unique'];
+        }
+      }
+    }
+
+    if (field.indexed) {
+      addIndex(table, 'indexes', [column]);
+    }
+  }
+
+  for (const [kind, definitions] of [
+    ['indexes', model.settings?.indexes],
+    ['unique', model.settings?.unique],
+  ] as const) {
+    for (const definition of definitions ?? []) {
+      const resolved = resolveIndex(definition, model, config);
+      if ('problem' in resolved) continue;
+
+      const table = tables[resolved.table];
+      if (table) addIndex(table, kind, toPrismaIndex(resolved.fields, definition, config));
+    }
+  }
+}
+
+/**
+ * Index definitions of a model that are not written, for warnings
+ */
+export function checkModelIndexes(
+  model: ModelConfigType,
+  config: IndexMapperConfig
+): string[] {
+  const problems: string[] = [];
+
+  for (const field of model.fields) {
+    if ((field.unique || field.indexed) && !indexColumn(field, config)) {
+      problems.push(
+        `Index on field "${field.key}" in model "${model.slug}" is not written: the field has no column on the model`
+      );
+    }
+  }
+
+  for (const kind of ['indexes', 'unique'] as const) {
+    model.settings?.[kind]?.forEach((definition: ModelIndexType, i: number) => {
+      const resolved = resolveIndex(definition, model, config);
+      const where = `Index settings.${kind}[${i}] of model "${model.slug}"`;
+
+      if ('problem' in resolved) {
+        problems.push(`${where} is not written: ${resolved.problem}`);
+      } else if (definition.type && config.provider !== 'postgresql') {
+        problems.push(`${where} is written without type ${definition.type}: index types are PostgreSQL only`);
+      }
+    });
+  }
+
+  return problems;
+}
+
+/**
+ * Columns of an index definition, all on the model table or all on the
+ * translation table: field keys, id/created_at/updated_at and lang
+ */
+function resolveIndex(
+  definition: ModelIndexType,
+  model: ModelConfigType,
+  config: IndexMapperConfig
+): ResolvedIndex {
+  const tables = new Set<IndexTable>();
+  const fields: string[] = [];
+  const hasTranslation =
+    config.i18nEnabled && model.fields.some((f) => isTranslated(f, config));
+
+  for (const entry of definition.fields) {
+    const key = typeof entry === 'string' ? entry : entry.field;
+    const sort = typeof entry === 'string' ? undefined : entry.sort;
+    const field = model.fields.find((f) => f.key === key);
+    let column: string | undefined;
+
+    if (field) {
+      column = indexColumn(field, config);
+      if (!column) return { problem: `field "${key}" has no column on the model` };
+      tables.add(isTranslated(field, config) ? 'translation' : 'model');
+    } else if (SYSTEM_COLUMNS.includes(key)) {
+      column = key;
+      tables.add('model');
+    } else if (key === 'lang' && hasTranslation) {
+      column = key;
+      tables.add('translation');
+    } else {
+      return { problem: `"${key}" is not a field` };
+    }
+
+    fields.push(sort ? `${column}(sort: ${sort === 'desc' ? 'Desc' : 'Asc'})` : column);
+  }
+
+  if (tables.size > 1) {
+    return { problem: 'translatable fields are stored in the translation table, other fields on the model' };
+  }
+
+  return { table: [...tables][0]!, fields };
+}
+
+function toPrismaIndex(
+  fields: string[],
+  definition: ModelIndexType,
+  config: IndexMapperConfig
+): PrismaIndex {
+  const type = config.provider === 'postgresql' ? definition.type : undefined;
+  if (definition.name === undefined && type === undefined) return fields;
+
+  return {
+    fields,
+    ...(definition.name !== undefined && { map: definition.name }),
+    ...(type !== undefined && { type }),
+  };
+}
+
+/**
+ * Add an index unless the table already has one on the same columns
+ */
+function addIndex(
+  table: PrismaModel,
+  kind: 'indexes' | 'unique',
+  index: PrismaIndex
+): void {
+  const key = (i: PrismaIndex) => (Array.isArray(i) ? i : i.fields).join(',');
+  const existing = table[kind] ?? [];
+
+  if (!existing.some((i) => key(i) === key(index))) {
+    table[kind] = [...existing, index];
+  }
+}
+
+/**
+ * Stored in the translation table
+ */
+function isTranslated(field: FieldDefinitionType, config: IndexMapperConfig): boolean {
+  return config.i18nEnabled && separateFields([field]).translatable.length > 0;
+}
@@ -0,0 +1,47 @@
+// src/mappers/json-mapper.ts
+
+import type { PrismaDatasource } from '../utils/prisma-ast';
+import type { FieldDefinitionType } from '../field-config-schema';
+import { jsonSchemaToTs, jsonSchemaToZod, type JsonSchema } from '../utils/json-schema';
+
+export interface JsonMapperConfig {
+  provider?: PrismaDatasource['provider'];
+}
+
+/**
+ * Json columns on PostgreSQL and MySQL, SQLite keeps serialized String
+ */
+export function usesJsonType(config: JsonMapperConfig): boolean {
+  return (config.provider ?? 'sqlite') !== 'sqlite';
+}
+
+/**
+ * @db attribute for the configured native type, PostgreSQL only
+ */
+export function jsonNativeTypeAttribute(
+  field: FieldDefinitionType,
+  config: JsonMapperConfig
+): string | undefined {
+  if (config.provider !== 'postgresql' || field.config?.type !== 'json') {
+    return undefined;
+  }
+
+  return field.config.nativeType ? `@db.${field.config.nativeType}` : undefined;
+}
+
+/**
+ * Column annotations from the field's JSON Schema:
+ * zod-prisma-types (@zod.custom.use) and prisma-json-types-generator (![type])
+ */
+export function buildJsonAnnotations(field: FieldDefinitionType): string[] {
+  if (field.config?.type !== 'json' || !field.config.schema) {
+    return [];
+  }
+
+  const schema = field.config.schema as JsonSchema;
+
+  return [
+    `@zod.custom.use(${jsonSchemaToZod(schema)})`,
+    `![${jsonSchemaToTs(schema)}]`
+  ];
+}
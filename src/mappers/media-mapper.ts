@@ -0,0 +1,228 @@
+// src/mappers/media-mapper.ts
+
+import type { PrismaField, PrismaModel } from '../utils/prisma-ast';
+import type { FieldDefinitionType } from '../field-config-schema';
+import { toSnakeCase, toPascalCase } from '../utils/naming';
+
+/**
+ * The external model media fields relate to
+ */
+export interface MediaModel {
+  name: string;
+  primaryKey: string;
+  keyType: string; // Type of the primary key, copied to the FK columns
+  keyAttributes?: string[]; // Its @db native type
+}
+
+export interface MediaMapperConfig {
+  convention: 'snake_case' | 'camelCase' | 'PascalCase';
+  media?: MediaModel;
+}
+
+export interface MediaJunctionNames {
+  tableName: string;
+  ownerFk: string;
+  ownerRelation: string;
+  mediaFk: string;
+  mediaRelation: string;
+}
+
+// Per-usage metadata columns of a media junction row
+const CROP_COLUMNS = ['crop_x', 'crop_y', 'crop_width', 'crop_height'] as const;
+const FOCAL_COLUMNS = ['focal_x', 'focal_y'] as const;
+export const MEDIA_USAGE_COLUMNS = ['alt', ...CROP_COLUMNS, ...FOCAL_COLUMNS] as const;
+
+/**
+ * Find the media model among the external models, undefined when it is not
+ * there. The primary key defaults to the model's @id field, then `id`.
+ */
+export function resolveMediaModel(
+  externalModels: PrismaModel[],
+  options: { model?: string; primaryKey?: string } = {}
+): MediaModel | undefined {
+  const name = options.model ?? 'Media';
+  const model = externalModels.find((m) => m.name === name);
+  if (!model) return undefined;
+
+  const primaryKey =
+    options.primaryKey ??
+    model.fields.find((f) => f.attributes?.includes('@id'))?.name ??
+    'id';
+  const key = model.fields.find((f) => f.name === primaryKey);
+
+  if (!key) {
+    throw new Error(`Media primary key "${primaryKey}" is not a field of model "${name}"`);
+  }
+
+  const keyAttributes = key.attributes?.filter((a) => a.startsWith('@db.'));
+
+  return {
+    name,
+    primaryKey,
+    keyType: key.type,
+    ...(keyAttributes?.length && { keyAttributes }),
+  };
+}
+
+/**
+ * Multiple media fields are stored in a junction table when there is a media model
+ */
+export function needsMediaJunction(
+  field: FieldDefinitionType,
+  config: MediaMapperConfig
+): boolean {
+  return field.config?.type === 'media' && Boolean(field.config.multiple) && Boolean(config.media);
+}
+
+/**
+ * Table, FK and relation field names of a media junction table
+ * Example: Post.gallery -> PostGalleryMedia with post_id and media_id
+ */
+export function resolveMediaJunction(
+  ownerModel: string,
+  fieldKey: string,
+  config: MediaMapperConfig
+): MediaJunctionNames {
+  const ownerRelation = toSnakeCase(ownerModel);
+
+  return {
+    tableName:
+      config.convention === 'snake_case'
+        ? `${ownerRelation}_${toSnakeCase(fieldKey)}_media`
+        : `${ownerModel}${toPascalCase(fieldKey)}Media`,
+    ownerFk: `${ownerRelation}_id`,
+    ownerRelation,
+    mediaFk: 'media_id',
+    mediaRelation: 'media',
+  };
+}
+
+/**
+ * Junction table for a multiple media field: one ordered row per usage,
+ * with an alt text override, crop rectangle and focal point
+ */
+export function buildMediaJunctionTable(
+  ownerModel: string,
+  field: FieldDefinitionType,
+  config: MediaMapperConfig
+): PrismaModel {
+  const media = config.media;
+  if (!media) {
+    throw new Error(`Multiple media field "${field.key}" requires a media model`);
+  }
+
+  const { tableName, ownerFk, ownerRelation, mediaFk, mediaRelation } =
+    resolveMediaJunction(ownerModel, field.key, config);
+  const fraction = (name: string): PrismaField => ({ name, type: 'Float', optional: true });
+
+  return {
+    name: tableName,
+    fields: [
+      {
+        name: 'id',
+        type: 'String',
+        attributes: ['@id', '@default(cuid())']
+      },
+      {
+        name: ownerFk,
+        type: 'String'
+      },
+      {
+        name: mediaFk,
+        type: media.keyType,
+        attributes: media.keyAttributes
+      },
+      {
+        name: 'order',
+        type: 'Int',
+        default: 0
+      },
+      {
+        name: 'alt',
+        type: 'String',
+        optional: true
+      },
+      ...CROP_COLUMNS.map(fraction),
+      ...FOCAL_COLUMNS.map(fraction),
+      {
+        name: 'created_at',
+        type: 'DateTime',
+        attributes: ['@default(now())']
+      },
+      {
+        name: ownerRelation,
+        type: ownerModel,
+        relation: {
+          fields: [ownerFk],
+          references: ['id'],
+          onDelete: 'Cascade'
+        }
+      },
+      {
+        name: mediaRelation,
+        type: media.name,
+        relation: {
+          fields: [mediaFk],
+          references: [media.primaryKey],
+          onDelete: 'Cascade'
+        }
+      }
+    ],
+    indexes: [[ownerFk, 'order'], [mediaFk]]
+  };
+}
+
+/**
+ * Media model key for a stored id: Int and BigInt keys take numbers
+ */
+export function toMediaKey(id: string, media: MediaModel | undefined): string | number | bigint {
+  if (media?.keyType === 'Int' && /^-?\d+$/.test(id)) return Number(id);
+  if (media?.keyType === 'BigInt' && /^-?\d+$/.test(id)) return BigInt(id);
+  return id;
+}
+
+/**
+ * Junction row columns for each item of a multiple media value, in order
+ *
+ * Items are ids or objects with an `id` and optional usage metadata:
+ * { id, alt, crop: { x, y, width, height }, focal: { x, y } }
+ */
+export function mapMediaUsages(
+  field: FieldDefinitionType,
+  value: unknown,
+  media: MediaModel
+): Array<Record<string, unknown>> {
+  if (value === undefined || value === null) return [];
+
+  const items = Array.isArray(value) ? value : [value];
+
+  return items.map((item, order) => {
+    if (typeof item === 'string' || typeof item === 'number') {
+      return { media_id: toMediaKey(String(item), media), order };
+    }
+
+    if (!item || typeof item !== 'object' || !('id' in item)) {
+      throw new Error(`Cannot read media id from ${JSON.stringify(item)} for field "${field.key}"`);
+    }
+
+    const usage = item as { id: unknown; alt?: unknown; crop?: any; focal?: any };
+    const row: Record<string, unknown> = {
+      media_id: toMediaKey(String(usage.id), media),
+      order
+    };
+
+    if (typeof usage.alt === 'string') row.alt = usage.alt;
+
+    CROP_COLUMNS.forEach((column) => {
+      const part = usage.crop?.[column.slice('crop_'.length)];
+      if (typeof part === 'number') row[column] = part;
+    });
+
+    FOCAL_COLUMNS.forEach((column) => {
+      const part = usage.focal?.[column.slice('focal_'.length)];
+      if (typeof part === 'number') row[column] = part;
+    });
+
+    return row;
+  });
+}
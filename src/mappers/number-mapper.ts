@@ -0,0 +1,69 @@
+// src/mappers/number-mapper.ts
+
+import type { PrismaDatasource } from '../utils/prisma-ast';
+import type { FieldDefinitionType } from '../field-config-schema';
+
+export interface NumberMapperConfig {
+  provider?: PrismaDatasource['provider'];
+}
+
+export type NumberColumnType = 'Int' | 'BigInt' | 'Decimal' | 'Float';
+
+export const DEFAULT_DECIMAL_PRECISION = 10;
+export const DEFAULT_DECIMAL_SCALE = 2;
+
+/**
+ * Column type for a number format:
+ * integer -> Int, bigint -> BigInt, currency -> Decimal, others -> Float
+ */
+export function numberColumnType(field: FieldDefinitionType): NumberColumnType {
+  const format = field.config?.type === 'number' ? field.config.format : undefined;
+
+  switch (format) {
+    case 'integer':
+      return 'Int';
+    case 'bigint':
+      return 'BigInt';
+    case 'currency':
+      return 'Decimal';
+    default:
+      return 'Float';
+  }
+}
+
+/**
+ * Digits after the decimal point: config.scale, else the decimals of
+ * config.step (0.01 -> 2), else 2
+ */
+export function decimalScale(field: FieldDefinitionType): number {
+  const config = field.config?.type === 'number' ? field.config : undefined;
+
+  if (config?.scale !== undefined) return config.scale;
+  if (config?.step !== undefined) return stepDecimals(config.step);
+
+  return DEFAULT_DECIMAL_SCALE;
+}
+
+/**
+ * @db.Decimal(p, s) for currency fields, SQLite has no native types
+ */
+export function decimalNativeType(
+  field: FieldDefinitionType,
+  config: NumberMapperConfig
+): string | undefined {
+  if (numberColumnType(field) !== 'Decimal' || (config.provider ?? 'sqlite') === 'sqlite') {
+    return undefined;
+  }
+
+  const scale = decimalScale(field);
+  const precision = field.config?.type === 'number' ? field.config.precision : undefined;
+
+  return `@db.Decimal(${Math.max(precision ?? DEFAULT_DECIMAL_PRECISION, scale)}, ${scale})`;
+}
+
+function stepDecimals(step: number): number {
+  const [mantissa = '', exponent] = String(step).split('e-');
+  const decimals = mantissa.split('.')[1]?.length ?? 0;
+
+  return exponent ? decimals + Number(exponent) : decimals;
+}
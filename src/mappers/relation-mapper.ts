@@ -1,9 +1,9 @@
 // src/mappers/relation-mapper.ts
 
-import type { PrismaModel } from '../utils/prisma-ast';
-import type { FieldDefinitionType } from '../field-config-schema';
+import type { PrismaModel, PrismaReferentialAction } from '../utils/prisma-ast';
+import type { FieldDefinitionType, ModelConfigType } from '../field-config-schema';
 import type { SchemaBuilderConfig } from '../core/schema-builder';
-import { toSnakeCase, toPascalCase } from '../utils/naming';
+import { toSnakeCase, toPascalCase, toModelName } from '../utils/naming';
 
 /**
  * Check if a relation field needs an explicit junction table
@@ -34,11 +34,8 @@ export function buildJunctionTable(
   }
   
   const relationConfig = field.config;
-  const toModel = toPascalCase(relationConfig.targetModel);
-  
-  const tableName = buildJunctionTableName(fromModel, toModel, config);
-  const fromFk = `${toSnakeCase(fromModel)}_id`;
-  const toFk = `${toSnakeCase(toModel)}_id`;
+  const { tableName, toModel, fromFk, toFk, fromRelation, toRelation } =
+    resolveJunction(fromModel, field, config);
   
   return {
     name: tableName,
@@ -68,7 +65,7 @@ export function buildJunctionTable(
       },
       // Relation to from model
       {
-        name: toSnakeCase(fromModel),
+        name: fromRelation,
         type: fromModel,
         relation: {
           fields: [fromFk],
@@ -78,7 +75,7 @@ export function buildJunctionTable(
       },
       // Relation to target model
       {
-        name: toSnakeCase(toModel),
+        name: toRelation,
         type: toModel,
         relation: {
           fields: [toFk],
@@ -92,10 +89,127 @@ export function buildJunctionTable(
   };
 }
 
+export interface JunctionNames {
+  tableName: string;
+  toModel: string;
+  fromFk: string;
+  toFk: string;
+  fromRelation: string;
+  toRelation: string;
+}
+
+/**
+ * Table, FK and relation field names of a many-to-many junction table
+ * Self relations (Post <-> Post) prefix the target side with `related_`,
+ * reversed pairs use the table named from the other side
+ */
+export function resolveJunction(
+  fromModel: string,
+  field: FieldDefinitionType,
+  config: RelationNamingConfig
+): JunctionNames {
+  if (field.config?.type !== 'relation') {
+    throw new Error('Field must be a relation');
+  }
+
+  const toModel = resolveTargetModelName(field.config.targetModel, config);
+  const fromRelation = toSnakeCase(fromModel);
+  const toRelation = toModel === fromModel
+    ? `related_${toSnakeCase(toModel)}`
+    : toSnakeCase(toModel);
+
+  const reversed = config.reversedJunctions?.has(`${fromModel}|${toModel}`);
+
+  return {
+    tableName: reversed
+      ? buildJunctionTableName(toModel, fromModel, config)
+      : buildJunctionTableName(fromModel, toModel, config),
+    toModel,
+    fromFk: `${fromRelation}_id`,
+    toFk: `${toRelation}_id`,
+    fromRelation,
+    toRelation
+  };
+}
+
+export interface RelationNamingConfig {
+  convention: 'snake_case' | 'camelCase' | 'PascalCase';
+  prefix?: string;
+  externalModelNames?: Set<string>;
+  reversedJunctions?: Set<string>; // `Tag|Post`: Tag's side uses the PostTag junction table
+}
+
+/**
+ * Model pairs whose junction table is named from the other side
+ *
+ * A many-to-many relation declared on both models (post.tags <-> tag.posts)
+ * shares one junction table, named from the model declared first.
+ */
+export function findReversedJunctions(
+  models: ModelConfigType[],
+  config: RelationNamingConfig
+): Set<string> {
+  const named = new Set<string>();
+  const reversed = new Set<string>();
+
+  for (const model of models) {
+    const fromModel = toModelName(model.slug, config);
+
+    for (const field of model.fields) {
+      if (!needsJunctionTable(field) || field.config?.type !== 'relation') continue;
+
+      const toModel = resolveTargetModelName(field.config.targetModel, config);
+      if (toModel === fromModel) continue;
+
+      if (named.has(`${toModel}|${fromModel}`)) {
+        reversed.add(`${fromModel}|${toModel}`);
+      } else {
+        named.add(`${fromModel}|${toModel}`);
+      }
+    }
+  }
+
+  return reversed;
+}
+
+/**
+ * Model name for a relation target slug
+ * External models keep their own name, generated ones get the naming prefix
+ */
+export function resolveTargetModelName(
+  slug: string,
+  config: RelationNamingConfig
+): string {
+  const name = toPascalCase(slug);
+
+  if (config.externalModelNames?.has(name)) {
+    return name;
+  }
+
+  return toModelName(slug, config);
+}
+
+/**
+ * onDelete of an FK; a required FK cannot be set to null and restricts
+ */
+export function toReferentialAction(
+  cascade: 'restrict' | 'cascade' | 'setNull' | undefined,
+  required = false
+): PrismaReferentialAction {
+  switch (cascade) {
+    case 'cascade':
+      return 'Cascade';
+    case 'setNull':
+      return required ? 'Restrict' : 'SetNull';
+    default:
+      return 'Restrict';
+  }
+}
+
 export function buildJunctionTableName(
   fromModel: string,
   toModel: string,
-  config: SchemaBuilderConfig
+  config: RelationNamingConfig
 ): string {
   if (config.convention === 'snake_case') {
     return `${toSnakeCase(fromModel)}_${toSnakeCase(toModel)}`;
@@ -0,0 +1,120 @@
+// src/mappers/select-mapper.ts
+
+import type { PrismaDatasource, PrismaModel } from '../utils/prisma-ast';
+import type { FieldDefinitionType } from '../field-config-schema';
+import { toPascalCase, toSnakeCase } from '../utils/naming';
+
+export interface SelectMapperConfig {
+  convention: 'snake_case' | 'camelCase' | 'PascalCase';
+  provider?: PrismaDatasource['provider'];
+}
+
+/**
+ * How a multi-select is stored for the datasource provider:
+ * - list: enum list column (PostgreSQL)
+ * - json: Json array column (MySQL)
+ * - table: child table with one row per value (SQLite)
+ */
+export type MultiSelectStorage = 'list' | 'json' | 'table';
+
+export function isMultiSelect(field: FieldDefinitionType): boolean {
+  return (
+    field.type === 'select' &&
+    field.config?.type === 'select' &&
+    Boolean(field.config.multiple)
+  );
+}
+
+export function multiSelectStorage(config: SelectMapperConfig): MultiSelectStorage {
+  switch (config.provider ?? 'sqlite') {
+    case 'postgresql':
+      return 'list';
+    case 'mysql':
+      return 'json';
+    default:
+      return 'table';
+  }
+}
+
+/**
+ * Value table name: Post + tags -> PostTagsValue
+ */
+export function buildSelectValueTableName(
+  modelName: string,
+  fieldKey: string,
+  config: SelectMapperConfig
+): string {
+  if (config.convention === 'snake_case') {
+    return `${toSnakeCase(modelName)}_${fieldKey}_value`;
+  }
+
+  return `${modelName}${toPascalCase(fieldKey)}Value`;
+}
+
+/**
+ * Child table holding one row per selected value
+ *
+ * modelName names the table (the base model for translation tables),
+ * ownerModel is the table the rows belong to.
+ */
+export function buildSelectValueTable(
+  modelName: string,
+  field: FieldDefinitionType,
+  config: SelectMapperConfig,
+  ownerModel: string = modelName
+): PrismaModel {
+  const ownerFk = `${toSnakeCase(ownerModel)}_id`;
+
+  return {
+    name: buildSelectValueTableName(modelName, field.key, config),
+    fields: [
+      {
+        name: 'id',
+        type: 'String',
+        attributes: ['@id', '@default(cuid())']
+      },
+      {
+        name: ownerFk,
+        type: 'String'
+      },
+      {
+        name: 'value',
+        type: 'String'
+      },
+      {
+        name: 'order',
+        type: 'Int',
+        attributes: ['@default(0)']
+      },
+      {
+        name: toSnakeCase(ownerModel),
+        type: ownerModel,
+        relation: {
+          fields: [ownerFk],
+          references: ['id'],
+          onDelete: 'Cascade'
+        }
+      }
+    ],
+    unique: [[ownerFk, 'value']]
+  };
+}
+
+/**
+ * Value tables for the multi-selects stored on a table, empty unless the
+ * provider stores them as child tables
+ */
+export function buildSelectValueTables(
+  modelName: string,
+  fields: FieldDefinitionType[],
+  config: SelectMapperConfig,
+  ownerModel: string = modelName
+): PrismaModel[] {
+  if (multiSelectStorage(config) !== 'table') {
+    return [];
+  }
+
+  return fields
+    .filter(isMultiSelect)
+    .map((field) => buildSelectValueTable(modelName, field, config, ownerModel));
+}
@@ -0,0 +1,67 @@
+// src/mappers/string-mapper.ts
+
+import type { PrismaDatasource } from '../utils/prisma-ast';
+import type { FieldDefinitionType } from '../field-config-schema';
+
+export interface StringMapperConfig {
+  provider?: PrismaDatasource['provider'];
+}
+
+// Longest VARCHAR per provider: MySQL rows hold 65,535 bytes, 4 per utf8mb4 character
+const VARCHAR_LIMIT = { postgresql: 10_485_760, mysql: 16_383 } as const;
+
+// MySQL text types by the characters they hold in utf8mb4
+const MYSQL_TEXT_TYPES = [
+  [16_383, '@db.Text'],
+  [4_194_303, '@db.MediumText'],
+] as const;
+
+/**
+ * Storage hint for text and rich fields, SQLite has none
+ *
+ * The field's nativeType override for the provider wins, then maxLength
+ * bounds the column as VarChar(n). Without one MySQL stores multiline text
+ * as Text and rich text as LongText, PostgreSQL's String is already text.
+ */
+export function stringNativeType(
+  field: FieldDefinitionType,
+  config: StringMapperConfig
+): string | undefined {
+  const provider = config.provider ?? 'sqlite';
+  if (provider === 'sqlite') return undefined;
+
+  const override = nativeTypeOverride(field, provider);
+  if (override) return override;
+
+  const maxLength = field.validation?.maxLength;
+  if (maxLength !== undefined && maxLength <= VARCHAR_LIMIT[provider]) {
+    return `@db.VarChar(${maxLength})`;
+  }
+
+  if (provider !== 'mysql') return undefined;
+
+  if (maxLength !== undefined && field.type === 'text') {
+    return MYSQL_TEXT_TYPES.find(([limit]) => maxLength <= limit)?.[1] ?? '@db.LongText';
+  }
+
+  if (field.type === 'rich') return '@db.LongText';
+  if (field.config?.type === 'text' && field.config.multiline) return '@db.Text';
+
+  return undefined;
+}
+
+/**
+ * config.nativeType for the provider as an attribute: VarChar(500) -> @db.VarChar(500)
+ */
+function nativeTypeOverride(
+  field: FieldDefinitionType,
+  provider: 'postgresql' | 'mysql'
+): string | undefined {
+  const config = field.config;
+  if (config?.type !== 'text' && config?.type !== 'rich') return undefined;
+
+  const nativeType = config.nativeType?.[provider]?.trim();
+  if (!nativeType) return undefined;
+
+  return nativeType.startsWith('@db.') ? nativeType : `@db.${nativeType}`;
+}
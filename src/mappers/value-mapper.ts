@@ -0,0 +1,288 @@
+// src/mappers/value-mapper.ts
+
+import type { FieldDefinitionType } from '../field-config-schema';
+import type { FieldMapperConfig } from './field-mapper';
+import { toEnumValueName, usesNativeEnum } from './enum-mapper';
+import { isMultiSelect, multiSelectStorage } from './select-mapper';
+import { usesJsonType } from './json-mapper';
+import { numberColumnType } from './number-mapper';
+import { dateFormat, parseDateValue } from './date-mapper';
+import { toMediaKey } from './media-mapper';
+
+/**
+ * Map a stored EAV attribute value to the column(s) generated for its field
+ *
+ * Mirrors mapFieldToPrisma: single media and to-one relations land in
+ * `${key}_id`, components, list relations and multiple media are handled
+ * by the caller.
+ * Throws when the value cannot be coerced to the column type.
+ */
+export function mapValueToColumns(
+  field: FieldDefinitionType,
+  value: unknown,
+  config: FieldMapperConfig
+): Record<string, unknown> {
+  if (value === undefined || value === null) {
+    if (field.required && isScalarColumn(field)) {
+      throw new Error(`Missing value for required field "${field.key}"`);
+    }
+    return {};
+  }
+
+  switch (field.type) {
+    case 'text':
+    case 'rich':
+      return { [field.key]: coerceString(field, value) };
+    case 'number':
+      return { [field.key]: coerceNumber(field, value) };
+    case 'boolean':
+      return { [field.key]: coerceBoolean(field, value) };
+    case 'date':
+      return { [field.key]: coerceDate(field, value) };
+    case 'select':
+      return { [field.key]: mapSelectValue(field, value, config) };
+    case 'json':
+      return { [field.key]: mapJsonValue(field, value, config) };
+    case 'media':
+      return mapMediaValue(field, value, config);
+    case 'relation':
+      return mapRelationValue(field, value);
+    case 'component':
+      return {};
+    default:
+      throw new Error(`Unknown field type: ${(field as any).type}`);
+  }
+}
+
+/**
+ * Extract referenced ids from a relation or media value
+ * Accepts an id, an object with an `id`, or a list of either
+ */
+export function extractReferenceIds(value: unknown): string[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  const items = Array.isArray(value) ? value : [value];
+
+  return items.map((item) => {
+    if (typeof item === 'string' || typeof item === 'number') {
+      return String(item);
+    }
+    if (item && typeof item === 'object' && 'id' in item) {
+      return String((item as { id: unknown }).id);
+    }
+    throw new Error(`Cannot read reference id from ${JSON.stringify(item)}`);
+  });
+}
+
+/**
+ * Fields holding a value - `derived: true` without an expression has none
+ */
+export function typedFields(fields: FieldDefinitionType[]): FieldDefinitionType[] {
+  return fields.filter((f) => f.derived !== true);
+}
+
+/**
+ * Whether a field's value is a list: multiple select and media, to-many
+ * relations, repeatable components and dynamic zones
+ */
+export function isList(field: FieldDefinitionType): boolean {
+  const config = field.config;
+
+  switch (config?.type) {
+    case 'select':
+    case 'media':
+      return Boolean(config.multiple);
+    case 'relation':
+      return config.relationType === 'oneToMany' || config.relationType === 'manyToMany';
+    case 'component':
+      return config.repeatable || config.components !== undefined;
+    default:
+      return false;
+  }
+}
+
+function isScalarColumn(field: FieldDefinitionType): boolean {
+  if (field.type === 'component') return false;
+  if (field.config?.type === 'media' && field.config.multiple) return false;
+  if (field.config?.type === 'relation') {
+    return field.config.relationType === 'oneToOne' || field.config.relationType === 'manyToOne';
+  }
+  return true;
+}
+
+function fail(field: FieldDefinitionType, value: unknown, expected: string): never {
+  throw new Error(`Cannot coerce ${JSON.stringify(value)} to ${expected} for field "${field.key}"`);
+}
+
+function coerceString(field: FieldDefinitionType, value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return fail(field, value, 'String');
+}
+
+/**
+ * BigInt columns take bigint values, Decimal columns keep numeric strings
+ * as stored so no precision is lost
+ */
+function coerceNumber(field: FieldDefinitionType, value: unknown): number | bigint | string {
+  const type = numberColumnType(field);
+
+  if (type === 'BigInt') {
+    return coerceBigInt(field, value);
+  }
+
+  const num = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+
+  if (typeof num !== 'number' || !Number.isFinite(num)) {
+    return fail(field, value, 'number');
+  }
+
+  if (type === 'Int' && !Number.isInteger(num)) {
+    return fail(field, value, 'Int');
+  }
+
+  return type === 'Decimal' && typeof value === 'string' ? value.trim() : num;
+}
+
+function coerceBigInt(field: FieldDefinitionType, value: unknown): bigint {
+  if (typeof value === 'bigint') return value;
+  if (typeof value === 'number' && Number.isInteger(value)) return BigInt(value);
+  if (typeof value === 'string' && /^-?\d+$/.test(value.trim())) return BigInt(value.trim());
+  return fail(field, value, 'BigInt');
+}
+
+function coerceBoolean(field: FieldDefinitionType, value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (value === 1 || value === 'true' || value === '1') return true;
+  if (value === 0 || value === 'false' || value === '0') return false;
+  return fail(field, value, 'Boolean');
+}
+
+/**
+ * Times of day ("09:15") are stored on 1970-01-01 UTC
+ */
+function coerceDate(field: FieldDefinitionType, value: unknown): Date {
+  const date = value instanceof Date || typeof value === 'string' || typeof value === 'number'
+    ? parseDateValue(value, dateFormat(field))
+    : undefined;
+
+  if (!date) {
+    return fail(field, value, 'DateTime');
+  }
+
+  return date;
+}
+
+/**
+ * Json columns take the parsed value, String columns (SQLite) the serialized one
+ */
+function mapJsonValue(
+  field: FieldDefinitionType,
+  value: unknown,
+  config: FieldMapperConfig
+): unknown {
+  if (!usesJsonType(config)) {
+    return typeof value === 'string' ? value : JSON.stringify(value);
+  }
+
+  if (typeof value !== 'string') return value;
+
+  try {
+    return JSON.parse(value);
+  } catch {
+    return fail(field, value, 'Json');
+  }
+}
+
+/**
+ * Native enum columns take the enum value name, which differs from the
+ * option value when the value is not a valid identifier
+ * Multi-selects follow the provider storage: list, Json array or value rows
+ */
+function mapSelectValue(
+  field: FieldDefinitionType,
+  value: unknown,
+  config: FieldMapperConfig
+): unknown {
+  const selected = coerceSelect(field, value);
+  const names = usesNativeEnum(field, config)
+    ? selected.map((v) => toEnumValueName(field, v) ?? v)
+    : selected;
+
+  if (!isMultiSelect(field)) {
+    return names[0];
+  }
+
+  switch (multiSelectStorage(config)) {
+    case 'list':
+    case 'json':
+      return names;
+    case 'table':
+      return { create: names.map((v, order) => ({ value: v, order })) };
+  }
+}
+
+function coerceSelect(field: FieldDefinitionType, value: unknown): string[] {
+  const config = field.config?.type === 'select' ? field.config : undefined;
+  const values = Array.isArray(value) ? value : [value];
+
+  if (values.some((v) => typeof v !== 'string')) {
+    return fail(field, value, 'select option');
+  }
+
+  if (config) {
+    const allowed = new Set(config.options.map((o) => (typeof o === 'string' ? o : o.value)));
+    const unknown = values.find((v) => !allowed.has(v));
+    if (unknown !== undefined) {
+      throw new Error(`Unknown option "${unknown}" for field "${field.key}"`);
+    }
+  }
+
+  if (values.length > 1 && !config?.multiple) {
+    return fail(field, value, 'single option');
+  }
+
+  return values;
+}
+
+function mapMediaValue(
+  field: FieldDefinitionType,
+  value: unknown,
+  config: FieldMapperConfig
+): Record<string, unknown> {
+  const ids = extractReferenceIds(value);
+
+  if (field.config?.type === 'media' && field.config.multiple) {
+    if (!config.media) {
+      throw new Error(`Multiple media field "${field.key}" requires a media model`);
+    }
+    return {}; // Junction rows, see mapMediaUsages
+  }
+
+  if (ids.length > 1) {
+    return fail(field, value, 'a single media id');
+  }
+
+  return { [`${field.key}_id`]: toMediaKey(ids[0]!, config.media) };
+}
+
+function mapRelationValue(field: FieldDefinitionType, value: unknown): Record<string, unknown> {
+  if (field.config?.type !== 'relation') {
+    throw new Error('Invalid relation field');
+  }
+
+  const { relationType } = field.config;
+
+  if (relationType === 'oneToMany' || relationType === 'manyToMany') {
+    return {};
+  }
+
+  const ids = extractReferenceIds(value);
+  if (ids.length > 1) {
+    return fail(field, value, `a single ${relationType} id`);
+  }
+
+  return { [`${field.key}_id`]: ids[0] };
+}
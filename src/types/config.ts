@@ -26,7 +26,9 @@ export const ConfigSchema = z.object({
   // EAV table names (required if using database)
   tables: z.object({
     models: z.string().default('content_model'),
-    components: z.string().optional()
+    components: z.string().optional(),
+    // EAV instance rows (only read by migrate-data)
+    instances: z.string().default('content_instance').optional()
   }).optional(),
   
   // Mapper to transform your EAV structure
@@ -38,6 +40,10 @@ export const ConfigSchema = z.object({
     component: z.function({
       input: z.tuple([z.any()]),
       output: z.any()
+    }).optional(),
+    instance: z.function({
+      input: z.tuple([z.any()]),
+      output: z.any()
     }).optional()
   }).optional(),
   
@@ -54,6 +60,12 @@ export const ConfigSchema = z.object({
       exclude: z.array(z.string()).optional()  // blacklist specific models
     })
   ]).optional(),
+
+  // External model media fields relate to
+  media: z.object({
+    model: z.string().default('Media'),
+    primaryKey: z.string().optional() // Defaults to the model's @id field
+  }).optional(),
   
   // Output
   output: z.object({
@@ -61,6 +73,24 @@ export const ConfigSchema = z.object({
     multiSchema: z.boolean().default(false).optional(),
     schemaName: z.string().optional(),
     clientPath: z.string().optional(),
+    // Derived fields: generated column SQL and the client extension computing the others
+    derivedSqlPath: z.string().default('./prisma/derived-columns.sql').optional(),
+    derivedExtensionPath: z.string().default('./prisma/derived-fields.ts').optional(),
+    // Client extension with localized reads of translated models, written with i18n
+    localizedExtensionPath: z.string().default('./prisma/localized-models.ts').optional(),
+    // TypeScript content types for packages without Prisma Client, written when set
+    typesPath: z.string().optional(),
+    // Zod schemas of model create and update input, written when set
+    zodPath: z.string().optional(),
+    // JSON Schema document and OpenAPI components of content records, written when set
+    jsonSchemaPath: z.string().optional(),
+    openApiPath: z.string().optional(),
+    // GraphQL SDL of content types and their create/update inputs, written when set
+    graphqlPath: z.string().optional(),
+    // Seed factories written by generate-factories
+    factoriesPath: z.string().default('./prisma/factories.ts').optional(),
+    // Check the schema with Prisma's schema engine before writing it
+    validate: z.boolean().default(true).optional(),
     // Prisma client generator config
     client: z.object({
       previewFeatures: z.array(z.string()).optional()
@@ -69,7 +99,9 @@ export const ConfigSchema = z.object({
     datasource: z.object({
       provider: z.enum(['sqlite', 'postgresql', 'mysql']).default('sqlite'),
       url: z.string().default('env("DATABASE_URL")'),
-      directUrl: z.string().optional()
+      directUrl: z.string().optional(),
+      // Timezone-aware datetime and time columns by default
+      timezone: z.boolean().optional()
     }).optional()
   }).optional(),
   
@@ -77,7 +109,11 @@ export const ConfigSchema = z.object({
   i18n: z.object({
     enabled: z.boolean(),
     tableNaming: z.string().default('${identifier}_translation'),
-    defaultLang: z.string()
+    defaultLang: z.string(),
+    // Locales read before defaultLang when a translation is missing, per locale
+    fallbacks: z.record(z.string(), z.array(z.string())).optional(),
+    // Locales content is translated into besides defaultLang, seed factories write each
+    locales: z.array(z.string()).optional()
   }).optional(),
   
   // Naming
@@ -0,0 +1,334 @@
+// src/utils/json-schema.ts
+
+import { samplePattern, type RandomSource } from './pattern-sample';
+
+/**
+ * The JSON Schema subset json fields can describe their value with
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  format?: string;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  minItems?: number;
+  maxItems?: number;
+  nullable?: boolean; // OpenAPI 3.0 style
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType =
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null'
+  | 'array'
+  | 'object';
+
+const IDENTIFIER = /^[A-Za-z_$][A-Za-z0-9_$]*$/;
+
+const ZOD_FORMATS: Record<string, string> = {
+  email: 'email()',
+  uri: 'url()',
+  url: 'url()',
+  uuid: 'uuid()',
+  'date-time': 'datetime()',
+};
+
+/**
+ * Zod expression for a JSON Schema, on one line:
+ * { type: 'array', items: { type: 'string' } } -> z.array(z.string())
+ */
+export function jsonSchemaToZod(schema: JsonSchema | boolean | undefined): string {
+  if (schema === undefined || schema === true) return 'z.unknown()';
+  if (schema === false) return 'z.never()';
+
+  if (schema.const !== undefined) return `z.literal(${JSON.stringify(schema.const)})`;
+
+  if (schema.enum) {
+    const zod = schema.enum.every((v) => typeof v === 'string')
+      ? `z.enum([${schema.enum.map((v) => JSON.stringify(v)).join(', ')}])`
+      : union(schema.enum.map((v) => `z.literal(${JSON.stringify(v)})`));
+    return nullable(zod, schema);
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) return nullable(union(variants.map(jsonSchemaToZod)), schema);
+
+  if (schema.allOf) {
+    return schema.allOf
+      .map(jsonSchemaToZod)
+      .reduce((all, next) => `z.intersection(${all}, ${next})`);
+  }
+
+  const types = schemaTypes(schema);
+  const nonNull = types.filter((t) => t !== 'null');
+
+  if (types.length === 0) return 'z.unknown()';
+  if (nonNull.length === 0) return 'z.null()';
+
+  const zod = union(nonNull.map((type) => zodForType(type, schema)));
+  return nonNull.length < types.length || schema.nullable ? `${zod}.nullable()` : zod;
+}
+
+/**
+ * TypeScript type for a JSON Schema, on one line:
+ * { type: 'object', properties: { a: { type: 'string' } } } -> { a?: string }
+ */
+export function jsonSchemaToTs(schema: JsonSchema | boolean | undefined): string {
+  if (schema === undefined || schema === true) return 'unknown';
+  if (schema === false) return 'never';
+
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+
+  if (schema.enum) {
+    return nullableTs(schema.enum.map((v) => JSON.stringify(v)).join(' | '), schema);
+  }
+
+  const variants = schema.anyOf ?? schema.oneOf;
+  if (variants) {
+    return nullableTs(variants.map((v) => wrapTs(jsonSchemaToTs(v))).join(' | '), schema);
+  }
+
+  if (schema.allOf) {
+    return schema.allOf.map((v) => wrapTs(jsonSchemaToTs(v))).join(' & ');
+  }
+
+  const types = schemaTypes(schema);
+  if (types.length === 0) return 'unknown';
+
+  return nullableTs(
+    types.map((type) => tsForType(type, schema)).join(' | '),
+    schema
+  );
+}
+
+/**
+ * A value valid against a JSON Schema, for seed data: the const, an enum
+ * value or the first variant, objects with all their properties
+ */
+export function sampleJsonSchema(
+  schema: JsonSchema | boolean | undefined,
+  random: RandomSource
+): unknown {
+  if (schema === undefined || schema === true) return {};
+  if (schema === false) return null;
+
+  if (schema.const !== undefined) return schema.const;
+  if (schema.enum) return schema.enum[Math.floor(random() * schema.enum.length)];
+
+  const variant = (schema.anyOf ?? schema.oneOf)?.[0];
+  if (variant) return sampleJsonSchema(variant, random);
+
+  if (schema.allOf) {
+    return Object.assign({}, ...schema.allOf.map((v) => sampleJsonSchema(v, random)));
+  }
+
+  const type = schemaTypes(schema).find((t) => t !== 'null') ?? schemaTypes(schema)[0];
+  return type ? sampleForType(type, schema, random) : {};
+}
+
+function schemaTypes(schema: JsonSchema): JsonSchemaType[] {
+  if (schema.type) return Array.isArray(schema.type) ? schema.type : [schema.type];
+  if (schema.properties || schema.additionalProperties) return ['object'];
+  if (schema.items) return ['array'];
+  return [];
+}
+
+function zodForType(type: JsonSchemaType, schema: JsonSchema): string {
+  switch (type) {
+    case 'string': {
+      const checks = [
+        schema.format && ZOD_FORMATS[schema.format],
+        schema.minLength !== undefined && `min(${schema.minLength})`,
+        schema.maxLength !== undefined && `max(${schema.maxLength})`,
+        schema.pattern !== undefined && `regex(/${schema.pattern.replace(/\//g, '\\/')}/)`,
+      ];
+      return chain('z.string()', checks);
+    }
+
+    case 'number':
+    case 'integer':
+      return chain('z.number()', [
+        type === 'integer' && 'int()',
+        schema.minimum !== undefined && `min(${schema.minimum})`,
+        schema.maximum !== undefined && `max(${schema.maximum})`,
+      ]);
+
+    case 'boolean':
+      return 'z.boolean()';
+
+    case 'null':
+      return 'z.null()';
+
+    case 'array':
+      return chain(`z.array(${jsonSchemaToZod(schema.items)})`, [
+        schema.minItems !== undefined && `min(${schema.minItems})`,
+        schema.maxItems !== undefined && `max(${schema.maxItems})`,
+      ]);
+
+    case 'object': {
+      const extra = schema.additionalProperties;
+
+      if (!schema.properties) {
+        return `z.record(z.string(), ${jsonSchemaToZod(extra === false ? true : extra)})`;
+      }
+
+      const required = new Set(schema.required ?? []);
+      const shape = Object.entries(schema.properties).map(([key, value]) => {
+        const zod = jsonSchemaToZod(value);
+        return `${propertyKey(key)}: ${required.has(key) ? zod : `${zod}.optional()`}`;
+      });
+      const object = `z.object({ ${shape.join(', ')} })`;
+
+      if (extra === false) return `${object}.strict()`;
+      if (extra && extra !== true) return `${object}.catchall(${jsonSchemaToZod(extra)})`;
+      return object;
+    }
+  }
+}
+
+function sampleForType(type: JsonSchemaType, schema: JsonSchema, random: RandomSource): unknown {
+  switch (type) {
+    case 'string': {
+      if (schema.pattern !== undefined) return samplePattern(schema.pattern, random);
+
+      switch (schema.format) {
+        case 'email':
+          return `${sampleWord(8, random)}@example.com`;
+        case 'uri':
+        case 'url':
+          return `https://example.com/${sampleWord(8, random)}`;
+        case 'uuid':
+          return '00000000-0000-4000-8000-000000000000'.replace(/0/g, () =>
+            Math.floor(random() * 16).toString(16)
+          );
+        case 'date-time':
+          return new Date(Date.UTC(2024, 0, 1 + Math.floor(random() * 365))).toISOString();
+        case 'date':
+          return new Date(Date.UTC(2024, 0, 1 + Math.floor(random() * 365)))
+            .toISOString()
+            .slice(0, 10);
+      }
+
+      const min = schema.minLength ?? 1;
+      const max = Math.max(min, schema.maxLength ?? min + 11);
+      return sampleWord(min + Math.floor(random() * (max - min + 1)), random);
+    }
+
+    case 'number':
+    case 'integer': {
+      const min = schema.minimum ?? 0;
+      const max = Math.max(min, schema.maximum ?? min + 100);
+      const value = min + random() * (max - min);
+
+      if (type === 'number') {
+        const rounded = Math.floor(value * 100) / 100;
+        return rounded >= min ? rounded : min;
+      }
+
+      const low = Math.ceil(min);
+      return low + Math.floor(random() * (Math.floor(max) - low + 1));
+    }
+
+    case 'boolean':
+      return random() < 0.5;
+
+    case 'null':
+      return null;
+
+    case 'array': {
+      const min = schema.minItems ?? 1;
+      const count = Math.min(Math.max(min, 1), schema.maxItems ?? Infinity);
+      return Array.from({ length: count }, () => sampleJsonSchema(schema.items ?? true, random));
+    }
+
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([key, value]) => [
+          key,
+          sampleJsonSchema(value, random),
+        ])
+      );
+  }
+}
+
+function sampleWord(length: number, random: RandomSource): string {
+  return Array.from({ length }, () =>
+    String.fromCharCode(97 + Math.floor(random() * 26))
+  ).join('');
+}
+
+function tsForType(type: JsonSchemaType, schema: JsonSchema): string {
+  switch (type) {
+    case 'string':
+      return 'string';
+
+    case 'number':
+    case 'integer':
+      return 'number';
+
+    case 'boolean':
+      return 'boolean';
+
+    case 'null':
+      return 'null';
+
+    case 'array':
+      return `Array<${jsonSchemaToTs(schema.items)}>`;
+
+    case 'object': {
+      const extra = schema.additionalProperties;
+      const index =
+        extra && extra !== true ? `[key: string]: ${jsonSchemaToTs(extra)}` : undefined;
+
+      if (!schema.properties) {
+        return `Record<string, ${extra && extra !== true ? jsonSchemaToTs(extra) : 'unknown'}>`;
+      }
+
+      const required = new Set(schema.required ?? []);
+      const members = Object.entries(schema.properties).map(
+        ([key, value]) =>
+          `${propertyKey(key)}${required.has(key) ? '' : '?'}: ${jsonSchemaToTs(value)}`
+      );
+
+      return `{ ${[...members, ...(index ? [index] : [])].join('; ')} }`;
+    }
+  }
+}
+
+function chain(base: string, checks: Array<string | false | undefined>): string {
+  return [base, ...checks.filter(Boolean)].join('.');
+}
+
+function union(options: string[]): string {
+  return options.length === 1 ? options[0]! : `z.union([${options.join(', ')}])`;
+}
+
+function nullable(zod: string, schema: JsonSchema): string {
+  return schema.nullable ? `${zod}.nullable()` : zod;
+}
+
+function nullableTs(type: string, schema: JsonSchema): string {
+  return schema.nullable ? `${type} | null` : type;
+}
+
+function wrapTs(type: string): string {
+  return /[|&]/.test(type) ? `(${type})` : type;
+}
+
+function propertyKey(key: string): string {
+  return IDENTIFIER.test(key) ? key : JSON.stringify(key);
+}
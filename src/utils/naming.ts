@@ -21,6 +21,16 @@ export function toPascalCase(str: string): string {
     .join('');
 }
 
+export function toKebabCase(str: string): string {
+  return toSnakeCase(str).replace(/_/g, '-');
+}
+
+export function pluralize(word: string): string {
+  if (/[^aeiou]y$/.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|ch|sh)$/.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
 export function toCamelCase(str: string): string {
   const pascal = toPascalCase(str);
   return pascal.charAt(0).toLowerCase() + pascal.slice(1);
@@ -36,4 +46,11 @@ export function buildTranslationTableName(
     : modelName;
     
   return `${identifier}_translation`;
-}
\ No newline at end of file
+}
+
+/**
+ * Prisma Client delegate for a model: Post -> prisma.post, PostSeo -> prisma.postSeo
+ */
+export function toDelegateName(modelName: string): string {
+  return modelName.charAt(0).toLowerCase() + modelName.slice(1);
+}
@@ -0,0 +1,231 @@
+// src/utils/pattern-sample.ts
+
+/**
+ * Random number in [0, 1), Math.random or a seeded generator
+ */
+export type RandomSource = () => number;
+
+// Characters `.` and negated classes pick from
+const PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i));
+const DIGITS = '0123456789'.split('');
+const WORD = [...'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ_', ...DIGITS];
+const SPACE = [' '];
+
+// Repetitions added to unbounded quantifiers (*, +, {n,})
+const UNBOUNDED_EXTRA = 3;
+
+type Node =
+  | { kind: 'chars'; chars: string[] }
+  | { kind: 'group'; alternatives: Node[][] }
+  | { kind: 'repeat'; node: Node; min: number; max: number };
+
+/**
+ * A string matching a regular expression pattern, for the subset field
+ * patterns use: literals, classes, groups with alternatives and quantifiers.
+ * Throws for back-references and lookarounds.
+ */
+export function samplePattern(pattern: string, random: RandomSource): string {
+  const parser = new PatternParser(pattern);
+  return sampleSequence(parser.parse(), random);
+}
+
+function sampleSequence(nodes: Node[], random: RandomSource): string {
+  return nodes.map((node) => sampleNode(node, random)).join('');
+}
+
+function sampleNode(node: Node, random: RandomSource): string {
+  switch (node.kind) {
+    case 'chars':
+      return pick(node.chars, random);
+    case 'group':
+      return sampleSequence(pick(node.alternatives, random), random);
+    case 'repeat': {
+      const count = node.min + Math.floor(random() * (node.max - node.min + 1));
+      return Array.from({ length: count }, () => sampleNode(node.node, random)).join('');
+    }
+  }
+}
+
+function pick<T>(items: T[], random: RandomSource): T {
+  return items[Math.floor(random() * items.length)]!;
+}
+
+class PatternParser {
+  private index = 0;
+
+  constructor(private pattern: string) {}
+
+  parse(): Node[] {
+    const alternatives = this.alternatives();
+    if (this.index < this.pattern.length) this.fail('unbalanced ")"');
+
+    return alternatives.length === 1
+      ? alternatives[0]!
+      : [{ kind: 'group', alternatives }];
+  }
+
+  private alternatives(): Node[][] {
+    const alternatives: Node[][] = [this.sequence()];
+
+    while (this.peek() === '|') {
+      this.index++;
+      alternatives.push(this.sequence());
+    }
+
+    return alternatives;
+  }
+
+  private sequence(): Node[] {
+    const nodes: Node[] = [];
+
+    while (this.index < this.pattern.length && this.peek() !== '|' && this.peek() !== ')') {
+      const atom = this.atom();
+      if (atom) nodes.push(this.quantified(atom));
+    }
+
+    return nodes;
+  }
+
+  /**
+   * The next atom, undefined for anchors
+   */
+  private atom(): Node | undefined {
+    const char = this.pattern[this.index++]!;
+
+    switch (char) {
+      case '^':
+      case '$':
+        return undefined;
+      case '.':
+        return { kind: 'chars', chars: PRINTABLE };
+      case '[':
+        return { kind: 'chars', chars: this.characterClass() };
+      case '(': {
+        if (this.pattern.startsWith('?:', this.index)) {
+          this.index += 2;
+        } else if (this.peek() === '?') {
+          this.fail('lookarounds are not supported');
+        }
+
+        const alternatives = this.alternatives();
+        if (this.pattern[this.index++] !== ')') this.fail('missing ")"');
+        return { kind: 'group', alternatives };
+      }
+      case '\\': {
+        const escaped = this.escape();
+        return escaped.length === 0 ? undefined : { kind: 'chars', chars: escaped };
+      }
+      default:
+        return { kind: 'chars', chars: [char] };
+    }
+  }
+
+  /**
+   * Characters of an escape after the backslash, none for \b and \B
+   */
+  private escape(): string[] {
+    const char = this.pattern[this.index++];
+
+    switch (char) {
+      case undefined:
+        return this.fail('trailing "\\"');
+      case 'd':
+        return DIGITS;
+      case 'w':
+        return WORD;
+      case 's':
+        return SPACE;
+      case 'D':
+        return PRINTABLE.filter((c) => !DIGITS.includes(c));
+      case 'W':
+        return PRINTABLE.filter((c) => !WORD.includes(c));
+      case 'S':
+        return PRINTABLE.filter((c) => c !== ' ');
+      case 'b':
+      case 'B':
+        return [];
+      case 'n':
+        return ['\n'];
+      case 't':
+        return ['\t'];
+      default:
+        if (/[1-9]/.test(char)) this.fail('back-references are not supported');
+        return [char];
+    }
+  }
+
+  private characterClass(): string[] {
+    const negated = this.peek() === '^';
+    if (negated) this.index++;
+
+    const chars = new Set<string>();
+    let first = true;
+
+    while (this.peek() !== ']' || first) {
+      if (this.index >= this.pattern.length) this.fail('missing "]"');
+      first = false;
+
+      let char = this.pattern[this.index++]!;
+      if (char === '\\') {
+        const escaped = this.escape();
+        if (escaped.length !== 1) {
+          escaped.forEach((c) => chars.add(c));
+          continue;
+        }
+        char = escaped[0]!;
+      }
+
+      if (this.peek() === '-' && this.pattern[this.index + 1] !== ']' && this.index + 1 < this.pattern.length) {
+        this.index++;
+        let end = this.pattern[this.index++]!;
+        if (end === '\\') end = this.escape()[0] ?? end;
+
+        for (let code = char.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+          chars.add(String.fromCharCode(code));
+        }
+      } else {
+        chars.add(char);
+      }
+    }
+    this.index++;
+
+    const result = negated ? PRINTABLE.filter((c) => !chars.has(c)) : [...chars];
+    if (result.length === 0) this.fail('empty character class');
+    return result;
+  }
+
+  private quantified(node: Node): Node {
+    const char = this.peek();
+    let bounds: [number, number] | undefined;
+
+    if (char === '?') bounds = [0, 1];
+    if (char === '*') bounds = [0, UNBOUNDED_EXTRA];
+    if (char === '+') bounds = [1, 1 + UNBOUNDED_EXTRA];
+
+    if (bounds) {
+      this.index++;
+    } else if (char === '{') {
+      const match = /^\{(\d+)(,(\d*))?\}/.exec(this.pattern.slice(this.index));
+      if (!match) return node;
+
+      this.index += match[0].length;
+      const min = Number(match[1]);
+      bounds = [min, match[2] ? (match[3] ? Number(match[3]) : min + UNBOUNDED_EXTRA) : min];
+    } else {
+      return node;
+    }
+
+    // Lazy quantifiers match the same strings
+    if (this.peek() === '?') this.index++;
+
+    return { kind: 'repeat', node, min: bounds[0], max: bounds[1] };
+  }
+
+  private peek(): string | undefined {
+    return this.pattern[this.index];
+  }
+
+  private fail(reason: string): never {
+    throw new Error(`Cannot sample pattern /${this.pattern}/: ${reason}`);
+  }
+}
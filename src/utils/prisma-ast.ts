@@ -10,6 +10,7 @@ export interface PrismaSchema {
   datasource: PrismaDatasource;
   generators: PrismaGenerator[];
   models: PrismaModel[];
+  enums?: PrismaEnum[];
 }
 
 export interface PrismaDatasource {
@@ -28,25 +29,67 @@ export interface PrismaGenerator {
 export interface PrismaModel {
   name: string;
   fields: PrismaField[];
-  indexes?: string[][];
-  unique?: string[][];
+  indexes?: PrismaIndex[];
+  unique?: PrismaIndex[];
   map?: string; // @@map("table_name")
 }
 
+/**
+ * @@index/@@unique fields, or fields with a database name and index type
+ * Fields may carry arguments: "published_at(sort: Desc)"
+ */
+export type PrismaIndex =
+  | string[]
+  | {
+      fields: string[];
+      map?: string; // Index name in the database
+      type?: PrismaIndexType; // PostgreSQL only
+    };
+
+export type PrismaIndexType = 'BTree' | 'Hash' | 'Gist' | 'Gin' | 'SpGist' | 'Brin';
+
+export interface PrismaEnum {
+  name: string;
+  values: PrismaEnumValue[];
+}
+
+export interface PrismaEnumValue {
+  name: string;
+  map?: string; // @map("stored value")
+}
+
 export interface PrismaField {
   name: string;
   type: string;
   optional?: boolean;
   list?: boolean;
-  default?: string | number | boolean;
+  default?: PrismaDefault | PrismaDefault[]; // Written as @default(...) unless attributes have one
   attributes?: string[]; // @id, @default(cuid()), etc
   relation?: {
     name?: string;
     fields?: string[];
     references?: string[];
-    onDelete?: 'Cascade' | 'SetNull' | 'Restrict' | 'NoAction';
-    onUpdate?: 'Cascade' | 'SetNull' | 'Restrict' | 'NoAction';
+    onDelete?: PrismaReferentialAction;
+    onUpdate?: PrismaReferentialAction;
   };
   map?: string; // @map("field_name")
   validation?: FieldValidationType; // For Zod comment generation
-}
\ No newline at end of file
+  documentation?: string; // /// comment lines above the field
+  inverse?: PrismaInverse; // Not written - read by the relation resolver
+}
+
+/**
+ * Opposite side the relation resolver adds for a list field without an FK
+ * when the target model has none
+ */
+export interface PrismaInverse {
+  list?: boolean; // Implicit many-to-many list instead of an FK on the target
+  onDelete?: PrismaReferentialAction;
+}
+
+/**
+ * Strings are quoted except now() on DateTime fields and enum values
+ */
+export type PrismaDefault = string | number | boolean;
+
+export type PrismaReferentialAction = 'Cascade' | 'SetNull' | 'Restrict' | 'NoAction';
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { readFileSync } from 'fs';
+import type { PrismaEnum, PrismaIndex, PrismaIndexType } from './prisma-ast';
 
 export interface PrismaField {
   name: string;
@@ -8,6 +9,7 @@ export interface PrismaField {
   attributes?: string[];
   default?: string | number | boolean;
   map?: string;
+  documentation?: string; // /// comment lines above the field
   relation?: {
     fields: string[];
     references: string[];
@@ -19,8 +21,8 @@ export interface PrismaField {
 export interface PrismaModel {
   name: string;
   fields: PrismaField[];
-  indexes?: string[][];
-  unique?: string[][];
+  indexes?: PrismaIndex[];
+  unique?: PrismaIndex[];
   map?: string;
 }
 
@@ -31,14 +33,8 @@ export function extractModelsFromPrismaFile(filePath: string): PrismaModel[] {
 
 export function extractModelsFromString(schema: string): PrismaModel[] {
   const models: PrismaModel[] = [];
-  const modelRegex = /model\s+(\w+)\s*\{([^}]+)\}/g;
   
-  let match;
-  while ((match = modelRegex.exec(schema)) !== null) {
-    const modelName = match[1];
-    const modelBody = match[2];
-    
-    if (!modelName || !modelBody) continue;
+  for (const { name: modelName, body: modelBody } of extractBlocks(schema, 'model')) {
     
     const model: PrismaModel = {
       name: modelName,
@@ -46,26 +42,30 @@ export function extractModelsFromString(schema: string): PrismaModel[] {
     };
     
     const lines = modelBody.split('\n').map(l => l.trim()).filter(l => l.length > 0);
+    let documentation: string[] = [];
     
     for (const line of lines) {
+      if (line.startsWith('///')) {
+        documentation.push(line.slice(3).trim());
+        continue;
+      }
+      
       if (line.startsWith('//')) continue;
       
       if (line.startsWith('@@index')) {
-        const fieldsMatch = line.match(/@@index\(\[([^\]]+)\]\)/);
-        if (fieldsMatch?.[1]) {
-          const fields = fieldsMatch[1].split(',').map(f => f.trim());
+        const index = parseIndexAttribute(line);
+        if (index) {
           if (!model.indexes) model.indexes = [];
-          model.indexes.push(fields);
+          model.indexes.push(index);
         }
         continue;
       }
       
       if (line.startsWith('@@unique')) {
-        const fieldsMatch = line.match(/@@unique\(\[([^\]]+)\]\)/);
-        if (fieldsMatch?.[1]) {
-          const fields = fieldsMatch[1].split(',').map(f => f.trim());
+        const index = parseIndexAttribute(line);
+        if (index) {
           if (!model.unique) model.unique = [];
-          model.unique.push(fields);
+          model.unique.push(index);
         }
         continue;
       }
@@ -80,8 +80,12 @@ export function extractModelsFromString(schema: string): PrismaModel[] {
       
       const field = parseFieldLine(line);
       if (field) {
+        if (documentation.length > 0) {
+          field.documentation = documentation.join('\n');
+        }
         model.fields.push(field);
       }
+      documentation = [];
     }
     
     models.push(model);
@@ -90,6 +94,120 @@ export function extractModelsFromString(schema: string): PrismaModel[] {
   return models;
 }
 
+export function extractEnumsFromPrismaFile(filePath: string): PrismaEnum[] {
+  const schema = readFileSync(filePath, 'utf-8');
+  return extractEnumsFromString(schema);
+}
+
+/**
+ * Enums with their values in declaration order, @map("stored value") kept
+ */
+export function extractEnumsFromString(schema: string): PrismaEnum[] {
+  return extractBlocks(schema, 'enum').map(({ name, body }) => ({
+    name,
+    values: body
+      .split('\n')
+      .map(l => l.trim())
+      .filter(l => l.length > 0 && !l.startsWith('//') && !l.startsWith('@@'))
+      .map(line => {
+        const valueName = line.match(/^\w+/)?.[0] ?? line;
+        const map = line.match(/@map\("([^"]+)"\)/)?.[1];
+        return map ? { name: valueName, map } : { name: valueName };
+      }),
+  }));
+}
+
+/**
+ * Name and body of every `keyword Name { ... }` block. The body ends at the
+ * first } outside comments and string literals, so doc comments holding
+ * braces (/// @zod.custom.use(z.object({ ... }))) stay in the block.
+ */
+function extractBlocks(schema: string, keyword: string): Array<{ name: string; body: string }> {
+  const blocks: Array<{ name: string; body: string }> = [];
+  const startRegex = new RegExp(`^[ \\t]*${keyword}\\s+(\\w+)\\s*\\{`, 'gm');
+
+  let match;
+  while ((match = startRegex.exec(schema)) !== null) {
+    const start = match.index + match[0].length;
+    const end = findBlockEnd(schema, start);
+    if (end === -1) break;
+
+    blocks.push({ name: match[1]!, body: schema.slice(start, end) });
+    startRegex.lastIndex = end + 1;
+  }
+
+  return blocks;
+}
+
+/**
+ * Index of the } closing a block, -1 when it is never closed
+ */
+function findBlockEnd(schema: string, start: number): number {
+  let i = start;
+
+  while (i < schema.length) {
+    const char = schema[i];
+
+    if (char === '/' && schema[i + 1] === '/') {
+      const lineEnd = schema.indexOf('\n', i);
+      if (lineEnd === -1) return -1;
+      i = lineEnd + 1;
+      continue;
+    }
+
+    if (char === '"') {
+      i++;
+      while (i < schema.length && schema[i] !== '"' && schema[i] !== '\n') {
+        i += schema[i] === '\\' ? 2 : 1;
+      }
+      i++;
+      continue;
+    }
+
+    if (char === '}') return i;
+    i++;
+  }
+
+  return -1;
+}
+
+/**
+ * @@index([a, b(sort: Desc)], map: "name", type: Hash) - a field list unless
+ * it has a map or type
+ */
+function parseIndexAttribute(line: string): PrismaIndex | null {
+  const args = line.match(/^@@\w+\((.*)\)$/)?.[1];
+  const list = args?.match(/^\s*\[([^\]]+)\]/)?.[1];
+  if (!args || !list) return null;
+
+  const fields: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of list) {
+    if (char === ',' && depth === 0) {
+      fields.push(current.trim());
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  fields.push(current.trim());
+
+  const map = args.match(/\bmap:\s*"([^"]*)"/)?.[1];
+  const type = args.match(/\btype:\s*(\w+)/)?.[1] as PrismaIndexType | undefined;
+
+  if (map === undefined && type === undefined) return fields;
+
+  return {
+    fields,
+    ...(map !== undefined && { map }),
+    ...(type !== undefined && { type }),
+  };
+}
+
 function parseFieldLine(line: string): PrismaField | null {
   const parts = line.split(/\s+/);
   if (parts.length < 2) return null;
@@ -0,0 +1,67 @@
+// src/utils/schema-header.ts
+
+import { createHash } from 'crypto';
+import { TOOL_NAME, TOOL_VERSION } from './version';
+
+export interface SchemaHeader {
+  version: string;
+  inputHash: string;
+}
+
+const GENERATED_LINE = /^\/\/ Generated by (\S+) (\S+)/m;
+const INPUT_HASH_LINE = /^\/\/ Input hash: (sha256:[0-9a-f]+)$/m;
+
+/**
+ * Hash of the definitions a schema was generated from
+ * Object keys are sorted so the hash does not depend on key order
+ */
+export function hashInput(input: unknown): string {
+  const hash = createHash('sha256').update(stableStringify(input)).digest('hex');
+  return `sha256:${hash}`;
+}
+
+/**
+ * Comment lines written at the top of every generated schema
+ */
+export function buildSchemaHeader(inputHash: string, version = TOOL_VERSION): string {
+  return [
+    `// Generated by ${TOOL_NAME} ${version} - do not edit by hand`,
+    `// Input hash: ${inputHash}`,
+  ].join('\n');
+}
+
+/**
+ * Read the header back from a schema, null when it was not generated
+ */
+export function readSchemaHeader(schema: string): SchemaHeader | null {
+  const generated = schema.match(GENERATED_LINE);
+  const inputHash = schema.match(INPUT_HASH_LINE);
+
+  if (!generated || generated[1] !== TOOL_NAME || !inputHash) {
+    return null;
+  }
+
+  return { version: generated[2]!, inputHash: inputHash[1]! };
+}
+
+function stableStringify(value: unknown): string {
+  return JSON.stringify(value, (_key, val) => {
+    if (val instanceof Map) {
+      return Object.fromEntries(val);
+    }
+
+    if (val instanceof Set) {
+      return [...val].sort();
+    }
+
+    if (val && typeof val === 'object' && !Array.isArray(val)) {
+      return Object.fromEntries(
+        Object.keys(val)
+          .sort()
+          .map((key) => [key, val[key]])
+      );
+    }
+
+    return val;
+  });
+}
@@ -0,0 +1,136 @@
+// src/utils/text-diff.ts
+
+export interface UnifiedDiffOptions {
+  fromFile?: string;
+  toFile?: string;
+  context?: number; // Unchanged lines around each change, default 3
+}
+
+type DiffLine = { op: ' ' | '-' | '+'; text: string };
+
+/**
+ * Line-based unified diff, empty string when both texts are equal
+ */
+export function unifiedDiff(
+  before: string,
+  after: string,
+  options: UnifiedDiffOptions = {}
+): string {
+  if (before === after) return '';
+
+  const { fromFile = 'a', toFile = 'b', context = 3 } = options;
+  const lines = diffLines(splitLines(before), splitLines(after));
+  const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+
+  for (const [start, end] of hunkRanges(lines, context)) {
+    const hunk = lines.slice(start, end);
+    const oldStart = lines.slice(0, start).filter((l) => l.op !== '+').length;
+    const newStart = lines.slice(0, start).filter((l) => l.op !== '-').length;
+    const oldCount = hunk.filter((l) => l.op !== '+').length;
+    const newCount = hunk.filter((l) => l.op !== '-').length;
+
+    output.push(
+      `@@ -${oldStart + 1},${oldCount} +${newStart + 1},${newCount} @@`,
+      ...hunk.map((l) => `${l.op}${l.text}`)
+    );
+  }
+
+  return output.join('\n') + '\n';
+}
+
+function splitLines(text: string): string[] {
+  const lines = text.split('\n');
+  if (lines[lines.length - 1] === '') lines.pop();
+  return lines;
+}
+
+/**
+ * LCS over the lines between the common prefix and suffix
+ */
+function diffLines(before: string[], after: string[]): DiffLine[] {
+  let prefix = 0;
+  while (
+    prefix < before.length &&
+    prefix < after.length &&
+    before[prefix] === after[prefix]
+  ) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  while (
+    suffix < before.length - prefix &&
+    suffix < after.length - prefix &&
+    before[before.length - 1 - suffix] === after[after.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const a = before.slice(prefix, before.length - suffix);
+  const b = after.slice(prefix, after.length - suffix);
+  const width = b.length + 1;
+  const lcs = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i * width + j] =
+        a[i] === b[j]
+          ? lcs[(i + 1) * width + j + 1]! + 1
+          : Math.max(lcs[(i + 1) * width + j]!, lcs[i * width + j + 1]!);
+    }
+  }
+
+  const lines: DiffLine[] = before
+    .slice(0, prefix)
+    .map((text): DiffLine => ({ op: ' ', text }));
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push({ op: ' ', text: a[i]! });
+      i++;
+      j++;
+    } else if (
+      i < a.length &&
+      (j === b.length || lcs[(i + 1) * width + j]! >= lcs[i * width + j + 1]!)
+    ) {
+      lines.push({ op: '-', text: a[i]! });
+      i++;
+    } else {
+      lines.push({ op: '+', text: b[j]! });
+      j++;
+    }
+  }
+
+  lines.push(
+    ...before
+      .slice(before.length - suffix)
+      .map((text): DiffLine => ({ op: ' ', text }))
+  );
+
+  return lines;
+}
+
+/**
+ * [start, end) ranges of changed lines with context, merging close hunks
+ */
+function hunkRanges(lines: DiffLine[], context: number): Array<[number, number]> {
+  const ranges: Array<[number, number]> = [];
+
+  lines.forEach((line, index) => {
+    if (line.op === ' ') return;
+
+    const start = Math.max(0, index - context);
+    const end = Math.min(lines.length, index + context + 1);
+    const last = ranges[ranges.length - 1];
+
+    if (last && start <= last[1]) {
+      last[1] = Math.max(last[1], end);
+    } else {
+      ranges.push([start, end]);
+    }
+  });
+
+  return ranges;
+}
@@ -0,0 +1,6 @@
+// src/utils/version.ts
+
+import { name, version } from '../../package.json';
+
+export const TOOL_NAME: string = name;
+export const TOOL_VERSION: string = version;
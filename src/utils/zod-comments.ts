@@ -5,11 +5,17 @@ import type { FieldValidationType } from '../field-config-schema';
 /**
  * Generate Zod comment for prisma-zod-generator
  * https://github.com/omar-dulaimi/zod-prisma-types
+ *
+ * columnType is the Prisma type: BigInt columns get bigint literals
  */
-export function buildZodComment(validation?: FieldValidationType): string | undefined {
+export function buildZodComment(
+  validation?: FieldValidationType,
+  columnType?: string
+): string | undefined {
   if (!validation) return undefined;
 
   const parts: string[] = [];
+  const bigint = columnType === 'BigInt';
 
   // Type validations first (email, url, uuid, cuid)
   if (validation.email) {
@@ -36,14 +42,14 @@ export function buildZodComment(validation?: FieldValidationType): string | unde
     parts.push(`regex(/${validation.pattern}/)`);
   }
 
-  // Number validations
+  // Number validations - z.bigint() has no int() and takes 1n literals
   if (validation.min !== undefined) {
-    parts.push(`min(${validation.min})`);
+    parts.push(`min(${bigint ? `${Math.ceil(validation.min)}n` : validation.min})`);
   }
   if (validation.max !== undefined) {
-    parts.push(`max(${validation.max})`);
+    parts.push(`max(${bigint ? `${Math.floor(validation.max)}n` : validation.max})`);
   }
-  if (validation.int) {
+  if (validation.int && !bigint) {
     parts.push('int()');
   }
   if (validation.positive) {
@@ -53,12 +59,20 @@ export function buildZodComment(validation?: FieldValidationType): string | unde
     parts.push('negative()');
   }
 
-  // Array validations - use length() not min/max
+  // Date validations
+  if (validation.minDate !== undefined) {
+    parts.push(`min(new Date(${JSON.stringify(validation.minDate)}))`);
+  }
+  if (validation.maxDate !== undefined) {
+    parts.push(`max(new Date(${JSON.stringify(validation.maxDate)}))`);
+  }
+
+  // Array validations - min()/max() bound the number of items on lists
   if (validation.minItems !== undefined) {
-    parts.push(`length(${validation.minItems})`);
+    parts.push(`min(${validation.minItems})`);
   }
   if (validation.maxItems !== undefined) {
-    parts.push(`length(${validation.maxItems})`);
+    parts.push(`max(${validation.maxItems})`);
   }
 
   // Custom
@@ -69,4 +83,89 @@ export function buildZodComment(validation?: FieldValidationType): string | unde
   if (parts.length === 0) return undefined;
 
   return `/// @zod.${parts.join('.')}`;
-}
\ No newline at end of file
+}
+/**
+ * Parse a zod-prisma-types comment back into validation rules
+ * Inverse of buildZodComment; min()/max() mean lengths on String columns
+ * and item counts on lists
+ */
+export function parseZodComment(
+  comment: string,
+  columnType: 'string' | 'number' | 'list'
+): FieldValidationType | undefined {
+  const bounds = {
+    string: ['minLength', 'maxLength'],
+    number: ['min', 'max'],
+    list: ['minItems', 'maxItems']
+  } as const;
+  const [minKey, maxKey] = bounds[columnType];
+  const match = comment.match(/@zod\.(.+)$/m);
+  if (!match?.[1]) return undefined;
+
+  const validation: NonNullable<FieldValidationType> = {};
+  const custom: string[] = [];
+  let rest = match[1].trim();
+
+  while (rest.length > 0) {
+    const call = rest.match(/^(\w+)\(/);
+    if (!call?.[1]) break;
+
+    const name = call[1];
+    const argsStart = call[0].length;
+    // Regex and date arguments may contain ")" - close on "/)" or "))" instead
+    const argsEnd = rest[argsStart] === '/'
+      ? rest.indexOf('/)', argsStart + 1) + 1
+      : rest.startsWith('new Date(', argsStart)
+        ? rest.indexOf('))', argsStart) + 1
+        : rest.indexOf(')', argsStart);
+    if (argsEnd < argsStart) break;
+
+    const args = rest.slice(argsStart, argsEnd);
+    rest = rest.slice(argsEnd + 1).replace(/^\./, '');
+
+    switch (name) {
+      case 'email':
+      case 'url':
+      case 'uuid':
+      case 'cuid':
+      case 'int':
+      case 'positive':
+      case 'negative':
+        validation[name] = true;
+        break;
+      case 'min':
+        if (args.startsWith('new Date(')) {
+          validation.minDate = parseDateArg(args);
+        } else {
+          validation[minKey] = Number(args.replace(/n$/, ''));
+        }
+        break;
+      case 'max':
+        if (args.startsWith('new Date(')) {
+          validation.maxDate = parseDateArg(args);
+        } else {
+          validation[maxKey] = Number(args.replace(/n$/, ''));
+        }
+        break;
+      case 'regex':
+        validation.pattern = args.slice(1, -1);
+        break;
+      case 'length':
+        // Older schemas wrote it for both minItems and maxItems - not recoverable
+        break;
+      default:
+        custom.push(`${name}(${args})`);
+    }
+  }
+
+  if (custom.length > 0) {
+    validation.custom = custom.join('.');
+  }
+
+  return Object.keys(validation).length > 0 ? validation : undefined;
+}
+
+function parseDateArg(args: string): string {
+  const value = args.slice('new Date('.length, -1);
+  return value.startsWith('"') ? JSON.parse(value) : value;
+}
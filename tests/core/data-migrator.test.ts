@@ -0,0 +1,768 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import {
+  DataMigrator,
+  planModelMigration,
+  type EAVInstance,
+  type MigrationPlanConfig,
+} from "../../src/core/data-migrator";
+import type { Config } from "../../src/types/config";
+import type {
+  ComponentEntityType,
+  ModelConfigType,
+} from "../../src/field-config-schema";
+
+const baseConfig: MigrationPlanConfig = {
+  convention: "PascalCase",
+  i18nEnabled: true,
+  i18nTableNaming: "${identifier}_translation",
+  defaultLang: "en",
+};
+
+const postModel: ModelConfigType = {
+  slug: "post",
+  name: "Post",
+  fields: [
+    {
+      key: "slug",
+      label: "Slug",
+      type: "text",
+      required: true,
+      translatable: false,
+    },
+    { key: "title", label: "Title", type: "text", required: true },
+    {
+      key: "views",
+      label: "Views",
+      type: "number",
+      required: false,
+      translatable: false,
+      config: { type: "number", format: "integer" },
+    },
+    {
+      key: "author",
+      label: "Author",
+      type: "relation",
+      required: false,
+      config: {
+        type: "relation",
+        relationType: "manyToOne",
+        targetModel: "user",
+        displayField: "name",
+        cascade: "restrict",
+      },
+    },
+    {
+      key: "categories",
+      label: "Categories",
+      type: "relation",
+      required: false,
+      config: {
+        type: "relation",
+        relationType: "manyToMany",
+        targetModel: "category",
+        displayField: "name",
+        cascade: "restrict",
+      },
+    },
+  ],
+};
+
+const seoComponent: ComponentEntityType = {
+  slug: "seo",
+  name: "SEO",
+  fields: [
+    { key: "meta_title", label: "Meta Title", type: "text", required: false },
+    {
+      key: "no_index",
+      label: "No Index",
+      type: "boolean",
+      required: false,
+      translatable: false,
+    },
+  ],
+};
+
+describe("planModelMigration", () => {
+  it("writes non-translatable values to the main table", () => {
+    const instances: EAVInstance[] = [
+      {
+        id: "p1",
+        model: "post",
+        lang: "en",
+        values: { slug: "hello", title: "Hello", views: "42", author: "u1" },
+      },
+    ];
+
+    const plan = planModelMigration(postModel, instances, new Map(), baseConfig);
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.records[0]).toEqual({
+      model: "Post",
+      instanceId: "p1",
+      data: { id: "p1", slug: "hello", views: 42 },
+    });
+  });
+
+  it("defers optional to-one FKs and connects oneToMany targets", () => {
+    const model: ModelConfigType = {
+      ...postModel,
+      fields: [
+        ...postModel.fields,
+        {
+          key: "editor",
+          label: "Editor",
+          type: "relation",
+          required: true,
+          config: {
+            type: "relation",
+            relationType: "manyToOne",
+            targetModel: "user",
+            displayField: "name",
+          },
+        },
+        {
+          key: "comments",
+          label: "Comments",
+          type: "relation",
+          required: false,
+          config: {
+            type: "relation",
+            relationType: "oneToMany",
+            targetModel: "comment",
+            displayField: "body",
+          },
+        },
+      ],
+    };
+    const instances: EAVInstance[] = [
+      {
+        id: "p1",
+        model: "post",
+        lang: "en",
+        values: {
+          slug: "hello",
+          title: "Hello",
+          author: "u1",
+          editor: "u2",
+          comments: ["c1", { id: "c2" }],
+        },
+      },
+    ];
+
+    const plan = planModelMigration(model, instances, new Map(), baseConfig);
+
+    expect(plan.records[0]!.data).toEqual({ id: "p1", slug: "hello", editor_id: "u2" });
+    expect(plan.deferred).toEqual([
+      {
+        model: "Post",
+        instanceId: "p1",
+        where: { id: "p1" },
+        data: {
+          author_id: "u1",
+          comments: { connect: [{ id: "c1" }, { id: "c2" }] },
+        },
+      },
+    ]);
+  });
+
+  it("splits translatable values into the translation table by lang", () => {
+    const instances: EAVInstance[] = [
+      {
+        id: "r1",
+        model: "post",
+        entity: "p1",
+        lang: "es",
+        values: { slug: "ignored", title: "Hola" },
+      },
+      {
+        id: "r2",
+        model: "post",
+        entity: "p1",
+        lang: "en",
+        values: { slug: "hello", title: "Hello" },
+      },
+    ];
+
+    const plan = planModelMigration(postModel, instances, new Map(), baseConfig);
+    const translations = plan.records.filter(
+      (r) => r.model === "PostTranslation"
+    );
+
+    expect(plan.records[0]!.data).toEqual({ id: "p1", slug: "hello" });
+    expect(translations.map((t) => t.data)).toEqual([
+      { post_id: "p1", lang: "es", title: "Hola" },
+      { post_id: "p1", lang: "en", title: "Hello" },
+    ]);
+  });
+
+  it("keeps translatable values in the main table when i18n is disabled", () => {
+    const instances: EAVInstance[] = [
+      { id: "p1", model: "post", values: { slug: "hello", title: "Hello" } },
+    ];
+
+    const plan = planModelMigration(postModel, instances, new Map(), {
+      ...baseConfig,
+      i18nEnabled: false,
+    });
+
+    expect(plan.records).toHaveLength(1);
+    expect(plan.records[0]!.data).toEqual({
+      id: "p1",
+      slug: "hello",
+      title: "Hello",
+    });
+  });
+
+  it("defers junction rows for manyToMany relations", () => {
+    const instances: EAVInstance[] = [
+      {
+        id: "p1",
+        model: "post",
+        lang: "en",
+        values: {
+          slug: "hello",
+          title: "Hello",
+          categories: ["c1", { id: "c2" }],
+        },
+      },
+    ];
+
+    const plan = planModelMigration(postModel, instances, new Map(), baseConfig);
+
+    expect(plan.deferred).toEqual([
+      {
+        model: "PostCategory",
+        instanceId: "p1",
+        data: { post_id: "p1", category_id: "c1", order: 0 },
+        key: "PostCategory:category_id=c1,post_id=p1",
+      },
+      {
+        model: "PostCategory",
+        instanceId: "p1",
+        data: { post_id: "p1", category_id: "c2", order: 1 },
+        key: "PostCategory:category_id=c2,post_id=p1",
+      },
+    ]);
+  });
+
+  it("writes ordered media junction rows with usage metadata", () => {
+    const model: ModelConfigType = {
+      slug: "post",
+      name: "Post",
+      fields: [
+        {
+          key: "gallery",
+          label: "Gallery",
+          type: "media",
+          required: false,
+          config: { type: "media", multiple: true },
+        },
+      ],
+    };
+    const instances: EAVInstance[] = [
+      {
+        id: "p1",
+        model: "post",
+        lang: "en",
+        values: {
+          gallery: [
+            "7",
+            { id: 9, alt: "Cover", crop: { x: 0, y: 0.1, width: 1, height: 0.5 }, focal: { x: 0.5, y: 0.4 } },
+          ],
+        },
+      },
+    ];
+
+    const plan = planModelMigration(model, instances, new Map(), {
+      ...baseConfig,
+      media: { name: "Asset", primaryKey: "asset_id", keyType: "Int" },
+    });
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.records).toEqual([
+      { model: "Post", instanceId: "p1", data: { id: "p1" } },
+      {
+        model: "PostGalleryMedia",
+        instanceId: "p1",
+        data: { post_id: "p1", media_id: 7, order: 0 },
+      },
+      {
+        model: "PostGalleryMedia",
+        instanceId: "p1",
+        data: {
+          post_id: "p1",
+          media_id: 9,
+          order: 1,
+          alt: "Cover",
+          crop_x: 0,
+          crop_y: 0.1,
+          crop_width: 1,
+          crop_height: 0.5,
+          focal_x: 0.5,
+          focal_y: 0.4,
+        },
+      },
+    ]);
+  });
+
+  it("fills component tables and their translations", () => {
+    const model: ModelConfigType = {
+      slug: "page",
+      name: "Page",
+      fields: [
+        {
+          key: "seo",
+          label: "SEO",
+          type: "component",
+          required: false,
+          config: { type: "component", slug: "seo", repeatable: false },
+        },
+      ],
+    };
+    const instances: EAVInstance[] = [
+      {
+        id: "pg1",
+        model: "page",
+        lang: "en",
+        values: { seo: { meta_title: "Home", no_index: "true" } },
+      },
+      {
+        id: "pg1-de",
+        model: "page",
+        entity: "pg1",
+        lang: "de",
+        values: { seo: { meta_title: "Start" } },
+      },
+    ];
+
+    const plan = planModelMigration(
+      model,
+      instances,
+      new Map([["seo", seoComponent]]),
+      baseConfig
+    );
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.records.map((r) => [r.model, r.data])).toEqual([
+      ["Page", { id: "pg1" }],
+      ["PageSeo", { id: "pg1_seo_0", page_id: "pg1", no_index: true }],
+      [
+        "PageSeoTranslation",
+        { page_seo_id: "pg1_seo_0", lang: "en", meta_title: "Home" },
+      ],
+      [
+        "PageSeoTranslation",
+        { page_seo_id: "pg1_seo_0", lang: "de", meta_title: "Start" },
+      ],
+    ]);
+  });
+
+  it("writes dynamic zone blocks in order with their component rows", () => {
+    const model: ModelConfigType = {
+      slug: "page",
+      name: "Page",
+      fields: [
+        {
+          key: "blocks",
+          label: "Blocks",
+          type: "component",
+          required: false,
+          config: { type: "component", components: ["seo", "quote"], repeatable: false },
+        },
+      ],
+    };
+    const quote: ComponentEntityType = {
+      slug: "quote",
+      name: "Quote",
+      fields: [{ key: "body", label: "Body", type: "text", required: false }],
+    };
+    const components = new Map([
+      ["seo", seoComponent],
+      ["quote", quote],
+    ]);
+    const blocks = (body: string) => [
+      { __component: "quote", body },
+      { __component: "seo", meta_title: "Title", no_index: true },
+    ];
+    const instances: EAVInstance[] = [
+      { id: "r1", model: "page", entity: "p1", lang: "en", values: { blocks: blocks("Hi") } },
+      { id: "r2", model: "page", entity: "p1", lang: "es", values: { blocks: blocks("Hola") } },
+    ];
+
+    const plan = planModelMigration(model, instances, components, baseConfig);
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.records.map((r) => [r.model, r.data])).toEqual([
+      ["Page", { id: "p1" }],
+      ["PageBlock", { id: "p1_blocks_0", page_id: "p1", order: 0, type: "quote" }],
+      ["PageBlockQuote", { id: "p1_blocks_0_quote_0", page_block_id: "p1_blocks_0" }],
+      ["PageBlockQuoteTranslation", { page_block_quote_id: "p1_blocks_0_quote_0", lang: "en", body: "Hi" }],
+      ["PageBlockQuoteTranslation", { page_block_quote_id: "p1_blocks_0_quote_0", lang: "es", body: "Hola" }],
+      ["PageBlock", { id: "p1_blocks_1", page_id: "p1", order: 1, type: "seo" }],
+      ["PageBlockSeo", { id: "p1_blocks_1_seo_0", page_block_id: "p1_blocks_1", no_index: true }],
+      ["PageBlockSeoTranslation", { page_block_seo_id: "p1_blocks_1_seo_0", lang: "en", meta_title: "Title" }],
+      ["PageBlockSeoTranslation", { page_block_seo_id: "p1_blocks_1_seo_0", lang: "es", meta_title: "Title" }],
+    ]);
+  });
+
+  it("reports dynamic zone blocks of an unlisted component", () => {
+    const model: ModelConfigType = {
+      slug: "page",
+      name: "Page",
+      fields: [
+        {
+          key: "blocks",
+          label: "Blocks",
+          type: "component",
+          required: false,
+          config: { type: "component", components: ["seo"], repeatable: false },
+        },
+      ],
+    };
+    const instances: EAVInstance[] = [
+      { id: "p1", model: "page", lang: "en", values: { blocks: [{ __component: "hero" }] } },
+    ];
+
+    const plan = planModelMigration(model, instances, new Map([["seo", seoComponent]]), baseConfig);
+
+    expect(plan.issues).toEqual([
+      {
+        model: "page",
+        instanceId: "p1",
+        message: 'Block 0 of dynamic zone "blocks" has __component "hero", expected one of seo',
+      },
+    ]);
+  });
+
+  it("writes nested component rows under their component row", () => {
+    const model: ModelConfigType = {
+      slug: "page",
+      name: "Page",
+      fields: [
+        {
+          key: "hero",
+          label: "Hero",
+          type: "component",
+          required: false,
+          config: { type: "component", slug: "hero", repeatable: false },
+        },
+      ],
+    };
+    const hero: ComponentEntityType = {
+      slug: "hero",
+      name: "Hero",
+      fields: [
+        {
+          key: "buttons",
+          label: "Buttons",
+          type: "component",
+          required: false,
+          config: { type: "component", slug: "button", repeatable: true },
+        },
+      ],
+    };
+    const button: ComponentEntityType = {
+      slug: "button",
+      name: "Button",
+      fields: [{ key: "label", label: "Label", type: "text", required: false }],
+    };
+    const components = new Map([
+      ["hero", hero],
+      ["button", button],
+    ]);
+    const instances: EAVInstance[] = [
+      { id: "r1", model: "page", entity: "p1", lang: "en", values: { hero: { buttons: [{ label: "Go" }] } } },
+      { id: "r2", model: "page", entity: "p1", lang: "es", values: { hero: { buttons: [{ label: "Ir" }] } } },
+    ];
+
+    const plan = planModelMigration(model, instances, components, baseConfig);
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.records.map((r) => [r.model, r.data])).toEqual([
+      ["Page", { id: "p1" }],
+      ["PageHero", { id: "p1_hero_0", page_id: "p1" }],
+      ["PageHeroButton", { id: "p1_hero_0_buttons_0", page_hero_id: "p1_hero_0", order: 0 }],
+      ["PageHeroButtonTranslation", { page_hero_button_id: "p1_hero_0_buttons_0", lang: "en", label: "Go" }],
+      ["PageHeroButtonTranslation", { page_hero_button_id: "p1_hero_0_buttons_0", lang: "es", label: "Ir" }],
+    ]);
+  });
+
+  it("reports entities with values it cannot coerce", () => {
+    const instances: EAVInstance[] = [
+      {
+        id: "p1",
+        model: "post",
+        lang: "en",
+        values: { slug: "ok", title: "Ok", views: "many" },
+      },
+      { id: "p2", model: "post", lang: "en", values: { title: "No slug" } },
+      { id: "p3", model: "post", lang: "en", values: { slug: "p3", title: "Fine" } },
+    ];
+
+    const plan = planModelMigration(postModel, instances, new Map(), baseConfig);
+
+    expect(plan.issues).toEqual([
+      {
+        model: "post",
+        instanceId: "p1",
+        message: 'Cannot coerce "many" to number for field "views"',
+      },
+      {
+        model: "post",
+        instanceId: "p2",
+        message: 'Missing value for required field "slug"',
+      },
+    ]);
+    expect(plan.records.filter((r) => r.model === "Post")).toHaveLength(1);
+  });
+});
+
+describe("DataMigrator", () => {
+  const createSource = () => ({
+    content_model: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: "model-1",
+          slug: "post",
+          definition: JSON.stringify(postModel),
+        },
+      ]),
+    },
+    content_instance: {
+      findMany: vi.fn().mockResolvedValue([
+        {
+          id: "p1",
+          model_id: "model-1",
+          lang: "en",
+          attribute_values: JSON.stringify({ slug: "hello", title: "Hello" }),
+        },
+        {
+          id: "broken",
+          model_id: "model-1",
+          lang: "en",
+          attribute_values: "{not json",
+        },
+      ]),
+    },
+    $disconnect: vi.fn(),
+  });
+
+  const createTarget = () => ({
+    post: { create: vi.fn().mockResolvedValue({}) },
+    postTranslation: { create: vi.fn().mockResolvedValue({}) },
+  });
+
+  const config: Config = {
+    connection: "file:./eav.db",
+    tables: { models: "content_model" },
+    i18n: { enabled: true, defaultLang: "en", tableNaming: "${identifier}_translation" },
+  };
+
+  let source: ReturnType<typeof createSource>;
+  let target: ReturnType<typeof createTarget>;
+
+  beforeEach(() => {
+    source = createSource();
+    target = createTarget();
+  });
+
+  it("requires both clients", () => {
+    expect(() => new DataMigrator(config, source, null)).toThrow(
+      /Target Prisma client is required/
+    );
+  });
+
+  it("resolves model ids and writes planned rows", async () => {
+    const migrator = new DataMigrator(config, source, target);
+    const result = await migrator.migrate();
+
+    expect(result.instancesRead).toBe(1);
+    expect(result.recordsWritten).toEqual({ Post: 1, PostTranslation: 1 });
+    expect(target.post.create).toHaveBeenCalledWith({
+      data: { id: "p1", slug: "hello" },
+    });
+    expect(target.postTranslation.create).toHaveBeenCalledWith({
+      data: { post_id: "p1", lang: "en", title: "Hello" },
+    });
+    expect(result.issues).toEqual([
+      expect.objectContaining({ instanceId: "broken" }),
+    ]);
+  });
+
+  it("does not write in dry-run mode", async () => {
+    const migrator = new DataMigrator(config, source, target);
+    const result = await migrator.migrate({ dryRun: true });
+
+    expect(result.dryRun).toBe(true);
+    expect(result.recordsWritten).toEqual({ Post: 1, PostTranslation: 1 });
+    expect(target.post.create).not.toHaveBeenCalled();
+  });
+
+  it("reports rows the target database rejects", async () => {
+    target.post.create.mockRejectedValueOnce(new Error("Unique constraint"));
+
+    const migrator = new DataMigrator(config, source, target);
+    const result = await migrator.migrate();
+
+    expect(result.recordsWritten).toEqual({ PostTranslation: 1 });
+    expect(result.issues).toContainEqual({
+      model: "Post",
+      instanceId: "p1",
+      message: "Failed to write row: Unique constraint",
+    });
+  });
+
+  it("writes targets of required relations first and updates the rest", async () => {
+    const author: ModelConfigType = {
+      slug: "user",
+      name: "User",
+      fields: [
+        { key: "name", label: "Name", type: "text", required: true, translatable: false },
+      ],
+    };
+    const post: ModelConfigType = {
+      ...postModel,
+      fields: postModel.fields.map((f) =>
+        f.key === "author" ? { ...f, required: true } : f
+      ),
+    };
+    const reviewed: ModelConfigType = {
+      ...author,
+      fields: [
+        ...author.fields,
+        {
+          key: "favorite",
+          label: "Favorite",
+          type: "relation",
+          required: false,
+          config: {
+            type: "relation",
+            relationType: "manyToOne",
+            targetModel: "post",
+            displayField: "slug",
+          },
+        },
+      ],
+    };
+    source.content_model.findMany.mockResolvedValue([
+      { id: "model-1", slug: "post", definition: JSON.stringify(post) },
+      { id: "model-2", slug: "user", definition: JSON.stringify(reviewed) },
+    ]);
+    source.content_instance.findMany.mockResolvedValue([
+      {
+        id: "p1",
+        model_id: "model-1",
+        lang: "en",
+        attribute_values: JSON.stringify({ slug: "hello", title: "Hello", author: "u1" }),
+      },
+      {
+        id: "u1",
+        model_id: "model-2",
+        lang: "en",
+        attribute_values: JSON.stringify({ name: "Ann", favorite: "p1" }),
+      },
+    ]);
+    const written: string[] = [];
+    const delegate = (model: string) => ({
+      create: vi.fn(async ({ data }) => written.push(`create ${model}:${data.id ?? data.lang}`)),
+      update: vi.fn(async ({ where }) => written.push(`update ${model}:${where.id}`)),
+    });
+    const client = {
+      user: delegate("User"),
+      post: delegate("Post"),
+      postTranslation: delegate("PostTranslation"),
+    };
+
+    const result = await new DataMigrator(config, source, client).migrate();
+
+    expect(result.issues).toEqual([]);
+    expect(written).toEqual([
+      "create User:u1",
+      "create Post:p1",
+      "create PostTranslation:en",
+      "update User:u1",
+    ]);
+    expect(client.user.update).toHaveBeenCalledWith({
+      where: { id: "u1" },
+      data: { favorite_id: "p1" },
+    });
+    expect(result.recordsWritten).toEqual({ User: 1, Post: 1, PostTranslation: 1 });
+  });
+
+  it("writes junction rows of a relation declared on both sides once", async () => {
+    const category: ModelConfigType = {
+      slug: "category",
+      name: "Category",
+      fields: [
+        {
+          key: "posts",
+          label: "Posts",
+          type: "relation",
+          required: false,
+          config: {
+            type: "relation",
+            relationType: "manyToMany",
+            targetModel: "post",
+            displayField: "slug",
+          },
+        },
+      ],
+    };
+    source.content_model.findMany.mockResolvedValue([
+      { id: "model-1", slug: "post", definition: JSON.stringify(postModel) },
+      { id: "model-2", slug: "category", definition: JSON.stringify(category) },
+    ]);
+    source.content_instance.findMany.mockResolvedValue([
+      {
+        id: "p1",
+        model_id: "model-1",
+        lang: "en",
+        attribute_values: JSON.stringify({ slug: "hello", title: "Hello", categories: ["c1"] }),
+      },
+      {
+        id: "c1",
+        model_id: "model-2",
+        lang: "en",
+        attribute_values: JSON.stringify({ posts: ["p1"] }),
+      },
+    ]);
+    const client = {
+      ...target,
+      category: { create: vi.fn().mockResolvedValue({}) },
+      postCategory: { create: vi.fn().mockResolvedValue({}) },
+    };
+
+    const result = await new DataMigrator(config, source, client).migrate();
+
+    expect(result.issues).toEqual([]);
+    expect(client.postCategory.create).toHaveBeenCalledTimes(1);
+    expect(result.recordsWritten).toMatchObject({ PostCategory: 1 });
+  });
+
+  it("uses the instance mapper when configured", async () => {
+    source.content_instance.findMany.mockResolvedValue([
+      { uid: "x1", type: "post", data: { slug: "mapped", title: "Mapped" } },
+    ]);
+
+    const migrator = new DataMigrator(
+      {
+        ...config,
+        mapper: {
+          instance: (row: any) => ({
+            id: row.uid,
+            model: row.type,
+            lang: "en",
+            values: row.data,
+          }),
+        },
+      },
+      source,
+      target
+    );
+    await migrator.migrate();
+
+    expect(target.post.create).toHaveBeenCalledWith({
+      data: { id: "x1", slug: "mapped" },
+    });
+  });
+});
@@ -0,0 +1,73 @@
+// tests/core/factories-writer.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { generateFactories, writeFactories } from '../../src/core/factories-writer';
+import type { Config } from '../../src/types/config';
+
+const config: Config = {
+  input: {
+    models: [
+      {
+        slug: 'blog-post',
+        name: 'Blog Post',
+        fields: [
+          { key: 'title', label: 'Title', type: 'text', required: true },
+          {
+            key: 'cover',
+            label: 'Cover',
+            type: 'media',
+            required: false,
+            config: { type: 'media' }
+          }
+        ]
+      },
+      {
+        slug: 'gallery',
+        name: 'Gallery',
+        fields: [
+          {
+            key: 'images',
+            label: 'Images',
+            type: 'media',
+            required: true,
+            config: { type: 'media', multiple: true }
+          }
+        ]
+      }
+    ]
+  },
+  i18n: { enabled: true, tableNaming: '${identifier}_translation', defaultLang: 'en', locales: ['fr'] }
+} as Config;
+
+describe('generateFactories', () => {
+  it('writes a factory per model over the resolved definitions', async () => {
+    const { factories } = await generateFactories(config);
+
+    expect(factories).toContain("import { SeedFactory, type Seed, type SeedDefinitions } from 'eav-to-prisma';");
+    expect(factories).toContain('"locales": [\n      "fr"\n    ]');
+    expect(factories).toContain('export const blogPostFactory = {');
+    expect(factories).toContain('seedFactory.build("blog-post", seed, values)');
+    expect(factories).toContain('export const galleryFactory = {');
+  });
+
+  it('warns about models it cannot build records for', async () => {
+    const { warnings } = await generateFactories(config);
+
+    expect(warnings).toEqual([
+      'Factory for model "gallery" cannot build records: Media field "gallery.images" is required, pass media ids in values'
+    ]);
+  });
+});
+
+describe('writeFactories', () => {
+  it('writes a module without models', () => {
+    const source = writeFactories({
+      models: [],
+      components: [],
+      config: { convention: 'PascalCase', i18nEnabled: false, i18nTableNaming: '', defaultLang: 'en' }
+    });
+
+    expect(source).toMatch(/^\/\/ Seed factories of content models, written by eav-to-prisma\n/);
+    expect(source).toContain('export const seedFactory = new SeedFactory(');
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { writeFileSync, mkdirSync } from 'fs';
+import { writeFileSync, mkdirSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
 import { join } from 'path';
 import { defineConfig } from '../../src/types/config';
 import { Generator } from '../../src/core/generator';
@@ -94,15 +95,122 @@ model Media {
     // Verify Post model uses proper relations
     expectLine(result.schema, 'model Post {');
     expectLine(result.schema, 'featured_image_id String?');
+    expectLine(
+      result.schema,
+      'featured_image Media? @relation(fields: [featured_image_id], references: [id], onDelete: SetNull)'
+    );
     
-    // Gallery should be a proper relation (Media[]) not JSON
-    expectLine(result.schema, 'gallery Media[]');
+    // Gallery lists ordered usages in a junction table, not JSON
+    expectLine(result.schema, 'gallery PostGalleryMedia[]');
     expect(result.schema).not.toContain('gallery String'); // Not JSON fallback
+    expectLine(result.schema, 'model PostGalleryMedia {');
+    expectLine(result.schema, 'order Int @default(0)');
+    expectLine(result.schema, 'alt String?');
+    expectLine(result.schema, 'focal_x Float?');
+    expectLine(
+      result.schema,
+      'media Media @relation(fields: [media_id], references: [id], onDelete: Cascade)'
+    );
+    expectLine(result.schema, '@@index([post_id, order])');
     
     // Verify no warnings
     expect(result.warnings).toHaveLength(0);
   });
   
+  it('should relate media to a configured model and primary key', async () => {
+    const assetSchema = `
+model Asset {
+  asset_id Int    @id @default(autoincrement())
+  url      String
+}
+    `.trim();
+
+    const tempDir = mkdtempSync(join(tmpdir(), 'eav-asset-'));
+    const assetPath = join(tempDir, 'asset.prisma');
+    writeFileSync(assetPath, assetSchema);
+
+    const config = defineConfig({
+      input: {
+        models: [
+          {
+            slug: 'post',
+            name: 'Post',
+            fields: [
+              { key: 'cover', label: 'Cover', type: 'media', required: true, translatable: false },
+              {
+                key: 'gallery',
+                label: 'Gallery',
+                type: 'media',
+                required: false,
+                config: { type: 'media', multiple: true }
+              }
+            ]
+          }
+        ]
+      },
+      externalModels: assetPath,
+      media: { model: 'Asset' },
+      output: {
+        datasource: {
+          provider: 'sqlite',
+          url: 'env("DATABASE_URL")'
+        }
+      }
+    });
+
+    const generator = new Generator(config);
+    const result = await generator.generate();
+
+    expectLine(result.schema, 'cover_id Int');
+    expectLine(
+      result.schema,
+      'cover Asset @relation(fields: [cover_id], references: [asset_id], onDelete: Restrict)'
+    );
+    expectLine(result.schema, 'media_id Int');
+    expectLine(
+      result.schema,
+      'media Asset @relation(fields: [media_id], references: [asset_id], onDelete: Cascade)'
+    );
+    expect(await generator.validate(result)).toEqual([]);
+
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should warn when multiple media has no media model', async () => {
+    const config = defineConfig({
+      input: {
+        models: [
+          {
+            slug: 'post',
+            name: 'Post',
+            fields: [
+              {
+                key: 'gallery',
+                label: 'Gallery',
+                type: 'media',
+                required: false,
+                config: { type: 'media', multiple: true }
+              }
+            ]
+          }
+        ]
+      },
+      output: {
+        datasource: {
+          provider: 'sqlite',
+          url: 'env("DATABASE_URL")'
+        }
+      }
+    });
+
+    const result = await new Generator(config).generate();
+
+    expectLine(result.schema, 'gallery_id String?');
+    expect(result.warnings).toContain(
+      'Multiple media field "gallery" in model "post" stores a single gallery_id: add the media model "Media" to externalModels'
+    );
+  });
+
   it('should filter external models by include list', async () => {
     const mediaSchema = `
 model Media {
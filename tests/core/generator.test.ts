@@ -234,6 +234,736 @@ describe("Generator", () => {
     });
   });
 
+  describe("select enums", () => {
+    const config = (provider: "sqlite" | "postgresql"): Config => ({
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: [
+              {
+                key: "status",
+                label: "Status",
+                type: "select",
+                required: true,
+                translatable: false,
+                config: {
+                  type: "select",
+                  options: ["draft", { value: "in-review", label: "In review" }],
+                  default: "in-review",
+                },
+              },
+              {
+                key: "tags",
+                label: "Tags",
+                type: "select",
+                required: false,
+                translatable: false,
+                config: { type: "select", options: ["a", "b"], multiple: true },
+              },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider, url: 'env("DATABASE_URL")' } },
+    });
+
+    it("emits native enums for single selects", async () => {
+      const result = await new Generator(config("postgresql")).generate();
+
+      expectLine(result.schema, "status PostStatus @default(in_review)");
+      expectLine(result.schema, "enum PostStatus {");
+      expectLine(result.schema, 'in_review @map("in-review")');
+      expect(result.prismaSchema.enums?.map((e) => e.name)).toEqual(["PostStatus", "PostTags"]);
+    });
+
+    it("falls back to String columns on SQLite", async () => {
+      const result = await new Generator(config("sqlite")).generate();
+
+      expectLine(result.schema, 'status String @default("in-review")');
+      expect(result.schema).not.toContain("enum ");
+      expect(result.prismaSchema.enums).toBeUndefined();
+    });
+
+    it("stores multi-selects as enum lists on PostgreSQL", async () => {
+      const result = await new Generator(config("postgresql")).generate();
+
+      expectLine(result.schema, "tags PostTags[]");
+      expectLine(result.schema, "enum PostTags {");
+    });
+
+    it("stores multi-selects as Json on MySQL", async () => {
+      const mysql = config("postgresql");
+      mysql.output = { datasource: { provider: "mysql", url: 'env("DATABASE_URL")' } };
+      const result = await new Generator(mysql).generate();
+
+      expectLine(result.schema, "tags Json?");
+      expect(result.schema).not.toContain("enum PostTags");
+    });
+
+    it("stores multi-selects in a value table on SQLite", async () => {
+      const result = await new Generator(config("sqlite")).generate();
+
+      expectLine(result.schema, "tags PostTagsValue[]");
+      expectLine(result.schema, "model PostTagsValue {");
+      expectLine(result.schema, "post Post @relation(fields: [post_id], references: [id], onDelete: Cascade)");
+      expectLine(result.schema, "@@unique([post_id, value])");
+    });
+
+    it("keeps item count validation on multi-selects", async () => {
+      const withLimits = config("postgresql");
+      const input = withLimits.input as { models: any[] };
+      input.models[0].fields[1].validation = { minItems: 1, maxItems: 3 };
+
+      const result = await new Generator(withLimits).generate();
+
+      expect(result.schema).toMatch(/\/\/\/ @zod\.min\(1\)\.max\(3\)\n\s+tags\s+PostTags\[\]/);
+    });
+
+    it("names component enums after the component table", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            {
+              slug: "page",
+              name: "Page",
+              fields: [
+                {
+                  key: "hero",
+                  label: "Hero",
+                  type: "component",
+                  config: { type: "component", slug: "hero" },
+                },
+              ],
+            },
+          ],
+          components: [
+            {
+              slug: "hero",
+              name: "Hero",
+              fields: [
+                {
+                  key: "layout",
+                  label: "Layout",
+                  type: "select",
+                  required: true,
+                  translatable: false,
+                  config: { type: "select", options: ["left", "right"] },
+                },
+              ],
+            },
+          ],
+        },
+        output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+      }).generate();
+
+      expectLine(result.schema, "layout PageHeroLayout");
+      expectLine(result.schema, "enum PageHeroLayout {");
+    });
+  });
+
+  describe("defaults", () => {
+    const generate = (fields: any[]) =>
+      new Generator({
+        input: { models: [{ slug: "post", name: "Post", fields }] },
+      }).generate();
+
+    it("writes defaults from field configs", async () => {
+      const result = await generate([
+        { key: "title", label: "Title", type: "text", config: { type: "text", default: "Untitled" } },
+        { key: "views", label: "Views", type: "number", config: { type: "number", format: "integer", default: 0 } },
+        { key: "draft", label: "Draft", type: "boolean", config: { type: "boolean", default: true } },
+        { key: "published_at", label: "Published", type: "date", config: { type: "date", format: "datetime", default: "now" } },
+        { key: "starts_on", label: "Starts", type: "date", config: { type: "date", format: "date", default: "2024-06-01" } },
+      ]);
+
+      expectLine(result.schema, 'title String? @default("Untitled")');
+      expectLine(result.schema, "views Int? @default(0)");
+      expectLine(result.schema, "draft Boolean? @default(true)");
+      expectLine(result.schema, "published_at DateTime? @default(now())");
+      expectLine(result.schema, 'starts_on DateTime? @default("2024-06-01T00:00:00.000Z")');
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("warns when a default fails the field's validation", async () => {
+      const result = await generate([
+        { key: "slug", label: "Slug", type: "text", validation: { minLength: 5, pattern: "^[a-z-]+$" }, config: { type: "text", default: "A b" } },
+        { key: "rating", label: "Rating", type: "number", validation: { min: 1, max: 5 }, config: { type: "number", default: 0 } },
+      ]);
+
+      expectLine(result.schema, 'slug String? @default("A b")');
+      expect(result.warnings).toEqual([
+        'Default of field "slug" in model "post" fails validation: shorter than minLength 5, does not match pattern ^[a-z-]+$',
+        'Default of field "rating" in model "post" fails validation: less than min 1',
+      ]);
+    });
+
+    it("skips defaults that cannot be written", async () => {
+      const result = await generate([
+        { key: "status", label: "Status", type: "select", config: { type: "select", options: ["draft"], default: "archived" } },
+        { key: "due", label: "Due", type: "date", config: { type: "date", default: "someday" } },
+        { key: "views", label: "Views", type: "number", config: { type: "number", format: "integer", default: 1.5 } },
+      ]);
+
+      expect(result.schema).not.toContain("@default(\"archived\")");
+      expect(result.schema).not.toContain("someday");
+      expect(result.schema).not.toContain("@default(1.5)");
+      expect(result.warnings).toEqual([
+        'Default of field "status" in model "post" is not written: "archived" is not one of the options',
+        'Default of field "due" in model "post" is not written: "someday" is not a date or now()',
+        'Default of field "views" in model "post" is not written: 1.5 is not an integer',
+      ]);
+    });
+  });
+
+  describe("number formats", () => {
+    const config = (provider: "sqlite" | "postgresql"): Config => ({
+      input: {
+        models: [
+          {
+            slug: "product",
+            name: "Product",
+            fields: [
+              { key: "price", label: "Price", type: "number", required: true, validation: { min: 0 }, config: { type: "number", format: "currency", precision: 12, step: 0.01 } },
+              { key: "views", label: "Views", type: "number", required: true, validation: { min: 0, int: true }, config: { type: "number", format: "bigint", default: 0 } },
+              { key: "discount", label: "Discount", type: "number", required: false, config: { type: "number", format: "percentage" } },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider, url: 'env("DATABASE_URL")' } },
+    });
+
+    it("maps currency to Decimal and bigint to BigInt", async () => {
+      const result = await new Generator(config("postgresql")).generate();
+
+      expectLine(result.schema, "price Decimal @db.Decimal(12, 2)");
+      expectLine(result.schema, "views BigInt @default(0)");
+      expectLine(result.schema, "discount Float?");
+      expect(result.schema).toContain("/// @zod.min(0)\n  price");
+      expect(result.schema).toContain("/// @zod.min(0n)\n  views");
+    });
+
+    it("leaves out native Decimal types on SQLite", async () => {
+      const result = await new Generator(config("sqlite")).generate();
+
+      expectLine(result.schema, "price Decimal");
+      expect(result.schema).not.toContain("@db.");
+    });
+  });
+
+  describe("date formats", () => {
+    const config = (
+      provider: "sqlite" | "postgresql" | "mysql",
+      timezone?: boolean
+    ): Config => ({
+      input: {
+        models: [
+          {
+            slug: "event",
+            name: "Event",
+            fields: [
+              { key: "day", label: "Day", type: "date", required: true, validation: { minDate: "2024-01-01" }, config: { type: "date", format: "date" } },
+              { key: "opens_at", label: "Opens at", type: "date", required: false, config: { type: "date", format: "time", default: "09:00" } },
+              { key: "starts_at", label: "Starts at", type: "date", required: false, config: { type: "date", format: "datetime" } },
+              { key: "ends_at", label: "Ends at", type: "date", required: false, config: { type: "date", format: "datetime", timezone: false } },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider, url: 'env("DATABASE_URL")', timezone } },
+    });
+
+    it("maps formats to PostgreSQL date, time and timestamp types", async () => {
+      const result = await new Generator(config("postgresql")).generate();
+
+      expectLine(result.schema, "day DateTime @db.Date");
+      expectLine(result.schema, 'opens_at DateTime? @db.Time(3) @default("1970-01-01T09:00:00.000Z")');
+      expectLine(result.schema, "starts_at DateTime?");
+      expect(result.schema).toContain('/// @zod.min(new Date("2024-01-01"))\n  day');
+    });
+
+    it("keeps offsets when the datasource is timezone-aware", async () => {
+      const postgres = await new Generator(config("postgresql", true)).generate();
+      const mysql = await new Generator(config("mysql", true)).generate();
+
+      expectLine(postgres.schema, "starts_at DateTime? @db.Timestamptz(3)");
+      expectLine(postgres.schema, 'opens_at DateTime? @db.Timetz(3) @default("1970-01-01T09:00:00.000Z")');
+      expectLine(postgres.schema, "ends_at DateTime?");
+      expectLine(mysql.schema, "starts_at DateTime? @db.Timestamp(3)");
+      expectLine(mysql.schema, 'opens_at DateTime? @db.Time(3) @default("1970-01-01T09:00:00.000Z")');
+    });
+
+    it("leaves out native date types on SQLite", async () => {
+      const result = await new Generator(config("sqlite", true)).generate();
+
+      expectLine(result.schema, "day DateTime");
+      expect(result.schema).not.toContain("@db.");
+    });
+  });
+
+  describe("string columns", () => {
+    const config = (provider: "sqlite" | "postgresql" | "mysql"): Config => ({
+      input: {
+        models: [
+          {
+            slug: "article",
+            name: "Article",
+            fields: [
+              { key: "title", label: "Title", type: "text", required: true, translatable: true, validation: { maxLength: 300 } },
+              { key: "summary", label: "Summary", type: "text", required: false, config: { type: "text", multiline: true } },
+              { key: "body", label: "Body", type: "rich", required: false },
+              { key: "code", label: "Code", type: "text", required: false, config: { type: "text", nativeType: { mysql: "Char(8)", postgresql: "Char(8)" } } },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider, url: 'env("DATABASE_URL")' } },
+      i18n: { enabled: true, tableNaming: "${identifier}_translation", defaultLang: "en" },
+    });
+
+    it("writes MySQL storage hints on models and translation tables", async () => {
+      const result = await new Generator(config("mysql")).generate();
+      const translation = result.schema.slice(result.schema.indexOf("model ArticleTranslation"));
+
+      expectLine(translation, "title String @db.VarChar(300)");
+      expectLine(result.schema, "summary String? @db.Text");
+      expectLine(result.schema, "body String? @db.LongText");
+      expectLine(result.schema, "code String? @db.Char(8)");
+    });
+
+    it("bounds PostgreSQL columns only by maxLength and overrides", async () => {
+      const result = await new Generator(config("postgresql")).generate();
+
+      expectLine(result.schema, "title String @db.VarChar(300)");
+      expectLine(result.schema, "summary String?");
+      expectLine(result.schema, "body String?");
+      expectLine(result.schema, "code String? @db.Char(8)");
+    });
+
+    it("leaves out storage hints on SQLite", async () => {
+      const result = await new Generator(config("sqlite")).generate();
+
+      expect(result.schema).not.toContain("@db.");
+    });
+  });
+
+  describe("indexes", () => {
+    const config: Config = {
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: [
+              { key: "slug", label: "Slug", type: "text", required: true, unique: true },
+              { key: "sku", label: "SKU", type: "text", required: true, translatable: false, unique: true },
+              { key: "status", label: "Status", type: "text", required: false, translatable: false, indexed: true },
+              { key: "published_at", label: "Published", type: "date", required: false, translatable: false },
+            ],
+            settings: {
+              indexes: [
+                { fields: ["status", { field: "published_at", sort: "desc" }], name: "post_feed_idx" },
+                { fields: ["slug", "status"] },
+              ],
+            },
+          },
+        ],
+      },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+      i18n: { enabled: true, tableNaming: "${identifier}_translation", defaultLang: "en" },
+    };
+
+    it("writes unique and indexed fields and settings indexes", async () => {
+      const result = await new Generator(config).generate();
+
+      expectLine(result.schema, "sku String @unique");
+      expect(result.schema).toContain("@@index([status])");
+      expect(result.schema).toContain('@@index([status, published_at(sort: Desc)], map: "post_feed_idx")');
+    });
+
+    it("makes unique translatable fields unique per language", async () => {
+      const result = await new Generator(config).generate();
+      const translation = result.schema.slice(result.schema.indexOf("model PostTranslation"));
+
+      expectLine(translation, "slug String");
+      expect(translation).toContain("@@unique([post_id, lang, slug])");
+    });
+
+    it("warns about indexes mixing model and translation columns", async () => {
+      const result = await new Generator(config).generate();
+
+      expect(result.warnings).toContain(
+        'Index settings.indexes[1] of model "post" is not written: translatable fields are stored in the translation table, other fields on the model'
+      );
+    });
+  });
+
+  describe("dynamic zones", () => {
+    const config: Config = {
+      input: {
+        models: [
+          {
+            slug: "page",
+            name: "Page",
+            fields: [
+              { key: "title", label: "Title", type: "text", required: true },
+              {
+                key: "blocks",
+                label: "Blocks",
+                type: "component",
+                required: false,
+                config: { type: "component", components: ["hero", "quote", "gallery"] },
+              },
+            ],
+          },
+        ],
+        components: [
+          {
+            slug: "hero",
+            name: "Hero",
+            fields: [{ key: "heading", label: "Heading", type: "text", required: true }],
+          },
+          {
+            slug: "quote",
+            name: "Quote",
+            fields: [{ key: "author", label: "Author", type: "text", required: false, translatable: false }],
+          },
+        ],
+      },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+      i18n: { enabled: true, tableNaming: "${identifier}_translation", defaultLang: "en" },
+    };
+
+    it("writes an ordering table and one table per block type", async () => {
+      const result = await new Generator(config).generate();
+      const zone = result.schema.slice(result.schema.indexOf("model PageBlock {"));
+
+      expectLine(result.schema, "blocks PageBlock[]");
+      expectLine(zone, "order Int");
+      expectLine(zone, "type String");
+      expectLine(zone, "hero PageBlockHero?");
+      expectLine(zone, "quote PageBlockQuote?");
+      expect(zone).toContain("@@index([page_id, order])");
+      expectLine(result.schema, "page_block_id String @unique");
+      expectLine(result.schema, "model PageBlockHeroTranslation {");
+      expect(result.sources.get("PageBlockQuote")).toEqual({
+        model: "page",
+        component: "quote",
+        fields: ["author"],
+      });
+      expect(await new Generator(config).validate(result)).toEqual([]);
+    });
+
+    it("leaves out block types without a component definition", async () => {
+      const result = await new Generator(config).generate();
+
+      expect(result.schema).not.toContain("PageBlockGallery");
+      expect(result.warnings).toContain(
+        'Component "gallery" not found for field "blocks" in model "page"'
+      );
+    });
+  });
+
+  describe("nested components", () => {
+    const config: Config = {
+      input: {
+        models: [
+          {
+            slug: "page",
+            name: "Page",
+            fields: [
+              {
+                key: "seo",
+                label: "SEO",
+                type: "component",
+                required: false,
+                config: { type: "component", slug: "seo" },
+              },
+            ],
+          },
+        ],
+        components: [
+          {
+            slug: "seo",
+            name: "SEO",
+            fields: [
+              { key: "title", label: "Title", type: "text", required: false },
+              {
+                key: "links",
+                label: "Links",
+                type: "component",
+                required: false,
+                config: { type: "component", slug: "link", repeatable: true },
+              },
+              {
+                key: "parent",
+                label: "Parent",
+                type: "component",
+                required: false,
+                config: { type: "component", slug: "seo" },
+              },
+            ],
+          },
+          {
+            slug: "link",
+            name: "Link",
+            fields: [{ key: "label", label: "Label", type: "text", required: false }],
+          },
+        ],
+      },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+      i18n: { enabled: true, tableNaming: "${identifier}_translation", defaultLang: "en" },
+    };
+
+    it("writes child tables of the component table with their translations", async () => {
+      const result = await new Generator(config).generate();
+
+      expectLine(result.schema, "links PageSeoLink[]");
+      expectLine(result.schema, "model PageSeoLinkTranslation {");
+      expectLine(result.schema, "page_seo_id String");
+      expect(result.sources.get("PageSeoLink")).toEqual({
+        model: "page",
+        component: "link",
+        fields: ["label"],
+      });
+      expect(await new Generator(config).validate(result)).toEqual([]);
+    });
+
+    it("leaves out components that would contain themselves", async () => {
+      const result = await new Generator(config).generate();
+
+      expect(result.schema).not.toContain("PageSeoParent");
+      expect(result.warnings).toContain(
+        'Skipped component "seo" in field "parent" of component "seo": it would contain itself (seo -> seo)'
+      );
+    });
+  });
+
+  describe("json fields", () => {
+    const config = (
+      provider: "sqlite" | "postgresql" | "mysql",
+      jsonConfig: Record<string, unknown> = {}
+    ): Config => ({
+      input: {
+        models: [
+          {
+            slug: "page",
+            name: "Page",
+            fields: [
+              {
+                key: "meta",
+                label: "Meta",
+                type: "json",
+                required: true,
+                translatable: false,
+                config: { type: "json", ...jsonConfig },
+              },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider, url: 'env("DATABASE_URL")' } },
+    });
+
+    it("uses Json columns where the provider supports them", async () => {
+      const postgres = await new Generator(config("postgresql")).generate();
+      const mysql = await new Generator(config("mysql")).generate();
+      const sqlite = await new Generator(config("sqlite")).generate();
+
+      expectLine(postgres.schema, "meta Json");
+      expectLine(mysql.schema, "meta Json");
+      expectLine(sqlite.schema, "meta String");
+    });
+
+    it("writes the PostgreSQL native type when configured", async () => {
+      const result = await new Generator(
+        config("postgresql", { nativeType: "JsonB" })
+      ).generate();
+
+      expectLine(result.schema, "meta Json @db.JsonB");
+    });
+
+    it("annotates the column with types from its JSON Schema", async () => {
+      const result = await new Generator(
+        config("postgresql", {
+          schema: {
+            type: "object",
+            properties: {
+              title: { type: "string", maxLength: 60 },
+              keywords: { type: "array", items: { type: "string" } },
+            },
+            required: ["title"],
+          },
+        })
+      ).generate();
+
+      expect(result.schema).toContain(
+        "  /// @zod.custom.use(z.object({ title: z.string().max(60), keywords: z.array(z.string()).optional() }))\n" +
+          "  /// ![{ title: string; keywords?: Array<string> }]\n" +
+          "  meta"
+      );
+    });
+  });
+
+  describe("relations", () => {
+    const relation = (
+      key: string,
+      relationType: "oneToOne" | "manyToOne" | "oneToMany" | "manyToMany",
+      targetModel: string,
+      cascade: "restrict" | "cascade" | "setNull" = "restrict"
+    ) => ({
+      key,
+      label: key,
+      type: "relation" as const,
+      required: false,
+      config: {
+        type: "relation" as const,
+        relationType,
+        targetModel,
+        displayField: "id",
+        cascade,
+      },
+    });
+
+    it("emits both sides of every relation", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            { slug: "user", name: "User", fields: [relation("posts", "oneToMany", "post", "cascade")] },
+            { slug: "category", name: "Category", fields: [] },
+            {
+              slug: "post",
+              name: "Post",
+              fields: [
+                relation("editor", "manyToOne", "user", "setNull"),
+                relation("categories", "manyToMany", "category"),
+              ],
+            },
+          ],
+        },
+      }).generate();
+
+      expectLine(result.schema, "posts Post[]");
+      expectLine(
+        result.schema,
+        "editor User? @relation(fields: [editor_id], references: [id], onDelete: SetNull)"
+      );
+      expectLine(result.schema, "categories PostCategory[]");
+      expectLine(result.schema, "post_categories PostCategory[]");
+      expect(result.warnings).toEqual([]);
+    });
+
+    it("names relations between the same models", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            { slug: "user", name: "User", fields: [] },
+            {
+              slug: "post",
+              name: "Post",
+              fields: [relation("author", "manyToOne", "user"), relation("editor", "manyToOne", "user")],
+            },
+          ],
+        },
+      }).generate();
+
+      expect(result.schema).toMatch(/author\s+User\?\s+@relation\("PostAuthor", fields: \[author_id\]/);
+      expect(result.schema).toMatch(/editor\s+User\?\s+@relation\("PostEditor", fields: \[editor_id\]/);
+      expectLine(result.schema, 'posts Post[] @relation("PostAuthor")');
+      expectLine(result.schema, 'editor_posts Post[] @relation("PostEditor")');
+    });
+
+    it("restricts deletes through required foreign keys set to setNull", async () => {
+      const generator = new Generator({
+        input: {
+          models: [
+            { slug: "user", name: "User", fields: [] },
+            {
+              slug: "post",
+              name: "Post",
+              fields: [{ ...relation("author", "manyToOne", "user", "setNull"), required: true }],
+            },
+          ],
+        },
+      });
+      const result = await generator.generate();
+
+      expectLine(
+        result.schema,
+        "author User @relation(fields: [author_id], references: [id], onDelete: Restrict)"
+      );
+      expect(result.warnings).toEqual([
+        'Relation field "author" in model "post" is required: cascade "setNull" is written as onDelete: Restrict',
+      ]);
+      expect(await generator.validate(result)).toEqual([]);
+    });
+
+    it("shares one junction table between both sides of a many-to-many relation", async () => {
+      const generator = new Generator({
+        input: {
+          models: [
+            { slug: "post", name: "Post", fields: [relation("tags", "manyToMany", "tag")] },
+            { slug: "tag", name: "Tag", fields: [relation("posts", "manyToMany", "post")] },
+          ],
+        },
+      });
+      const result = await generator.generate();
+
+      expectLine(result.schema, "tags PostTag[]");
+      expectLine(result.schema, "posts PostTag[]");
+      expect(result.schema).not.toContain("TagPost");
+      expect(await generator.validate(result)).toEqual([]);
+    });
+
+    it("builds junction tables for many-to-many relations in components", async () => {
+      const generator = new Generator({
+        input: {
+          models: [
+            { slug: "user", name: "User", fields: [] },
+            {
+              slug: "post",
+              name: "Post",
+              fields: [
+                {
+                  key: "seo",
+                  label: "SEO",
+                  type: "component",
+                  required: false,
+                  config: { type: "component", slug: "seo" },
+                },
+              ],
+            },
+          ],
+          components: [
+            { slug: "seo", name: "SEO", fields: [relation("others", "manyToMany", "user")] },
+          ],
+        },
+      });
+      const result = await generator.generate();
+
+      expectLine(result.schema, "others PostSeoUser[]");
+      expectLine(result.schema, "model PostSeoUser {");
+      expect(await generator.validate(result)).toEqual([]);
+    });
+
+    it("uses the naming prefix for relation targets", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            { slug: "user", name: "User", fields: [] },
+            { slug: "post", name: "Post", fields: [relation("author", "manyToOne", "user")] },
+          ],
+        },
+        naming: { convention: "PascalCase", prefix: "Cms" },
+      }).generate();
+
+      expect(result.schema).toMatch(/author\s+CmsUser\?/);
+      expectLine(result.schema, "cms_posts CmsPost[]");
+    });
+  });
+
   describe("warnings", () => {
     it("warns about missing component definitions", async () => {
       const config: Config = {
@@ -303,6 +1033,233 @@ describe("Generator", () => {
     });
   });
 
+  describe("derived fields", () => {
+    const config = (derived: Record<string, unknown>): Config => ({
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: [
+              { key: "body", label: "Body", type: "text", required: true },
+              {
+                key: "reading_time",
+                label: "Reading Time",
+                type: "number",
+                required: false,
+                derived,
+              } as any,
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+    });
+
+    it("writes database derived fields as generated columns", async () => {
+      const generator = new Generator(
+        config({ expression: "length(body) / 1000" })
+      );
+      const result = await generator.generate();
+
+      expectLine(result.schema, "reading_time Float? @default(dbgenerated())");
+      expect(result.derivedSql).toContain(
+        'ALTER TABLE "Post" ADD COLUMN "reading_time" DOUBLE PRECISION GENERATED ALWAYS AS (length(body) / 1000) STORED;'
+      );
+      expect(result.derivedExtension).toBeUndefined();
+      expect(await generator.validate(result)).toEqual([]);
+    });
+
+    it("computes client derived fields in a Prisma Client extension", async () => {
+      const result = await new Generator(
+        config({ expression: "Math.ceil(body.length / 1000)", storage: "client" })
+      ).generate();
+
+      expect(result.schema).not.toContain("reading_time");
+      expect(result.derivedSql).toBeUndefined();
+      expect(result.derivedExtension).toContain("needs: { body: true },");
+      expect(result.derivedExtension).toContain(
+        "compute: ({ body }) => (Math.ceil(body.length / 1000)),"
+      );
+    });
+  });
+
+  describe("content types", () => {
+    const config = (output: Config["output"]): Config => ({
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: [{ key: "title", label: "Title", type: "text", required: true }],
+          },
+        ],
+      },
+      output,
+    });
+
+    it("writes content types with the schema header when typesPath is set", async () => {
+      const result = await new Generator(
+        config({ typesPath: "./src/content-types.ts" })
+      ).generate();
+
+      expect(result.types).toContain(`// Input hash: ${result.inputHash}`);
+      expect(result.types).toContain("export interface Post {");
+    });
+
+    it("writes no content types by default", async () => {
+      const result = await new Generator(config({})).generate();
+
+      expect(result.types).toBeUndefined();
+    });
+  });
+
+  describe("localized models extension", () => {
+    const config = (i18n: Config["i18n"]): Config => ({
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: [{ key: "title", label: "Title", type: "text", required: true }],
+          },
+        ],
+      },
+      output: { clientPath: "../src/generated/prisma" },
+      i18n,
+    });
+
+    it("writes localized reads for models with translation tables", async () => {
+      const result = await new Generator(
+        config({
+          enabled: true,
+          tableNaming: "${identifier}_translation",
+          defaultLang: "en",
+          fallbacks: { "de-AT": ["de"] },
+        })
+      ).generate();
+
+      expect(result.localizedExtension).toContain(
+        "import { Prisma, type PostTranslation } from '../src/generated/prisma';"
+      );
+      expect(result.localizedExtension).toContain("const POST_TRANSLATION_FIELDS = ['title'];");
+      expect(result.localizedExtension).toContain('{"de-AT":["de"]}');
+    });
+
+    it("writes no extension without i18n", async () => {
+      const result = await new Generator(config(undefined)).generate();
+
+      expect(result.localizedExtension).toBeUndefined();
+    });
+  });
+
+  describe("zod schemas", () => {
+    it("writes zod schemas with the schema header when zodPath is set", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            {
+              slug: "post",
+              name: "Post",
+              fields: [
+                {
+                  key: "title",
+                  label: "Title",
+                  type: "text",
+                  required: true,
+                  translatable: false,
+                  validation: { minLength: 3 },
+                },
+              ],
+            },
+          ],
+        },
+        output: { zodPath: "./src/content-schemas.ts" },
+      }).generate();
+
+      expect(result.zod).toContain(`// Input hash: ${result.inputHash}`);
+      expect(result.zod).toContain("title: z.string().min(3),");
+    });
+  });
+
+  describe("json schema and openapi output", () => {
+    it("writes the documents when their paths are set", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            {
+              slug: "post",
+              name: "Post",
+              fields: [
+                {
+                  key: "title",
+                  label: "Title",
+                  type: "text",
+                  required: true,
+                  translatable: false,
+                  validation: { minLength: 3 },
+                },
+              ],
+            },
+          ],
+        },
+        output: {
+          jsonSchemaPath: "./schemas/content.schema.json",
+          openApiPath: "./schemas/content.openapi.json",
+        },
+      }).generate();
+
+      expect(JSON.parse(result.jsonSchema!).$defs.Post.properties.title).toEqual({
+        title: "Title",
+        type: "string",
+        minLength: 3,
+      });
+      expect(JSON.parse(result.openApi!).components.schemas.Post.required).toEqual([
+        "id",
+        "title",
+        "created_at",
+        "updated_at",
+      ]);
+    });
+
+    it("leaves them out without paths", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            {
+              slug: "post",
+              name: "Post",
+              fields: [{ key: "title", label: "Title", type: "text", required: true }],
+            },
+          ],
+        },
+      }).generate();
+
+      expect(result.jsonSchema).toBeUndefined();
+      expect(result.openApi).toBeUndefined();
+    });
+  });
+
+  describe("graphql schema", () => {
+    it("writes the SDL with the schema header as comments when graphqlPath is set", async () => {
+      const result = await new Generator({
+        input: {
+          models: [
+            {
+              slug: "post",
+              name: "Post",
+              fields: [{ key: "title", label: "Title", type: "text", required: true }],
+            },
+          ],
+        },
+        output: { graphqlPath: "./schema/content.graphql" },
+      }).generate();
+
+      expect(result.graphql).toContain(`# Input hash: ${result.inputHash}`);
+      expect(result.graphql).toContain("type Post {\n  id: ID!\n  title: String!");
+    });
+  });
+
   describe("generators", () => {
     it("includes default Prisma client generator", async () => {
       const config: Config = {
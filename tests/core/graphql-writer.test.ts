@@ -0,0 +1,176 @@
+// tests/core/graphql-writer.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { writeGraphqlSchema } from '../../src/core/graphql-writer';
+import type { ComponentEntityType, ModelConfigType } from '../../src/field-config-schema';
+
+const seo: ComponentEntityType = {
+  slug: 'seo',
+  name: 'SEO',
+  fields: [
+    { key: 'meta_title', label: 'Meta Title', type: 'text', required: false },
+    {
+      key: 'links',
+      label: 'Links',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo', repeatable: true }
+    }
+  ]
+};
+
+const hero: ComponentEntityType = {
+  slug: 'hero-banner',
+  name: 'Hero Banner',
+  fields: [{ key: 'heading', label: 'Heading', type: 'text', required: true, translatable: false }]
+};
+
+const author: ModelConfigType = {
+  slug: 'author',
+  name: 'Author',
+  fields: [{ key: 'name', label: 'Name', type: 'text', required: true, translatable: false }]
+};
+
+const post: ModelConfigType = {
+  slug: 'blog-post',
+  name: 'Blog Post',
+  fields: [
+    { key: 'title', label: 'Title', type: 'text', required: true },
+    {
+      key: 'status',
+      label: 'Status',
+      type: 'select',
+      required: true,
+      translatable: false,
+      config: { type: 'select', options: ['draft', 'in-review'] }
+    },
+    {
+      key: 'price',
+      label: 'Price',
+      type: 'number',
+      required: false,
+      translatable: false,
+      config: { type: 'number', format: 'currency' }
+    },
+    {
+      key: 'author',
+      label: 'Author',
+      type: 'relation',
+      required: true,
+      config: { type: 'relation', relationType: 'manyToOne', targetModel: 'author', displayField: 'name' }
+    },
+    {
+      key: 'related',
+      label: 'Related',
+      type: 'relation',
+      required: false,
+      config: { type: 'relation', relationType: 'manyToMany', targetModel: 'blog-post', displayField: 'title' }
+    },
+    {
+      key: 'editors',
+      label: 'Editors',
+      type: 'relation',
+      required: false,
+      config: { type: 'relation', relationType: 'oneToMany', targetModel: 'user', displayField: 'email' }
+    },
+    {
+      key: 'seo',
+      label: 'SEO',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo' }
+    },
+    {
+      key: 'blocks',
+      label: 'Blocks',
+      type: 'component',
+      required: false,
+      config: { type: 'component', components: ['hero-banner', 'seo'] }
+    },
+    { key: 'slug', label: 'Slug', type: 'text', required: false, derived: { expression: 'title' } }
+  ]
+};
+
+describe('writeGraphqlSchema', () => {
+  const sdl = writeGraphqlSchema([post, author], new Map([['seo', seo], ['hero-banner', hero]]), {
+    i18nEnabled: true
+  });
+
+  it('writes object types with locale arguments on translated fields', () => {
+    expect(sdl).toContain(
+      [
+        '"""',
+        'Blog Post',
+        '"""',
+        'type BlogPost {',
+        '  id: ID!',
+        '  title(locale: String): String!',
+        '  status: BlogPostStatus!',
+        '  price: Decimal',
+        '  author: Author!',
+        '  related(first: Int, after: String, last: Int, before: String): BlogPostConnection!',
+        '  editors: [ID!]!',
+        '  seo: SeoComponent',
+        '  blocks: [BlogPostBlocks!]!',
+        '  slug(locale: String): String',
+        '  created_at: DateTime!',
+        '  updated_at: DateTime!',
+        '}'
+      ].join('\n')
+    );
+    expect(sdl).toContain('type SeoComponent {\n  meta_title(locale: String): String\n}');
+    expect(sdl).not.toContain('links');
+  });
+
+  it('writes enums with the values Prisma Client uses and the scalars in use', () => {
+    expect(sdl).toContain('enum BlogPostStatus {\n  draft\n  in_review\n}');
+    expect(sdl.startsWith('scalar DateTime\nscalar Decimal\n\n')).toBe(true);
+  });
+
+  it('writes connections for to-many relations between models', () => {
+    expect(sdl).toContain(
+      'type BlogPostConnection {\n  edges: [BlogPostEdge!]!\n  pageInfo: PageInfo!\n  totalCount: Int!\n}'
+    );
+    expect(sdl).toContain('type BlogPostEdge {\n  cursor: String!\n  node: BlogPost!\n}');
+    expect(sdl).toContain('type PageInfo {');
+    expect(sdl).not.toContain('UserConnection');
+  });
+
+  it('writes dynamic zones as unions and @oneOf inputs', () => {
+    expect(sdl).toContain('union BlogPostBlocks = HeroBannerComponent | SeoComponent');
+    expect(sdl).toContain(
+      'input BlogPostBlocksInput @oneOf {\n  heroBanner: HeroBannerComponentInput\n  seo: SeoComponentInput\n}'
+    );
+  });
+
+  it('writes create and update inputs with translations by locale', () => {
+    expect(sdl).toContain(
+      [
+        'input BlogPostCreateInput {',
+        '  status: BlogPostStatus!',
+        '  price: Decimal',
+        '  author: ID!',
+        '  related: [ID!]',
+        '  editors: [ID!]',
+        '  seo: SeoComponentInput',
+        '  blocks: [BlogPostBlocksInput!]',
+        '  translations: [BlogPostTranslationInput!]!',
+        '}'
+      ].join('\n')
+    );
+    expect(sdl).toContain('input BlogPostTranslationInput {\n  locale: String!\n  title: String!\n}');
+    expect(sdl).toContain('input BlogPostTranslationUpdateInput {\n  locale: String!\n  title: String\n}');
+    expect(sdl).toContain('  author: ID\n');
+    expect(sdl).toContain('  translations: [BlogPostTranslationUpdateInput!]\n}');
+    expect(sdl).toContain('input HeroBannerComponentInput {\n  heading: String!\n}');
+  });
+
+  it('keeps translatable fields on the types without i18n', () => {
+    const plain = writeGraphqlSchema([author, post], new Map(), { i18nEnabled: false });
+
+    expect(plain).not.toContain('locale');
+    expect(plain).toMatch(/input BlogPostCreateInput \{[^}]*\n  title: String!\n/);
+    expect(plain).not.toContain('BlogPostTranslationInput');
+    expect(plain).toContain('  seo: JSON\n');
+  });
+});
@@ -0,0 +1,216 @@
+// tests/core/json-schema-writer.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildContentSchemas,
+  writeJsonSchema,
+  writeOpenApiComponents
+} from '../../src/core/json-schema-writer';
+import type { ComponentEntityType, ModelConfigType } from '../../src/field-config-schema';
+
+const seo: ComponentEntityType = {
+  slug: 'seo',
+  name: 'SEO',
+  fields: [
+    {
+      key: 'meta_title',
+      label: 'Meta Title',
+      type: 'text',
+      required: false,
+      translatable: false,
+      validation: { maxLength: 60 }
+    },
+    {
+      key: 'links',
+      label: 'Links',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo', repeatable: true }
+    }
+  ]
+};
+
+const hero: ComponentEntityType = {
+  slug: 'hero',
+  name: 'Hero',
+  fields: [{ key: 'heading', label: 'Heading', type: 'text', required: true }]
+};
+
+const post: ModelConfigType = {
+  slug: 'blog-post',
+  name: 'Blog Post',
+  fields: [
+    {
+      key: 'title',
+      label: 'Title',
+      type: 'text',
+      required: true,
+      validation: { minLength: 3, pattern: '^[A-Z]', errorMessage: 'Title must be capitalized' }
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      type: 'select',
+      required: true,
+      translatable: false,
+      config: { type: 'select', options: ['draft', { value: 'in-review', label: 'In Review' }] }
+    },
+    {
+      key: 'views',
+      label: 'Views',
+      type: 'number',
+      required: false,
+      translatable: false,
+      config: { type: 'number', format: 'integer' },
+      validation: { min: 0 }
+    },
+    {
+      key: 'published',
+      label: 'Published',
+      type: 'date',
+      required: false,
+      translatable: false,
+      validation: { minDate: '2020-01-01' }
+    },
+    {
+      key: 'tags',
+      label: 'Tags',
+      type: 'relation',
+      required: false,
+      config: { type: 'relation', relationType: 'manyToMany', targetModel: 'tag', displayField: 'name' },
+      validation: { maxItems: 5 }
+    },
+    {
+      key: 'seo',
+      label: 'SEO',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo', repeatable: false }
+    },
+    {
+      key: 'blocks',
+      label: 'Blocks',
+      type: 'component',
+      required: false,
+      config: { type: 'component', components: ['hero', 'seo'] }
+    },
+    { key: 'slug', label: 'Slug', type: 'text', required: false, derived: { expression: 'title' } }
+  ]
+};
+
+const components = new Map([
+  ['seo', seo],
+  ['hero', hero]
+]);
+
+describe('buildContentSchemas', () => {
+  const schemas = buildContentSchemas([post], components, { i18nEnabled: true, defaultLang: 'en' }, '#/$defs/');
+
+  it('converts validation rules to keywords', () => {
+    const properties = schemas.BlogPost!.properties!;
+
+    expect(properties.title).toEqual({
+      title: 'Title',
+      type: 'string',
+      minLength: 3,
+      pattern: '^[A-Z]',
+      errorMessage: 'Title must be capitalized'
+    });
+    expect(properties.views).toEqual({ title: 'Views', type: ['integer', 'null'], minimum: 0 });
+    expect(properties.published).toEqual({
+      title: 'Published',
+      type: ['string', 'null'],
+      format: 'date-time',
+      formatMinimum: '2020-01-01'
+    });
+    expect(properties.tags).toEqual({
+      title: 'Tags',
+      type: 'array',
+      items: { type: 'string' },
+      maxItems: 5,
+      uniqueItems: true
+    });
+    expect(properties.slug).toMatchObject({ type: ['string', 'null'], readOnly: true });
+  });
+
+  it('names select enums like the content types', () => {
+    expect(schemas.BlogPostStatus).toEqual({ type: 'string', enum: ['draft', 'in-review'] });
+    expect(schemas.BlogPost!.properties!.status).toEqual({
+      title: 'Status',
+      $ref: '#/$defs/BlogPostStatus'
+    });
+  });
+
+  it('writes a schema per locale shape of translated models', () => {
+    expect(schemas.BlogPost!.required).toEqual([
+      'id',
+      'locale',
+      'title',
+      'status',
+      'views',
+      'published',
+      'tags',
+      'seo',
+      'blocks',
+      'slug',
+      'created_at',
+      'updated_at'
+    ]);
+    expect(Object.keys(schemas.BlogPostTranslation!.properties!)).toEqual(['title', 'slug']);
+    expect(schemas.BlogPostWithTranslations!.properties!.translations).toEqual({
+      type: 'object',
+      properties: { en: { $ref: '#/$defs/BlogPostTranslation' } },
+      required: ['en'],
+      additionalProperties: { $ref: '#/$defs/BlogPostTranslation' }
+    });
+    expect(schemas.BlogPostWithTranslations!.properties!.title).toBeUndefined();
+  });
+
+  it('nests components by reference', () => {
+    expect(schemas.SeoComponent!.properties!.links).toEqual({
+      title: 'Links',
+      type: 'array',
+      items: { $ref: '#/$defs/SeoComponent' }
+    });
+    expect(schemas.BlogPost!.properties!.seo).toEqual({
+      title: 'SEO',
+      anyOf: [{ $ref: '#/$defs/SeoComponent' }, { type: 'null' }]
+    });
+    expect(schemas.BlogPost!.properties!.blocks!.items).toEqual({
+      oneOf: ['hero', 'seo'].map((slug) => ({
+        allOf: [
+          { $ref: `#/$defs/${slug === 'hero' ? 'Hero' : 'Seo'}Component` },
+          { type: 'object', properties: { __component: { const: slug } }, required: ['__component'] }
+        ]
+      }))
+    });
+  });
+
+  it('keeps translatable fields on the record without i18n', () => {
+    const plain = buildContentSchemas([post], components, { i18nEnabled: false }, '#/$defs/');
+
+    expect(plain.BlogPostTranslation).toBeUndefined();
+    expect(plain.BlogPost!.properties!.locale).toBeUndefined();
+    expect(plain.BlogPost!.properties!.title).toBeDefined();
+  });
+});
+
+describe('writeJsonSchema', () => {
+  it('writes the schemas under $defs', () => {
+    const document = JSON.parse(writeJsonSchema([post], components, { i18nEnabled: false }));
+
+    expect(document.$schema).toBe('https://json-schema.org/draft/2020-12/schema');
+    expect(Object.keys(document.$defs)).toContain('HeroComponent');
+  });
+});
+
+describe('writeOpenApiComponents', () => {
+  it('writes the schemas under components.schemas with references there', () => {
+    const document = JSON.parse(writeOpenApiComponents([post], components, { i18nEnabled: false }));
+
+    expect(document.openapi).toBe('3.1.0');
+    expect(document.components.schemas.BlogPost.properties.status.$ref).toBe(
+      '#/components/schemas/BlogPostStatus'
+    );
+  });
+});
@@ -0,0 +1,79 @@
+// tests/core/localized-writer.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { findLocalizedModel, writeLocalizedExtension } from '../../src/core/localized-writer';
+import type { PrismaModel } from '../../src/utils/prisma-ast';
+
+const post: PrismaModel = {
+  name: 'BlogPost',
+  fields: [
+    { name: 'id', type: 'String', attributes: ['@id', '@default(cuid())'] },
+    { name: 'slug', type: 'String' },
+    { name: 'translations', type: 'BlogPostTranslation', list: true, optional: true }
+  ]
+};
+
+const translation: PrismaModel = {
+  name: 'BlogPostTranslation',
+  fields: [
+    { name: 'id', type: 'String', attributes: ['@id', '@default(cuid())'] },
+    { name: 'blog_post_id', type: 'String' },
+    { name: 'lang', type: 'String' },
+    { name: 'title', type: 'String' },
+    { name: 'tags', type: 'BlogPostTagsValue', list: true },
+    {
+      name: 'blog_post',
+      type: 'BlogPost',
+      relation: { fields: ['blog_post_id'], references: ['id'], onDelete: 'Cascade' }
+    }
+  ],
+  unique: [['blog_post_id', 'lang']]
+};
+
+const tags: PrismaModel = { name: 'BlogPostTagsValue', fields: [] };
+
+describe('findLocalizedModel', () => {
+  it('reads the foreign key and translation columns', () => {
+    expect(findLocalizedModel([post, tags, translation])).toEqual({
+      model: 'BlogPost',
+      translationModel: 'BlogPostTranslation',
+      foreignKey: 'blog_post_id',
+      fields: ['title']
+    });
+  });
+
+  it('is undefined for models without translations', () => {
+    expect(findLocalizedModel([{ name: 'Author', fields: [] }])).toBeUndefined();
+  });
+});
+
+describe('writeLocalizedExtension', () => {
+  const source = writeLocalizedExtension([findLocalizedModel([post, tags, translation])!], {
+    defaultLang: 'en',
+    fallbacks: { 'de-AT': ['de'] },
+    clientImport: '@prisma/client'
+  });
+
+  it('writes the locale chain ending at the default locale', () => {
+    expect(source).toContain("import { Prisma, type BlogPostTranslation } from '@prisma/client';");
+    expect(source).toContain('export const DEFAULT_LOCALE = "en";');
+    expect(source).toContain(
+      'const LOCALE_FALLBACKS: Record<string, string[]> = {"de-AT":["de"]};'
+    );
+  });
+
+  it('writes localized reads and translation upserts per model', () => {
+    expect(source).toContain("const BLOG_POST_TRANSLATION_FIELDS = ['title'];");
+    expect(source).toContain('      blogPost: {');
+    expect(source).toContain(
+      'async findManyLocalized<A extends Prisma.BlogPostFindManyArgs>('
+    );
+    expect(source).toContain(
+      'async findUniqueLocalized<A extends Prisma.BlogPostFindUniqueArgs>('
+    );
+    expect(source).toContain(
+      "client.blogPostTranslation.upsert({ where: { blog_post_id_lang: { blog_post_id: id, lang: locale } }, create: { ...data, blog_post_id: id, lang: locale }, update: data })"
+    );
+    expect(source).toContain('upsertTranslations(id: string, translations: Record<string,');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from "vitest";
+import { resolveRelations } from "../../src/core/relation-resolver";
+import type { PrismaField, PrismaModel } from "../../src/utils/prisma-ast";
+
+const model = (name: string, fields: PrismaField[] = []): PrismaModel => ({
+  name,
+  fields: [{ name: "id", type: "String", attributes: ["@id"] }, ...fields],
+});
+
+const owner = (name: string, type: string, extra: Partial<PrismaField> = {}): PrismaField[] => [
+  { name: `${name}_id`, type: "String", optional: true },
+  {
+    name,
+    type,
+    optional: true,
+    relation: { fields: [`${name}_id`], references: ["id"], onDelete: "SetNull" },
+    ...extra,
+  },
+];
+
+const field = (m: PrismaModel, name: string) => m.fields.find((f) => f.name === name);
+
+describe("resolveRelations", () => {
+  it("adds a back-relation list for many-to-one owners", () => {
+    const user = model("User");
+    const post = model("Post", owner("author", "User"));
+
+    expect(resolveRelations([user, post])).toEqual([]);
+    expect(field(user, "posts")).toEqual({ name: "posts", type: "Post", list: true, optional: true });
+  });
+
+  it("adds an optional back-relation for one-to-one owners", () => {
+    const user = model("User");
+    const profile = model("Profile", owner("user", "User"));
+    profile.fields[1]!.attributes = ["@unique"];
+
+    resolveRelations([user, profile]);
+
+    expect(field(user, "profile")).toMatchObject({ type: "Profile", optional: true });
+    expect(field(user, "profile")?.list).toBe(false);
+  });
+
+  it("adds the FK side for one-to-many lists with the inverse onDelete", () => {
+    const user = model("User", [
+      { name: "posts", type: "Post", list: true, inverse: { onDelete: "Cascade" } },
+    ]);
+    const post = model("Post");
+
+    resolveRelations([user, post]);
+
+    expect(field(post, "user_id")).toMatchObject({ type: "String", optional: true });
+    expect(field(post, "user")).toMatchObject({
+      type: "User",
+      optional: true,
+      relation: { fields: ["user_id"], references: ["id"], onDelete: "Cascade" },
+    });
+  });
+
+  it("pairs both declared sides instead of adding fields", () => {
+    const user = model("User", [{ name: "posts", type: "Post", list: true }]);
+    const post = model("Post", owner("author", "User"));
+
+    resolveRelations([user, post]);
+
+    expect(user.fields.map((f) => f.name)).toEqual(["id", "posts"]);
+    expect(post.fields.map((f) => f.name)).toEqual(["id", "author_id", "author"]);
+  });
+
+  it("adds implicit many-to-many lists", () => {
+    const post = model("Post", [
+      { name: "gallery", type: "Media", list: true, inverse: { list: true } },
+    ]);
+    const media = model("Media");
+
+    resolveRelations([post, media]);
+
+    expect(field(media, "posts")).toEqual({ name: "posts", type: "Post", list: true, optional: true });
+  });
+
+  it("names relations when two models are related more than once", () => {
+    const user = model("User");
+    const post = model("Post", [...owner("author", "User"), ...owner("editor", "User")]);
+
+    resolveRelations([user, post]);
+
+    expect(field(post, "author")?.relation?.name).toBe("PostAuthor");
+    expect(field(post, "editor")?.relation?.name).toBe("PostEditor");
+    expect(field(user, "posts")?.relation).toEqual({ name: "PostAuthor" });
+    expect(field(user, "editor_posts")?.relation).toEqual({ name: "PostEditor" });
+  });
+
+  it("names self relations", () => {
+    const category = model("Category", owner("parent", "Category"));
+
+    resolveRelations([category]);
+
+    expect(field(category, "parent")?.relation?.name).toBe("CategoryParent");
+    expect(field(category, "categories")).toMatchObject({
+      type: "Category",
+      list: true,
+      relation: { name: "CategoryParent" },
+    });
+  });
+
+  it("warns about unknown targets and ignores enums", () => {
+    const post = model("Post", [
+      ...owner("author", "User"),
+      { name: "status", type: "PostStatus" },
+      { name: "tags", type: "PostTags", list: true },
+    ]);
+
+    expect(resolveRelations([post], new Set(["PostStatus", "PostTags"]))).toEqual([
+      'Relation "Post.author" points at unknown model "User"',
+    ]);
+  });
+});
@@ -159,7 +159,7 @@ describe("buildModel - Media Fields", () => {
     );
   });
 
-  it("builds model with multiple media as relation", () => {
+  it("builds model with multiple media as a junction table list", () => {
     const model: ModelConfigType = {
       slug: "post",
       name: "Post",
@@ -183,6 +183,7 @@ describe("buildModel - Media Fields", () => {
       i18nEnabled: false,
       i18nTableNaming: "",
       externalModelNames: new Set(["Media"]),
+      media: { name: "Media", primaryKey: "id", keyType: "String" },
     };
 
     const result = buildModel(model, config);
@@ -192,7 +193,7 @@ describe("buildModel - Media Fields", () => {
       expect.arrayContaining([
         expect.objectContaining({
           name: "gallery",
-          type: "Media",
+          type: "PostGalleryMedia",
           list: true,
           optional: true,
         }),
@@ -318,7 +319,7 @@ describe("buildModel - Relation Fields", () => {
     expect(mainModel.fields.find((f) => f.name === "posts_id")).toBeUndefined();
   });
 
-  it("builds manyToMany relation as list relation", () => {
+  it("builds manyToMany relation as a list of junction rows", () => {
     const model: ModelConfigType = {
       slug: "post",
       name: "Post",
@@ -347,7 +348,7 @@ describe("buildModel - Relation Fields", () => {
       expect.arrayContaining([
         expect.objectContaining({
           name: "categories",
-          type: "Category", // FIXED: PascalCase
+          type: "PostCategory",
           list: true,
           optional: true,
         }),
@@ -0,0 +1,280 @@
+import { describe, it, expect } from "vitest";
+import {
+  diffSchemas,
+  exceedsSeverity,
+  maxSeverity,
+} from "../../src/core/schema-diff";
+import { Generator } from "../../src/core/generator";
+import {
+  extractEnumsFromString,
+  extractModelsFromString,
+} from "../../src/utils/prisma-parser";
+import type { PrismaModel } from "../../src/utils/prisma-ast";
+import type { Config } from "../../src/types/config";
+
+const post = (fields: PrismaModel["fields"], extra: Partial<PrismaModel> = {}): PrismaModel => ({
+  name: "Post",
+  fields: [
+    { name: "id", type: "String", attributes: ["@id", "@default(cuid())"] },
+    ...fields,
+  ],
+  ...extra,
+});
+
+describe("diffSchemas", () => {
+  it("reports no changes for a schema read back from its own output", async () => {
+    const config: Config = {
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: [
+              { key: "slug", label: "Slug", type: "text", required: true, translatable: false },
+              { key: "title", label: "Title", type: "text", required: true },
+              {
+                key: "categories",
+                label: "Categories",
+                type: "relation",
+                config: {
+                  type: "relation",
+                  relationType: "manyToMany",
+                  targetModel: "category",
+                  displayField: "name",
+                },
+              },
+            ],
+            settings: { sortField: "slug" },
+          },
+          {
+            slug: "category",
+            name: "Category",
+            fields: [{ key: "name", label: "Name", type: "text", required: true }],
+          },
+        ],
+      },
+      i18n: { enabled: true, defaultLang: "en", tableNaming: "${identifier}_translation" },
+    };
+
+    const result = await new Generator(config).generate();
+    const written = extractModelsFromString(result.schema);
+
+    expect(diffSchemas(written, result.prismaSchema.models)).toEqual([]);
+  });
+
+  it("reports no changes for a schema with typed JSON fields and enums", async () => {
+    const config: Config = {
+      input: {
+        models: [
+          {
+            slug: "page",
+            name: "Page",
+            fields: [
+              {
+                key: "blocks",
+                label: "Blocks",
+                type: "json",
+                required: false,
+                config: {
+                  type: "json",
+                  schema: { type: "array", items: { type: "object", properties: { id: { type: "string" } } } },
+                },
+              },
+              { key: "slug", label: "Slug", type: "text", required: true },
+              {
+                key: "status",
+                label: "Status",
+                type: "select",
+                required: true,
+                config: { type: "select", options: ["draft", "in-review"], default: "in-review" },
+              },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+    };
+
+    const result = await new Generator(config).generate();
+    const written = extractModelsFromString(result.schema);
+
+    expect(
+      diffSchemas(
+        written,
+        result.prismaSchema.models,
+        extractEnumsFromString(result.schema),
+        result.prismaSchema.enums
+      )
+    ).toEqual([]);
+  });
+
+  it("classifies added and removed models", () => {
+    const changes = diffSchemas(
+      [{ name: "Old", fields: [] }],
+      [{ name: "New", fields: [] }]
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ kind: "model-removed", model: "Old", severity: "destructive" }),
+      expect.objectContaining({ kind: "model-added", model: "New", severity: "safe" }),
+    ]);
+  });
+
+  it("treats dropped columns as destructive and dropped relation fields as safe", () => {
+    const changes = diffSchemas(
+      [
+        post([
+          { name: "title", type: "String" },
+          { name: "tags", type: "Tag", list: true },
+        ]),
+        { name: "Tag", fields: [] },
+      ],
+      [post([]), { name: "Tag", fields: [] }]
+    );
+
+    expect(changes.map((c) => [c.field, c.severity])).toEqual([
+      ["title", "destructive"],
+      ["tags", "safe"],
+    ]);
+  });
+
+  it("flags required fields added without a default", () => {
+    const changes = diffSchemas(
+      [post([])],
+      [
+        post([
+          { name: "title", type: "String" },
+          { name: "subtitle", type: "String", optional: true },
+          { name: "views", type: "Int", attributes: ["@default(0)"] },
+        ]),
+      ]
+    );
+
+    expect(changes.map((c) => [c.field, c.severity])).toEqual([
+      ["title", "risky"],
+      ["subtitle", "safe"],
+      ["views", "safe"],
+    ]);
+  });
+
+  it("separates widening from narrowing type changes", () => {
+    const changes = diffSchemas(
+      [post([
+        { name: "views", type: "Int" },
+        { name: "price", type: "Float" },
+      ])],
+      [post([
+        { name: "views", type: "Float" },
+        { name: "price", type: "Int" },
+      ])]
+    );
+
+    expect(changes).toEqual([
+      expect.objectContaining({ field: "views", severity: "safe" }),
+      expect.objectContaining({
+        field: "price",
+        severity: "risky",
+        message: "Post.price type changed Float -> Int (narrowing)",
+      }),
+    ]);
+  });
+
+  it("treats optional -> required as risky and the reverse as safe", () => {
+    const changes = diffSchemas(
+      [post([
+        { name: "a", type: "String", optional: true },
+        { name: "b", type: "String" },
+      ])],
+      [post([
+        { name: "a", type: "String" },
+        { name: "b", type: "String", optional: true },
+      ])]
+    );
+
+    expect(changes.map((c) => [c.field, c.severity, c.message])).toEqual([
+      ["a", "risky", "Post.a optional -> required"],
+      ["b", "safe", "Post.b required -> optional"],
+    ]);
+  });
+
+  it("classifies attribute and block changes", () => {
+    const changes = diffSchemas(
+      [post([
+        { name: "slug", type: "String", attributes: ["@db.VarChar(200)"] },
+        { name: "code", type: "String", map: "code" },
+      ], { indexes: [["slug"]] })],
+      [post([
+        { name: "slug", type: "String", attributes: ["@unique", "@db.VarChar(100)"] },
+        { name: "code", type: "String", map: "legacy_code" },
+      ], { unique: [["slug", "code"]], map: "posts" })]
+    );
+
+    expect(changes.map((c) => [c.severity, c.message])).toEqual([
+      ["risky", "Post.slug attribute added @unique"],
+      ["risky", "Post.slug attribute changed @db.VarChar(200) -> @db.VarChar(100)"],
+      ["destructive", 'Post.code attribute changed @map("code") -> @map("legacy_code")'],
+      ["destructive", "Post table mapping changed (none) -> posts"],
+      ["risky", "Post @@unique([slug, code]) added"],
+      ["safe", "Post @@index([slug]) removed"],
+    ]);
+  });
+
+  it("compares index names and types", () => {
+    const changes = diffSchemas(
+      [post([{ name: "slug", type: "String" }], { indexes: [["slug"], { fields: ["slug"], map: "a" }] })],
+      [post([{ name: "slug", type: "String" }], { indexes: [["slug"], { fields: ["slug"], map: "b", type: "Hash" }] })]
+    );
+
+    expect(changes.map((c) => c.message)).toEqual([
+      'Post @@index([slug], map: "b", type: Hash) added',
+      'Post @@index([slug], map: "a") removed',
+    ]);
+  });
+});
+
+describe("diffSchemas enums", () => {
+  const status = (...values: Array<{ name: string; map?: string }>) => [
+    { name: "PostStatus", values },
+  ];
+
+  it("flags removed values as risky and compares by stored value", () => {
+    const changes = diffSchemas(
+      [],
+      [],
+      status({ name: "draft" }, { name: "in_review", map: "in-review" }, { name: "old" }),
+      status({ name: "draft" }, { name: "review", map: "in-review" }, { name: "live" })
+    );
+
+    expect(changes.map((c) => [c.severity, c.kind, c.message])).toEqual([
+      ["safe", "enum-changed", "Enum PostStatus value in-review renamed in_review -> review"],
+      ["risky", "enum-changed", "Enum PostStatus value old removed (fails on rows storing it)"],
+      ["safe", "enum-changed", "Enum PostStatus value live added"],
+    ]);
+    expect(maxSeverity(changes)).toBe("risky");
+  });
+
+  it("reports added and removed enums", () => {
+    const changes = diffSchemas([], [], status({ name: "draft" }), [
+      { name: "PostKind", values: [{ name: "news" }] },
+    ]);
+
+    expect(changes.map((c) => [c.severity, c.kind, c.model])).toEqual([
+      ["safe", "enum-removed", "PostStatus"],
+      ["safe", "enum-added", "PostKind"],
+    ]);
+  });
+});
+
+describe("severity helpers", () => {
+  const changes = diffSchemas([post([{ name: "a", type: "String", optional: true }])], [post([{ name: "a", type: "String" }])]);
+
+  it("returns the highest severity", () => {
+    expect(maxSeverity(changes)).toBe("risky");
+    expect(maxSeverity([])).toBeNull();
+  });
+
+  it("compares against a threshold", () => {
+    expect(exceedsSeverity(changes, "risky")).toBe(true);
+    expect(exceedsSeverity(changes, "destructive")).toBe(false);
+  });
+});
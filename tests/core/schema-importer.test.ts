@@ -0,0 +1,726 @@
+import { describe, it, expect } from "vitest";
+import { importPrismaModels } from "../../src/core/schema-importer";
+import { Generator } from "../../src/core/generator";
+import {
+  extractEnumsFromString,
+  extractModelsFromString,
+} from "../../src/utils/prisma-parser";
+import type { Config } from "../../src/types/config";
+import type { ModelConfigType } from "../../src/field-config-schema";
+
+const components = [
+  {
+    slug: "seo",
+    name: "Seo",
+    fields: [
+      { key: "meta_title", label: "Meta Title", type: "text", required: false, translatable: true },
+      { key: "no_index", label: "No Index", type: "boolean", required: false, translatable: false },
+    ],
+  },
+];
+
+const models = [
+  {
+    slug: "category",
+    name: "Category",
+    fields: [
+      { key: "name", label: "Name", type: "text", required: true, translatable: false },
+    ],
+  },
+  {
+    slug: "blog-post",
+    name: "Blog Post",
+    fields: [
+      {
+        key: "slug",
+        label: "Slug",
+        type: "text",
+        required: true,
+        translatable: false,
+        validation: { minLength: 3, maxLength: 100, pattern: "^[a-z0-9-]+$" },
+      },
+      {
+        key: "views",
+        label: "Views",
+        type: "number",
+        required: false,
+        translatable: false,
+        config: { type: "number", format: "integer" },
+        validation: { min: 0 },
+      },
+      { key: "title", label: "Title", type: "text", required: true, translatable: true },
+      {
+        key: "categories",
+        label: "Categories",
+        type: "relation",
+        required: false,
+        config: {
+          type: "relation",
+          relationType: "manyToMany",
+          targetModel: "category",
+          displayField: "name",
+          cascade: "cascade",
+        },
+      },
+      {
+        key: "seo",
+        label: "Seo",
+        type: "component",
+        required: false,
+        config: { type: "component", slug: "seo", repeatable: false },
+      },
+    ],
+  },
+];
+
+async function generateModels() {
+  const config: Config = {
+    input: { models, components },
+    i18n: { enabled: true, defaultLang: "en", tableNaming: "${identifier}_translation" },
+  };
+  const result = await new Generator(config).generate();
+  return extractModelsFromString(result.schema);
+}
+
+describe("importPrismaModels", () => {
+  it("round-trips a generated schema back to its definitions", async () => {
+    const result = importPrismaModels(await generateModels());
+
+    expect(result.models.map((m) => m.slug)).toEqual(["category", "blog-post"]);
+
+    const post = result.models.find((m) => m.slug === "blog-post")!;
+    const byKey = new Map(post.fields.map((f) => [f.key, f]));
+
+    expect(post.name).toBe("Blog Post");
+    expect(post.settings).toEqual({ enableI18n: true });
+    expect(byKey.get("slug")).toMatchObject({
+      type: "text",
+      required: true,
+      translatable: false,
+      validation: { minLength: 3, maxLength: 100, pattern: "^[a-z0-9-]+$" },
+    });
+    expect(byKey.get("views")).toMatchObject({
+      type: "number",
+      required: false,
+      config: { type: "number", format: "integer" },
+      validation: { min: 0 },
+    });
+    expect(byKey.get("title")).toMatchObject({
+      type: "text",
+      required: true,
+      translatable: true,
+    });
+    expect(byKey.get("categories")).toMatchObject({
+      type: "relation",
+      config: {
+        relationType: "manyToMany",
+        targetModel: "category",
+        displayField: "name",
+        cascade: "cascade",
+      },
+    });
+    expect(byKey.get("seo")).toMatchObject({
+      type: "component",
+      config: { type: "component", slug: "seo", repeatable: false },
+    });
+    expect(post.fields).toHaveLength(5);
+  });
+
+  it("recovers components with their translatable fields", async () => {
+    const result = importPrismaModels(await generateModels());
+
+    expect(result.components).toHaveLength(1);
+    expect(result.components[0]).toMatchObject({
+      slug: "seo",
+      fields: [
+        { key: "no_index", type: "boolean", translatable: false },
+        { key: "meta_title", type: "text", translatable: true },
+      ],
+    });
+  });
+
+  it("feeds back into the generator unchanged", async () => {
+    const imported = importPrismaModels(await generateModels());
+    const config: Config = {
+      input: { models: imported.models, components: imported.components },
+      i18n: { enabled: true, defaultLang: "en", tableNaming: "${identifier}_translation" },
+    };
+
+    const regenerated = await new Generator(config).generate();
+    const names = extractModelsFromString(regenerated.schema).map((m) => m.name).sort();
+    const original = (await generateModels()).map((m) => m.name).sort();
+
+    expect(names).toEqual(original);
+  });
+
+  it("keeps the fields after a typed JSON field", async () => {
+    const config: Config = {
+      input: {
+        models: [
+          {
+            slug: "page",
+            name: "Page",
+            fields: [
+              {
+                key: "meta",
+                label: "Meta",
+                type: "json",
+                required: false,
+                config: {
+                  type: "json",
+                  schema: { type: "object", properties: { title: { type: "string" } } },
+                },
+              },
+              { key: "slug", label: "Slug", type: "text", required: true },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+    };
+    const generated = await new Generator(config).generate();
+
+    expect(generated.schema).toContain("/// @zod.custom.use(z.object({");
+
+    const page = importPrismaModels(extractModelsFromString(generated.schema)).models[0]!;
+    expect(page.fields.map((f) => f.key)).toEqual(["meta", "slug"]);
+  });
+
+  it("imports enum fields as selects with their stored values", async () => {
+    const config: Config = {
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: [
+              {
+                key: "status",
+                label: "Status",
+                type: "select",
+                required: true,
+                translatable: false,
+                config: { type: "select", options: ["draft", "in-review"], default: "in-review" },
+              },
+            ],
+          },
+        ],
+      },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+    };
+    const generated = await new Generator(config).generate();
+
+    const result = importPrismaModels(
+      extractModelsFromString(generated.schema),
+      {},
+      extractEnumsFromString(generated.schema)
+    );
+
+    expect(result.warnings).toEqual([]);
+    expect(result.models[0]!.fields).toEqual([
+      {
+        key: "status",
+        label: "Status",
+        type: "select",
+        required: true,
+        translatable: false,
+        config: { type: "select", options: ["draft", "in-review"], default: "in-review" },
+      },
+    ]);
+  });
+
+  describe("multi-selects", () => {
+    const importTags = async (provider: "postgresql" | "mysql" | "sqlite") => {
+      const config: Config = {
+        input: {
+          models: [
+            {
+              slug: "post",
+              name: "Post",
+              fields: [
+                {
+                  key: "tags",
+                  label: "Tags",
+                  type: "select",
+                  required: false,
+                  translatable: false,
+                  config: { type: "select", multiple: true, options: ["news", "how-to"] },
+                  validation: { minItems: 1, maxItems: 2 },
+                },
+              ],
+            },
+          ],
+        },
+        output: { datasource: { provider, url: 'env("DATABASE_URL")' } },
+      };
+      const generated = await new Generator(config).generate();
+
+      expect(generated.schema).toContain("/// @zod.min(1).max(2)");
+
+      return importPrismaModels(
+        extractModelsFromString(generated.schema),
+        {},
+        extractEnumsFromString(generated.schema)
+      );
+    };
+
+    it("reads enum lists with their options on PostgreSQL", async () => {
+      const result = await importTags("postgresql");
+
+      expect(result.models[0]!.fields[0]).toMatchObject({
+        type: "select",
+        config: { type: "select", multiple: true, options: ["news", "how-to"] },
+        validation: { minItems: 1, maxItems: 2 },
+      });
+    });
+
+    it("reads value tables without their options on SQLite", async () => {
+      const result = await importTags("sqlite");
+
+      expect(result.models.map((m) => m.slug)).toEqual(["post"]);
+      expect(result.components).toEqual([]);
+      expect(result.models[0]!.fields[0]).toMatchObject({
+        type: "select",
+        config: { type: "select", multiple: true, options: [] },
+        validation: { minItems: 1, maxItems: 2 },
+      });
+      expect(result.warnings[0]).toBe(
+        'Multi-select "Post.tags" is stored in PostTagsValue without its options, add them to config.options'
+      );
+    });
+
+    it("cannot tell Json multi-selects from json fields on MySQL", async () => {
+      const result = await importTags("mysql");
+
+      expect(result.models[0]!.fields[0]).toMatchObject({
+        type: "json",
+        validation: { minItems: 1, maxItems: 2 },
+      });
+    });
+  });
+
+  it("keeps the key of many-to-many fields and skips their back-references", async () => {
+    const config: Config = {
+      input: {
+        models: [
+          models[0]!,
+          {
+            slug: "post",
+            name: "Post",
+            fields: [
+              {
+                key: "featured_in",
+                label: "Featured In",
+                type: "relation",
+                required: false,
+                config: { type: "relation", relationType: "manyToMany", targetModel: "category", displayField: "name" },
+              },
+            ],
+          },
+        ],
+      },
+    };
+    const generated = await new Generator(config).generate();
+    const result = importPrismaModels(extractModelsFromString(generated.schema));
+
+    expect(result.models.find((m) => m.slug === "post")!.fields).toMatchObject([
+      { key: "featured_in", config: { relationType: "manyToMany", targetModel: "category" } },
+    ]);
+    expect(result.models.find((m) => m.slug === "category")!.fields.map((f) => f.key)).toEqual(["name"]);
+  });
+
+  it("imports hand-written relations", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model User {
+          id    String @id
+          name  String
+          posts Post[]
+        }
+
+        model Post {
+          id        String  @id
+          title     String
+          author_id String?
+          author    User?   @relation(fields: [author_id], references: [id], onDelete: SetNull)
+          cover_id  String
+          cover     Media   @relation(fields: [cover_id], references: [id])
+        }
+
+        model Media {
+          id  String @id
+          url String
+        }
+      `)
+    );
+
+    const user = result.models.find((m) => m.slug === "user")!;
+    const post = result.models.find((m) => m.slug === "post")!;
+
+    expect(result.models).toHaveLength(2);
+    expect(user.fields.find((f) => f.key === "posts")).toMatchObject({
+      type: "relation",
+      config: { relationType: "oneToMany", targetModel: "post" },
+    });
+    expect(post.fields.find((f) => f.key === "author")).toMatchObject({
+      type: "relation",
+      required: false,
+      config: { relationType: "manyToOne", targetModel: "user", displayField: "name", cascade: "setNull" },
+    });
+    expect(post.fields.find((f) => f.key === "cover")).toMatchObject({
+      type: "media",
+      required: true,
+      config: { multiple: false },
+    });
+  });
+
+  it("keeps single media on the record when it round-trips with i18n", async () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Post {
+          id           String            @id
+          cover_id     String?
+          cover        Media?            @relation(fields: [cover_id], references: [id], onDelete: SetNull)
+          translations PostTranslation[]
+        }
+
+        model PostTranslation {
+          id      String @id
+          post_id String
+          lang    String
+          title   String
+          post    Post   @relation(fields: [post_id], references: [id], onDelete: Cascade)
+
+          @@unique([post_id, lang])
+        }
+
+        model Media {
+          id  String @id
+          url String
+        }
+      `)
+    );
+    const post = result.models.find((m) => m.slug === "post")!;
+
+    expect(post.fields.find((f) => f.key === "cover")).toMatchObject({
+      type: "media",
+      translatable: false,
+    });
+
+    const regenerated = await new Generator({
+      input: { models: result.models, components: result.components },
+      i18n: { enabled: true, defaultLang: "en", tableNaming: "${identifier}_translation" },
+    }).generate();
+    const [postModel, translation] = extractModelsFromString(regenerated.schema);
+
+    expect(postModel!.fields.map((f) => f.name)).toContain("cover_id");
+    expect(translation!.fields.map((f) => f.name)).not.toContain("cover_id");
+  });
+
+  it("imports media junction tables as multiple media fields", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Post {
+          id      String             @id
+          title   String
+          gallery PostGalleryMedia[]
+        }
+
+        model PostGalleryMedia {
+          id       String  @id
+          post_id  String
+          media_id String
+          order    Int     @default(0)
+          alt      String?
+          focal_x  Float?
+          focal_y  Float?
+          post     Post    @relation(fields: [post_id], references: [id], onDelete: Cascade)
+          media    Media   @relation(fields: [media_id], references: [id], onDelete: Cascade)
+        }
+
+        model Media {
+          id      String             @id
+          url     String
+          gallery PostGalleryMedia[]
+        }
+      `)
+    );
+
+    expect(result.components).toEqual([]);
+    expect(result.models.map((m) => m.slug)).toEqual(["post"]);
+    expect(result.models[0]!.fields.find((f) => f.key === "gallery")).toMatchObject({
+      type: "media",
+      required: false,
+      config: { type: "media", multiple: true },
+    });
+  });
+
+  it("imports dynamic zone tables as a component list", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Page {
+          id     String      @id
+          title  String
+          blocks PageBlock[]
+        }
+
+        model PageBlock {
+          id      String          @id
+          page_id String
+          order   Int
+          type    String
+          hero    PageBlockHero?
+          quote   PageBlockQuote?
+          page    Page            @relation(fields: [page_id], references: [id], onDelete: Cascade)
+        }
+
+        model PageBlockHero {
+          id            String    @id
+          page_block_id String    @unique
+          heading       String
+          page_block    PageBlock @relation(fields: [page_block_id], references: [id], onDelete: Cascade)
+        }
+
+        model PageBlockQuote {
+          id            String    @id
+          page_block_id String    @unique
+          body          String?
+          page_block    PageBlock @relation(fields: [page_block_id], references: [id], onDelete: Cascade)
+        }
+      `)
+    );
+
+    expect(result.models.map((m) => m.slug)).toEqual(["page"]);
+    expect(result.models[0]!.fields.find((f) => f.key === "blocks")).toMatchObject({
+      type: "component",
+      config: { type: "component", components: ["hero", "quote"] },
+    });
+    expect(result.components.map((c) => c.slug)).toEqual(["hero", "quote"]);
+  });
+
+  it("imports nested component tables as component fields of the component", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Page {
+          id   String   @id
+          hero PageHero?
+        }
+
+        model PageHero {
+          id      String           @id
+          page_id String           @unique
+          heading String
+          buttons PageHeroButton[]
+          page    Page             @relation(fields: [page_id], references: [id], onDelete: Cascade)
+        }
+
+        model PageHeroButton {
+          id           String   @id
+          page_hero_id String
+          order        Int?
+          label        String
+          page_hero    PageHero @relation(fields: [page_hero_id], references: [id], onDelete: Cascade)
+        }
+      `)
+    );
+
+    expect(result.models.map((m) => m.slug)).toEqual(["page"]);
+    expect(result.components.find((c) => c.slug === "hero")!.fields).toMatchObject([
+      { key: "heading", type: "text" },
+      {
+        key: "buttons",
+        type: "component",
+        config: { type: "component", slug: "button", repeatable: true },
+      },
+    ]);
+    expect(result.components.find((c) => c.slug === "button")!.fields).toMatchObject([
+      { key: "label", type: "text" },
+    ]);
+  });
+
+  it("renames non-slug field keys with a warning", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Article {
+          id          String   @id
+          publishedAt DateTime
+          isFeatured  Boolean  @default(false)
+        }
+      `)
+    );
+
+    expect(result.models[0]!.fields).toMatchObject([
+      { key: "published_at", label: "Published At", type: "date" },
+      { key: "is_featured", type: "boolean", config: { type: "boolean", default: false } },
+    ]);
+    expect(result.warnings).toContain('Renamed field "Article.publishedAt" to "published_at"');
+  });
+
+  it("imports Decimal precision and BigInt formats", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Product {
+          id    String  @id
+          price Decimal @db.Decimal(12, 4)
+          views BigInt
+        }
+      `)
+    );
+
+    expect(result.models[0]!.fields).toMatchObject([
+      { key: "price", type: "number", config: { format: "currency", precision: 12, scale: 4 } },
+      { key: "views", type: "number", config: { format: "bigint" } },
+    ]);
+  });
+
+  it("imports date formats and timezones from native types", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Event {
+          id         String   @id
+          day        DateTime @db.Date
+          opens_at   DateTime @db.Timetz(3)
+          starts_at  DateTime @db.Timestamptz(3)
+          logged_at  DateTime
+        }
+      `)
+    );
+
+    expect(result.models[0]!.fields).toMatchObject([
+      { key: "day", config: { type: "date", format: "date" } },
+      { key: "opens_at", config: { type: "date", format: "time", timezone: true } },
+      { key: "starts_at", config: { type: "date", format: "datetime", timezone: true } },
+      { key: "logged_at", config: { type: "date", format: "datetime" } },
+    ]);
+  });
+
+  it("imports now() and literal date defaults", async () => {
+    const date = (key: string, format: "date" | "datetime" | "time", value: string) => ({
+      key,
+      label: key,
+      type: "date" as const,
+      required: false,
+      translatable: false,
+      config: { type: "date" as const, format, default: value },
+    });
+    const config = (models: ModelConfigType[]): Config => ({
+      input: { models },
+      output: { datasource: { provider: "postgresql", url: 'env("DATABASE_URL")' } },
+    });
+    const generated = await new Generator(
+      config([
+        {
+          slug: "event",
+          name: "Event",
+          fields: [
+            date("published_at", "datetime", "now()"),
+            date("day", "date", "2024-01-01"),
+            date("opens_at", "time", "09:30:00"),
+          ],
+        },
+      ])
+    ).generate();
+    const result = importPrismaModels(extractModelsFromString(generated.schema));
+
+    expect(result.models[0]!.fields).toMatchObject([
+      { key: "published_at", config: { format: "datetime", default: "now()" } },
+      { key: "day", config: { format: "date", default: "2024-01-01" } },
+      { key: "opens_at", config: { format: "time", default: "09:30:00" } },
+    ]);
+
+    const regenerated = await new Generator(config(result.models)).generate();
+    const body = (schema: string) => schema.slice(schema.indexOf("model "));
+    expect(body(regenerated.schema)).toBe(body(generated.schema));
+    expect(generated.schema).toContain('@default("2024-01-01T00:00:00.000Z")');
+  });
+
+  it("imports VarChar lengths and text storage", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Article {
+          id      String  @id
+          /// @zod.max(120)
+          slug    String  @db.VarChar(191)
+          title   String  @db.VarChar(300)
+          summary String? @db.Text
+        }
+      `)
+    );
+
+    expect(result.models[0]!.fields).toMatchObject([
+      { key: "slug", validation: { maxLength: 120 } },
+      { key: "title", validation: { maxLength: 300 } },
+      { key: "summary", config: { type: "text", multiline: true } },
+    ]);
+  });
+
+  it("imports unique and indexed fields and composite indexes", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model Post {
+          id           String   @id
+          sku          String   @unique
+          status       String
+          published_at DateTime
+          created_at   DateTime @default(now())
+          author_id    String
+          author       User     @relation(fields: [author_id], references: [id])
+          translations PostTranslation[]
+
+          @@index([created_at])
+          @@index([author_id])
+          @@index([status])
+          @@index([published_at])
+          @@index([status, published_at(sort: Desc)], map: "post_feed_idx")
+        }
+
+        model PostTranslation {
+          id      String @id
+          post_id String
+          lang    String
+          slug    String
+          post    Post   @relation(fields: [post_id], references: [id])
+
+          @@unique([post_id, lang])
+          @@unique([post_id, lang, slug])
+        }
+
+        model User {
+          id    String @id
+          name  String
+          posts Post[]
+        }
+      `)
+    );
+
+    const post = result.models[0]!;
+    expect(post.fields).toMatchObject([
+      { key: "sku", unique: true },
+      { key: "status", indexed: true },
+      { key: "published_at", indexed: true },
+      { key: "author", indexed: true },
+      { key: "slug", unique: true },
+    ]);
+    expect(post.settings).toEqual({
+      enableI18n: true,
+      sortField: "created_at",
+      indexes: [
+        { fields: ["status", { field: "published_at", sort: "desc" }], name: "post_feed_idx" },
+      ],
+    });
+  });
+
+  it("strips the naming prefix from slugs", () => {
+    const result = importPrismaModels(
+      extractModelsFromString(`
+        model ContentPage {
+          id    String @id
+          title String
+        }
+      `),
+      { prefix: "Content" }
+    );
+
+    expect(result.models[0]).toMatchObject({ slug: "page", name: "Page" });
+  });
+});
@@ -0,0 +1,120 @@
+// tests/core/schema-validator.test.ts
+
+import { describe, it, expect } from "vitest";
+import {
+  formatSchemaIssues,
+  parseEngineErrors,
+  validateSchema,
+  type SchemaSource,
+} from "../../src/core/schema-validator";
+
+const schema = (body: string) => `datasource db {
+  provider = "postgresql"
+  url      = env("DATABASE_URL")
+}
+
+${body}
+`;
+
+describe("validateSchema", () => {
+  it("returns no issues for a valid schema", async () => {
+    const issues = await validateSchema(
+      schema(`model Post {
+  id    String @id
+  title String
+}`)
+    );
+
+    expect(issues).toEqual([]);
+  });
+
+  it("locates issues in the model and field they belong to", async () => {
+    const issues = await validateSchema(
+      schema(`model Post {
+  id     String @id
+  author Usr
+}`)
+    );
+
+    expect(issues).toEqual([
+      expect.objectContaining({
+        line: 8,
+        prismaModel: "Post",
+        prismaField: "author",
+        message: expect.stringContaining('Type "Usr" is neither a built-in type'),
+      }),
+    ]);
+  });
+
+  it("maps issues back to EAV models and field keys", async () => {
+    const sources = new Map<string, SchemaSource>([
+      ["Post", { model: "post", fields: ["title", "author"] }],
+      ["PostSeo", { model: "post", component: "seo", fields: ["meta"] }],
+    ]);
+
+    const issues = await validateSchema(
+      schema(`model Post {
+  id        String @id
+  author_id Strng
+}
+
+model PostSeo {
+  id   String @id
+  meta Text
+}`),
+      sources
+    );
+
+    expect(issues).toMatchObject([
+      { model: "post", field: "author", prismaField: "author_id" },
+      { model: "post", component: "seo", field: "meta" },
+    ]);
+  });
+});
+
+describe("parseEngineErrors", () => {
+  it("splits engine output into issues with line numbers", () => {
+    const output = [
+      'error: Type "Usr" is neither a built-in type, nor refers to another model, custom type, or enum.',
+      "  -->  schema.prisma:8",
+      "   | ",
+      'error: Field "title" is already defined on model "Post".',
+      "  -->  prisma/schema.prisma:12",
+      "",
+      "Validation Error Count: 2",
+    ].join("\n");
+
+    expect(parseEngineErrors(output)).toEqual([
+      {
+        message:
+          'Type "Usr" is neither a built-in type, nor refers to another model, custom type, or enum.',
+        line: 8,
+      },
+      { message: 'Field "title" is already defined on model "Post".', line: 12 },
+    ]);
+  });
+
+  it("keeps unrecognized output as a single issue", () => {
+    expect(parseEngineErrors("Something went wrong\n")).toEqual([
+      { message: "Something went wrong" },
+    ]);
+  });
+});
+
+describe("formatSchemaIssues", () => {
+  it("names EAV sources, falling back to Prisma names and lines", () => {
+    expect(
+      formatSchemaIssues([
+        { message: "a", model: "post", component: "seo", field: "meta" },
+        { message: "b", prismaModel: "User", prismaField: "name" },
+        { message: "c", line: 3 },
+      ])
+    ).toBe(
+      [
+        '  model "post", component "seo", field "meta": a',
+        "  User.name: b",
+        "  line 3: c",
+      ].join("\n")
+    );
+  });
+});
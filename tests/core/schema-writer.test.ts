@@ -4,6 +4,7 @@ import {
   writeGenerator, 
   writeField, 
   writeModel, 
+  writeEnum,
   writeSchema  // Async version
 } from '../../src/core/schema-writer';
 import { PrismaDatasource, PrismaGenerator, PrismaModel, PrismaSchema } from '../../src/utils/prisma-ast';
@@ -154,6 +155,33 @@ describe('writeField', () => {
     
     expect(result).toBe('createdAt DateTime @default(now()) @map("created_at")');
   });
+  
+  it('writes default values quoted by type', () => {
+    expect(writeField({ name: 'title', type: 'String', default: 'Say "hi"' }))
+      .toBe('title String @default("Say \\"hi\\"")');
+    expect(writeField({ name: 'views', type: 'Int', default: 0 })).toBe('views Int @default(0)');
+    expect(writeField({ name: 'active', type: 'Boolean', default: false }))
+      .toBe('active Boolean @default(false)');
+    expect(writeField({ name: 'at', type: 'DateTime', default: 'now()' }))
+      .toBe('at DateTime @default(now())');
+    expect(writeField({ name: 'at', type: 'DateTime', default: '2024-01-01T00:00:00.000Z' }))
+      .toBe('at DateTime @default("2024-01-01T00:00:00.000Z")');
+    expect(writeField({ name: 'status', type: 'PostStatus', default: 'draft' }))
+      .toBe('status PostStatus @default(draft)');
+    expect(writeField({ name: 'tags', type: 'PostTags', list: true, default: ['a', 'b'] }))
+      .toBe('tags PostTags[] @default([a, b])');
+  });
+  
+  it('keeps a @default attribute over the default value', () => {
+    const result = writeField({
+      name: 'role',
+      type: 'String',
+      default: 'user',
+      attributes: ['@default("user")']
+    });
+    
+    expect(result).toBe('role String @default("user")');
+  });
 });
 
 describe('writeModel', () => {
@@ -221,6 +249,24 @@ describe('writeModel', () => {
     expect(result).toContain('@@index([status, published_at])');
   });
   
+  it('writes named, sorted and typed indexes', () => {
+    const model: PrismaModel = {
+      name: 'Post',
+      fields: [
+        { name: 'id', type: 'String', attributes: ['@id'] },
+        { name: 'status', type: 'String' },
+        { name: 'published_at', type: 'DateTime' }
+      ],
+      indexes: [{ fields: ['status', 'published_at(sort: Desc)'], map: 'post_feed_idx', type: 'BTree' }],
+      unique: [{ fields: ['status', 'published_at'], map: 'post_status_key' }]
+    };
+
+    const result = writeModel(model);
+
+    expect(result).toContain('@@index([status, published_at(sort: Desc)], map: "post_feed_idx", type: BTree)');
+    expect(result).toContain('@@unique([status, published_at], map: "post_status_key")');
+  });
+
   it('writes model with unique constraint', () => {
     const model: PrismaModel = {
       name: 'PostTranslation',
@@ -305,6 +351,23 @@ describe('writeModel', () => {
   });
 });
 
+describe('writeEnum', () => {
+  it('writes enum values with aligned @map attributes', () => {
+    const result = writeEnum({
+      name: 'PostStatus',
+      values: [
+        { name: 'draft' },
+        { name: 'in_review', map: 'in-review' }
+      ]
+    });
+
+    expect(result).toBe(`enum PostStatus {
+  draft
+  in_review @map("in-review")
+}`);
+  });
+});
+
 describe('writeSchema', () => {
   it('writes complete schema', async () => {
     const schema: PrismaSchema = {
@@ -376,4 +439,15 @@ describe('writeSchema', () => {
     expect(result).toContain('model Post {');
     expect(result).toContain('@@index([author_id])');
   });
-});
\ No newline at end of file
+
+  it('writes enums after models', async () => {
+    const result = await writeSchema({
+      datasource: { provider: 'postgresql', url: 'env("DATABASE_URL")' },
+      generators: [],
+      models: [{ name: 'Post', fields: [{ name: 'status', type: 'PostStatus' }] }],
+      enums: [{ name: 'PostStatus', values: [{ name: 'draft' }] }]
+    });
+
+    expect(result.indexOf('enum PostStatus {')).toBeGreaterThan(result.indexOf('model Post {'));
+  });
+});
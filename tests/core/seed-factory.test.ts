@@ -0,0 +1,259 @@
+import { describe, it, expect, vi } from "vitest";
+import { SeedFactory, type SeedDefinitions } from "../../src/core/seed-factory";
+import type {
+  ComponentEntityType,
+  ModelConfigType,
+} from "../../src/field-config-schema";
+
+const authorModel: ModelConfigType = {
+  slug: "author",
+  name: "Author",
+  fields: [
+    {
+      key: "email",
+      label: "Email",
+      type: "text",
+      required: true,
+      translatable: false,
+      validation: { email: true, maxLength: 40 },
+    },
+  ],
+};
+
+const postModel: ModelConfigType = {
+  slug: "post",
+  name: "Post",
+  fields: [
+    {
+      key: "code",
+      label: "Code",
+      type: "text",
+      required: true,
+      translatable: false,
+      validation: { pattern: "^[A-Z]{3}-\\d{4}$" },
+    },
+    {
+      key: "title",
+      label: "Title",
+      type: "text",
+      required: true,
+      validation: { minLength: 10, maxLength: 20 },
+    },
+    {
+      key: "rating",
+      label: "Rating",
+      type: "number",
+      required: true,
+      translatable: false,
+      config: { type: "number", format: "integer" },
+      validation: { min: 1, max: 5 },
+    },
+    {
+      key: "published_on",
+      label: "Published On",
+      type: "date",
+      required: false,
+      translatable: false,
+      config: { type: "date", format: "date" },
+      validation: { minDate: "2024-01-01", maxDate: "2024-12-31" },
+    },
+    {
+      key: "status",
+      label: "Status",
+      type: "select",
+      required: true,
+      translatable: false,
+      config: {
+        type: "select",
+        options: [
+          { label: "Draft", value: "draft" },
+          { label: "Live", value: "live" },
+        ],
+      },
+    },
+    {
+      key: "author",
+      label: "Author",
+      type: "relation",
+      required: true,
+      config: {
+        type: "relation",
+        relationType: "manyToOne",
+        targetModel: "author",
+        displayField: "email",
+        cascade: "restrict",
+      },
+    },
+    {
+      key: "seo",
+      label: "SEO",
+      type: "component",
+      required: false,
+      config: { type: "component", slug: "seo" },
+    },
+  ],
+};
+
+const seoComponent: ComponentEntityType = {
+  slug: "seo",
+  name: "SEO",
+  fields: [
+    { key: "meta_title", label: "Meta Title", type: "text", required: false },
+  ],
+};
+
+const definitions: SeedDefinitions = {
+  models: [postModel, authorModel],
+  components: [seoComponent],
+  config: {
+    convention: "PascalCase",
+    i18nEnabled: true,
+    i18nTableNaming: "${identifier}_translation",
+    defaultLang: "en",
+    locales: ["de"],
+  },
+};
+
+describe("SeedFactory", () => {
+  it("builds the same rows for the same seed", () => {
+    const first = new SeedFactory(definitions).build("post", 3);
+    const second = new SeedFactory(definitions).build("post", 3);
+    const other = new SeedFactory(definitions).build("post", 4);
+
+    expect(first).toEqual(second);
+    expect(first.id).toBe("post-3");
+    expect(other.records[0]!.data).not.toEqual(first.records[0]!.data);
+  });
+
+  it("generates values within the validation rules", () => {
+    const factory = new SeedFactory(definitions);
+
+    for (let seed = 1; seed <= 20; seed++) {
+      const { records } = factory.build("post", seed);
+      const post = records.find((r) => r.model === "Post")!.data;
+
+      expect(post.code).toMatch(/^[A-Z]{3}-\d{4}$/);
+      expect(post.rating).toBeGreaterThanOrEqual(1);
+      expect(post.rating).toBeLessThanOrEqual(5);
+      expect(Number.isInteger(post.rating)).toBe(true);
+      expect(["draft", "live"]).toContain(post.status);
+      expect((post.published_on as Date).toISOString()).toMatch(/^2024-/);
+
+      for (const translation of records.filter((r) => r.model === "PostTranslation")) {
+        const title = translation.data.title as string;
+        expect(title.length).toBeGreaterThanOrEqual(10);
+        expect(title.length).toBeLessThanOrEqual(20);
+      }
+    }
+  });
+
+  it("keeps emails and URLs within a small maxLength", () => {
+    const linkModel: ModelConfigType = {
+      slug: "link",
+      name: "Link",
+      fields: [
+        {
+          key: "contact",
+          label: "Contact",
+          type: "text",
+          required: true,
+          translatable: false,
+          validation: { email: true, maxLength: 8 },
+        },
+        {
+          key: "href",
+          label: "Href",
+          type: "text",
+          required: true,
+          translatable: false,
+          validation: { url: true, minLength: 14, maxLength: 16 },
+        },
+      ],
+    };
+    const factory = new SeedFactory({ ...definitions, models: [linkModel] });
+
+    for (let seed = 1; seed <= 20; seed++) {
+      const link = factory.build("link", seed).records[0]!.data;
+      const contact = link.contact as string;
+      const href = link.href as string;
+
+      expect(contact).toMatch(/^[a-z]+@x\.io$/);
+      expect(contact.length).toBeLessThanOrEqual(8);
+      expect(URL.canParse(href)).toBe(true);
+      expect(href.length).toBeGreaterThanOrEqual(14);
+      expect(href.length).toBeLessThanOrEqual(16);
+    }
+
+    const tiny: ModelConfigType = {
+      ...linkModel,
+      fields: [{ ...linkModel.fields[0]!, validation: { email: true, maxLength: 5 } }],
+    };
+    expect(() =>
+      new SeedFactory({ ...definitions, models: [tiny] }).build("link", 1)
+    ).toThrow('Cannot generate an email for field "contact" within maxLength 5');
+  });
+
+  it("translates records into every configured locale", () => {
+    const { records } = new SeedFactory(definitions).build("post", 1);
+    const translations = records.filter((r) => r.model === "PostTranslation");
+
+    expect(translations.map((t) => t.data.lang)).toEqual(["en", "de"]);
+    expect(translations[0]!.data.title).not.toBe(translations[1]!.data.title);
+  });
+
+  it("fills components and points required relations at the same seed", () => {
+    const built = new SeedFactory(definitions).build("post", 2);
+    const post = built.records.find((r) => r.model === "Post")!.data;
+
+    expect(post.author_id).toBe("author-2");
+    expect(built.requires).toEqual([{ model: "author", seed: 2 }]);
+    expect(built.records.some((r) => r.model === "PostSeo")).toBe(true);
+  });
+
+  it("uses passed values in every locale", () => {
+    const { records } = new SeedFactory(definitions).build("post", 1, {
+      title: "Fixed title",
+      author: "author-9",
+    });
+
+    expect(
+      records.filter((r) => r.model === "PostTranslation").map((t) => t.data.title)
+    ).toEqual(["Fixed title", "Fixed title"]);
+    expect(records[0]!.data.author_id).toBe("author-9");
+  });
+
+  it("reports values that break the definitions", () => {
+    expect(() =>
+      new SeedFactory(definitions).build("post", 1, { rating: "many" })
+    ).toThrow('Cannot build "post" seed 1:');
+    expect(() => new SeedFactory(definitions).build("page", 1)).toThrow(
+      'No model definition found for "page"'
+    );
+  });
+
+  it("creates required records first unless they exist", async () => {
+    const created: string[] = [];
+    const delegate = (model: string, existing: string[] = []) => ({
+      findUnique: vi.fn(async ({ where }) => (existing.includes(where.id) ? { id: where.id } : null)),
+      create: vi.fn(async ({ data }) => {
+        created.push(`${model}:${data.id ?? data.lang}`);
+        return data;
+      }),
+    });
+    const client: Record<string, any> = {
+      author: delegate("Author"),
+      post: delegate("Post"),
+      postTranslation: delegate("PostTranslation"),
+      postSeo: delegate("PostSeo"),
+      postSeoTranslation: delegate("PostSeoTranslation"),
+    };
+
+    await new SeedFactory(definitions).create(client, "post", 1);
+    expect(created.slice(0, 2)).toEqual(["Author:author-1", "Post:post-1"]);
+
+    created.length = 0;
+    client.author = delegate("Author", ["author-2"]);
+    await new SeedFactory(definitions).create(client, "post", 2);
+    expect(created).not.toContain("Author:author-2");
+  });
+});
@@ -0,0 +1,102 @@
+// tests/core/types-writer.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { writeTypes } from '../../src/core/types-writer';
+import type { ComponentEntityType, ModelConfigType } from '../../src/field-config-schema';
+
+const seo: ComponentEntityType = {
+  slug: 'seo',
+  name: 'SEO',
+  fields: [
+    { key: 'meta_title', label: 'Meta Title', type: 'text', required: false },
+    {
+      key: 'links',
+      label: 'Links',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo', repeatable: true }
+    }
+  ]
+};
+
+const post: ModelConfigType = {
+  slug: 'blog-post',
+  name: 'Blog Post',
+  fields: [
+    { key: 'title', label: 'Title', type: 'text', required: true },
+    {
+      key: 'status',
+      label: 'Status',
+      type: 'select',
+      required: true,
+      translatable: false,
+      config: { type: 'select', options: ['draft', { value: 'in-review', label: 'In Review' }] }
+    },
+    {
+      key: 'views',
+      label: 'Views',
+      type: 'number',
+      required: false,
+      translatable: false,
+      config: { type: 'number', format: 'bigint' }
+    },
+    {
+      key: 'seo',
+      label: 'SEO',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo', repeatable: false }
+    },
+    {
+      key: 'blocks',
+      label: 'Blocks',
+      type: 'component',
+      required: false,
+      config: { type: 'component', components: ['seo'], repeatable: false }
+    }
+  ]
+};
+
+describe('writeTypes', () => {
+  const types = writeTypes([post], new Map([['seo', seo]]), {
+    i18nEnabled: true,
+    defaultLang: 'en'
+  });
+
+  it('writes an interface per model with translations merged and components nested', () => {
+    expect(types).toContain(
+      [
+        'export interface BlogPost {',
+        '  id: string;',
+        '  locale: string;',
+        '  title: string;',
+        '  status: BlogPostStatus;',
+        '  views: string | null;',
+        '  seo: SeoComponent | null;',
+        '  blocks: Array<({ __component: "seo" } & SeoComponent)>;',
+        '  created_at: string;',
+        '  updated_at: string;',
+        '}'
+      ].join('\n')
+    );
+    expect(types).toContain('export interface SeoComponent {');
+    expect(types).toContain('  seo: ["meta_title"],');
+    expect(types).not.toContain('links');
+  });
+
+  it('writes select unions and slug and field key constants', () => {
+    expect(types).toContain('export type BlogPostStatus = "draft" | "in-review";');
+    expect(types).toContain('export const DEFAULT_LOCALE = "en";');
+    expect(types).toContain('export const MODEL_SLUGS = ["blog-post"] as const;');
+    expect(types).toContain(
+      '  "blog-post": ["title", "status", "views", "seo", "blocks"],'
+    );
+    expect(types).toContain('export const COMPONENT_SLUGS = ["seo"] as const;');
+  });
+
+  it('leaves out the locale without i18n', () => {
+    const plain = writeTypes([post], new Map([['seo', seo]]), { i18nEnabled: false });
+
+    expect(plain).not.toContain('locale');
+  });
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { SchemaWatcher } from "../../src/core/watcher";
+import type { Config } from "../../src/types/config";
+import fs from "fs/promises";
+import { existsSync } from "fs";
+import path from "path";
+
+const TEST_DIR = path.join(process.cwd(), "test-output-watch");
+const SCHEMA_PATH = path.join(TEST_DIR, "schema.prisma");
+
+const postDefinition = (fields: string[]) => ({
+  id: "1",
+  slug: "post",
+  definition: JSON.stringify({
+    slug: "post",
+    name: "Post",
+    fields: fields.map((key) => ({
+      key,
+      label: key,
+      type: "text",
+      required: true,
+      translatable: false,
+    })),
+  }),
+});
+
+const createMockPrisma = () => ({
+  content_model: {
+    findMany: vi.fn().mockResolvedValue([postDefinition(["title"])]),
+    aggregate: vi.fn().mockResolvedValue({
+      _count: { _all: 1 },
+      _max: { updated_at: new Date("2025-01-01T00:00:00Z") },
+    }),
+  },
+  $disconnect: vi.fn(),
+});
+
+describe("SchemaWatcher", () => {
+  let mockPrisma: ReturnType<typeof createMockPrisma>;
+  const config: Config = {
+    connection: "file:./eav.db",
+    tables: { models: "content_model" },
+    output: { schemaPath: SCHEMA_PATH },
+  };
+
+  beforeEach(async () => {
+    mockPrisma = createMockPrisma();
+    await fs.mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    if (existsSync(TEST_DIR)) {
+      await fs.rm(TEST_DIR, { recursive: true, force: true });
+    }
+  });
+
+  it("generates on the first poll and stays idle until a table changes", async () => {
+    const watcher = new SchemaWatcher(config, mockPrisma);
+
+    const first = await watcher.poll();
+    expect(first?.written).toBe(true);
+    expect(first?.changed).toEqual(["table:content_model"]);
+    expect(await fs.readFile(SCHEMA_PATH, "utf-8")).toContain("model Post");
+
+    expect(await watcher.poll()).toBeNull();
+    expect(mockPrisma.content_model.findMany).toHaveBeenCalledTimes(1);
+
+    mockPrisma.content_model.findMany.mockResolvedValue([
+      postDefinition(["title", "subtitle"]),
+    ]);
+    mockPrisma.content_model.aggregate.mockResolvedValue({
+      _count: { _all: 1 },
+      _max: { updated_at: new Date("2025-01-02T00:00:00Z") },
+    });
+
+    const second = await watcher.poll();
+    expect(second?.written).toBe(true);
+    expect(await fs.readFile(SCHEMA_PATH, "utf-8")).toMatch(/subtitle\s+String/);
+    expect(mockPrisma.$disconnect).not.toHaveBeenCalled();
+  });
+
+  it("does not rewrite the schema when the output is unchanged", async () => {
+    const watcher = new SchemaWatcher(config, mockPrisma);
+    await watcher.poll();
+
+    mockPrisma.content_model.aggregate.mockResolvedValue({
+      _count: { _all: 1 },
+      _max: { updated_at: new Date("2025-01-03T00:00:00Z") },
+    });
+
+    const run = await watcher.poll();
+    expect(run?.written).toBe(false);
+  });
+
+  it("regenerates from a loader only when its output changes", async () => {
+    const definition = JSON.parse(postDefinition(["title"]).definition);
+    const loader = vi.fn().mockResolvedValue({ models: [definition] });
+    const watcher = new SchemaWatcher(
+      { input: { loader }, output: { schemaPath: SCHEMA_PATH } },
+      undefined
+    );
+
+    expect((await watcher.poll())?.changed).toEqual(["input:loader"]);
+    expect(await watcher.poll()).toBeNull();
+
+    loader.mockResolvedValue({ models: [JSON.parse(postDefinition(["title", "subtitle"]).definition)] });
+    expect((await watcher.poll())?.written).toBe(true);
+  });
+
+  it("hashes rows when the table has no updated_at", async () => {
+    mockPrisma.content_model.aggregate.mockRejectedValue(
+      new Error("Unknown field updated_at")
+    );
+    const watcher = new SchemaWatcher(config, mockPrisma);
+
+    await watcher.poll();
+    expect(await watcher.poll()).toBeNull();
+
+    mockPrisma.content_model.findMany.mockResolvedValue([
+      postDefinition(["body"]),
+    ]);
+    const run = await watcher.poll();
+
+    expect(run?.changed).toEqual(["table:content_model"]);
+  });
+
+  it("watches external model files", async () => {
+    const mediaPath = path.join(TEST_DIR, "media.prisma");
+    await fs.writeFile(mediaPath, "model Media {\n  id String @id\n}\n");
+
+    const watcher = new SchemaWatcher(
+      { ...config, externalModels: mediaPath },
+      mockPrisma
+    );
+    await watcher.poll();
+
+    await fs.writeFile(mediaPath, "model Media {\n  id String @id\n  url String\n}\n");
+    const run = await watcher.poll();
+
+    expect(run?.changed).toEqual([`file:${mediaPath}`]);
+    expect(await fs.readFile(SCHEMA_PATH, "utf-8")).toMatch(/url\s+String/);
+  });
+
+  it("reloads the config file when it changes", async () => {
+    const configPath = path.join(TEST_DIR, "eav-to-prisma.config.ts");
+    await fs.writeFile(configPath, "// v1");
+
+    const loadConfig = vi.fn().mockResolvedValue({
+      ...config,
+      naming: { convention: "PascalCase", prefix: "Cms" },
+    });
+    const watcher = new SchemaWatcher(config, mockPrisma, {
+      configPath,
+      loadConfig,
+    });
+
+    await watcher.poll();
+    expect(loadConfig).not.toHaveBeenCalled();
+
+    await fs.writeFile(configPath, "// v2");
+    await watcher.poll();
+
+    expect(loadConfig).toHaveBeenCalledWith(configPath);
+    expect(await fs.readFile(SCHEMA_PATH, "utf-8")).toContain("model CmsPost");
+  });
+
+  it("reports runs and errors while polling", async () => {
+    vi.useFakeTimers();
+    const onRun = vi.fn();
+    const onError = vi.fn();
+    mockPrisma.content_model.findMany.mockRejectedValueOnce(new Error("db down"));
+
+    const watcher = new SchemaWatcher(config, mockPrisma, {
+      interval: 100,
+      onRun,
+      onError,
+    });
+
+    watcher.start();
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1));
+
+    // A failed run is retried once an input changes
+    await vi.advanceTimersByTimeAsync(100);
+    expect(onRun).not.toHaveBeenCalled();
+
+    mockPrisma.content_model.aggregate.mockResolvedValue({
+      _count: { _all: 1 },
+      _max: { updated_at: new Date("2025-01-02T00:00:00Z") },
+    });
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.waitFor(() => expect(onRun).toHaveBeenCalledTimes(1));
+    expect(onError).toHaveBeenCalledTimes(1);
+
+    watcher.stop();
+    vi.useRealTimers();
+  });
+
+  it("does not report a persistent error again on an idle poll", async () => {
+    mockPrisma.content_model.findMany.mockRejectedValue(new Error("db down"));
+    const watcher = new SchemaWatcher(config, mockPrisma);
+
+    await expect(watcher.poll()).rejects.toThrow("db down");
+    expect(await watcher.poll()).toBeNull();
+    expect(mockPrisma.content_model.findMany).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,160 @@
+// tests/core/zod-writer.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { writeZodSchemas } from '../../src/core/zod-writer';
+import type { ComponentEntityType, ModelConfigType } from '../../src/field-config-schema';
+
+const seo: ComponentEntityType = {
+  slug: 'seo',
+  name: 'SEO',
+  fields: [
+    {
+      key: 'meta_title',
+      label: 'Meta Title',
+      type: 'text',
+      required: false,
+      translatable: false,
+      validation: { maxLength: 60 }
+    },
+    {
+      key: 'links',
+      label: 'Links',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo', repeatable: true }
+    }
+  ]
+};
+
+const post: ModelConfigType = {
+  slug: 'blog-post',
+  name: 'Blog Post',
+  fields: [
+    {
+      key: 'title',
+      label: 'Title',
+      type: 'text',
+      required: true,
+      validation: { minLength: 3, pattern: '^[A-Z]', errorMessage: 'Title must be capitalized' }
+    },
+    {
+      key: 'status',
+      label: 'Status',
+      type: 'select',
+      required: true,
+      translatable: false,
+      config: { type: 'select', options: ['draft', { value: 'in-review', label: 'In Review' }] }
+    },
+    {
+      key: 'views',
+      label: 'Views',
+      type: 'number',
+      required: false,
+      translatable: false,
+      config: { type: 'number', format: 'integer' },
+      validation: { min: 0 }
+    },
+    {
+      key: 'published',
+      label: 'Published',
+      type: 'date',
+      required: false,
+      translatable: false,
+      validation: { minDate: '2020-01-01' }
+    },
+    {
+      key: 'tags',
+      label: 'Tags',
+      type: 'relation',
+      required: false,
+      config: { type: 'relation', relationType: 'manyToMany', targetModel: 'tag', displayField: 'name' },
+      validation: { maxItems: 5 }
+    },
+    {
+      key: 'seo',
+      label: 'SEO',
+      type: 'component',
+      required: false,
+      config: { type: 'component', slug: 'seo', repeatable: false }
+    },
+    { key: 'slug', label: 'Slug', type: 'text', required: false, derived: { expression: 'title' } }
+  ]
+};
+
+describe('writeZodSchemas', () => {
+  const schemas = writeZodSchemas([post], new Map([['seo', seo]]), {
+    i18nEnabled: true,
+    defaultLang: 'en'
+  });
+
+  it('writes create schemas with validation rules and translations by locale', () => {
+    expect(schemas).toContain(
+      [
+        'export const BlogPostTranslationSchema = z.object({',
+        '  title: z.string().min(3, "Title must be capitalized").regex(new RegExp("^[A-Z]"), "Title must be capitalized"),',
+        '});'
+      ].join('\n')
+    );
+    expect(schemas).toContain(
+      [
+        'export const BlogPostCreateSchema = z.object({',
+        '  status: BlogPostStatusSchema,',
+        '  views: z.number().int().min(0).nullable().optional(),',
+        '  published: z.coerce.date().min(new Date("2020-01-01")).nullable().optional(),',
+        '  tags: z.array(z.string()).max(5).optional(),',
+        '  seo: SeoComponentSchema.nullable().optional(),',
+        '  translations: z.object({ en: BlogPostTranslationSchema }).catchall(BlogPostTranslationSchema),',
+        '});'
+      ].join('\n')
+    );
+  });
+
+  it('reads BigInt numbers from strings', () => {
+    const counter: ModelConfigType = {
+      slug: 'counter',
+      name: 'Counter',
+      fields: [
+        {
+          key: 'hits',
+          label: 'Hits',
+          type: 'number',
+          required: true,
+          config: { type: 'number', format: 'bigint' },
+          validation: { min: 0 }
+        }
+      ]
+    };
+
+    expect(writeZodSchemas([counter], new Map(), { i18nEnabled: false })).toContain(
+      '  hits: z.coerce.bigint().min(0n),'
+    );
+  });
+
+  it('writes partial update schemas and inferred types', () => {
+    expect(schemas).toContain(
+      [
+        'export const BlogPostUpdateSchema = BlogPostCreateSchema.partial().extend({',
+        '  translations: z.record(z.string(), BlogPostTranslationSchema.partial()).optional(),',
+        '});'
+      ].join('\n')
+    );
+    expect(schemas).toContain('export type BlogPostCreate = z.infer<typeof BlogPostCreateSchema>;');
+  });
+
+  it('writes select enums and components before the models using them', () => {
+    expect(schemas).toContain('export const BlogPostStatusSchema = z.enum(["draft", "in-review"]);');
+    expect(schemas).toContain('export const SeoComponentSchema = z.object({');
+    expect(schemas).not.toContain('links');
+    expect(schemas.indexOf('SeoComponentSchema =')).toBeLessThan(
+      schemas.indexOf('BlogPostCreateSchema =')
+    );
+  });
+
+  it('leaves derived fields out and merges translations without i18n', () => {
+    const plain = writeZodSchemas([post], new Map([['seo', seo]]), { i18nEnabled: false });
+
+    expect(schemas).not.toContain('slug:');
+    expect(plain).not.toContain('translations');
+    expect(plain).toContain('  title: z.string().min(3,');
+  });
+});
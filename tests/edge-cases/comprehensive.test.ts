@@ -601,9 +601,9 @@ describe("Edge Cases - Complex Relations", () => {
 
     expectLine(result.schema, "model Post {");
     expect(result.schema).toMatch(/author_id\s+String/);
-    expectLine(result.schema, "categories Category[]");
-    expectLine(result.schema, "tags Tag[]");
-    expectLine(result.schema, "featured_in Collection[]");
+    expectLine(result.schema, "categories PostCategory[]");
+    expectLine(result.schema, "tags PostTag[]");
+    expectLine(result.schema, "featured_in PostCollection[]");
     expectLine(result.schema, "model PostCategory {");
     expectLine(result.schema, "model PostTag {");
     expectLine(result.schema, "model PostCollection {");
@@ -121,6 +121,51 @@ describe("Integration - File System Operations", () => {
       await fs.chmod(readonlyDir, 0o755);
     });
 
+    it("writes derived field SQL and extension files", async () => {
+      const config: Config = {
+        input: {
+          models: [
+            {
+              slug: "author",
+              name: "Author",
+              fields: [
+                { key: "first_name", label: "First Name", type: "text", required: true },
+                {
+                  key: "full_name",
+                  label: "Full Name",
+                  type: "text",
+                  required: false,
+                  derived: { expression: "first_name || '!'" },
+                },
+                {
+                  key: "initial",
+                  label: "Initial",
+                  type: "text",
+                  required: false,
+                  derived: { expression: "first_name?.[0]", storage: "client" },
+                },
+              ],
+            },
+          ],
+        },
+        output: {
+          schemaPath: path.join(TEST_DIR, "prisma", "schema.prisma"),
+          clientPath: "../generated/client",
+          derivedSqlPath: path.join(TEST_DIR, "prisma", "derived.sql"),
+          derivedExtensionPath: path.join(TEST_DIR, "src", "derived.ts"),
+        },
+      };
+
+      await new Generator(config).write();
+
+      const sql = await fs.readFile(path.join(TEST_DIR, "prisma", "derived.sql"), "utf-8");
+      const extension = await fs.readFile(path.join(TEST_DIR, "src", "derived.ts"), "utf-8");
+      expect(sql).toContain(
+        `ALTER TABLE "Author" ADD COLUMN "full_name" TEXT GENERATED ALWAYS AS (first_name || '!') VIRTUAL;`
+      );
+      expect(extension).toContain("import { Prisma } from '../generated/client';");
+    });
+
     it("writes schema with correct encoding (UTF-8)", async () => {
       const config: Config = {
         input: {
@@ -424,6 +469,7 @@ describe("Integration - Real-World Scenarios", () => {
       },
       output: {
         schemaPath: path.join(TEST_DIR, "full-schema.prisma"),
+        localizedExtensionPath: path.join(TEST_DIR, "localized-models.ts"),
         datasource: {
           provider: "postgresql",
           url: 'env("DATABASE_URL")',
@@ -436,6 +482,8 @@ describe("Integration - Real-World Scenarios", () => {
 
     const schemaPath = path.join(TEST_DIR, "full-schema.prisma");
     const content = await fs.readFile(schemaPath, "utf-8");
+    const extension = await fs.readFile(path.join(TEST_DIR, "localized-models.ts"), "utf-8");
+    expect(extension).toContain("      page: {");
 
     // Verify all models generated
     expectLine(content, "model Page {");
@@ -551,4 +599,142 @@ describe("Integration - Real-World Scenarios", () => {
     expect(content).not.toContain("undefined");
     expect(content).not.toContain("null");
   });
-});
\ No newline at end of file
+
+  describe("check mode", () => {
+    const schemaPath = path.join(TEST_DIR, "check.prisma");
+    const config = (fieldKeys: string[]): Config => ({
+      input: {
+        models: [
+          {
+            slug: "post",
+            name: "Post",
+            fields: fieldKeys.map((key) => ({
+              key,
+              label: key,
+              type: "text",
+              required: true,
+            })),
+          },
+        ],
+      },
+      output: { schemaPath },
+    });
+
+    it("stamps the schema with the tool version and an input hash", async () => {
+      await new Generator(config(["title"])).write();
+      const content = await fs.readFile(schemaPath, "utf-8");
+
+      expect(content).toMatch(/^\/\/ Generated by eav-to-prisma \S+ - do not edit by hand\n/);
+      expect(content).toMatch(/^\/\/ Input hash: sha256:[0-9a-f]{64}$/m);
+    });
+
+    it("keeps the input hash stable across runs and key order", async () => {
+      const first = await new Generator(config(["title"])).generate();
+      const reordered: Config = {
+        output: { schemaPath },
+        input: {
+          models: [
+            {
+              fields: [{ required: true, type: "text", label: "title", key: "title" }],
+              name: "Post",
+              slug: "post",
+            },
+          ],
+        },
+      };
+      const second = await new Generator(reordered).generate();
+
+      expect(second.inputHash).toBe(first.inputHash);
+    });
+
+    it("reports an up-to-date schema without writing", async () => {
+      await new Generator(config(["title"])).write();
+      const { mtimeMs } = await fs.stat(schemaPath);
+
+      const check = await new Generator(config(["title"])).check();
+
+      expect(check).toMatchObject({ upToDate: true, status: "up-to-date", diff: "" });
+      expect((await fs.stat(schemaPath)).mtimeMs).toBe(mtimeMs);
+    });
+
+    it("reports a missing schema file", async () => {
+      const check = await new Generator(config(["title"])).check();
+
+      expect(check.upToDate).toBe(false);
+      expect(check.status).toBe("missing");
+      expect(existsSync(schemaPath)).toBe(false);
+    });
+
+    it("detects changed definitions and shows a diff", async () => {
+      await new Generator(config(["title"])).write();
+
+      const check = await new Generator(config(["title", "subtitle"])).check();
+
+      expect(check.status).toBe("definitions-changed");
+      expect(check.diff).toContain(`--- ${schemaPath}`);
+      expect(check.diff).toMatch(/^\+\s+subtitle\s+String$/m);
+      expect(check.diff).toMatch(/^-\/\/ Input hash:/m);
+    });
+
+    it("detects hand edits", async () => {
+      await new Generator(config(["title"])).write();
+      const content = await fs.readFile(schemaPath, "utf-8");
+      await fs.writeFile(schemaPath, content.replace(/title(\s+)String/, "title$1String?"));
+
+      const check = await new Generator(config(["title"])).check();
+
+      expect(check.status).toBe("hand-edited");
+      expect(check.diff).toMatch(/^-\s+title\s+String\?$/m);
+    });
+
+    it("reports schemas without a header as unstamped", async () => {
+      await fs.writeFile(schemaPath, "model Post {\n  id String @id\n}\n");
+
+      const check = await new Generator(config(["title"])).check();
+
+      expect(check.status).toBe("unstamped");
+    });
+  });
+
+  describe("validation", () => {
+    const schemaPath = path.join(TEST_DIR, "validated.prisma");
+    const config = (validate?: boolean): Config => ({
+      input: {
+        models: [
+          { slug: "user", name: "User", fields: [] },
+          {
+            slug: "post",
+            name: "Post",
+            fields: [
+              { key: "author_id", label: "Author ID", type: "text" },
+              {
+                key: "author",
+                label: "Author",
+                type: "relation",
+                config: {
+                  type: "relation",
+                  relationType: "manyToOne",
+                  targetModel: "user",
+                  displayField: "id",
+                },
+              },
+            ],
+          },
+        ],
+      },
+      output: { schemaPath, validate },
+    });
+
+    it("refuses to write an invalid schema and names the EAV field", async () => {
+      await expect(new Generator(config()).write()).rejects.toThrow(
+        /Generated schema is invalid.*\n.*model "post", field "author_id": Field "author_id" is already defined/
+      );
+      expect(existsSync(schemaPath)).toBe(false);
+    });
+
+    it("writes without validation when disabled", async () => {
+      await expect(new Generator(config(false)).write()).resolves.toBe(true);
+      expect(existsSync(schemaPath)).toBe(true);
+    });
+  });
+});
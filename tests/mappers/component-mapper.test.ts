@@ -1,9 +1,14 @@
 // tests/mappers/component-mapper.test.ts
 
 import { describe, it, expect } from 'vitest';
-import { ComponentEntityType } from '../../src/field-config-schema';
+import { ComponentEntityType, ModelConfigType } from '../../src/field-config-schema';
 import { SchemaBuilderConfig } from '../../src/core/schema-builder';
-import { buildComponentTable } from '../../src/mappers/component-mapper';
+import {
+  buildComponentTable,
+  buildDynamicZoneTable,
+  isDynamicZone,
+  withoutSkippedComponents
+} from '../../src/mappers/component-mapper';
 
 // FIXED: Changed to PascalCase
 const baseConfig: SchemaBuilderConfig = {
@@ -255,4 +260,136 @@ describe('buildComponentTable', () => {
       ])
     );
   });
-});
\ No newline at end of file
+
+  it('relates nested components as child tables', () => {
+    const component: ComponentEntityType = {
+      slug: 'seo',
+      name: 'SEO',
+      fields: [
+        {
+          key: 'og',
+          label: 'Open Graph',
+          type: 'component',
+          required: false,
+          config: { type: 'component', slug: 'social' }
+        },
+        {
+          key: 'links',
+          label: 'Links',
+          type: 'component',
+          required: false,
+          config: { type: 'component', slug: 'link', repeatable: true }
+        }
+      ]
+    };
+
+    const result = buildComponentTable('Post', 'seo', component, false, baseConfig);
+
+    expect(result.fields).toEqual(
+      expect.arrayContaining([
+        { name: 'og', type: 'PostSeoOg', list: false, optional: true },
+        { name: 'links', type: 'PostSeoLink', list: true, optional: true }
+      ])
+    );
+  });
+});
+
+describe('buildDynamicZoneTable', () => {
+  it('builds an ordering table with a type and a relation per block type', () => {
+    const result = buildDynamicZoneTable('Page', 'blocks', ['hero', 'call-to-action'], baseConfig);
+
+    expect(result.name).toBe('PageBlock');
+    expect(result.fields.map((f) => [f.name, f.type])).toEqual([
+      ['id', 'String'],
+      ['page_id', 'String'],
+      ['order', 'Int'],
+      ['type', 'String'],
+      ['created_at', 'DateTime'],
+      ['updated_at', 'DateTime'],
+      ['hero', 'PageBlockHero'],
+      ['call_to_action', 'PageBlockCallToAction'],
+      ['page', 'Page']
+    ]);
+    expect(result.indexes).toEqual([['page_id', 'order']]);
+  });
+
+  it('builds block tables pointing back at the zone row', () => {
+    const quote: ComponentEntityType = {
+      slug: 'quote',
+      name: 'Quote',
+      fields: [{ key: 'body', label: 'Body', type: 'text', required: true }]
+    };
+
+    const result = buildComponentTable('PageBlock', 'quote', quote, false, baseConfig);
+
+    expect(result.name).toBe('PageBlockQuote');
+    expect(result.fields).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ name: 'page_block_id', attributes: ['@unique'] }),
+        expect.objectContaining({ name: 'body', type: 'String' })
+      ])
+    );
+  });
+
+  it('recognizes dynamic zone fields', () => {
+    expect(
+      isDynamicZone({
+        key: 'blocks',
+        label: 'Blocks',
+        type: 'component',
+        required: false,
+        config: { type: 'component', components: ['hero'], repeatable: false }
+      })
+    ).toBe(true);
+    expect(
+      isDynamicZone({
+        key: 'seo',
+        label: 'SEO',
+        type: 'component',
+        required: false,
+        config: { type: 'component', slug: 'seo', repeatable: false }
+      })
+    ).toBe(false);
+  });
+});
+
+describe('withoutSkippedComponents', () => {
+  const nested = (key: string, config: Record<string, unknown>) =>
+    ({ key, label: key, type: 'component', required: false, config: { type: 'component', ...config } }) as const;
+  const model = (...fields: ReturnType<typeof nested>[]): ModelConfigType => ({ slug: 'post', name: 'Post', fields });
+  const components = new Map<string, ComponentEntityType>([
+    ['seo', { slug: 'seo', name: 'SEO', fields: [nested('links', { slug: 'link', repeatable: true })] }],
+    ['link', { slug: 'link', name: 'Link', fields: [nested('self', { slug: 'seo' })] }],
+    ['meta', { slug: 'meta', name: 'Meta', fields: [nested('parent', { slug: 'meta' })] }]
+  ]);
+
+  it('drops only the field closing a cycle', () => {
+    const resolved = withoutSkippedComponents([model(nested('seo', { slug: 'seo' }))], components);
+
+    expect(resolved.get('seo')).toBe(components.get('seo'));
+    expect(resolved.get('link')!.fields).toEqual([]);
+    expect(resolved.get('meta')!.fields).toEqual([]);
+  });
+
+  it('keeps fields of components also reached without a cycle', () => {
+    const resolved = withoutSkippedComponents(
+      [model(nested('seo', { slug: 'seo' }), nested('cta', { slug: 'link' }))],
+      components
+    );
+
+    expect(resolved.get('seo')).toBe(components.get('seo'));
+    expect(resolved.get('link')).toBe(components.get('link'));
+  });
+
+  it('keeps the other block types of a dynamic zone', () => {
+    const zones = new Map<string, ComponentEntityType>([
+      ['section', { slug: 'section', name: 'Section', fields: [nested('blocks', { components: ['quote', 'section'] })] }],
+      ['quote', { slug: 'quote', name: 'Quote', fields: [] }]
+    ]);
+
+    expect(withoutSkippedComponents([], zones).get('section')!.fields[0]!.config).toEqual({
+      type: 'component',
+      components: ['quote']
+    });
+  });
+});
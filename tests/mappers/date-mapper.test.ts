@@ -0,0 +1,78 @@
+// tests/mappers/date-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  dateFormat,
+  dateNativeType,
+  isTimezoneAware,
+  parseDateValue
+} from '../../src/mappers/date-mapper';
+import { parseField, type FieldConfigInput } from '../test-helpers';
+
+const date = (config: FieldConfigInput<'date'> | null = {}) =>
+  parseField({
+    key: 'starts_at',
+    label: 'Starts at',
+    type: 'date',
+    required: false,
+    ...(config && { config: { ...config, type: 'date' } })
+  });
+
+describe('dateFormat', () => {
+  it('defaults to date, and to datetime without a config', () => {
+    expect(dateFormat(date({ format: 'time' }))).toBe('time');
+    expect(dateFormat(date())).toBe('date');
+    expect(dateFormat(date(null))).toBe('datetime');
+  });
+});
+
+describe('isTimezoneAware', () => {
+  it('prefers the field config over the datasource default', () => {
+    expect(isTimezoneAware(date({ timezone: false }), { timezone: true })).toBe(false);
+    expect(isTimezoneAware(date(), { timezone: true })).toBe(true);
+    expect(isTimezoneAware(date(), {})).toBe(false);
+  });
+});
+
+describe('dateNativeType', () => {
+  it('maps formats to PostgreSQL types', () => {
+    const provider = 'postgresql';
+
+    expect(dateNativeType(date({ format: 'date' }), { provider })).toBe('@db.Date');
+    expect(dateNativeType(date({ format: 'time' }), { provider })).toBe('@db.Time(3)');
+    expect(dateNativeType(date({ format: 'time', timezone: true }), { provider })).toBe('@db.Timetz(3)');
+    expect(dateNativeType(date({ format: 'datetime' }), { provider })).toBeUndefined();
+    expect(dateNativeType(date({ format: 'datetime' }), { provider, timezone: true })).toBe('@db.Timestamptz(3)');
+  });
+
+  it('maps formats to MySQL types', () => {
+    const provider = 'mysql';
+
+    expect(dateNativeType(date({ format: 'date' }), { provider })).toBe('@db.Date');
+    expect(dateNativeType(date({ format: 'time', timezone: true }), { provider })).toBe('@db.Time(3)');
+    expect(dateNativeType(date({ format: 'datetime' }), { provider })).toBeUndefined();
+    expect(dateNativeType(date({ format: 'datetime', timezone: true }), { provider })).toBe('@db.Timestamp(3)');
+  });
+
+  it('is omitted on SQLite', () => {
+    expect(dateNativeType(date({ format: 'date' }), { provider: 'sqlite' })).toBeUndefined();
+    expect(dateNativeType(date({ format: 'time' }), {})).toBeUndefined();
+  });
+});
+
+describe('parseDateValue', () => {
+  it('anchors times of day to 1970-01-01 UTC', () => {
+    expect(parseDateValue('09:15', 'time')?.toISOString()).toBe('1970-01-01T09:15:00.000Z');
+    expect(parseDateValue('09:15:30.5', 'time')?.toISOString()).toBe('1970-01-01T09:15:30.500Z');
+  });
+
+  it('parses dates and timestamps', () => {
+    expect(parseDateValue('2024-03-01')?.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+    expect(parseDateValue(0, 'datetime')?.toISOString()).toBe('1970-01-01T00:00:00.000Z');
+  });
+
+  it('is undefined for values that are not dates', () => {
+    expect(parseDateValue('soon')).toBeUndefined();
+    expect(parseDateValue('09:15', 'date')).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+// tests/mappers/default-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { checkFieldDefault, toDateDefault, toNumberDefault } from '../../src/mappers/default-mapper';
+import type { FieldDefinitionType } from '../../src/field-config-schema';
+
+const field = (overrides: Partial<FieldDefinitionType>): FieldDefinitionType => ({
+  key: 'field',
+  label: 'Field',
+  type: 'text',
+  required: false,
+  ...overrides
+} as FieldDefinitionType);
+
+describe('toDateDefault', () => {
+  it('maps now to now()', () => {
+    expect(toDateDefault('now')).toBe('now()');
+    expect(toDateDefault('now()')).toBe('now()');
+  });
+
+  it('normalizes dates and times to RFC 3339 timestamps', () => {
+    expect(toDateDefault('2024-06-01')).toBe('2024-06-01T00:00:00.000Z');
+    expect(toDateDefault('2024-06-01T10:30:00+02:00', 'datetime')).toBe('2024-06-01T08:30:00.000Z');
+    expect(toDateDefault('09:15', 'time')).toBe('1970-01-01T09:15:00.000Z');
+  });
+
+  it('returns undefined for values that are not dates', () => {
+    expect(toDateDefault('tomorrow')).toBeUndefined();
+  });
+});
+
+describe('checkFieldDefault', () => {
+  it('accepts defaults that pass validation', () => {
+    expect(checkFieldDefault(field({
+      validation: { maxLength: 10, email: true },
+      config: { type: 'text', default: 'a@b.co' }
+    }))).toBeUndefined();
+  });
+
+  it('reports string rule violations', () => {
+    expect(checkFieldDefault(field({
+      validation: { maxLength: 3, url: true },
+      config: { type: 'text', default: 'not a url' }
+    }))).toBe('fails validation: longer than maxLength 3, is not a URL');
+  });
+
+  it('reports number rule violations', () => {
+    expect(checkFieldDefault(field({
+      type: 'number',
+      validation: { int: true, positive: true },
+      config: { type: 'number', format: 'decimal', default: -1.5 }
+    }))).toBe('fails validation: is not an integer, is not positive');
+  });
+
+  it('does not write numbers an integer column cannot hold', () => {
+    const integer = (format: 'integer' | 'bigint', value: number) =>
+      field({ type: 'number', config: { type: 'number', format, default: value } });
+
+    expect(checkFieldDefault(integer('integer', 1.5))).toBe('is not written: 1.5 is not an integer');
+    expect(checkFieldDefault(integer('integer', 2 ** 31))).toBe(
+      'is not written: 2147483648 is out of the 32-bit Int range'
+    );
+    expect(checkFieldDefault(integer('bigint', 2 ** 31))).toBeUndefined();
+    expect(toNumberDefault(integer('integer', 1.5))).toBeUndefined();
+    expect(toNumberDefault(integer('integer', 3))).toBe(3);
+  });
+
+  it('checks dates against minDate and maxDate', () => {
+    expect(checkFieldDefault(field({
+      type: 'date',
+      validation: { minDate: '2025-01-01' },
+      config: { type: 'date', format: 'date', default: '2024-06-01' }
+    }))).toBe('fails validation: before minDate 2025-01-01');
+
+    expect(checkFieldDefault(field({
+      type: 'date',
+      validation: { minDate: '2025-01-01' },
+      config: { type: 'date', format: 'date', default: 'now' }
+    }))).toBeUndefined();
+  });
+
+  it('reports multi-select defaults outside minItems and maxItems', () => {
+    expect(checkFieldDefault(field({
+      type: 'select',
+      validation: { maxItems: 1 },
+      config: { type: 'select', options: ['a', 'b'], multiple: true, default: ['a', 'b'] }
+    }))).toBe('fails validation: more than maxItems 1');
+  });
+
+  it('reports select defaults that are not options', () => {
+    expect(checkFieldDefault(field({
+      type: 'select',
+      config: { type: 'select', options: ['a', { value: 'b', label: 'B' }], default: 'c' }
+    }))).toBe('is not written: "c" is not one of the options');
+
+    expect(checkFieldDefault(field({
+      type: 'select',
+      config: { type: 'select', options: ['a', 'b'], default: ['a'] }
+    }))).toBe('is not written: expected a single option');
+  });
+});
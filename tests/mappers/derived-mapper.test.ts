@@ -0,0 +1,167 @@
+// tests/mappers/derived-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildDerivedExtension,
+  buildGeneratedColumnsSql,
+  derivedNeeds,
+  markGeneratedColumns,
+  splitDerivedFields,
+} from '../../src/mappers/derived-mapper';
+import type { FieldDefinitionType } from '../../src/field-config-schema';
+import type { PrismaModel } from '../../src/utils/prisma-ast';
+
+const firstName: FieldDefinitionType = {
+  key: 'first_name',
+  label: 'First Name',
+  type: 'text',
+  required: true,
+  translatable: false
+};
+
+const bio: FieldDefinitionType = {
+  key: 'bio',
+  label: 'Bio',
+  type: 'text',
+  required: false
+};
+
+const derivedText = (key: string, derived: FieldDefinitionType['derived']): FieldDefinitionType => ({
+  key,
+  label: key,
+  type: 'text',
+  required: false,
+  translatable: false,
+  derived
+});
+
+describe('splitDerivedFields', () => {
+  const config = { i18nEnabled: true };
+
+  it('keeps generated columns with the stored fields', () => {
+    const fullName = derivedText('full_name', { expression: "first_name || '!'" });
+    const initial = derivedText('initial', { expression: 'first_name[0]', storage: 'client' });
+
+    expect(splitDerivedFields([firstName, fullName, initial], config)).toEqual({
+      columns: [firstName, fullName],
+      generated: [fullName],
+      computed: [initial],
+      skipped: []
+    });
+  });
+
+  it('skips fields without an expression, of other types or needing another table', () => {
+    const legacy = derivedText('legacy', true);
+    const relation: FieldDefinitionType = {
+      key: 'author',
+      label: 'Author',
+      type: 'relation',
+      required: false,
+      derived: { expression: 'author_id' }
+    };
+    const summary = derivedText('summary', { expression: 'bio.slice(0, 80)', storage: 'client' });
+    const excerpt = derivedText('excerpt', { expression: 'substr(bio, 1, 80)' });
+
+    expect(splitDerivedFields([bio, legacy, relation, summary, excerpt], config).skipped).toEqual([
+      { field: legacy },
+      { field: relation, reason: 'relation fields cannot be derived' },
+      { field: summary, reason: '"bio" is stored in the translation table' },
+      { field: excerpt, reason: '"bio" is stored in the translation table' }
+    ]);
+  });
+});
+
+describe('derivedNeeds', () => {
+  it('reads the field keys an expression mentions unless needs are given', () => {
+    const initials = derivedText('initials', {
+      expression: 'first_name[0] + last_name_x',
+      storage: 'client'
+    });
+
+    expect(derivedNeeds(initials, [firstName, bio, initials])).toEqual(['first_name']);
+    expect(
+      derivedNeeds(derivedText('x', { expression: 'f()', needs: ['bio'] }), [bio])
+    ).toEqual(['bio']);
+  });
+});
+
+describe('markGeneratedColumns', () => {
+  it('turns the column into a database-generated one', () => {
+    const table: PrismaModel = {
+      name: 'Author',
+      map: 'authors',
+      fields: [{ name: 'full_name', type: 'String', default: 'x', attributes: ['@db.VarChar(100)'] }]
+    };
+    const fullName = derivedText('full_name', { expression: "first_name || '!'" });
+
+    const columns = markGeneratedColumns('author', [table], [fullName], {
+      i18nEnabled: false,
+      provider: 'postgresql'
+    });
+
+    expect(table.fields[0]).toEqual({
+      name: 'full_name',
+      type: 'String',
+      optional: true,
+      attributes: ['@db.VarChar(100)', '@default(dbgenerated())']
+    });
+    expect(columns).toEqual([
+      {
+        source: 'author.full_name',
+        table: 'authors',
+        column: 'full_name',
+        sqlType: 'VARCHAR(100)',
+        expression: "first_name || '!'"
+      }
+    ]);
+  });
+});
+
+describe('buildGeneratedColumnsSql', () => {
+  const column = {
+    source: 'author.full_name',
+    table: 'authors',
+    column: 'full_name',
+    sqlType: 'VARCHAR(191)',
+    expression: "CONCAT(first_name, '!')"
+  };
+
+  it('replaces the column with a generated one', () => {
+    expect(buildGeneratedColumnsSql([column], 'mysql')).toContain(
+      [
+        '-- author.full_name',
+        'ALTER TABLE `authors` DROP COLUMN `full_name`;',
+        "ALTER TABLE `authors` ADD COLUMN `full_name` VARCHAR(191) GENERATED ALWAYS AS (CONCAT(first_name, '!')) STORED;"
+      ].join('\n')
+    );
+  });
+
+  it('adds VIRTUAL columns on SQLite', () => {
+    expect(buildGeneratedColumnsSql([column], 'sqlite')).toContain(') VIRTUAL;');
+  });
+});
+
+describe('buildDerivedExtension', () => {
+  it('adds result fields per model', () => {
+    const source = buildDerivedExtension(
+      [
+        { model: 'AuthorTranslation', key: 'words', needs: ['bio'], expression: 'bio.split(" ").length' },
+        { model: 'Author', key: 'now', needs: [], expression: 'Date.now()' }
+      ],
+      '@prisma/client'
+    );
+
+    expect(source).toContain("import { Prisma } from '@prisma/client';");
+    expect(source).toContain(
+      [
+        '    authorTranslation: {',
+        '      words: {',
+        '        needs: { bio: true },',
+        '        compute: ({ bio }) => (bio.split(" ").length),',
+        '      },',
+        '    },'
+      ].join('\n')
+    );
+    expect(source).toContain('        needs: {},\n        compute: () => (Date.now()),');
+  });
+});
@@ -0,0 +1,97 @@
+// tests/mappers/enum-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import type { FieldDefinitionType } from '../../src/field-config-schema';
+import {
+  buildEnumName,
+  buildEnumValues,
+  buildSelectEnum,
+  toEnumValueName,
+  usesNativeEnum
+} from '../../src/mappers/enum-mapper';
+
+const status: FieldDefinitionType = {
+  key: 'status',
+  label: 'Status',
+  type: 'select',
+  required: true,
+  config: {
+    type: 'select',
+    options: ['draft', { value: 'in-review', label: 'In review' }, '2024'],
+    default: 'in-review'
+  }
+};
+
+const postgres = { convention: 'PascalCase' as const, provider: 'postgresql' as const };
+
+describe('usesNativeEnum', () => {
+  it('applies to single selects outside SQLite', () => {
+    expect(usesNativeEnum(status, postgres)).toBe(true);
+    expect(usesNativeEnum(status, { ...postgres, provider: 'mysql' })).toBe(true);
+    expect(usesNativeEnum(status, { ...postgres, provider: 'sqlite' })).toBe(false);
+    expect(usesNativeEnum(status, { convention: 'PascalCase' })).toBe(false);
+  });
+
+  it('applies to multi-selects only where they are stored as lists', () => {
+    const tags: FieldDefinitionType = {
+      ...status,
+      config: { type: 'select', options: ['a', 'b'], multiple: true }
+    };
+
+    expect(usesNativeEnum(tags, postgres)).toBe(true);
+    expect(usesNativeEnum(tags, { ...postgres, provider: 'mysql' })).toBe(false);
+    expect(usesNativeEnum(tags, { ...postgres, provider: 'sqlite' })).toBe(false);
+  });
+});
+
+describe('buildEnumName', () => {
+  it('follows the naming convention', () => {
+    expect(buildEnumName('BlogPost', 'status', postgres)).toBe('BlogPostStatus');
+    expect(buildEnumName('BlogPost', 'review_state', postgres)).toBe('BlogPostReviewState');
+    expect(buildEnumName('blog_post', 'status', { convention: 'snake_case' })).toBe('blog_post_status');
+  });
+});
+
+describe('buildEnumValues', () => {
+  it('maps option values that are not identifiers', () => {
+    expect(buildEnumValues(['draft', 'in-review', '2024', '!!!'])).toEqual([
+      { name: 'draft' },
+      { name: 'in_review', map: 'in-review' },
+      { name: 'value_2024', map: '2024' },
+      { name: 'value', map: '!!!' }
+    ]);
+  });
+
+  it('keeps renamed values unique', () => {
+    expect(buildEnumValues(['a-b', 'a_b', 'a b'])).toEqual([
+      { name: 'a_b', map: 'a-b' },
+      { name: 'a_b_2', map: 'a_b' },
+      { name: 'a_b_3', map: 'a b' }
+    ]);
+  });
+});
+
+describe('buildSelectEnum', () => {
+  it('builds the enum for a select field', () => {
+    expect(buildSelectEnum('Post', status, postgres)).toEqual({
+      name: 'PostStatus',
+      values: [
+        { name: 'draft' },
+        { name: 'in_review', map: 'in-review' },
+        { name: 'value_2024', map: '2024' }
+      ]
+    });
+  });
+
+  it('returns null for SQLite', () => {
+    expect(buildSelectEnum('Post', status, { convention: 'PascalCase', provider: 'sqlite' })).toBeNull();
+  });
+});
+
+describe('toEnumValueName', () => {
+  it('resolves stored values to enum value names', () => {
+    expect(toEnumValueName(status, 'in-review')).toBe('in_review');
+    expect(toEnumValueName(status, 'draft')).toBe('draft');
+    expect(toEnumValueName(status, 'archived')).toBeUndefined();
+  });
+});
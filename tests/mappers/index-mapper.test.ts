@@ -0,0 +1,130 @@
+// tests/mappers/index-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  applyModelIndexes,
+  checkModelIndexes,
+  indexColumn
+} from '../../src/mappers/index-mapper';
+import type { FieldDefinitionType, ModelConfigType } from '../../src/field-config-schema';
+import type { PrismaModel } from '../../src/utils/prisma-ast';
+
+const config = { convention: 'PascalCase' as const, i18nEnabled: true, provider: 'postgresql' as const };
+
+const fields: FieldDefinitionType[] = [
+  { key: 'slug', label: 'Slug', type: 'text', required: true, unique: true },
+  { key: 'sku', label: 'SKU', type: 'text', required: true, translatable: false, unique: true, indexed: true },
+  { key: 'status', label: 'Status', type: 'text', required: false, translatable: false },
+  {
+    key: 'author', label: 'Author', type: 'relation', required: false,
+    config: { type: 'relation', relationType: 'manyToOne', targetModel: 'author', displayField: 'name', cascade: 'restrict' }
+  },
+  {
+    key: 'tags', label: 'Tags', type: 'relation', required: false, indexed: true,
+    config: { type: 'relation', relationType: 'manyToMany', targetModel: 'tag', displayField: 'name', cascade: 'restrict' }
+  }
+];
+
+const model = (settings: ModelConfigType['settings'] = {}): ModelConfigType => ({
+  slug: 'post',
+  name: 'Post',
+  fields,
+  settings
+});
+
+const tables = (): [PrismaModel, PrismaModel] => [
+  {
+    name: 'Post',
+    fields: [
+      { name: 'sku', type: 'String' },
+      { name: 'status', type: 'String', optional: true },
+      { name: 'author_id', type: 'String', optional: true }
+    ]
+  },
+  { name: 'PostTranslation', fields: [{ name: 'slug', type: 'String' }], unique: [['post_id', 'lang']] }
+];
+
+describe('indexColumn', () => {
+  it('indexes to-one relations on their foreign key', () => {
+    expect(indexColumn(fields[3]!, config)).toBe('author_id');
+    expect(indexColumn(fields[0]!, config)).toBe('slug');
+  });
+
+  it('is undefined for fields without a column', () => {
+    expect(indexColumn(fields[4]!, config)).toBeUndefined();
+  });
+});
+
+describe('applyModelIndexes', () => {
+  it('writes field flags on the model and the translation table', () => {
+    const [main, translation] = tables();
+    applyModelIndexes(model(), main, translation, config);
+
+    expect(main.fields[0]!.attributes).toEqual(['@unique']);
+    expect(main.indexes).toEqual([['sku']]);
+    expect(translation.unique).toEqual([['post_id', 'lang'], ['post_id', 'lang', 'slug']]);
+  });
+
+  it('writes composite and named indexes from settings', () => {
+    const [main, translation] = tables();
+    applyModelIndexes(
+      model({
+        indexes: [
+          { fields: ['status', { field: 'created_at', sort: 'desc' }], name: 'post_feed_idx', type: 'BTree' },
+          { fields: ['lang', 'slug'] }
+        ],
+        unique: [{ fields: ['author', 'sku'] }]
+      }),
+      main,
+      translation,
+      config
+    );
+
+    expect(main.indexes).toContainEqual({
+      fields: ['status', 'created_at(sort: Desc)'],
+      map: 'post_feed_idx',
+      type: 'BTree'
+    });
+    expect(main.unique).toEqual([['author_id', 'sku']]);
+    expect(translation.indexes).toEqual([['lang', 'slug']]);
+  });
+
+  it('leaves out index types outside PostgreSQL', () => {
+    const [main, translation] = tables();
+    applyModelIndexes(
+      model({ indexes: [{ fields: ['status'], type: 'Hash' }] }),
+      main,
+      translation,
+      { ...config, provider: 'mysql' }
+    );
+
+    expect(main.indexes).toContainEqual(['status']);
+  });
+});
+
+describe('checkModelIndexes', () => {
+  it('reports indexes that are not written', () => {
+    const problems = checkModelIndexes(
+      model({
+        indexes: [{ fields: ['slug', 'status'] }, { fields: ['missing'] }, { fields: ['status'], type: 'Gin' }]
+      }),
+      { ...config, provider: 'sqlite' }
+    );
+
+    expect(problems).toEqual([
+      'Index on field "tags" in model "post" is not written: the field has no column on the model',
+      'Index settings.indexes[0] of model "post" is not written: translatable fields are stored in the translation table, other fields on the model',
+      'Index settings.indexes[1] of model "post" is not written: "missing" is not a field',
+      'Index settings.indexes[2] of model "post" is written without type Gin: index types are PostgreSQL only'
+    ]);
+  });
+
+  it('accepts lang only when the model has a translation table', () => {
+    const settings = { indexes: [{ fields: ['lang'] }] };
+
+    expect(checkModelIndexes(model(settings), config)).toHaveLength(1); // tags
+    expect(checkModelIndexes(model(settings), { ...config, i18nEnabled: false })).toContain(
+      'Index settings.indexes[0] of model "post" is not written: "lang" is not a field'
+    );
+  });
+});
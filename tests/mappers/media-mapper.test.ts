@@ -0,0 +1,97 @@
+// tests/mappers/media-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildMediaJunctionTable,
+  mapMediaUsages,
+  resolveMediaJunction,
+  resolveMediaModel,
+} from '../../src/mappers/media-mapper';
+import type { FieldDefinitionType } from '../../src/field-config-schema';
+import type { PrismaModel } from '../../src/utils/prisma-ast';
+
+const gallery: FieldDefinitionType = {
+  key: 'gallery',
+  label: 'Gallery',
+  type: 'media',
+  required: false,
+  config: { type: 'media', multiple: true }
+};
+
+const asset: PrismaModel = {
+  name: 'Asset',
+  fields: [
+    { name: 'uuid', type: 'String', attributes: ['@id', '@default(uuid())', '@db.Uuid'] },
+    { name: 'url', type: 'String' }
+  ]
+};
+
+describe('resolveMediaModel', () => {
+  it('uses the @id field of the configured model', () => {
+    expect(resolveMediaModel([asset], { model: 'Asset' })).toEqual({
+      name: 'Asset',
+      primaryKey: 'uuid',
+      keyType: 'String',
+      keyAttributes: ['@db.Uuid']
+    });
+  });
+
+  it('is undefined without the model and throws for an unknown key', () => {
+    expect(resolveMediaModel([asset])).toBeUndefined();
+    expect(() => resolveMediaModel([asset], { model: 'Asset', primaryKey: 'id' })).toThrow(
+      'Media primary key "id" is not a field of model "Asset"'
+    );
+  });
+});
+
+describe('buildMediaJunctionTable', () => {
+  const config = {
+    convention: 'PascalCase' as const,
+    media: { name: 'Asset', primaryKey: 'uuid', keyType: 'String', keyAttributes: ['@db.Uuid'] }
+  };
+
+  it('builds an ordered junction with usage metadata', () => {
+    const table = buildMediaJunctionTable('Post', gallery, config);
+
+    expect(table.name).toBe('PostGalleryMedia');
+    expect(table.fields.map((f) => f.name)).toEqual([
+      'id', 'post_id', 'media_id', 'order', 'alt',
+      'crop_x', 'crop_y', 'crop_width', 'crop_height', 'focal_x', 'focal_y',
+      'created_at', 'post', 'media'
+    ]);
+    expect(table.fields.find((f) => f.name === 'media_id')).toMatchObject({
+      type: 'String',
+      attributes: ['@db.Uuid']
+    });
+    expect(table.fields.find((f) => f.name === 'media')?.relation).toEqual({
+      fields: ['media_id'],
+      references: ['uuid'],
+      onDelete: 'Cascade'
+    });
+    expect(table.indexes).toEqual([['post_id', 'order'], ['media_id']]);
+  });
+
+  it('follows the naming convention', () => {
+    expect(resolveMediaJunction('Post', 'gallery', { convention: 'snake_case' }).tableName).toBe(
+      'post_gallery_media'
+    );
+  });
+});
+
+describe('mapMediaUsages', () => {
+  const media = { name: 'Media', primaryKey: 'id', keyType: 'BigInt' };
+
+  it('maps items to ordered rows', () => {
+    expect(mapMediaUsages(gallery, ['1', { id: '2', alt: 'Two', focal: { x: 0.2 } }], media)).toEqual([
+      { media_id: 1n, order: 0 },
+      { media_id: 2n, order: 1, alt: 'Two', focal_x: 0.2 }
+    ]);
+    expect(mapMediaUsages(gallery, null, media)).toEqual([]);
+  });
+
+  it('throws for items without an id', () => {
+    expect(() => mapMediaUsages(gallery, [{ url: '/a.png' }], media)).toThrow(
+      'Cannot read media id from {"url":"/a.png"} for field "gallery"'
+    );
+  });
+});
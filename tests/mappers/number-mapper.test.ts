@@ -0,0 +1,58 @@
+// tests/mappers/number-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import {
+  decimalNativeType,
+  decimalScale,
+  numberColumnType
+} from '../../src/mappers/number-mapper';
+import { parseField, type FieldConfigInput } from '../test-helpers';
+
+const number = (config: FieldConfigInput<'number'> = {}) =>
+  parseField({
+    key: 'price',
+    label: 'Price',
+    type: 'number',
+    required: false,
+    config: { ...config, type: 'number' }
+  });
+
+describe('numberColumnType', () => {
+  it('maps number formats to column types', () => {
+    expect(numberColumnType(number({ format: 'integer' }))).toBe('Int');
+    expect(numberColumnType(number({ format: 'bigint' }))).toBe('BigInt');
+    expect(numberColumnType(number({ format: 'currency' }))).toBe('Decimal');
+    expect(numberColumnType(number({ format: 'percentage' }))).toBe('Float');
+    expect(numberColumnType(number())).toBe('Float');
+  });
+});
+
+describe('decimalScale', () => {
+  it('prefers scale, then the decimals of step, then 2', () => {
+    expect(decimalScale(number({ scale: 4, step: 0.1 }))).toBe(4);
+    expect(decimalScale(number({ step: 0.001 }))).toBe(3);
+    expect(decimalScale(number({ step: 1e-7 }))).toBe(7);
+    expect(decimalScale(number({ step: 5 }))).toBe(0);
+    expect(decimalScale(number())).toBe(2);
+  });
+});
+
+describe('decimalNativeType', () => {
+  it('writes precision and scale for currency on PostgreSQL and MySQL', () => {
+    const price = number({ format: 'currency', precision: 12, step: 0.01 });
+
+    expect(decimalNativeType(price, { provider: 'postgresql' })).toBe('@db.Decimal(12, 2)');
+    expect(decimalNativeType(price, { provider: 'mysql' })).toBe('@db.Decimal(12, 2)');
+    expect(decimalNativeType(number({ format: 'currency' }), { provider: 'mysql' })).toBe('@db.Decimal(10, 2)');
+  });
+
+  it('is omitted on SQLite and for other formats', () => {
+    expect(decimalNativeType(number({ format: 'currency' }), { provider: 'sqlite' })).toBeUndefined();
+    expect(decimalNativeType(number({ format: 'integer' }), { provider: 'postgresql' })).toBeUndefined();
+  });
+
+  it('keeps precision at least as large as scale', () => {
+    expect(decimalNativeType(number({ format: 'currency', precision: 2, scale: 4 }), { provider: 'postgresql' }))
+      .toBe('@db.Decimal(4, 4)');
+  });
+});
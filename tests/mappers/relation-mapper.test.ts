@@ -2,8 +2,13 @@
 
 import { describe, it, expect } from 'vitest';
 import { SchemaBuilderConfig } from '../../src/core/schema-builder';
-import { FieldDefinitionType } from '../../src/field-config-schema';
-import { needsJunctionTable, buildJunctionTable } from '../../src/mappers/relation-mapper';
+import { FieldDefinitionType, ModelConfigType } from '../../src/field-config-schema';
+import {
+  needsJunctionTable,
+  buildJunctionTable,
+  findReversedJunctions,
+  resolveJunction
+} from '../../src/mappers/relation-mapper';
 
 // FIXED: Changed to PascalCase
 const baseConfig: SchemaBuilderConfig = {
@@ -204,4 +209,29 @@ describe('buildJunctionTable', () => {
       ])
     );
   });
-});
\ No newline at end of file
+});
+
+describe('findReversedJunctions', () => {
+  const manyToMany = (key: string, targetModel: string): FieldDefinitionType => ({
+    key,
+    label: key,
+    type: 'relation',
+    required: false,
+    config: { type: 'relation', relationType: 'manyToMany', targetModel, displayField: 'id' }
+  });
+
+  it('names the junction table of a relation on both sides from the first model', () => {
+    const models: ModelConfigType[] = [
+      { slug: 'post', name: 'Post', fields: [manyToMany('tags', 'tag'), manyToMany('related', 'post')] },
+      { slug: 'tag', name: 'Tag', fields: [manyToMany('posts', 'post')] }
+    ];
+    const reversedJunctions = findReversedJunctions(models, baseConfig);
+
+    expect(reversedJunctions).toEqual(new Set(['Tag|Post']));
+    expect(resolveJunction('Tag', manyToMany('posts', 'post'), { ...baseConfig, reversedJunctions })).toMatchObject({
+      tableName: 'PostTag',
+      fromFk: 'tag_id',
+      toFk: 'post_id'
+    });
+  });
+});
@@ -0,0 +1,71 @@
+// tests/mappers/select-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import type { FieldDefinitionType } from '../../src/field-config-schema';
+import {
+  buildSelectValueTable,
+  buildSelectValueTables,
+  multiSelectStorage
+} from '../../src/mappers/select-mapper';
+
+const tags: FieldDefinitionType = {
+  key: 'tags',
+  label: 'Tags',
+  type: 'select',
+  required: false,
+  config: { type: 'select', options: ['news', 'tech'], multiple: true }
+};
+
+const sqlite = { convention: 'PascalCase' as const, provider: 'sqlite' as const };
+
+describe('multiSelectStorage', () => {
+  it('follows the datasource provider', () => {
+    expect(multiSelectStorage({ ...sqlite, provider: 'postgresql' })).toBe('list');
+    expect(multiSelectStorage({ ...sqlite, provider: 'mysql' })).toBe('json');
+    expect(multiSelectStorage(sqlite)).toBe('table');
+    expect(multiSelectStorage({ convention: 'PascalCase' })).toBe('table');
+  });
+});
+
+describe('buildSelectValueTable', () => {
+  it('builds a child table with one row per value', () => {
+    const table = buildSelectValueTable('Post', tags, sqlite);
+
+    expect(table.name).toBe('PostTagsValue');
+    expect(table.fields.map((f) => f.name)).toEqual(['id', 'post_id', 'value', 'order', 'post']);
+    expect(table.fields[4]).toMatchObject({
+      type: 'Post',
+      relation: { fields: ['post_id'], references: ['id'], onDelete: 'Cascade' }
+    });
+    expect(table.unique).toEqual([['post_id', 'value']]);
+  });
+
+  it('points at the owner table when it differs from the naming model', () => {
+    const table = buildSelectValueTable('Post', tags, sqlite, 'PostTranslation');
+
+    expect(table.name).toBe('PostTagsValue');
+    expect(table.fields[1]!.name).toBe('post_translation_id');
+    expect(table.fields[4]!.type).toBe('PostTranslation');
+  });
+
+  it('uses snake_case names', () => {
+    const table = buildSelectValueTable('blog_post', tags, { ...sqlite, convention: 'snake_case' });
+
+    expect(table.name).toBe('blog_post_tags_value');
+  });
+});
+
+describe('buildSelectValueTables', () => {
+  it('only builds tables for multi-selects on SQLite', () => {
+    const status: FieldDefinitionType = {
+      ...tags,
+      key: 'status',
+      config: { type: 'select', options: ['draft'] }
+    };
+
+    expect(buildSelectValueTables('Post', [tags, status], sqlite).map((t) => t.name)).toEqual([
+      'PostTagsValue'
+    ]);
+    expect(buildSelectValueTables('Post', [tags], { ...sqlite, provider: 'postgresql' })).toEqual([]);
+  });
+});
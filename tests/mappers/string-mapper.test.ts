@@ -0,0 +1,65 @@
+// tests/mappers/string-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { stringNativeType } from '../../src/mappers/string-mapper';
+import type { FieldValidationType } from '../../src/field-config-schema';
+import { parseField, type FieldConfigInput } from '../test-helpers';
+
+const text = (config: FieldConfigInput<'text'> = {}, validation?: FieldValidationType) =>
+  parseField({
+    key: 'title',
+    label: 'Title',
+    type: 'text',
+    required: false,
+    validation,
+    config: { ...config, type: 'text' }
+  });
+
+const rich = (config: FieldConfigInput<'rich'> = {}) =>
+  parseField({
+    key: 'body',
+    label: 'Body',
+    type: 'rich',
+    required: false,
+    config: { ...config, type: 'rich' }
+  });
+
+describe('stringNativeType', () => {
+  it('bounds maxLength as VarChar', () => {
+    const title = text({}, { maxLength: 300 });
+
+    expect(stringNativeType(title, { provider: 'mysql' })).toBe('@db.VarChar(300)');
+    expect(stringNativeType(title, { provider: 'postgresql' })).toBe('@db.VarChar(300)');
+  });
+
+  it('uses MySQL text types for long and multiline text', () => {
+    const provider = 'mysql';
+
+    expect(stringNativeType(text({ multiline: true }), { provider })).toBe('@db.Text');
+    expect(stringNativeType(text({}, { maxLength: 20_000 }), { provider })).toBe('@db.MediumText');
+    expect(stringNativeType(text({}, { maxLength: 10_000_000 }), { provider })).toBe('@db.LongText');
+    expect(stringNativeType(rich(), { provider })).toBe('@db.LongText');
+    expect(stringNativeType(text(), { provider })).toBeUndefined();
+  });
+
+  it('keeps PostgreSQL text columns without a hint', () => {
+    expect(stringNativeType(text({ multiline: true }), { provider: 'postgresql' })).toBeUndefined();
+    expect(stringNativeType(rich(), { provider: 'postgresql' })).toBeUndefined();
+  });
+
+  it('prefers the per-provider override', () => {
+    const field = text({ nativeType: { mysql: 'TinyText', postgresql: '@db.Char(2)' } }, { maxLength: 10 });
+
+    expect(stringNativeType(field, { provider: 'mysql' })).toBe('@db.TinyText');
+    expect(stringNativeType(field, { provider: 'postgresql' })).toBe('@db.Char(2)');
+    expect(stringNativeType(rich({ nativeType: { mysql: 'MediumText' } }), { provider: 'mysql' }))
+      .toBe('@db.MediumText');
+  });
+
+  it('is omitted on SQLite', () => {
+    const field = text({ nativeType: { mysql: 'TinyText' } }, { maxLength: 10 });
+
+    expect(stringNativeType(field, { provider: 'sqlite' })).toBeUndefined();
+    expect(stringNativeType(rich(), {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,231 @@
+// tests/mappers/value-mapper.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { FieldDefinitionType } from '../../src/field-config-schema';
+import { mapValueToColumns, extractReferenceIds, isList, typedFields } from '../../src/mappers/value-mapper';
+
+const config = { convention: 'PascalCase' as const };
+
+describe('mapValueToColumns', () => {
+  it('coerces scalar values to their column types', () => {
+    const number: FieldDefinitionType = { key: 'price', label: 'Price', type: 'number', required: false };
+    const flag: FieldDefinitionType = { key: 'active', label: 'Active', type: 'boolean', required: false };
+    const date: FieldDefinitionType = { key: 'published_at', label: 'Published', type: 'date', required: false };
+
+    expect(mapValueToColumns(number, '9.5', config)).toEqual({ price: 9.5 });
+    expect(mapValueToColumns(flag, 0, config)).toEqual({ active: false });
+    expect(mapValueToColumns(date, '2025-01-02T00:00:00Z', config)).toEqual({
+      published_at: new Date('2025-01-02T00:00:00Z')
+    });
+  });
+
+  it('rejects non-integer values for integer numbers', () => {
+    const field: FieldDefinitionType = {
+      key: 'count',
+      label: 'Count',
+      type: 'number',
+      required: false,
+      config: { type: 'number', format: 'integer' }
+    };
+
+    expect(() => mapValueToColumns(field, 1.5, config)).toThrow(/to Int for field "count"/);
+  });
+
+  it('validates select options', () => {
+    const field: FieldDefinitionType = {
+      key: 'status',
+      label: 'Status',
+      type: 'select',
+      required: true,
+      config: { type: 'select', options: ['draft', { value: 'published', label: 'Published' }] }
+    };
+
+    expect(mapValueToColumns(field, 'published', config)).toEqual({ status: 'published' });
+    expect(() => mapValueToColumns(field, 'archived', config)).toThrow(/Unknown option "archived"/);
+  });
+
+  it('writes enum value names for native enum selects', () => {
+    const field: FieldDefinitionType = {
+      key: 'status',
+      label: 'Status',
+      type: 'select',
+      required: true,
+      config: { type: 'select', options: ['draft', 'in-review'] }
+    };
+
+    expect(mapValueToColumns(field, 'in-review', { ...config, provider: 'postgresql' })).toEqual({
+      status: 'in_review'
+    });
+    expect(mapValueToColumns(field, 'in-review', config)).toEqual({ status: 'in-review' });
+  });
+
+  it('stores multi-selects the way the provider does', () => {
+    const field: FieldDefinitionType = {
+      key: 'tags',
+      label: 'Tags',
+      type: 'select',
+      required: false,
+      config: { type: 'select', options: ['news', 'how-to'], multiple: true }
+    };
+
+    expect(mapValueToColumns(field, ['news', 'how-to'], { ...config, provider: 'postgresql' })).toEqual({
+      tags: ['news', 'how_to']
+    });
+    expect(mapValueToColumns(field, ['news', 'how-to'], { ...config, provider: 'mysql' })).toEqual({
+      tags: ['news', 'how-to']
+    });
+    expect(mapValueToColumns(field, ['news', 'how-to'], { ...config, provider: 'sqlite' })).toEqual({
+      tags: { create: [{ value: 'news', order: 0 }, { value: 'how-to', order: 1 }] }
+    });
+  });
+
+  it('serializes json values', () => {
+    const field: FieldDefinitionType = { key: 'meta', label: 'Meta', type: 'json', required: false };
+
+    expect(mapValueToColumns(field, { a: 1 }, config)).toEqual({ meta: '{"a":1}' });
+  });
+
+  it('coerces BigInt and Decimal values without losing precision', () => {
+    const views: FieldDefinitionType = {
+      key: 'views', label: 'Views', type: 'number', required: false,
+      config: { type: 'number', format: 'bigint' }
+    };
+    const price: FieldDefinitionType = {
+      key: 'price', label: 'Price', type: 'number', required: false,
+      config: { type: 'number', format: 'currency' }
+    };
+
+    expect(mapValueToColumns(views, '9007199254740993', config)).toEqual({ views: 9007199254740993n });
+    expect(mapValueToColumns(views, 42, config)).toEqual({ views: 42n });
+    expect(() => mapValueToColumns(views, 1.5, config)).toThrow('Cannot coerce 1.5 to BigInt for field "views"');
+    expect(mapValueToColumns(price, '19.990', config)).toEqual({ price: '19.990' });
+    expect(mapValueToColumns(price, 19.99, config)).toEqual({ price: 19.99 });
+    expect(() => mapValueToColumns(price, 'free', config)).toThrow('Cannot coerce "free" to number');
+  });
+
+  it('stores times of day on 1970-01-01', () => {
+    const field: FieldDefinitionType = {
+      key: 'opens_at', label: 'Opens at', type: 'date', required: false,
+      config: { type: 'date', format: 'time' }
+    };
+
+    expect(mapValueToColumns(field, '09:30', config)).toEqual({
+      opens_at: new Date('1970-01-01T09:30:00Z')
+    });
+    expect(() => mapValueToColumns(field, '9am', config)).toThrow('to DateTime for field "opens_at"');
+  });
+
+  it('passes parsed json values to Json columns', () => {
+    const field: FieldDefinitionType = { key: 'meta', label: 'Meta', type: 'json', required: false };
+    const postgres = { ...config, provider: 'postgresql' as const };
+
+    expect(mapValueToColumns(field, { a: 1 }, postgres)).toEqual({ meta: { a: 1 } });
+    expect(mapValueToColumns(field, '[1,2]', postgres)).toEqual({ meta: [1, 2] });
+    expect(() => mapValueToColumns(field, '{oops', postgres)).toThrow(
+      'Cannot coerce "{oops" to Json for field "meta"'
+    );
+  });
+
+  it('maps media and to-one relations to their _id columns', () => {
+    const media: FieldDefinitionType = { key: 'cover', label: 'Cover', type: 'media', required: false };
+    const author: FieldDefinitionType = {
+      key: 'author',
+      label: 'Author',
+      type: 'relation',
+      required: false,
+      config: {
+        type: 'relation',
+        relationType: 'manyToOne',
+        targetModel: 'user',
+        displayField: 'name',
+        cascade: 'restrict'
+      }
+    };
+
+    expect(mapValueToColumns(media, { id: 'm1', url: '/a.png' }, config)).toEqual({ cover_id: 'm1' });
+    expect(mapValueToColumns(author, 'u1', config)).toEqual({ author_id: 'u1' });
+  });
+
+  it('leaves multiple media to junction rows when a media model exists', () => {
+    const field: FieldDefinitionType = {
+      key: 'gallery',
+      label: 'Gallery',
+      type: 'media',
+      required: false,
+      config: { type: 'media', multiple: true }
+    };
+    const media = { name: 'Media', primaryKey: 'id', keyType: 'String' };
+
+    expect(mapValueToColumns(field, ['m1', 'm2'], { ...config, media })).toEqual({});
+    expect(() => mapValueToColumns(field, ['m1'], config)).toThrow(/requires a media model/);
+  });
+
+  it('converts media ids to the media model key type', () => {
+    const field: FieldDefinitionType = { key: 'cover', label: 'Cover', type: 'media', required: false };
+    const media = { name: 'Asset', primaryKey: 'asset_id', keyType: 'Int' };
+
+    expect(mapValueToColumns(field, '42', { ...config, media })).toEqual({ cover_id: 42 });
+  });
+
+  it('throws for missing required values', () => {
+    const field: FieldDefinitionType = { key: 'title', label: 'Title', type: 'text', required: true };
+
+    expect(() => mapValueToColumns(field, undefined, config)).toThrow(/Missing value for required field "title"/);
+  });
+});
+
+describe('extractReferenceIds', () => {
+  it('reads ids from strings, objects and lists', () => {
+    expect(extractReferenceIds('a')).toEqual(['a']);
+    expect(extractReferenceIds([{ id: 1 }, 'b'])).toEqual(['1', 'b']);
+    expect(extractReferenceIds(null)).toEqual([]);
+  });
+});
+
+describe('typedFields', () => {
+  it('drops derived fields without an expression', () => {
+    const title: FieldDefinitionType = { key: 'title', label: 'Title', type: 'text', required: true };
+    const slug: FieldDefinitionType = { key: 'slug', label: 'Slug', type: 'text', required: false, derived: true };
+    const upper: FieldDefinitionType = {
+      key: 'upper',
+      label: 'Upper',
+      type: 'text',
+      required: false,
+      derived: { expression: 'upper(title)' }
+    };
+
+    expect(typedFields([title, slug, upper])).toEqual([title, upper]);
+  });
+});
+
+describe('isList', () => {
+  it('reads lists from multiple, to-many and repeatable configs', () => {
+    const tags: FieldDefinitionType = {
+      key: 'tags',
+      label: 'Tags',
+      type: 'relation',
+      required: false,
+      config: { type: 'relation', targetModel: 'tag', relationType: 'manyToMany' }
+    };
+    const author: FieldDefinitionType = {
+      key: 'author',
+      label: 'Author',
+      type: 'relation',
+      required: false,
+      config: { type: 'relation', targetModel: 'user', relationType: 'manyToOne' }
+    };
+    const gallery: FieldDefinitionType = {
+      key: 'gallery',
+      label: 'Gallery',
+      type: 'media',
+      required: false,
+      config: { type: 'media', multiple: true }
+    };
+    const title: FieldDefinitionType = { key: 'title', label: 'Title', type: 'text', required: true };
+
+    expect(isList(tags)).toBe(true);
+    expect(isList(author)).toBe(false);
+    expect(isList(gallery)).toBe(true);
+    expect(isList(title)).toBe(false);
+  });
+});
@@ -1,3 +1,10 @@
+import type { z } from 'zod';
+import {
+  FieldConfigSchema,
+  FieldDefinitionSchema,
+  type FieldDefinitionType
+} from '../src/field-config-schema';
+
 /**
  * Match a pattern in text with flexible whitespace
  * Converts single spaces to \s+ regex pattern
@@ -44,4 +51,18 @@ export function flexMatch(pattern: string): RegExp {
     .replace(/\s+/g, '\\s+');
   
   return new RegExp(regexPattern);
-}
\ No newline at end of file
+}
+
+/**
+ * Config of one field type as written in a model file, before defaults
+ */
+export type FieldConfigInput<T extends z.input<typeof FieldConfigSchema>['type']> = Partial<
+  Extract<z.input<typeof FieldConfigSchema>, { type: T }>
+>;
+
+/**
+ * Build a field definition the way the reader loads it: validated, with defaults
+ */
+export function parseField(definition: z.input<typeof FieldDefinitionSchema>): FieldDefinitionType {
+  return FieldDefinitionSchema.parse(definition);
+}
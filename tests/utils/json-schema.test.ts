@@ -0,0 +1,91 @@
+// tests/utils/json-schema.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { jsonSchemaToTs, jsonSchemaToZod, sampleJsonSchema, type JsonSchema } from '../../src/utils/json-schema';
+
+const seo: JsonSchema = {
+  type: 'object',
+  properties: {
+    title: { type: 'string', minLength: 1, maxLength: 60 },
+    'og:image': { type: 'string', format: 'uri' },
+    robots: { enum: ['index', 'noindex'] },
+    priority: { type: ['number', 'null'], minimum: 0, maximum: 1 }
+  },
+  required: ['title'],
+  additionalProperties: false
+};
+
+describe('jsonSchemaToZod', () => {
+  it('converts objects with required and optional properties', () => {
+    expect(jsonSchemaToZod(seo)).toBe(
+      'z.object({ title: z.string().min(1).max(60), ' +
+      '"og:image": z.string().url().optional(), ' +
+      'robots: z.enum(["index", "noindex"]).optional(), ' +
+      'priority: z.number().min(0).max(1).nullable().optional() }).strict()'
+    );
+  });
+
+  it('converts arrays, records and unions', () => {
+    expect(jsonSchemaToZod({ type: 'array', items: { type: 'integer' }, maxItems: 3 }))
+      .toBe('z.array(z.number().int()).max(3)');
+    expect(jsonSchemaToZod({ type: 'object', additionalProperties: { type: 'boolean' } }))
+      .toBe('z.record(z.string(), z.boolean())');
+    expect(jsonSchemaToZod({ anyOf: [{ type: 'string' }, { const: 1 }] }))
+      .toBe('z.union([z.string(), z.literal(1)])');
+  });
+
+  it('escapes slashes in patterns', () => {
+    expect(jsonSchemaToZod({ type: 'string', pattern: '^/blog/' }))
+      .toBe('z.string().regex(/^\\/blog\\//)');
+  });
+
+  it('falls back to unknown for schemas without a type', () => {
+    expect(jsonSchemaToZod({})).toBe('z.unknown()');
+    expect(jsonSchemaToZod(true)).toBe('z.unknown()');
+  });
+});
+
+describe('jsonSchemaToTs', () => {
+  it('converts objects with required and optional properties', () => {
+    expect(jsonSchemaToTs(seo)).toBe(
+      '{ title: string; "og:image"?: string; robots?: "index" | "noindex"; priority?: number | null }'
+    );
+  });
+
+  it('converts arrays, records, unions and intersections', () => {
+    expect(jsonSchemaToTs({ type: 'array', items: { anyOf: [{ type: 'string' }, { type: 'number' }] } }))
+      .toBe('Array<string | number>');
+    expect(jsonSchemaToTs({ type: 'object' })).toBe('Record<string, unknown>');
+    expect(jsonSchemaToTs({
+      allOf: [
+        { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+        { type: 'object', additionalProperties: { type: 'number' } }
+      ]
+    })).toBe('{ id: string } & Record<string, number>');
+    expect(jsonSchemaToTs({ type: 'string', nullable: true })).toBe('string | null');
+  });
+});
+
+describe('sampleJsonSchema', () => {
+  it('samples objects with all their properties', () => {
+    const value = sampleJsonSchema(seo, () => 0.5) as Record<string, unknown>;
+
+    expect(Object.keys(value)).toEqual(['title', 'og:image', 'robots', 'priority']);
+    expect((value.title as string).length).toBeGreaterThanOrEqual(1);
+    expect((value.title as string).length).toBeLessThanOrEqual(60);
+    expect(value['og:image']).toMatch(/^https:\/\/example\.com\//);
+    expect(['index', 'noindex']).toContain(value.robots);
+    expect(value.priority).toBeGreaterThanOrEqual(0);
+    expect(value.priority).toBeLessThanOrEqual(1);
+  });
+
+  it('samples consts, patterns and bounded arrays', () => {
+    expect(sampleJsonSchema({ const: 'v1' }, Math.random)).toBe('v1');
+    expect(sampleJsonSchema({ type: 'string', pattern: '^[a-z]{2}-\\d{2}$' }, Math.random)).toMatch(
+      /^[a-z]{2}-\d{2}$/
+    );
+    expect(
+      sampleJsonSchema({ type: 'array', items: { type: 'integer', minimum: 3, maximum: 3 }, minItems: 2 }, Math.random)
+    ).toEqual([3, 3]);
+  });
+});
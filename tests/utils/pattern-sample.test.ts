@@ -0,0 +1,44 @@
+// tests/utils/pattern-sample.test.ts
+
+import { describe, it, expect } from 'vitest';
+import { samplePattern } from '../../src/utils/pattern-sample';
+
+// Steps through [0, 1) so every branch gets picked
+function stepping(): () => number {
+  let value = 0;
+  return () => {
+    value = (value + 0.37) % 1;
+    return value;
+  };
+}
+
+describe('samplePattern', () => {
+  it.each([
+    '^[a-z0-9-]+$',
+    '^[A-Z]{2,4}-\\d{3}$',
+    '^(draft|live|archived)$',
+    '^(?:\\+\\d{1,3} )?\\d{3}-\\d{4}$',
+    '^[^\\s@]+@example\\.(com|org)$',
+    '^\\w{3,}\\.?$',
+    '^#[0-9a-fA-F]{6}$',
+  ])('samples strings matching /%s/', (pattern) => {
+    const random = stepping();
+
+    for (let i = 0; i < 20; i++) {
+      expect(samplePattern(pattern, random)).toMatch(new RegExp(pattern));
+    }
+  });
+
+  it('rejects back-references and lookarounds', () => {
+    expect(() => samplePattern('(a)\\1', Math.random)).toThrow(
+      'Cannot sample pattern /(a)\\1/: back-references are not supported'
+    );
+    expect(() => samplePattern('^(?!admin)\\w+$', Math.random)).toThrow('lookarounds are not supported');
+  });
+
+  it('reports unbalanced groups and classes', () => {
+    expect(() => samplePattern('(ab', Math.random)).toThrow('missing ")"');
+    expect(() => samplePattern('ab)', Math.random)).toThrow('unbalanced ")"');
+    expect(() => samplePattern('[ab', Math.random)).toThrow('missing "]"');
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractModelsFromString } from '../../src/utils/prisma-parser';
+import { extractEnumsFromString, extractModelsFromString } from '../../src/utils/prisma-parser';
 
 describe('prisma-parser', () => {
   it('should extract simple model', () => {
@@ -106,6 +106,26 @@ model Post {
     expect(models[0].map).toBe('posts');
   });
   
+  it('should extract index arguments', () => {
+    const schema = `
+model Post {
+  id           String @id
+  status       String
+  published_at DateTime
+
+  @@index([status, published_at(sort: Desc)], map: "post_feed_idx", type: BTree)
+  @@unique([status(sort: Asc), published_at])
+}
+    `.trim();
+
+    const models = extractModelsFromString(schema);
+
+    expect(models[0].indexes).toEqual([
+      { fields: ['status', 'published_at(sort: Desc)'], map: 'post_feed_idx', type: 'BTree' }
+    ]);
+    expect(models[0].unique).toEqual([['status(sort: Asc)', 'published_at']]);
+  });
+  
   it('should extract model with defaults', () => {
     const schema = `
 model User {
@@ -193,4 +213,66 @@ model User {
     
     expect(models[0].fields[1].map).toBe('first_name');
   });
-});
\ No newline at end of file
+  
+  it('should attach /// comments to the following field', () => {
+    const schema = `
+model User {
+  id    String @id
+  /// @zod.email()
+  email String
+  // regular comment
+  name  String
+}
+    `.trim();
+    
+    const models = extractModelsFromString(schema);
+    
+    expect(models[0].fields[1].documentation).toBe('@zod.email()');
+    expect(models[0].fields[2].documentation).toBeUndefined();
+  });
+  it('should skip braces in comments and strings when closing a model', () => {
+    const schema = `
+model Page {
+  id    String @id
+  /// @zod.custom.use(z.object({ title: z.string() }))
+  /// ![{ title: string }]
+  meta  Json?
+  // } not the end
+  label String @default("}")
+  slug  String
+}
+
+model Tag {
+  id String @id
+}
+    `;
+
+    const models = extractModelsFromString(schema);
+
+    expect(models.map((m) => m.name)).toEqual(['Page', 'Tag']);
+    expect(models[0]!.fields.map((f) => f.name)).toEqual(['id', 'meta', 'label', 'slug']);
+    expect(models[0]!.fields[1]!.documentation).toBe(
+      '@zod.custom.use(z.object({ title: z.string() }))\n![{ title: string }]'
+    );
+  });
+  it('should extract enums with mapped values', () => {
+    const schema = `
+model Post {
+  id     String     @id
+  status PostStatus @default(in_review)
+}
+
+enum PostStatus {
+  draft
+  // Stored with a dash
+  in_review @map("in-review")
+  @@map("post_status")
+}
+    `;
+
+    expect(extractEnumsFromString(schema)).toEqual([
+      { name: 'PostStatus', values: [{ name: 'draft' }, { name: 'in_review', map: 'in-review' }] }
+    ]);
+    expect(extractModelsFromString(schema).map((m) => m.name)).toEqual(['Post']);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { unifiedDiff } from "../../src/utils/text-diff";
+
+const lines = (count: number) =>
+  Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n") + "\n";
+
+describe("unifiedDiff", () => {
+  it("returns an empty string for equal texts", () => {
+    expect(unifiedDiff("a\nb\n", "a\nb\n")).toBe("");
+  });
+
+  it("writes hunks with three lines of context", () => {
+    const before = lines(10);
+    const after = before.replace("line 5\n", "line five\n");
+
+    expect(unifiedDiff(before, after, { fromFile: "old", toFile: "new" })).toBe(
+      [
+        "--- old",
+        "+++ new",
+        "@@ -2,7 +2,7 @@",
+        " line 2",
+        " line 3",
+        " line 4",
+        "-line 5",
+        "+line five",
+        " line 6",
+        " line 7",
+        " line 8",
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("splits distant changes into separate hunks", () => {
+    const before = lines(20);
+    const after = before.replace("line 2\n", "").replace("line 18\n", "line 18\nline 18b\n");
+    const diff = unifiedDiff(before, after);
+
+    expect(diff.match(/^@@ .* @@$/gm)).toEqual(["@@ -1,5 +1,4 @@", "@@ -16,5 +15,6 @@"]);
+  });
+
+  it("diffs against an empty text", () => {
+    expect(unifiedDiff("", "a\nb\n")).toBe("--- a\n+++ b\n@@ -1,0 +1,2 @@\n+a\n+b\n");
+  });
+});
@@ -1,9 +1,15 @@
 // tests/utils/zod-comments.test.ts
 
 import { describe, it, expect } from 'vitest';
-import { buildZodComment } from '../../src/utils/zod-comments';
+import { buildZodComment, parseZodComment } from '../../src/utils/zod-comments';
 
 describe('buildZodComment', () => {
+  it('writes bigint literals for BigInt columns', () => {
+    expect(buildZodComment({ min: 1.5, max: 100, int: true, positive: true }, 'BigInt'))
+      .toBe('/// @zod.min(2n).max(100n).positive()');
+    expect(buildZodComment({ min: 1.5, int: true }, 'Decimal')).toBe('/// @zod.min(1.5).int()');
+  });
+
   it('returns undefined for empty validation', () => {
     expect(buildZodComment()).toBeUndefined();
     expect(buildZodComment({})).toBeUndefined();
@@ -94,12 +100,58 @@ describe('buildZodComment', () => {
     ).toBe('/// @zod.custom("my-validator")');
   });
 
+  it('writes date bounds as Date literals', () => {
+    expect(buildZodComment({ minDate: '2024-01-01', maxDate: '2024-12-31T23:59:59Z' }))
+      .toBe('/// @zod.min(new Date("2024-01-01")).max(new Date("2024-12-31T23:59:59Z"))');
+  });
+
   it('handles array validations', () => {
     expect(
       buildZodComment({
         minItems: 1,
         maxItems: 10
       })
-    ).toBe('/// @zod.length(1).length(10)');
+    ).toBe('/// @zod.min(1).max(10)');
+  });
+});
+
+describe('parseZodComment', () => {
+  it('reads string lengths and patterns', () => {
+    expect(parseZodComment('@zod.email().min(5).max(50).regex(/^[a-z)]+$/)', 'string')).toEqual({
+      email: true,
+      minLength: 5,
+      maxLength: 50,
+      pattern: '^[a-z)]+$'
+    });
+  });
+
+  it('reads number bounds', () => {
+    expect(parseZodComment('/// @zod.min(0).max(100).int()', 'number')).toEqual({
+      min: 0,
+      max: 100,
+      int: true
+    });
+  });
+
+  it('reads date bounds', () => {
+    expect(parseZodComment('/// @zod.min(new Date("2024-01-01")).max(new Date("2024-12-31"))', 'number')).toEqual({
+      minDate: '2024-01-01',
+      maxDate: '2024-12-31'
+    });
+  });
+
+  it('reads item counts on lists', () => {
+    expect(parseZodComment('/// @zod.min(1).max(10)', 'list')).toEqual({ minItems: 1, maxItems: 10 });
+  });
+
+  it('keeps unknown calls as custom', () => {
+    expect(parseZodComment('@zod.trim().min(1)', 'string')).toEqual({
+      minLength: 1,
+      custom: 'trim()'
+    });
+  });
+
+  it('returns undefined without a zod annotation', () => {
+    expect(parseZodComment('Just a comment', 'string')).toBeUndefined();
   });
-});
\ No newline at end of file
+});